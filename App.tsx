@@ -1,18 +1,563 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Scene } from './components/Scene';
 import { Controls } from './components/Controls';
 import { AICopilot } from './components/AICopilot';
-import { JointState, INITIAL_JOINTS } from './types';
+import { Workbench } from './components/Workbench';
+import { ToolManager } from './components/ToolManager';
+import { ProgramEditor, PlaybackCommand } from './components/ProgramEditor';
+import { CollisionPanel } from './components/CollisionPanel';
+import { ReachPanel } from './components/ReachPanel';
+import { WorkcellPanel } from './components/WorkcellPanel';
+import { UserFrameManager } from './components/UserFrameManager';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PositionLibrary } from './components/PositionLibrary';
+import { CycleTimePanel } from './components/CycleTimePanel';
+import { PayloadPanel } from './components/PayloadPanel';
+import { BridgePanel, BridgeLogEntry } from './components/BridgePanel';
+import { LogReplayPanel, LogReplay } from './components/LogReplayPanel';
+import { EnvelopeMode } from './components/EnvelopeOverlay';
+import { GizmoSettings } from './components/WorkcellObjects';
+import { SceneRobot, SceneGhost } from './components/Scene';
+import {
+  JointState,
+  INITIAL_JOINTS,
+  ToolDefinition,
+  FLANGE_TOOL,
+  UserFrameDefinition,
+  BASE_FRAME,
+  JobProgram,
+  EMPTY_PROGRAM,
+  Workcell,
+  RobotInstance,
+  RobotDescription,
+  Pose,
+  NamedPosition,
+  Payload,
+} from './types';
+import { loadFromStorage, saveToStorage } from './utils/storage';
+import { createPosition, normalizePositions, DEFAULT_POSITIONS } from './utils/positionLibrary';
+import { normalizeWorkcell } from './utils/workcell';
+import { BUILT_IN_ROBOTS, findRobotDescription } from './utils/robotDescription';
+import {
+  createMotionPlanner,
+  planMove,
+  MoveRequest,
+  MotionPlan,
+  MotionPlanner,
+  MotionProgress,
+  MotionProfile,
+  MotionResult,
+} from './utils/motion';
+import { computeReachEnvelope } from './utils/workspace';
+import { checkWristLoad, combineLoads } from './utils/payload';
+import { appendJointLogSample, checkJointLog, jointLogAt, jointLogDuration, jointLogPath, sampleIndexAt, JointLogSample } from './utils/jointLog';
+import { executeBridgeCommand, bridgeStateSnapshot, BridgeContext } from './utils/bridgeCommands';
+import {
+  createJointHistory,
+  pushJointHistory,
+  seekJointHistory,
+  JointChangeSource,
+  JointHistory,
+} from './utils/jointHistory';
+import { CopilotProviderSettings } from './services/copilotProvider';
+import { DEFAULT_PROVIDER_SETTINGS } from './services/copilotService';
+import {
+  connectControllerBridge,
+  BridgeConnection,
+  BridgeStatus,
+  DEFAULT_BRIDGE_URL,
+  BRIDGE_LOG_LIMIT,
+  BRIDGE_STATE_INTERVAL_MS,
+} from './services/controllerBridge';
+import {
+  checkCollisions,
+  checkTrajectoryCollisions,
+  collidingBodyIds,
+  formatCollisionPair,
+  CollisionOptions,
+  CollisionPair,
+} from './utils/collision';
+import { Wrench, ListOrdered, ShieldAlert, Orbit, Factory, Axis3d, Bot, Play, Square, Ruler, History, MapPin, Timer, Weight, Cable, FileClock } from 'lucide-react';
+
+// Inputs with their own text undo (Ctrl+Z there edits the text, not the robot)
+const TEXT_INPUT_TYPES = ['text', 'number', 'search', 'email', 'password', 'url', 'tel'];
 
 const App: React.FC = () => {
-  const [joints, setJoints] = useState<JointState>(INITIAL_JOINTS);
+  // Tool Library (Persisted, shared by every robot)
+  const [tools, setTools] = useState<ToolDefinition[]>(() => loadFromStorage('tools', [FLANGE_TOOL]));
+  useEffect(() => saveToStorage('tools', tools), [tools]);
+  const toolOf = useCallback((robot: RobotInstance) => tools.find(t => t.id === robot.toolId) ?? FLANGE_TOOL, [tools]);
+
+  // Robot Models (Built-in descriptions + imported JSON / URDF, persisted)
+  const [customModels, setCustomModels] = useState<RobotDescription[]>(() => loadFromStorage('robotModels', []));
+  useEffect(() => saveToStorage('robotModels', customModels), [customModels]);
+  const models = useMemo(() => [...BUILT_IN_ROBOTS, ...customModels], [customModels]);
+  const descriptionOf = useCallback((robot: RobotInstance) => findRobotDescription(models, robot.modelId), [models]);
+
+  // User Frames (Persisted)
+  const [userFrames, setUserFrames] = useState<UserFrameDefinition[]>(() => loadFromStorage('userFrames', [BASE_FRAME]));
+  const [activeFrameId, setActiveFrameId] = useState<string>(() => loadFromStorage('activeFrameId', BASE_FRAME.id));
+  const activeFrame = userFrames.find(f => f.id === activeFrameId) ?? BASE_FRAME;
+
+  useEffect(() => saveToStorage('userFrames', userFrames), [userFrames]);
+  useEffect(() => saveToStorage('activeFrameId', activeFrameId), [activeFrameId]);
+
+  // Workcell (Persisted, migrates the single-robot job / tool / obstacles of older releases)
+  const [workcell, setWorkcell] = useState<Workcell>(() =>
+    normalizeWorkcell(loadFromStorage('workcell', null), {
+      obstacles: loadFromStorage('obstacles', []),
+      program: loadFromStorage('program', EMPTY_PROGRAM),
+      toolId: loadFromStorage('activeToolId', FLANGE_TOOL.id),
+    })
+  );
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  const [gizmo, setGizmo] = useState<GizmoSettings>({ mode: 'translate', translationSnap: 50, rotationSnap: 15 });
+
+  useEffect(() => saveToStorage('workcell', workcell), [workcell]);
+
+  const handleObjectPoseChange = useCallback((id: string, pose: Pose) => {
+    setWorkcell(prev => ({ ...prev, objects: prev.objects.map(o => (o.id === id ? { ...o, pose } : o)) }));
+  }, []);
+
+  // Robots (Controls, Copilot, Tools and the program editor act on the selected one)
+  const robots = workcell.robots;
+  const [selectedRobotId, setSelectedRobotId] = useState<string>(() => robots[0].id);
+  const robot = robots.find(r => r.id === selectedRobotId) ?? robots[0];
+  const activeTool = toolOf(robot);
+  const description = descriptionOf(robot);
+
+  const updateRobot = useCallback((id: string, updater: (robot: RobotInstance) => RobotInstance) => {
+    setWorkcell(prev => ({ ...prev, robots: prev.robots.map(r => (r.id === id ? updater(r) : r)) }));
+  }, []);
+
+  const setActiveToolId = (toolId: string) => updateRobot(robot.id, r => ({ ...r, toolId }));
+  const setPayload = (payload: Payload) => updateRobot(robot.id, r => ({ ...r, payload }));
+
+  // Tool + workpiece beyond the wrist load diagram (every robot, pose independent)
+  const overloadedRobots = useMemo(
+    () => robots
+      .map(r => ({ robot: r, warnings: checkWristLoad(combineLoads(toolOf(r), r.payload), descriptionOf(r)).warnings }))
+      .filter(entry => entry.warnings.length > 0),
+    [robots, toolOf, descriptionOf]
+  );
+
+  // Calibrated models are stored as custom models and replace the selected robot's model
+  const applyCalibration = (calibrated: RobotDescription) => {
+    setCustomModels(prev => [...prev.filter(m => m.id !== calibrated.id), calibrated]);
+    updateRobot(robot.id, r => ({ ...r, modelId: calibrated.id }));
+  };
+
+  const programSetter = (id: string): React.Dispatch<React.SetStateAction<JobProgram>> => (value) =>
+    updateRobot(id, r => ({ ...r, program: typeof value === 'function' ? value(r.program) : value }));
+
+  // Joint States (Runtime, per robot)
+  const [jointsById, setJointsById] = useState<Record<string, JointState>>({});
+  const jointsOf = (id: string) => jointsById[id] ?? INITIAL_JOINTS;
+  const joints = jointsOf(robot.id);
+  const jointsRef = useRef(jointsById);
+  jointsRef.current = jointsById;
+
+  // Joint History (Runtime, per robot: every change with its source, for undo / redo and the timeline)
+  const [historyById, setHistoryById] = useState<Record<string, JointHistory>>({});
+  const historyOf = (id: string) => historyById[id] ?? createJointHistory(jointsOf(id));
+
+  const recordJoints = useCallback((id: string, from: JointState, to: JointState, source: JointChangeSource) => {
+    setHistoryById(prev => ({ ...prev, [id]: pushJointHistory(prev[id] ?? createJointHistory(from), to, source) }));
+  }, []);
+
+  // Position Library (Persisted named joint states, seeded with the calibration presets)
+  const [positions, setPositions] = useState<NamedPosition[]>(() =>
+    normalizePositions(loadFromStorage('positions', DEFAULT_POSITIONS))
+  );
+  useEffect(() => saveToStorage('positions', positions), [positions]);
+
+  // New positions store the TCP pose of the selected robot's model and tool
+  const savePosition = (name: string, saved: JointState) =>
+    setPositions(prev => [...prev, createPosition(saved, { name }, { robot: description, tool: activeTool })]);
+
+  // Collision Checking (Cell objects flagged as obstacles + the other robots at their current joints)
+  const obstacles = useMemo(() => workcell.objects.filter(o => o.obstacle), [workcell.objects]);
+  const [collisionEnabled, setCollisionEnabled] = useState<boolean>(() => loadFromStorage('collisionEnabled', true));
+
+  const collisionOptionsFor = useCallback((id: string, current: Record<string, JointState>): CollisionOptions => {
+    const self = robots.find(r => r.id === id)!;
+    return {
+      tcp: toolOf(self).tcp,
+      robot: descriptionOf(self),
+      obstacles,
+      robotBase: self.base,
+      otherRobots: robots
+        .filter(r => r.id !== id)
+        .map(r => ({
+          id: r.id,
+          name: r.name,
+          joints: current[r.id] ?? INITIAL_JOINTS,
+          tcp: toolOf(r).tcp,
+          base: r.base,
+          robot: descriptionOf(r),
+        })),
+    };
+  }, [robots, obstacles, toolOf, descriptionOf]);
+
+  const collisionsById = useMemo(() => {
+    const result: Record<string, CollisionPair[]> = {};
+    robots.forEach(r => {
+      result[r.id] = collisionEnabled ? checkCollisions(jointsById[r.id] ?? INITIAL_JOINTS, collisionOptionsFor(r.id, jointsById)) : [];
+    });
+    return result;
+  }, [robots, jointsById, collisionEnabled, collisionOptionsFor]);
+  const collisions = collisionsById[robot.id] ?? [];
+  const cellHighlight = useMemo(
+    () => collidingBodyIds(Object.values(collisionsById).flat()),
+    [collisionsById]
+  );
+
+  useEffect(() => saveToStorage('collisionEnabled', collisionEnabled), [collisionEnabled]);
+
+  // Reach Envelope (Selected robot, computed while shown, recomputed when its tool or model changes)
+  const [showEnvelope, setShowEnvelope] = useState(false);
+  const [envelopeMode, setEnvelopeMode] = useState<EnvelopeMode>('shell');
+  const envelope = useMemo(
+    () => (showEnvelope ? computeReachEnvelope(activeTool.tcp, description) : null),
+    [showEnvelope, activeTool.tcp, description]
+  );
+
+  // Motion Planners (One per robot, all ticked from the Scene render loop = one shared timeline)
+  const plannersRef = useRef<Record<string, MotionPlanner>>({});
+  const plannerOf = useCallback((id: string) => {
+    plannersRef.current[id] ??= createMotionPlanner();
+    return plannersRef.current[id];
+  }, []);
+  const [motionById, setMotionById] = useState<Record<string, MotionProgress | null>>({});
+  const [motionProfile, setMotionProfile] = useState<MotionProfile>(() => loadFromStorage('motionProfile', 'scurve'));
+
+  useEffect(() => saveToStorage('motionProfile', motionProfile), [motionProfile]);
+
+  // Removed robots: stop their planners
+  useEffect(() => {
+    Object.keys(plannersRef.current).forEach(id => {
+      if (robots.some(r => r.id === id)) return;
+      plannersRef.current[id].stop();
+      delete plannersRef.current[id];
+    });
+  }, [robots]);
+
+  // Cell playback (Run All / Stop All for every robot's job)
+  const [playback, setPlayback] = useState<PlaybackCommand | null>(null);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const [cellTime, setCellTime] = useState(0);
+  const cellRunningRef = useRef(false);
+  cellRunningRef.current = runningIds.length > 0;
+
+  // Joint Log Replay (Loaded controller log shown on the selected robot instead of its live joints)
+  const [replay, setReplay] = useState<LogReplay | null>(null);
+  const replayPlayingRef = useRef(false);
+  replayPlayingRef.current = replay?.playing ?? false;
+  const replayPath = useMemo(
+    () => (replay ? jointLogPath(replay.samples, { tcp: activeTool.tcp, robot: description }) : []),
+    [replay?.samples, activeTool.tcp, description]
+  );
+  const replayIssues = useMemo(() => (replay ? checkJointLog(replay.samples, description) : []), [replay?.samples, description]);
+  const replayJoints = replay ? jointLogAt(replay.samples, replay.time) : null;
+
+  // Recording (Every frame of one robot, exported in the log format)
+  const recordingRef = useRef<{ robotId: string; time: number; samples: JointLogSample[] } | null>(null);
+  const [recording, setRecordingState] = useState(false);
+  const [recorded, setRecorded] = useState<JointLogSample[]>([]);
+
+  const setRecording = (enabled: boolean) => {
+    if (enabled) {
+      recordingRef.current = { robotId: robot.id, time: 0, samples: [{ time: 0, joints: jointsOf(robot.id) }] };
+    } else if (recordingRef.current) {
+      setRecorded(recordingRef.current.samples);
+      recordingRef.current = null;
+    }
+    setRecordingState(enabled);
+  };
+
+  const handleFrame = useCallback((delta: number) => {
+    const jointUpdates: Record<string, JointState> = {};
+    const motionUpdates: Record<string, MotionProgress | null> = {};
+    Object.entries(plannersRef.current).forEach(([id, planner]) => {
+      const progress = planner.tick(delta);
+      if (!progress) return;
+      jointUpdates[id] = progress.joints;
+      motionUpdates[id] = progress.done ? null : progress;
+    });
+    if (cellRunningRef.current) setCellTime(t => t + delta);
+    if (replayPlayingRef.current) {
+      setReplay(prev => {
+        if (!prev?.playing) return prev;
+        const time = Math.min(prev.time + delta * prev.speed, jointLogDuration(prev.samples));
+        return { ...prev, time, playing: time < jointLogDuration(prev.samples) };
+      });
+    }
+    const recorder = recordingRef.current;
+    if (recorder) {
+      recorder.time += delta;
+      const recordedJoints = jointUpdates[recorder.robotId] ?? jointsRef.current[recorder.robotId] ?? INITIAL_JOINTS;
+      recorder.samples = appendJointLogSample(recorder.samples, recorder.time, recordedJoints);
+    }
+    if (Object.keys(jointUpdates).length === 0) return;
+
+    // Keep the ref ahead of the render so a move queued on completion starts from here
+    jointsRef.current = { ...jointsRef.current, ...jointUpdates };
+    setJointsById(prev => ({ ...prev, ...jointUpdates }));
+    setMotionById(prev => ({ ...prev, ...motionUpdates }));
+  }, []);
+
+  // Plans a move from the given joints and checks it against the cell
+  // Every interpolated sample is checked; pairs already touching at the start are tolerated
+  // so the robot can still be moved out of a collision. Other robots are held where they are now.
+  const planRobotMove = useCallback((id: string, start: JointState, request: MoveRequest): MotionPlan => {
+    const self = robots.find(r => r.id === id);
+    if (!self) return { segment: null, error: 'Robot no longer exists.' };
+
+    const plan = planMove(start, { profile: motionProfile, tcp: toolOf(self).tcp, robot: descriptionOf(self), ...request });
+    if (!plan.segment) return { segment: null, error: plan.error ?? 'Move could not be planned.' };
+
+    if (collisionEnabled) {
+      const options = collisionOptionsFor(id, jointsRef.current);
+      const hit = checkTrajectoryCollisions(plan.segment, options, checkCollisions(start, options));
+      if (hit) {
+        return { segment: null, error: `Collision at ${hit.time.toFixed(2)} s: ${hit.pairs.map(formatCollisionPair).join(', ')}` };
+      }
+    }
+    return plan;
+  }, [robots, motionProfile, toolOf, descriptionOf, collisionEnabled, collisionOptionsFor]);
+
+  // Completed moves are recorded in the history under the source that requested them
+  const moveRobot = useCallback((id: string, request: MoveRequest, source: JointChangeSource): Promise<MotionResult> => {
+    const planner = plannerOf(id);
+    const start = jointsRef.current[id] ?? INITIAL_JOINTS;
+    const plan = planRobotMove(id, start, request);
+    if (!plan.segment) {
+      planner.stop();
+      setMotionById(prev => ({ ...prev, [id]: null }));
+      return Promise.resolve({ completed: false, error: plan.error ?? 'Move could not be planned.' });
+    }
+    return planner.execute(plan.segment).then(result => {
+      if (result.completed) recordJoints(id, start, jointsRef.current[id] ?? start, source);
+      return result;
+    });
+  }, [plannerOf, planRobotMove, recordJoints]);
+
+  const moverFor = useCallback(
+    (source: JointChangeSource) => (request: MoveRequest) => moveRobot(robot.id, request, source),
+    [moveRobot, robot.id]
+  );
+  const moveTo = useMemo(() => moverFor('preset'), [moverFor]);
+  const moveFromCell = useMemo(() => moverFor('cell'), [moverFor]);
+  const moveFromCopilot = useMemo(() => moverFor('ai'), [moverFor]);
+  const checkMove = useCallback(
+    (from: JointState, request: MoveRequest) => planRobotMove(robot.id, from, request).error,
+    [planRobotMove, robot.id]
+  );
+  const collisionsAt = useCallback(
+    (target: JointState) => (collisionEnabled ? checkCollisions(target, collisionOptionsFor(robot.id, jointsRef.current)) : []),
+    [collisionEnabled, collisionOptionsFor, robot.id]
+  );
+
+  // AI Copilot language model (Persisted without the API key, which stays in memory; defaults come from the build environment)
+  const [copilotProvider, setCopilotProvider] = useState<CopilotProviderSettings>(() => ({
+    ...loadFromStorage('copilotProvider', DEFAULT_PROVIDER_SETTINGS),
+    apiKey: '',
+  }));
+  useEffect(() => saveToStorage('copilotProvider', { ...copilotProvider, apiKey: '' }), [copilotProvider]);
+
+  // AI Copilot plan preview (ghost poses of the selected robot, cleared on confirm / discard)
+  const [copilotPreview, setCopilotPreview] = useState<JointState[]>([]);
+
+  // Scene Previews (Ghosts of the selected robot: copilot plan, pinned positions, hovered quick-move target)
+  const [ghostPositionIds, setGhostPositionIds] = useState<string[]>([]);
+  const [hoverTarget, setHoverTarget] = useState<JointState | null>(null);
+  const ghosts: SceneGhost[] = [
+    ...copilotPreview.map(joints => ({ joints })),
+    ...positions.filter(p => ghostPositionIds.includes(p.id)).map(p => ({ joints: p.joints, color: '#A78BFA' })),
+    ...(hoverTarget ? [{ joints: hoverTarget, color: '#F59E0B' }] : []),
+  ];
+
+  // TCP Trail (Persisted on / off; the key remounts the trail to clear it)
+  const [showTrail, setShowTrail] = useState<boolean>(() => loadFromStorage('tcpTrail', false));
+  const [trailKey, setTrailKey] = useState(0);
+  useEffect(() => saveToStorage('tcpTrail', showTrail), [showTrail]);
+
+  // Direct joint edits (sliders, jog) take over from any running move of that robot
+  const jointSetter = useCallback(
+    (id: string, source: JointChangeSource = 'slider'): React.Dispatch<React.SetStateAction<JointState>> => (value) => {
+      plannerOf(id).stop();
+      setMotionById(prev => ({ ...prev, [id]: null }));
+      const current = jointsRef.current[id] ?? INITIAL_JOINTS;
+      const next = typeof value === 'function' ? value(current) : value;
+      jointsRef.current = { ...jointsRef.current, [id]: next };
+      setJointsById(prev => ({ ...prev, [id]: next }));
+      recordJoints(id, current, next, source);
+    },
+    [plannerOf, recordJoints]
+  );
+
+  const setJointsManually = useMemo(() => jointSetter(robot.id), [jointSetter, robot.id]);
+
+  // Undo / redo / timeline scrub: shows the entry's joints without recording a new change
+  const seekHistory = useCallback((id: string, index: number) => {
+    const next = seekJointHistory(historyById[id] ?? createJointHistory(jointsRef.current[id] ?? INITIAL_JOINTS), index);
+    if (!next) return;
+    plannerOf(id).stop();
+    setMotionById(prev => ({ ...prev, [id]: null }));
+    const restored = next.entries[next.cursor].joints;
+    jointsRef.current = { ...jointsRef.current, [id]: restored };
+    setJointsById(prev => ({ ...prev, [id]: restored }));
+    setHistoryById(prev => ({ ...prev, [id]: next }));
+  }, [historyById, plannerOf]);
+
+  const history = historyOf(robot.id);
+
+  // Ctrl+Z = undo, Ctrl+Y / Ctrl+Shift+Z = redo (text fields keep their own undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Sliders keep focus after a drag, so only text-like fields are skipped
+      const target = e.target as HTMLElement | null;
+      const textInput = target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type);
+      if (target && (textInput || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      const redo = key === 'y' || (key === 'z' && e.shiftKey);
+      if (key !== 'z' && !redo) return;
+      e.preventDefault();
+      seekHistory(robot.id, history.cursor + (redo ? 1 : -1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [seekHistory, robot.id, history.cursor]);
+
+  const handleRunAll = () => {
+    setCellTime(0);
+    setPlayback(prev => ({ action: 'run', seq: (prev?.seq ?? 0) + 1 }));
+  };
+
+  const handleStopAll = () => {
+    setPlayback(prev => ({ action: 'stop', seq: (prev?.seq ?? 0) + 1 }));
+    Object.values(plannersRef.current).forEach(planner => planner.stop());
+    setMotionById({});
+  };
+
+  const handleRunningChange = useCallback((id: string, running: boolean) => {
+    setRunningIds(prev => (running ? [...prev.filter(r => r !== id), id] : prev.filter(r => r !== id)));
+  }, []);
+
+  // Controller Bridge (External scripts through the local relay, see server/controllerBridge.mjs)
+  const [bridgeUrl, setBridgeUrl] = useState<string>(() => loadFromStorage('bridgeUrl', DEFAULT_BRIDGE_URL));
+  const [bridgeEnabled, setBridgeEnabled] = useState<boolean>(() => loadFromStorage('bridgeEnabled', false));
+  // Relay token (printed by npm run bridge): memory only, never persisted
+  const [bridgeToken, setBridgeToken] = useState('');
+  const [bridgeStatus, setBridgeStatus] = useState<{ status: BridgeStatus; detail: string | null }>({ status: 'disconnected', detail: null });
+  const [bridgeLog, setBridgeLog] = useState<BridgeLogEntry[]>([]);
+  const bridgeRef = useRef<BridgeConnection | null>(null);
+  const bridgeLogIdRef = useRef(0);
+
+  useEffect(() => saveToStorage('bridgeUrl', bridgeUrl), [bridgeUrl]);
+  useEffect(() => saveToStorage('bridgeEnabled', bridgeEnabled), [bridgeEnabled]);
+
+  // The connection outlives renders: requests use the latest cell, joints are read live from the ref
+  const bridgeContextRef = useRef<BridgeContext | null>(null);
+  bridgeContextRef.current = {
+    robots: robots.map(r => ({ id: r.id, name: r.name, description: descriptionOf(r), tool: toolOf(r) })),
+    selectedRobotId: robot.id,
+    tools,
+    jointsOf: (id) => jointsRef.current[id] ?? INITIAL_JOINTS,
+    isMoving: (id) => plannerOf(id).isMoving(),
+    move: (id, request) => moveRobot(id, request, 'remote'),
+    stop: (id) => {
+      plannerOf(id).stop();
+      setMotionById(prev => ({ ...prev, [id]: null }));
+    },
+    setTool: (id, toolId) => updateRobot(id, r => ({ ...r, toolId })),
+    collisionsAt: (id, target) => (collisionEnabled ? checkCollisions(target, collisionOptionsFor(id, jointsRef.current)) : []),
+  };
+
+  useEffect(() => {
+    if (!bridgeEnabled || !bridgeToken) return;
+    const connection = connectControllerBridge(bridgeUrl, bridgeToken, {
+      onStatus: (status, detail) => setBridgeStatus({ status, detail: detail ?? null }),
+      onRequest: async (method, params) => {
+        const started = Date.now();
+        const response = await executeBridgeCommand(bridgeContextRef.current!, method, params);
+        const entry: BridgeLogEntry = {
+          id: ++bridgeLogIdRef.current,
+          time: started,
+          method,
+          params: JSON.stringify(params ?? {}).slice(0, 160),
+          error: response.error?.message ?? null,
+          duration: Date.now() - started,
+        };
+        setBridgeLog(prev => [entry, ...prev].slice(0, BRIDGE_LOG_LIMIT));
+        return response;
+      },
+    });
+    bridgeRef.current = connection;
+    return () => {
+      connection.close();
+      bridgeRef.current = null;
+    };
+  }, [bridgeEnabled, bridgeUrl, bridgeToken]);
+
+  // State stream for subscribed clients: sampled while connected, sent only when something changed
+  useEffect(() => {
+    if (bridgeStatus.status !== 'connected') return;
+    let last = '';
+    const timer = setInterval(() => {
+      const snapshot = bridgeStateSnapshot(bridgeContextRef.current!);
+      const key = JSON.stringify(snapshot.robots);
+      if (key === last) return;
+      last = key;
+      bridgeRef.current?.notify('state', snapshot);
+    }, BRIDGE_STATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [bridgeStatus.status]);
+
+  const sceneRobots: SceneRobot[] = robots.map(r => ({
+    id: r.id,
+    base: r.base,
+    joints: r.id === robot.id && replayJoints ? replayJoints : jointsOf(r.id),
+    tool: toolOf(r),
+    description: descriptionOf(r),
+    highlight: r.id === robot.id && replayJoints ? [] : collidingBodyIds(collisionsById[r.id] ?? []),
+  }));
+  const collidingRobots = robots.filter(r => (collisionsById[r.id] ?? []).length > 0);
 
   return (
     <div className="relative w-screen h-screen overflow-hidden bg-slate-950">
       
       {/* Background/Canvas Layer */}
       <div className="absolute inset-0 z-0">
-        <Scene joints={joints} />
+        <Scene
+          robots={sceneRobots}
+          selectedRobotId={robot.id}
+          onSelectRobot={setSelectedRobotId}
+          workcell={workcell}
+          selectedObjectId={selectedObjectId}
+          onSelectObject={setSelectedObjectId}
+          gizmo={gizmo}
+          onObjectPoseChange={handleObjectPoseChange}
+          highlight={cellHighlight}
+          userFrame={activeFrame.id === BASE_FRAME.id ? null : activeFrame.frame}
+          envelope={envelope}
+          envelopeMode={envelopeMode}
+          ghosts={ghosts}
+          trail={showTrail}
+          trailKey={trailKey}
+          path={
+            replay
+              ? {
+                  points: replayPath,
+                  flagged: replayIssues.map(issue => issue.index),
+                  cursor: replayPath[sampleIndexAt(replay.samples, replay.time)] ?? null,
+                }
+              : null
+          }
+          onFrame={handleFrame}
+        />
       </div>
 
       {/* UI Overlay Layer */}
@@ -29,14 +574,342 @@ const App: React.FC = () => {
           </p>
         </div>
 
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2">
+          {/* Robot Selector (Controls, Tools and the program editor follow the selection) */}
+          {robots.length > 1 && (
+            <div className="flex gap-1 p-1 bg-slate-900/80 border border-slate-700 rounded-lg shadow-lg pointer-events-auto">
+              {robots.map(r => (
+                <button
+                  key={r.id}
+                  onClick={() => setSelectedRobotId(r.id)}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 rounded text-xs ${
+                    r.id === robot.id ? 'bg-amber-500 text-white' : 'text-slate-300 hover:bg-slate-800'
+                  }`}
+                >
+                  <Bot size={12} />
+                  {r.name}
+                  {motionById[r.id] && <span className="w-1.5 h-1.5 rounded-full bg-green-400" />}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Collision Warning */}
+          {collidingRobots.length > 0 && (
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-red-900/80 border border-red-700 rounded-lg text-xs text-red-100 shadow-lg">
+              <ShieldAlert size={14} />
+              <span className="font-mono">
+                {collidingRobots
+                  .map(r => {
+                    const pairs = collisionsById[r.id].map(formatCollisionPair).join(' · ');
+                    return robots.length > 1 ? `${r.name}: ${pairs}` : pairs;
+                  })
+                  .join(' | ')}
+              </span>
+            </div>
+          )}
+
+          {/* Log Replay Notice */}
+          {replay && (
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-violet-900/80 border border-violet-700 rounded-lg text-xs text-violet-100 shadow-lg">
+              <FileClock size={14} />
+              <span className="font-mono">
+                Replaying {replay.name} on {robot.name} · {replay.time.toFixed(2)} / {jointLogDuration(replay.samples).toFixed(2)} s
+                {replayIssues.length > 0 && ` · ${replayIssues.length} issue${replayIssues.length === 1 ? '' : 's'}`}
+              </span>
+            </div>
+          )}
+
+          {/* Payload Warning */}
+          {overloadedRobots.length > 0 && (
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-amber-900/80 border border-amber-700 rounded-lg text-xs text-amber-100 shadow-lg">
+              <Weight size={14} />
+              <span className="font-mono">
+                {overloadedRobots
+                  .map(({ robot: r, warnings }) => (robots.length > 1 ? `${r.name}: ${warnings.join(' ')}` : warnings.join(' ')))
+                  .join(' | ')}
+              </span>
+            </div>
+          )}
+        </div>
+
         {/* Interactive Components (re-enable pointer events) */}
         <div className="pointer-events-auto">
-           <Controls joints={joints} setJoints={setJoints} />
-           <AICopilot joints={joints} setJoints={setJoints} />
+           <Controls
+             joints={joints}
+             setJoints={setJointsManually}
+             moveTo={moveTo}
+             positions={positions}
+             motion={motionById[robot.id] ?? null}
+             motionProfile={motionProfile}
+             setMotionProfile={setMotionProfile}
+             tool={activeTool}
+             robot={description}
+             frames={userFrames}
+             activeFrameId={activeFrame.id}
+             setActiveFrameId={setActiveFrameId}
+             onPreview={setHoverTarget}
+             trail={showTrail}
+             setTrail={setShowTrail}
+             onClearTrail={() => setTrailKey(k => k + 1)}
+           />
+           <Workbench
+             tabs={[
+               {
+                 id: 'program',
+                 label: 'Program',
+                 icon: ListOrdered,
+                 content: (
+                   <div>
+                     {/* Cell Playback (Every robot's job on the shared clock) */}
+                     {robots.length > 1 && (
+                       <div className="flex items-center gap-2 px-4 pt-4 text-xs">
+                         <button
+                           onClick={handleRunAll}
+                           disabled={runningIds.length > 0}
+                           className="flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-green-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                         >
+                           <Play size={12} /> Run All
+                         </button>
+                         <button
+                           onClick={handleStopAll}
+                           className="flex items-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-red-300"
+                         >
+                           <Square size={12} /> Stop All
+                         </button>
+                         <span className="ml-auto font-mono text-slate-400">
+                           {runningIds.length}/{robots.length} running · {cellTime.toFixed(1)} s
+                         </span>
+                       </div>
+                     )}
+                     {/* One editor per robot stays mounted so background jobs keep running */}
+                     {robots.map(r => (
+                       <div key={r.id} className={r.id === robot.id ? '' : 'hidden'}>
+                         <ProgramEditor
+                           joints={jointsOf(r.id)}
+                           setJoints={jointSetter(r.id, 'program')}
+                           moveTo={(request) => moveRobot(r.id, request, 'program')}
+                           program={r.program}
+                           setProgram={programSetter(r.id)}
+                           tcp={toolOf(r).tcp}
+                           robot={descriptionOf(r)}
+                           tools={tools}
+                           onToolChange={(toolId) => updateRobot(r.id, x => ({ ...x, toolId }))}
+                           playback={playback}
+                           onRunningChange={(running) => handleRunningChange(r.id, running)}
+                         />
+                       </div>
+                     ))}
+                   </div>
+                 ),
+               },
+               {
+                 id: 'tools',
+                 label: 'Tools',
+                 icon: Wrench,
+                 content: (
+                   <ToolManager
+                     joints={joints}
+                     tools={tools}
+                     setTools={setTools}
+                     activeToolId={activeTool.id}
+                     setActiveToolId={setActiveToolId}
+                     robot={description}
+                   />
+                 ),
+               },
+               {
+                 id: 'frames',
+                 label: 'Frames',
+                 icon: Axis3d,
+                 content: (
+                   <UserFrameManager
+                     joints={joints}
+                     frames={userFrames}
+                     setFrames={setUserFrames}
+                     activeFrameId={activeFrame.id}
+                     setActiveFrameId={setActiveFrameId}
+                     tcp={activeTool.tcp}
+                     robot={description}
+                   />
+                 ),
+               },
+               {
+                 id: 'reach',
+                 label: 'Reach',
+                 icon: Orbit,
+                 content: (
+                   <ReachPanel
+                     envelope={envelope}
+                     tool={activeTool}
+                     robot={description}
+                     visible={showEnvelope}
+                     setVisible={setShowEnvelope}
+                     mode={envelopeMode}
+                     setMode={setEnvelopeMode}
+                   />
+                 ),
+               },
+               {
+                 id: 'cycle',
+                 label: 'Cycle',
+                 icon: Timer,
+                 content: (
+                   <CycleTimePanel
+                     positions={positions}
+                     program={robot.program}
+                     robot={description}
+                     tcp={activeTool.tcp}
+                     profile={motionProfile}
+                   />
+                 ),
+               },
+               {
+                 id: 'cell',
+                 label: 'Cell',
+                 icon: Factory,
+                 content: (
+                   <WorkcellPanel
+                     joints={joints}
+                     workcell={workcell}
+                     setWorkcell={setWorkcell}
+                     selectedRobotId={robot.id}
+                     setSelectedRobotId={setSelectedRobotId}
+                     tools={tools}
+                     models={models}
+                     setCustomModels={setCustomModels}
+                     selectedId={selectedObjectId}
+                     setSelectedId={setSelectedObjectId}
+                     gizmo={gizmo}
+                     setGizmo={setGizmo}
+                     moveTo={moveFromCell}
+                   />
+                 ),
+               },
+               {
+                 id: 'history',
+                 label: 'History',
+                 icon: History,
+                 content: (
+                   <HistoryPanel
+                     history={history}
+                     onSeek={(index) => seekHistory(robot.id, index)}
+                     positionCount={positions.length}
+                     onSavePosition={savePosition}
+                   />
+                 ),
+               },
+               {
+                 id: 'replay',
+                 label: 'Replay',
+                 icon: FileClock,
+                 content: (
+                   <LogReplayPanel
+                     replay={replay}
+                     setReplay={setReplay}
+                     issues={replayIssues}
+                     robot={description}
+                     recording={recording}
+                     setRecording={setRecording}
+                     recorded={recorded}
+                   />
+                 ),
+               },
+               {
+                 id: 'positions',
+                 label: 'Positions',
+                 icon: MapPin,
+                 content: (
+                   <PositionLibrary
+                     joints={joints}
+                     positions={positions}
+                     setPositions={setPositions}
+                     tool={activeTool}
+                     tools={tools}
+                     robot={description}
+                     moveTo={moveTo}
+                     ghostIds={ghostPositionIds}
+                     setGhostIds={setGhostPositionIds}
+                   />
+                 ),
+               },
+               {
+                 id: 'payload',
+                 label: 'Payload',
+                 icon: Weight,
+                 content: (
+                   <PayloadPanel
+                     joints={joints}
+                     robot={description}
+                     tool={activeTool}
+                     payload={robot.payload}
+                     setPayload={setPayload}
+                   />
+                 ),
+               },
+               {
+                 id: 'calibration',
+                 label: 'Calibrate',
+                 icon: Ruler,
+                 content: (
+                   <CalibrationPanel
+                     robot={description}
+                     tcp={activeTool.tcp}
+                     onApply={applyCalibration}
+                   />
+                 ),
+               },
+               {
+                 id: 'collision',
+                 label: 'Collision',
+                 icon: ShieldAlert,
+                 content: (
+                   <CollisionPanel
+                     enabled={collisionEnabled}
+                     setEnabled={setCollisionEnabled}
+                     collisions={collisions}
+                     obstacles={obstacles}
+                   />
+                 ),
+               },
+               {
+                 id: 'bridge',
+                 label: 'Bridge',
+                 icon: Cable,
+                 content: (
+                   <BridgePanel
+                     url={bridgeUrl}
+                     setUrl={setBridgeUrl}
+                     token={bridgeToken}
+                     setToken={setBridgeToken}
+                     enabled={bridgeEnabled}
+                     setEnabled={setBridgeEnabled}
+                     status={bridgeStatus.status}
+                     detail={bridgeStatus.detail}
+                     log={bridgeLog}
+                   />
+                 ),
+               },
+             ]}
+           />
+           <AICopilot
+             joints={joints}
+             robot={description}
+             tools={tools}
+             activeToolId={activeTool.id}
+             setActiveToolId={setActiveToolId}
+             setProgram={programSetter(robot.id)}
+             moveTo={moveFromCopilot}
+             checkMove={checkMove}
+             collisionsAt={collisionsAt}
+             onPreview={setCopilotPreview}
+             providerSettings={copilotProvider}
+             setProviderSettings={setCopilotProvider}
+           />
         </div>
       </div>
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,19 +1,58 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { generateRobotPose } from '../services/geminiService';
-import { JointState, ChatMessage } from '../types';
-import { MessageSquare, Send, Loader2, Sparkles, AlertCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { CopilotProviderKind, CopilotProviderSettings } from '../services/copilotProvider';
+import { createCopilotProvider, DEFAULT_MODELS, PROVIDER_LABELS } from '../services/copilotService';
+import { JointState, ChatMessage, CopilotPlanStatus, JobProgram, RobotDescription, ToolDefinition } from '../types';
+import { MoveRequest, MotionResult } from '../utils/motion';
+import { createCopilotSession, describeAction, editPlannedMove, isPlanValid, previewTargets } from '../utils/copilot';
+import { CollisionPair } from '../utils/collision';
+import { PoseDiff } from './PoseDiff';
+import { MessageSquare, Send, Loader2, Sparkles, AlertCircle, Play, X, Settings, AlertTriangle, ChevronRight, ChevronDown } from 'lucide-react';
 
 interface AICopilotProps {
   joints: JointState;
-  setJoints: React.Dispatch<React.SetStateAction<JointState>>;
+  robot: RobotDescription; // Model the prompt describes
+  tools: ToolDefinition[];
+  activeToolId: string;
+  setActiveToolId: (id: string) => void;
+  setProgram: React.Dispatch<React.SetStateAction<JobProgram>>; // Job of the selected robot (addProgramStep)
+  moveTo: (request: MoveRequest) => Promise<MotionResult>;
+  checkMove: (from: JointState, request: MoveRequest) => string | null; // Cell-level check while planning
+  collisionsAt: (joints: JointState) => CollisionPair[]; // Floor / collision check of single poses
+  onPreview: (targets: JointState[]) => void; // Ghost preview of the pending plan
+  providerSettings: CopilotProviderSettings;
+  setProviderSettings: (settings: CopilotProviderSettings) => void;
 }
 
-export const AICopilot: React.FC<AICopilotProps> = ({ joints, setJoints }) => {
+const STATUS_LABELS: Record<CopilotPlanStatus, string> = {
+  pending: 'Awaiting confirmation',
+  running: 'Executing...',
+  done: 'Executed',
+  discarded: 'Rejected',
+  failed: 'Stopped',
+};
+
+export const AICopilot: React.FC<AICopilotProps> = ({
+  joints,
+  robot,
+  tools,
+  activeToolId,
+  setActiveToolId,
+  setProgram,
+  moveTo,
+  checkMove,
+  collisionsAt,
+  onPreview,
+  providerSettings,
+  setProviderSettings,
+}) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [expandedStep, setExpandedStep] = useState<string | null>(null); // "<message>:<step>" with the pose diff open
+  const provider = useMemo(() => createCopilotProvider(providerSettings), [providerSettings]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'system', content: 'Hello! I am your AI Robotics Copilot. Ask me to move the robot (e.g., "Move to welding position" or "Wave hello").' }
+    { role: 'system', content: 'Hello! I am your AI Robotics Copilot. Ask me to move the robot or plan a task (e.g., "Move to welding position" or "Pick from A and place on B"). I will show the plan before anything moves.' }
   ]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -25,42 +64,83 @@ export const AICopilot: React.FC<AICopilotProps> = ({ joints, setJoints }) => {
     if (isOpen) scrollToBottom();
   }, [messages, isOpen]);
 
+  const setPlanStatus = (index: number, planStatus: CopilotPlanStatus) => {
+    setMessages(prev => prev.map((m, i) => (i === index ? { ...m, planStatus } : m)));
+  };
+
+  const addError = (content: string) => {
+    setMessages(prev => [...prev, { role: 'assistant', content, isError: true }]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || loading) return;
 
     const userMsg = input.trim();
+    const history = messages;
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', content: userMsg }]);
+    // A new request replaces any plan that is still waiting for confirmation
+    setMessages(prev => [
+      ...prev.map(m => (m.planStatus === 'pending' ? { ...m, planStatus: 'discarded' as const } : m)),
+      { role: 'user', content: userMsg },
+    ]);
+    onPreview([]);
     setLoading(true);
 
     try {
-      const targetJoints = await generateRobotPose(joints, userMsg);
-      
-      if (targetJoints) {
-        setJoints(targetJoints);
-        setMessages(prev => [...prev, { 
-          role: 'assistant', 
-          content: `Moving robot to requested position.\nTarget: J1:${targetJoints.j1}°, J2:${targetJoints.j2}°, J3:${targetJoints.j3}°...` 
-        }]);
-      } else {
-         setMessages(prev => [...prev, { 
-          role: 'assistant', 
-          content: "I couldn't calculate a valid pose for that request. Please try again.",
-          isError: true
-        }]);
-      }
-    } catch (error) {
-      setMessages(prev => [...prev, { 
-        role: 'assistant', 
-        content: "Error connecting to AI service. Make sure API Key is configured.",
-        isError: true
+      const session = createCopilotSession({ joints, robot, tools, toolId: activeToolId, checkMove, collisionsAt });
+      const reply = await provider.runRequest({ history, prompt: userMsg, session, robot, tools });
+      const plan = session.actions();
+
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: reply || (plan.length > 0 ? 'Plan ready.' : "I couldn't plan that request. Please try again."),
+        plan: plan.length > 0 ? plan : undefined,
+        planStatus: plan.length > 0 ? 'pending' : undefined,
       }]);
+      onPreview(previewTargets(plan));
+    } catch (error) {
+      addError(`Error connecting to ${PROVIDER_LABELS[provider.kind]}: ${error instanceof Error ? error.message : 'unknown error'}. Check the copilot settings.`);
     } finally {
       setLoading(false);
     }
   };
 
+  // User edit of a planned joint target: re-validated together with the moves after it
+  const handleEditMove = (index: number, step: number, target: JointState) => {
+    const plan = editPlannedMove(messages[index].plan ?? [], step, target, { robot, collisionsAt });
+    setMessages(prev => prev.map((m, i) => (i === index ? { ...m, plan } : m)));
+    onPreview(previewTargets(plan));
+  };
+
+  const handleDiscard = (index: number) => {
+    setPlanStatus(index, 'discarded');
+    onPreview([]);
+  };
+
+  // Runs the confirmed actions in order; the first rejected or interrupted move stops the plan
+  const handleConfirm = async (index: number) => {
+    const plan = messages[index].plan ?? [];
+    setPlanStatus(index, 'running');
+    onPreview([]);
+
+    for (const action of plan) {
+      if (action.kind === 'setTool') {
+        setActiveToolId(action.toolId);
+      } else if (action.kind === 'addProgramStep') {
+        setProgram(prev => ({ ...prev, lines: [...prev.lines, action.step] }));
+      } else {
+        const result = await moveTo({ moveType: action.moveType, target: action.target, speed: action.speed, tcp: action.tcp });
+        if (!result.completed) {
+          setPlanStatus(index, 'failed');
+          addError(result.error ? `Move rejected: ${result.error}` : 'Plan interrupted.');
+          return;
+        }
+      }
+    }
+    setPlanStatus(index, 'done');
+  };
+
   return (
     <>
       {/* Toggle Button */}
@@ -82,8 +162,66 @@ export const AICopilot: React.FC<AICopilotProps> = ({ joints, setJoints }) => {
         <div className="p-4 border-b border-slate-700 bg-slate-800/50 flex items-center gap-2">
           <Sparkles size={18} className="text-amber-400" />
           <h3 className="font-semibold text-slate-200">AI Copilot</h3>
+          <span className="text-[10px] font-mono text-slate-500 truncate">{provider.label}</span>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`ml-auto p-1 rounded ${showSettings ? 'text-amber-400' : 'text-slate-400 hover:text-white'}`}
+            title="Language model settings"
+          >
+            <Settings size={16} />
+          </button>
         </div>
 
+        {/* Provider Settings (Gemini / OpenAI-compatible endpoint / offline mock) */}
+        {showSettings && (
+          <div className="p-3 border-b border-slate-700 bg-slate-900 space-y-2 text-xs">
+            <select
+              value={providerSettings.kind}
+              onChange={(e) => {
+                const kind = e.target.value as CopilotProviderKind;
+                setProviderSettings({ ...providerSettings, kind, model: DEFAULT_MODELS[kind] });
+              }}
+              className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+            >
+              {(Object.keys(PROVIDER_LABELS) as CopilotProviderKind[]).map(kind => (
+                <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+              ))}
+            </select>
+            {providerSettings.kind !== 'mock' && (
+              <input
+                type="text"
+                value={providerSettings.model}
+                onChange={(e) => setProviderSettings({ ...providerSettings, model: e.target.value })}
+                placeholder="Model"
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 font-mono px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+              />
+            )}
+            {providerSettings.kind === 'openai' && (
+              <input
+                type="text"
+                value={providerSettings.baseUrl}
+                onChange={(e) => setProviderSettings({ ...providerSettings, baseUrl: e.target.value })}
+                placeholder="http://localhost:8080/v1"
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 font-mono px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+              />
+            )}
+            {providerSettings.kind !== 'mock' && (
+              <input
+                type="password"
+                value={providerSettings.apiKey}
+                onChange={(e) => setProviderSettings({ ...providerSettings, apiKey: e.target.value })}
+                placeholder={providerSettings.kind === 'gemini' ? 'API key (kept in memory only)' : 'API key (optional, kept in memory only)'}
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 font-mono px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+              />
+            )}
+            {providerSettings.kind === 'mock' && (
+              <p className="text-[10px] text-slate-500">
+                Rule-based, no network. Understands "S 45", "rotate B to -90", "H by 10", "up 100", "tool Gripper", "teach", "home" and "where", chained with "then".
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="h-80 overflow-y-auto p-4 space-y-4">
           {messages.map((msg, idx) => (
             <div 
@@ -101,6 +239,64 @@ export const AICopilot: React.FC<AICopilotProps> = ({ joints, setJoints }) => {
               >
                 {msg.isError && <AlertCircle size={14} className="inline mr-1.5 -mt-0.5" />}
                 {msg.content}
+                {msg.plan && (
+                  <div className="mt-2 pt-2 border-t border-slate-700 space-y-1">
+                    <ol className="space-y-0.5 font-mono text-[10px] text-slate-400">
+                      {msg.plan.map((action, step) => {
+                        if (action.kind !== 'move') return <li key={step}>{step + 1}. {describeAction(action)}</li>;
+                        const key = `${idx}:${step}`;
+                        const isExpanded = expandedStep === key;
+                        const { issues, target } = action.validation;
+                        return (
+                          <li key={step}>
+                            <button
+                              onClick={() => setExpandedStep(isExpanded ? null : key)}
+                              className={`flex items-start gap-1 text-left hover:text-white ${
+                                !target ? 'text-red-300' : issues.length > 0 ? 'text-amber-300' : ''
+                              }`}
+                              title="Show joint changes"
+                            >
+                              {isExpanded ? <ChevronDown size={10} className="shrink-0 mt-px" /> : <ChevronRight size={10} className="shrink-0 mt-px" />}
+                              <span>{step + 1}. {describeAction(action)}</span>
+                              {issues.length > 0 && <AlertTriangle size={10} className="shrink-0 mt-px" />}
+                            </button>
+                            {isExpanded && (
+                              <div className="ml-3 mt-1 mb-1.5">
+                                <PoseDiff
+                                  validation={action.validation}
+                                  editable={msg.planStatus === 'pending'}
+                                  onEdit={(edited) => handleEditMove(idx, step, edited)}
+                                />
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                    {msg.planStatus === 'pending' ? (
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          onClick={() => handleConfirm(idx)}
+                          disabled={!isPlanValid(msg.plan)}
+                          className="flex items-center gap-1 px-2 py-1 bg-amber-500 hover:bg-amber-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded text-xs"
+                          title={isPlanValid(msg.plan) ? 'Execute the plan' : 'Fix the rejected poses first'}
+                        >
+                          <Play size={12} /> Accept
+                        </button>
+                        <button
+                          onClick={() => handleDiscard(idx)}
+                          className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-xs"
+                        >
+                          <X size={12} /> Reject
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="text-[10px] uppercase tracking-wider text-slate-500">
+                        {msg.planStatus && STATUS_LABELS[msg.planStatus]}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
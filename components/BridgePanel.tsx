@@ -0,0 +1,113 @@
+import React from 'react';
+import { BridgeStatus } from '../services/controllerBridge';
+import { BRIDGE_METHODS } from '../utils/bridgeCommands';
+import { Plug, Unplug, CheckCircle2, XCircle } from 'lucide-react';
+
+// One answered bridge request (newest first in the panel)
+export interface BridgeLogEntry {
+  id: number;
+  time: number;       // ms since epoch
+  method: string;
+  params: string;     // JSON, shortened
+  error: string | null;
+  duration: number;   // ms until the answer (moves: until arrival)
+}
+
+interface BridgePanelProps {
+  url: string;
+  setUrl: (url: string) => void;
+  token: string;
+  setToken: (token: string) => void;
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  status: BridgeStatus;
+  detail: string | null;
+  log: BridgeLogEntry[];
+}
+
+const STATUS_STYLES: Record<BridgeStatus, { label: string; className: string }> = {
+  disconnected: { label: 'Disconnected', className: 'bg-slate-500' },
+  connecting: { label: 'Connecting', className: 'bg-amber-400 animate-pulse' },
+  connected: { label: 'Connected', className: 'bg-green-400' },
+};
+
+export const BridgePanel: React.FC<BridgePanelProps> = ({ url, setUrl, token, setToken, enabled, setEnabled, status, detail, log }) => {
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className="p-4 space-y-3 text-xs">
+      <p className="text-[10px] text-slate-500">
+        External programs command the robots over JSON-RPC through the local relay. Start it with{' '}
+        <span className="font-mono text-amber-400/80">npm run bridge</span>, paste the token it prints and connect, then send
+        requests to <span className="font-mono text-slate-400">ws://127.0.0.1:8765/?token=…</span>.
+      </p>
+
+      {/* Connection */}
+      <div className="space-y-2">
+        <div className="flex gap-1">
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            disabled={enabled}
+            className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 font-mono text-[11px] text-slate-200 disabled:opacity-50"
+          />
+          <button
+            onClick={() => setEnabled(!enabled)}
+            className={`flex items-center gap-1 px-2 py-1.5 rounded border ${
+              enabled
+                ? 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-red-300'
+                : 'bg-amber-500/20 hover:bg-amber-500/30 border-amber-500/50 text-amber-300'
+            }`}
+          >
+            {enabled ? <Unplug size={12} /> : <Plug size={12} />} {enabled ? 'Disconnect' : 'Connect'}
+          </button>
+        </div>
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value.trim())}
+          disabled={enabled}
+          placeholder="Relay token (not saved)"
+          autoComplete="off"
+          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 font-mono text-[11px] text-slate-200 disabled:opacity-50"
+        />
+        {enabled && !token && <div className="text-[10px] text-amber-300">Enter the token printed by the relay to connect.</div>}
+        <div className="flex items-center gap-1.5 text-[10px] text-slate-400">
+          <span className={`w-2 h-2 rounded-full ${style.className}`} />
+          {style.label}
+          {detail && <span className="text-slate-500 truncate">· {detail}</span>}
+        </div>
+      </div>
+
+      {/* Methods */}
+      <div className="text-[10px] text-slate-500 border-t border-slate-800 pt-3">
+        <div className="uppercase tracking-wider mb-1">Methods</div>
+        <div className="font-mono text-slate-400 leading-relaxed">{[...BRIDGE_METHODS, 'subscribeState', 'unsubscribeState'].join(' · ')}</div>
+      </div>
+
+      {/* Request Log */}
+      <div className="border-t border-slate-800 pt-3 space-y-1">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Recent Requests</div>
+        {log.length === 0 ? (
+          <div className="text-[10px] text-slate-600 italic">No requests yet.</div>
+        ) : (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {log.map(entry => (
+              <div key={entry.id} className="px-2 py-1 rounded bg-slate-800/60 border border-slate-700 font-mono text-[10px]">
+                <div className="flex items-center gap-1.5">
+                  {entry.error ? <XCircle size={11} className="text-red-400" /> : <CheckCircle2 size={11} className="text-green-400" />}
+                  <span className="text-slate-200">{entry.method}</span>
+                  <span className="ml-auto text-slate-500">
+                    {new Date(entry.time).toLocaleTimeString()} · {entry.duration.toFixed(0)} ms
+                  </span>
+                </div>
+                {entry.params !== '{}' && <div className="text-slate-500 truncate">{entry.params}</div>}
+                {entry.error && <div className="text-red-300">{entry.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { Pose, RobotDescription } from '../types';
+import {
+  calibrateKinematics,
+  calibratedDescription,
+  parseCalibrationSamples,
+  CalibrationParameter,
+  CALIBRATION_PARAMETERS,
+  KinematicCalibration,
+} from '../utils/calibration';
+import { robotDescriptionToJson } from '../utils/robotDescription';
+import { downloadTextFile } from '../utils/download';
+import { Ruler, Upload, Download, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface CalibrationPanelProps {
+  robot: RobotDescription;  // Starting model of the fit (selected robot)
+  tcp: Pose;                // Active tool, used when the readout is the tool tip
+  onApply: (description: RobotDescription) => void;
+}
+
+const LABELS: Record<CalibrationParameter, string> = {
+  d1: 'd1',
+  a1: 'a1',
+  a2: 'a2',
+  a3: 'a3',
+  d4: 'd4',
+  j2OffsetDeg: 'H off',
+  j3OffsetDeg: 'V off',
+};
+
+const unitOf = (key: CalibrationParameter) => (key.endsWith('Deg') ? '°' : 'mm');
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ robot, tcp, onApply }) => {
+  const [text, setText] = useState('');
+  const [free, setFree] = useState<CalibrationParameter[]>(CALIBRATION_PARAMETERS);
+  const [useTool, setUseTool] = useState(false);
+  const [result, setResult] = useState<KinematicCalibration | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleParameter = (key: CalibrationParameter) => {
+    setFree(prev => (prev.includes(key) ? prev.filter(k => k !== key) : CALIBRATION_PARAMETERS.filter(k => k === key || prev.includes(k))));
+    setResult(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setResult(null);
+    setError(null);
+  };
+
+  const handleFit = () => {
+    const { samples, error: parseError } = parseCalibrationSamples(text);
+    if (parseError) {
+      setResult(null);
+      setError(parseError);
+      return;
+    }
+    const { calibration, error: fitError } = calibrateKinematics(samples, robot, { free, tcp: useTool ? tcp : undefined });
+    setResult(calibration);
+    setError(fitError);
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(calibratedDescription(robot, result.kinematics));
+    setResult(null);
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const description = calibratedDescription(robot, result.kinematics);
+    downloadTextFile(`${description.id}.json`, robotDescriptionToJson(description), 'application/json');
+  };
+
+  const button = 'flex items-center justify-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Measured Poses */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+          <Ruler size={12} /> Kinematic Calibration · {robot.name}
+        </div>
+        <p className="text-[10px] text-slate-500">
+          One pose per line as read from the pendant: S H V R2 B R1 X Y Z (RX RY RZ optional). Vary H, V and B widely.
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setResult(null); }}
+          rows={6}
+          spellCheck={false}
+          placeholder={'# S, H, V, R2, B, R1, X, Y, Z\n0, 90, 0, 0, -90, 0, 1562, 0, 1718'}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 font-mono text-[10px] px-2 py-1 rounded focus:border-amber-500 focus:outline-none resize-y"
+        />
+        <div className="flex items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={button} title="Import poses (CSV / text)">
+            <Upload size={12} /> Import
+          </button>
+          <label className="flex items-center gap-1.5 text-[10px] text-slate-400">
+            <input type="checkbox" checked={useTool} onChange={(e) => { setUseTool(e.target.checked); setResult(null); }} />
+            Readout is the active tool TCP
+          </label>
+        </div>
+      </div>
+
+      {/* Fitted Parameters */}
+      <div className="space-y-2 border-t border-slate-800 pt-3">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Parameters (click to lock / free)</div>
+        <div className="grid grid-cols-1 gap-1 font-mono text-[10px]">
+          {CALIBRATION_PARAMETERS.map(key => {
+            const isFree = free.includes(key);
+            const fitted = result?.kinematics[key];
+            const delta = fitted !== undefined ? fitted - robot.kinematics[key] : 0;
+            return (
+              <button
+                key={key}
+                onClick={() => toggleParameter(key)}
+                className={`flex items-center gap-2 px-2 py-1 rounded border text-left ${
+                  isFree ? 'bg-amber-500/10 border-amber-500/60 text-amber-200' : 'bg-slate-800/60 border-slate-700 text-slate-500'
+                }`}
+              >
+                <span className="w-10 uppercase">{LABELS[key]}</span>
+                <span className="flex-1">{robot.kinematics[key].toFixed(2)} {unitOf(key)}</span>
+                {fitted !== undefined && isFree && (
+                  <span className={Math.abs(delta) > 1e-3 ? 'text-green-300' : 'text-slate-500'}>
+                    → {fitted.toFixed(2)} ({delta >= 0 ? '+' : ''}{delta.toFixed(2)})
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <button
+          onClick={handleFit}
+          disabled={!text.trim()}
+          className="w-full py-1.5 bg-amber-500 hover:bg-amber-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded"
+        >
+          Fit Parameters
+        </button>
+      </div>
+
+      {/* Residuals */}
+      {result && (
+        <div className="space-y-2 border-t border-slate-800 pt-3">
+          <div className="font-mono text-[10px] text-slate-400 bg-black/30 rounded px-2 py-1.5">
+            RMS: {result.initialRms.toFixed(3)} → <span className={result.rms > 1 ? 'text-red-300' : 'text-green-300'}>
+              {result.rms.toFixed(3)} mm
+            </span>
+            <span className="text-slate-600"> · {result.iterations} iterations</span>
+          </div>
+          <div className="max-h-40 overflow-y-auto font-mono text-[10px] space-y-0.5">
+            {result.residuals.map(r => (
+              <div key={r.line} className="flex gap-2 px-2 text-slate-400">
+                <span className="w-8 text-slate-600">L{r.line}</span>
+                <span className="flex-1">{r.dx.toFixed(2)}, {r.dy.toFixed(2)}, {r.dz.toFixed(2)}</span>
+                <span className={r.error > 1 ? 'text-red-300' : 'text-green-300'}>{r.error.toFixed(3)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleApply} className={`${button} flex-1 text-green-300`}>
+              <CheckCircle2 size={12} /> Apply to Model
+            </button>
+            <button onClick={handleExport} className={`${button} flex-1`} title="Export calibrated robot description (JSON)">
+              <Download size={12} /> Export
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-1.5 text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+          <AlertTriangle size={12} className="shrink-0 mt-px" /> <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
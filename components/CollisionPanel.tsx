@@ -0,0 +1,72 @@
+import React from 'react';
+import { CellObject } from '../types';
+import { CollisionPair, formatCollisionPair, obstacleBodyId, pairKey } from '../utils/collision';
+import { ShieldCheck, ShieldAlert, Box as BoxIcon } from 'lucide-react';
+
+interface CollisionPanelProps {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  collisions: CollisionPair[];
+  obstacles: CellObject[];
+}
+
+export const CollisionPanel: React.FC<CollisionPanelProps> = ({
+  enabled,
+  setEnabled,
+  collisions,
+  obstacles,
+}) => {
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Live Status */}
+      <div className="space-y-2">
+        <label className="flex items-center justify-between text-slate-300">
+          <span className="font-bold uppercase tracking-wider text-[10px]">Collision Checking</span>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="accent-amber-500"
+          />
+        </label>
+        {!enabled ? (
+          <div className="text-[10px] text-slate-500">Disabled. Poses and moves are not checked.</div>
+        ) : collisions.length === 0 ? (
+          <div className="flex items-center gap-1.5 text-[10px] text-green-300 bg-green-900/20 border border-green-800/50 rounded px-2 py-1.5">
+            <ShieldCheck size={12} /> No collisions
+          </div>
+        ) : (
+          <div className="text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5 space-y-0.5">
+            <div className="flex items-center gap-1.5 font-bold">
+              <ShieldAlert size={12} /> {collisions.length} colliding pair(s)
+            </div>
+            {collisions.map(pair => (
+              <div key={pairKey(pair)} className="font-mono">{formatCollisionPair(pair)}</div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Obstacle List (Edited in the Cell tab) */}
+      <div className="space-y-1 border-t border-slate-800 pt-3">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Obstacles (Cell Objects)</div>
+        {obstacles.length === 0 && (
+          <div className="text-[10px] text-slate-500">No obstacles. Floor and self collisions are still checked.</div>
+        )}
+        {obstacles.map(obstacle => (
+          <div
+            key={obstacle.id}
+            className="flex items-center gap-2 px-2 py-1.5 rounded border bg-slate-800/60 border-slate-700 text-slate-300"
+          >
+            <BoxIcon size={12} />
+            <span className="flex-1 truncate">{obstacle.name}</span>
+            {collisions.some(pair => pair.b.id === obstacleBodyId(obstacle)) && (
+              <ShieldAlert size={12} className="text-red-400" />
+            )}
+          </div>
+        ))}
+        <div className="text-[9px] text-slate-600">Add and place objects in the Cell tab; untick "Obstacle" to exclude one.</div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,31 @@
 
-import React, { useMemo } from 'react';
-import { JointState, JOINT_LIMITS } from '../types';
-import { calculateForwardKinematics } from '../utils/kinematics';
-import { RotateCw, RotateCcw, RefreshCcw } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { JointState, NamedPosition, RobotDescription, ToolDefinition, UserFrameDefinition, BASE_FRAME } from '../types';
+import { calculateForwardKinematics, analyzeManipulability } from '../utils/kinematics';
+import { jogCartesian, JogFrame, CartesianAxis } from '../utils/jog';
+import { poseInFrame } from '../utils/userFrame';
+import { clampToLimits } from '../utils/robotDescription';
+import { positionGroups } from '../utils/positionLibrary';
+import { MoveRequest, MotionResult, MotionProgress, MotionProfile } from '../utils/motion';
+import { RotateCw, RotateCcw, RefreshCcw, Plus, Minus, AlertTriangle, Gauge, Spline, Eraser } from 'lucide-react';
 
 interface ControlsProps {
   joints: JointState;
   setJoints: React.Dispatch<React.SetStateAction<JointState>>;
+  moveTo: (request: MoveRequest) => Promise<MotionResult>;
+  positions: NamedPosition[];  // Quick-move buttons (managed in the Positions tab)
+  motion: MotionProgress | null;
+  motionProfile: MotionProfile;
+  setMotionProfile: (profile: MotionProfile) => void;
+  tool: ToolDefinition;
+  robot: RobotDescription;
+  frames: UserFrameDefinition[];
+  activeFrameId: string;
+  setActiveFrameId: (id: string) => void;
+  onPreview?: (target: JointState | null) => void;  // Ghost of a hovered quick-move target
+  trail: boolean;
+  setTrail: (enabled: boolean) => void;
+  onClearTrail: () => void;
 }
 
 // Axis Alias Mapping: S, H, V, R2, B, R1
@@ -19,17 +38,94 @@ const AXIS_ALIASES: Record<keyof JointState, { code: string; name: string }> = {
   j6: { code: 'R1', name: 'Roll 1' },
 };
 
-export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
+// Cartesian Jog Increments (Linear mm / Angular deg per click)
+const JOG_STEPS = [
+  { label: 'Fine', linear: 1, angular: 0.1 },
+  { label: 'Mid', linear: 10, angular: 1 },
+  { label: 'Coarse', linear: 50, angular: 5 },
+];
+
+const JOG_FRAMES: Array<{ id: JogFrame; label: string }> = [
+  { id: 'base', label: 'Base' },
+  { id: 'tool', label: 'Tool' },
+  { id: 'user', label: 'User' },
+];
+
+const CARTESIAN_AXES: CartesianAxis[] = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+// Condition index of a comfortable mid-workspace pose (the ready pose reads ~0.15); gauge full scale
+const DEXTERITY_FULL_SCALE = 0.2;
+
+const SINGULARITY_LABELS = { wrist: 'Wrist', shoulder: 'Shoulder', elbow: 'Elbow' };
+
+const GAUGE_COLORS = {
+  ok: { bar: 'bg-green-500', text: 'text-green-300' },
+  near: { bar: 'bg-amber-500', text: 'text-amber-300' },
+  singular: { bar: 'bg-red-500', text: 'text-red-300' },
+};
+
+const MOTION_PROFILES: Array<{ id: MotionProfile; label: string }> = [
+  { id: 'trapezoidal', label: 'Trapezoid' },
+  { id: 'scurve', label: 'S-Curve' },
+];
+
+export const Controls: React.FC<ControlsProps> = ({
+  joints,
+  setJoints,
+  moveTo,
+  positions,
+  motion,
+  motionProfile,
+  setMotionProfile,
+  tool,
+  robot,
+  frames,
+  activeFrameId,
+  setActiveFrameId,
+  onPreview,
+  trail,
+  setTrail,
+  onClearTrail,
+}) => {
   
-  const pose = useMemo(() => calculateForwardKinematics(joints), [joints]);
+  const pose = useMemo(() => calculateForwardKinematics(joints, { tcp: tool.tcp, robot }), [joints, tool, robot]);
+  const activeFrame = frames.find(f => f.id === activeFrameId) ?? BASE_FRAME;
+  // Cartesian readout in the active user frame (the base frame shows the raw FK pose)
+  const readout = useMemo(
+    () => (activeFrame.id === BASE_FRAME.id ? pose : poseInFrame(pose, activeFrame.frame)),
+    [pose, activeFrame]
+  );
+  const dexterity = useMemo(() => analyzeManipulability(joints, { tcp: tool.tcp, robot }), [joints, tool, robot]);
+  const limits = robot.limits;
+  const gaugeColor = GAUGE_COLORS[dexterity.level];
+
+  const [jogFrame, setJogFrame] = useState<JogFrame>('base');
+  const [jogStepIndex, setJogStepIndex] = useState(1);
+  const [jogMessage, setJogMessage] = useState<string | null>(null);
+
+  // Quick-move group (first group when the chosen one no longer exists)
+  const groups = positionGroups(positions);
+  const [positionGroup, setPositionGroup] = useState<string | null>(null);
+  const activeGroup = positionGroup && groups.includes(positionGroup) ? positionGroup : groups[0];
+
+  const handleJog = (axis: CartesianAxis, direction: 1 | -1) => {
+    const result = jogCartesian(joints, axis, direction, JOG_STEPS[jogStepIndex], jogFrame, {
+      userFrame: activeFrame.frame,
+      tcp: tool.tcp,
+      robot,
+    });
+    if (result.joints) {
+      setJoints(result.joints);
+    }
+    setJogMessage(result.error);
+  };
 
   const handleChange = (axis: keyof JointState, value: number) => {
     // Basic NaN check
     if (isNaN(value)) return;
     
-    // Clamp value to joint limits
-    const limit = JOINT_LIMITS[axis];
-    const clampedValue = Math.min(Math.max(value, limit.min), limit.max);
+    // Clamp value to the joint limits of the robot model
+    const clampedValue = clampToLimits(robot, axis, value);
 
     setJoints(prev => ({
       ...prev,
@@ -38,7 +134,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
   };
 
   const handleReset = () => {
-    setJoints({ j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 });
+    moveTo({ target: { j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 } });
   };
 
   return (
@@ -65,6 +161,21 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
           <div className="py-1 border-r border-slate-700">직교좌표 (Cartesian)</div>
           <div className="py-1">축좌표 (Joint)</div>
         </div>
+        <div className="flex items-center justify-between gap-2 px-3 py-0.5 bg-slate-900/60 text-[10px] text-slate-500 border-b border-slate-800/50">
+          <span className="truncate">
+            {robot.name} · TCP: <span className="text-amber-400/80">{tool.name}</span>
+          </span>
+          <select
+            value={activeFrame.id}
+            onChange={(e) => setActiveFrameId(e.target.value)}
+            className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-px focus:border-amber-500 focus:outline-none"
+            title="Cartesian readout / user jog frame"
+          >
+            {frames.map(frame => (
+              <option key={frame.id} value={frame.id}>{frame.name}</option>
+            ))}
+          </select>
+        </div>
         
         {/* Data Rows */}
         <div className="bg-black/40">
@@ -73,7 +184,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
               <div className="flex justify-between px-3 py-1 border-r border-slate-800/50">
                  <span className="text-slate-400">X</span>
                  {/* Pose is already in MM from kinematics */}
-                 <span className="text-blue-300">{pose.x.toFixed(1)}</span>
+                 <span className="text-blue-300">{readout.x.toFixed(1)}</span>
               </div>
               <div className="flex justify-between px-3 py-1">
                  <span className="text-slate-400">S</span>
@@ -84,7 +195,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
            <div className="grid grid-cols-2 border-b border-slate-800/50">
               <div className="flex justify-between px-3 py-1 border-r border-slate-800/50">
                  <span className="text-slate-400">Y</span>
-                 <span className="text-blue-300">{pose.y.toFixed(1)}</span>
+                 <span className="text-blue-300">{readout.y.toFixed(1)}</span>
               </div>
               <div className="flex justify-between px-3 py-1">
                  <span className="text-slate-400">H</span>
@@ -95,7 +206,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
            <div className="grid grid-cols-2 border-b border-slate-800/50">
               <div className="flex justify-between px-3 py-1 border-r border-slate-800/50">
                  <span className="text-slate-400">Z</span>
-                 <span className="text-blue-300">{pose.z.toFixed(1)}</span>
+                 <span className="text-blue-300">{readout.z.toFixed(1)}</span>
               </div>
               <div className="flex justify-between px-3 py-1">
                  <span className="text-slate-400">V</span>
@@ -106,7 +217,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
            <div className="grid grid-cols-2 border-b border-slate-800/50">
               <div className="flex justify-between px-3 py-1 border-r border-slate-800/50">
                  <span className="text-slate-400">RX</span>
-                 <span className="text-blue-300">{pose.rx.toFixed(1)}</span>
+                 <span className="text-blue-300">{readout.rx.toFixed(1)}</span>
               </div>
               <div className="flex justify-between px-3 py-1">
                  <span className="text-slate-400">R2</span>
@@ -117,7 +228,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
            <div className="grid grid-cols-2 border-b border-slate-800/50">
               <div className="flex justify-between px-3 py-1 border-r border-slate-800/50">
                  <span className="text-slate-400">RY</span>
-                 <span className="text-blue-300">{pose.ry.toFixed(1)}</span>
+                 <span className="text-blue-300">{readout.ry.toFixed(1)}</span>
               </div>
               <div className="flex justify-between px-3 py-1">
                  <span className="text-slate-400">B</span>
@@ -128,7 +239,7 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
            <div className="grid grid-cols-2">
               <div className="flex justify-between px-3 py-1 border-r border-slate-800/50">
                  <span className="text-slate-400">RZ</span>
-                 <span className="text-blue-300">{pose.rz.toFixed(1)}</span>
+                 <span className="text-blue-300">{readout.rz.toFixed(1)}</span>
               </div>
               <div className="flex justify-between px-3 py-1">
                  <span className="text-slate-400">R1</span>
@@ -138,9 +249,29 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
         </div>
       </div>
 
+      {/* Singularity / Manipulability Gauge */}
+      <div className="mx-4 -mt-2 mb-1 space-y-1">
+        <div className="flex items-center justify-between text-[10px] font-mono">
+          <span className="flex items-center gap-1 text-slate-400 uppercase tracking-wider">
+            <Gauge size={12} /> Manipulability
+          </span>
+          <span className={gaugeColor.text}>
+            {dexterity.singularity
+              ? `${SINGULARITY_LABELS[dexterity.singularity]} singularity${dexterity.level === 'near' ? ' (near)' : ''}`
+              : `w ${dexterity.manipulability.toFixed(3)}`}
+          </span>
+        </div>
+        <div className="h-1.5 bg-slate-800 rounded overflow-hidden" title={`Condition index ${dexterity.conditionIndex.toFixed(4)}`}>
+          <div
+            className={`h-full transition-all ${gaugeColor.bar}`}
+            style={{ width: `${Math.min(dexterity.conditionIndex / DEXTERITY_FULL_SCALE, 1) * 100}%` }}
+          />
+        </div>
+      </div>
+
       {/* Joint Sliders */}
       <div className="px-5 py-3 space-y-4">
-        {(Object.keys(JOINT_LIMITS) as Array<keyof JointState>).map((axis) => (
+        {(Object.keys(limits) as Array<keyof JointState>).map((axis) => (
           <div key={axis} className="group">
             <div className="flex justify-between items-center mb-1 text-sm">
               <div className="flex items-center gap-2">
@@ -154,22 +285,22 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
               </div>
               {/* Added Limits Display */}
               <span className="text-[10px] text-slate-600 font-mono">
-                [{JOINT_LIMITS[axis].min}° ~ {JOINT_LIMITS[axis].max}°]
+                [{limits[axis].min}° ~ {limits[axis].max}°]
               </span>
             </div>
             
             <div className="flex items-center gap-2">
               <button 
                 className="text-slate-500 hover:text-white transition-colors flex-shrink-0"
-                onClick={() => handleChange(axis, Math.max(JOINT_LIMITS[axis].min, joints[axis] - 1))}
+                onClick={() => handleChange(axis, Math.max(limits[axis].min, joints[axis] - 1))}
               >
                 <RotateCcw size={12} />
               </button>
               
               <input
                 type="range"
-                min={JOINT_LIMITS[axis].min}
-                max={JOINT_LIMITS[axis].max}
+                min={limits[axis].min}
+                max={limits[axis].max}
                 step={0.01}
                 value={joints[axis]}
                 onChange={(e) => handleChange(axis, parseFloat(e.target.value))}
@@ -178,15 +309,15 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
               
               <button 
                 className="text-slate-500 hover:text-white transition-colors flex-shrink-0"
-                onClick={() => handleChange(axis, Math.min(JOINT_LIMITS[axis].max, joints[axis] + 1))}
+                onClick={() => handleChange(axis, Math.min(limits[axis].max, joints[axis] + 1))}
               >
                 <RotateCw size={12} />
               </button>
 
               <input
                 type="number"
-                min={JOINT_LIMITS[axis].min}
-                max={JOINT_LIMITS[axis].max}
+                min={limits[axis].min}
+                max={limits[axis].max}
                 step={0.01}
                 value={joints[axis]} // Keep raw value
                 onChange={(e) => {
@@ -200,30 +331,173 @@ export const Controls: React.FC<ControlsProps> = ({ joints, setJoints }) => {
         ))}
       </div>
 
-      {/* Presets - Calibrated Poses */}
+      {/* Cartesian Jog */}
+      <div className="px-5 py-3 border-t border-slate-800 space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">Cartesian Jog</span>
+          <div className="flex gap-1">
+            {JOG_STEPS.map((step, idx) => (
+              <button
+                key={step.label}
+                onClick={() => setJogStepIndex(idx)}
+                className={`px-1.5 py-0.5 text-[10px] rounded border ${
+                  jogStepIndex === idx
+                    ? 'bg-amber-500/20 border-amber-500 text-amber-300'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+                title={`${step.linear} mm / ${step.angular}°`}
+              >
+                {step.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Jog Frame Selector */}
+        <div className="grid grid-cols-3 gap-1">
+          {JOG_FRAMES.map(frame => (
+            <button
+              key={frame.id}
+              onClick={() => setJogFrame(frame.id)}
+              className={`py-1 text-[10px] rounded border ${
+                jogFrame === frame.id
+                  ? 'bg-blue-500/20 border-blue-500 text-blue-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              {frame.label}
+            </button>
+          ))}
+        </div>
+
+        {/* User frames are defined in the Frames tab */}
+        {jogFrame === 'user' && (
+          <div className="text-[10px] text-slate-500">
+            Jogging in <span className="text-blue-300">{activeFrame.name}</span>
+            {activeFrame.id === BASE_FRAME.id && ' (select a user frame above or in the Frames tab)'}
+          </div>
+        )}
+
+        {/* Axis Buttons */}
+        <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+          {CARTESIAN_AXES.map(axis => (
+            <div key={axis} className="flex items-center justify-between gap-1">
+              <button
+                onClick={() => handleJog(axis, -1)}
+                className="p-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-400 hover:text-white"
+              >
+                <Minus size={12} />
+              </button>
+              <span className="font-mono text-xs font-bold text-slate-300 uppercase">{axis}</span>
+              <button
+                onClick={() => handleJog(axis, 1)}
+                className="p-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-400 hover:text-white"
+              >
+                <Plus size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {jogMessage && (
+          <div className="flex items-start gap-1.5 text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+            <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+            <span>{jogMessage}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Position Library - Quick Moves */}
       <div className="px-5 pb-5 mt-auto border-t border-slate-800 pt-4">
+        {/* Motion Profile & Progress */}
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">Motion Profile</span>
+          <div className="flex gap-1">
+            {MOTION_PROFILES.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => setMotionProfile(profile.id)}
+                className={`px-2 py-1 text-[10px] rounded border transition-colors ${
+                  motionProfile === profile.id
+                    ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {profile.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">TCP Trail</span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => setTrail(!trail)}
+              className={`flex items-center gap-1 px-2 py-1 text-[10px] rounded border transition-colors ${
+                trail
+                  ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              <Spline size={10} /> {trail ? 'On' : 'Off'}
+            </button>
+            <button
+              onClick={onClearTrail}
+              disabled={!trail}
+              className="px-2 py-1 text-[10px] rounded border bg-slate-800 border-slate-700 text-slate-400 hover:text-white disabled:opacity-40"
+              title="Clear the trail"
+            >
+              <Eraser size={10} />
+            </button>
+          </div>
+        </div>
+        {motion && (
+          <div className="mb-3">
+            <div className="flex justify-between text-[10px] font-mono text-slate-400 mb-1">
+              <span>Moving</span>
+              <span>{motion.elapsed.toFixed(2)} / {motion.duration.toFixed(2)} s</span>
+            </div>
+            <div className="h-1 bg-slate-800 rounded overflow-hidden">
+              <div
+                className="h-full bg-amber-500"
+                style={{ width: `${motion.duration > 0 ? (motion.elapsed / motion.duration) * 100 : 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {groups.length > 1 && (
+          <div className="flex gap-1 mb-2 overflow-x-auto">
+            {groups.map(g => (
+              <button
+                key={g}
+                onClick={() => setPositionGroup(g)}
+                className={`px-2 py-0.5 text-[10px] rounded border flex-shrink-0 ${
+                  g === activeGroup
+                    ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {g}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="grid grid-cols-3 gap-2">
-          <button 
-            onClick={() => setJoints({ j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 })}
-            className="px-2 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] text-slate-300 rounded border border-slate-700"
-            title="L-Shape: X=1562, Z=1718"
-          >
-            Pose 1 (Ready)
-          </button>
-          <button 
-            onClick={() => setJoints({ j1: 0, j2: 155, j3: 0, j4: 0, j5: 0, j6: 0 })}
-            className="px-2 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] text-slate-300 rounded border border-slate-700"
-            title="Back: X=-272, Z=2502"
-          >
-            Pose 2 (High)
-          </button>
-          <button 
-             onClick={() => setJoints({ j1: 0, j2: 10, j3: 0, j4: 0, j5: 0, j6: 0 })}
-            className="px-2 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] text-slate-300 rounded border border-slate-700"
-            title="Fwd: X=1877, Z=-608"
-          >
-            Pose 3 (Low)
-          </button>
+          {positions.filter(p => p.group === activeGroup).map(position => (
+            <button
+              key={position.id}
+              onClick={() => moveTo({ target: position.joints })}
+              onMouseEnter={() => onPreview?.(position.joints)}
+              onMouseLeave={() => onPreview?.(null)}
+              className="px-2 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] text-slate-300 rounded border border-slate-700 truncate"
+              title={position.comment || position.name}
+            >
+              {position.name}
+            </button>
+          ))}
+          {positions.length === 0 && (
+            <span className="col-span-3 text-[10px] text-slate-500">No positions. Save some in the Positions tab.</span>
+          )}
         </div>
       </div>
     </div>
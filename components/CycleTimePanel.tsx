@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { JobProgram, JointState, NamedPosition, Pose, RobotDescription } from '../types';
+import { analyzeCycle, CycleAnalysis, CycleTarget, MotionSample } from '../utils/cycleTime';
+import { MotionProfile } from '../utils/motion';
+import { moveItem, plannerSpeed } from '../utils/program';
+import { Timer, Plus, Trash2, ChevronUp, ChevronDown, ListOrdered, AlertTriangle } from 'lucide-react';
+
+interface CycleTimePanelProps {
+  positions: NamedPosition[];
+  program: JobProgram;  // Selected robot's job, loadable as the sequence
+  robot: RobotDescription;
+  tcp: Pose;
+  profile: MotionProfile;
+}
+
+type Channel = 'position' | 'velocity' | 'acceleration' | 'tcp';
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const AXIS_LABELS: Record<keyof JointState, string> = { j1: 'S', j2: 'H', j3: 'V', j4: 'R2', j5: 'B', j6: 'R1' };
+const AXIS_COLORS: Record<keyof JointState, string> = {
+  j1: '#F87171', j2: '#FB923C', j3: '#FACC15', j4: '#4ADE80', j5: '#38BDF8', j6: '#A78BFA',
+};
+
+const CHANNELS: Array<{ id: Channel; label: string; unit: string }> = [
+  { id: 'position', label: 'Pos', unit: '°' },
+  { id: 'velocity', label: 'Vel', unit: '°/s' },
+  { id: 'acceleration', label: 'Acc', unit: '°/s²' },
+  { id: 'tcp', label: 'TCP', unit: 'mm/s' },
+];
+
+// Polyline points per series (samples are decimated beyond this)
+const MAX_PLOT_POINTS = 400;
+const PLOT_WIDTH = 280;
+const PLOT_HEIGHT = 120;
+
+const channelValue = (sample: MotionSample, channel: Channel, axis: keyof JointState) =>
+  channel === 'position' ? sample.joints[axis]
+    : channel === 'velocity' ? sample.velocity[axis]
+    : channel === 'acceleration' ? sample.acceleration[axis]
+    : sample.tcpSpeed;
+
+// Time plot of one channel (one line per visible axis, or the TCP speed), segment starts as dashed lines
+const CyclePlot: React.FC<{ analysis: CycleAnalysis; channel: Channel; axes: Array<keyof JointState> }> = ({ analysis, channel, axes }) => {
+  const stride = Math.max(1, Math.ceil(analysis.samples.length / MAX_PLOT_POINTS));
+  const samples = analysis.samples.filter((_, idx) => idx % stride === 0 || idx === analysis.samples.length - 1);
+  const series: Array<{ key: string; color: string; values: number[] }> = channel === 'tcp'
+    ? [{ key: 'tcp', color: '#F59E0B', values: samples.map(s => s.tcpSpeed) }]
+    : axes.map(axis => ({ key: axis, color: AXIS_COLORS[axis], values: samples.map(s => channelValue(s, channel, axis)) }));
+
+  const all = series.flatMap(s => s.values);
+  let min = Math.min(0, ...all);
+  let max = Math.max(0, ...all);
+  if (max - min < 1e-6) { min -= 1; max += 1; }
+  const T = analysis.totalTime || 1;
+  const x = (time: number) => (time / T) * PLOT_WIDTH;
+  const y = (value: number) => PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+  const unit = CHANNELS.find(c => c.id === channel)!.unit;
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex justify-between font-mono text-[9px] text-slate-500">
+        <span>{max.toFixed(0)} {unit}</span>
+        <span>{T.toFixed(2)} s</span>
+      </div>
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-28 bg-slate-950/60 rounded border border-slate-800" preserveAspectRatio="none">
+        <line x1={0} x2={PLOT_WIDTH} y1={y(0)} y2={y(0)} stroke="#334155" strokeWidth={0.5} />
+        {analysis.segments.slice(1).map(segment => (
+          <line key={segment.index} x1={x(segment.startTime)} x2={x(segment.startTime)} y1={0} y2={PLOT_HEIGHT} stroke="#475569" strokeWidth={0.5} strokeDasharray="2 2" />
+        ))}
+        {series.map(s => (
+          <polyline
+            key={s.key}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+            points={s.values.map((v, idx) => `${x(samples[idx].time).toFixed(2)},${y(v).toFixed(2)}`).join(' ')}
+          />
+        ))}
+      </svg>
+      <div className="font-mono text-[9px] text-slate-500">{min.toFixed(0)} {unit}</div>
+    </div>
+  );
+};
+
+export const CycleTimePanel: React.FC<CycleTimePanelProps> = ({ positions, program, robot, tcp, profile }) => {
+  // Sequence (starts with the first group of the position library, e.g. the calibration presets)
+  const [sequence, setSequence] = useState<CycleTarget[]>(() =>
+    positions
+      .filter(p => p.group === positions[0]?.group)
+      .map(p => ({ label: p.name, target: p.joints, moveType: 'joint' }))
+  );
+  const [positionId, setPositionId] = useState(() => positions[0]?.id ?? '');
+  const [speed, setSpeed] = useState(100);
+  const [linearSpeed, setLinearSpeed] = useState(1000);
+  const [closed, setClosed] = useState(true);
+  const [channel, setChannel] = useState<Channel>('velocity');
+  const [visibleAxes, setVisibleAxes] = useState<Array<keyof JointState>>(AXES);
+
+  const { analysis, error } = useMemo(
+    () => analyzeCycle(sequence, { speed, linearSpeed, profile, tcp, robot, closed }),
+    [sequence, speed, linearSpeed, profile, tcp, robot, closed]
+  );
+
+  const handleAdd = () => {
+    const position = positions.find(p => p.id === positionId) ?? positions[0];
+    if (!position) return;
+    setSequence(prev => [...prev, { label: position.name, target: position.joints, moveType: 'joint' }]);
+  };
+
+  // Job moves keep their speed and wait; circular moves are estimated as linear moves to the arc end
+  const handleLoadProgram = () => {
+    setSequence(program.lines.flatMap(line => (line.kind === 'move' ? [{
+      label: line.poseVariable ?? `Step ${program.lines.indexOf(line) + 1}`,
+      target: line.target,
+      moveType: line.moveType === 'joint' ? 'joint' as const : 'linear' as const,
+      speed: plannerSpeed(line),
+      wait: line.wait,
+    }] : [])));
+    setClosed(false);
+  };
+
+  // A job speed is in the unit of its move type, so changing the type falls back to the panel speed
+  const updateTarget = (index: number, changes: Partial<CycleTarget>) =>
+    setSequence(prev => prev.map((t, idx) => (idx === index ? { ...t, ...changes, speed: undefined } : t)));
+
+  const toggleAxis = (axis: keyof JointState) =>
+    setVisibleAxes(prev => (prev.includes(axis) ? prev.filter(a => a !== axis) : AXES.filter(a => a === axis || prev.includes(a))));
+
+  const button = 'flex items-center justify-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed';
+  const sectionLabel = 'text-[10px] text-slate-500 uppercase tracking-wider';
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Sequence */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+          <Timer size={12} /> Cycle Time · {robot.name}
+        </div>
+        <div className="flex gap-1">
+          <select
+            value={positionId}
+            onChange={(e) => setPositionId(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded focus:border-amber-500 focus:outline-none"
+          >
+            {positions.map(p => <option key={p.id} value={p.id}>{p.group} / {p.name}</option>)}
+          </select>
+          <button onClick={handleAdd} disabled={positions.length === 0} className={button} title="Add position">
+            <Plus size={12} />
+          </button>
+          <button onClick={handleLoadProgram} className={button} title="Load the job's moves">
+            <ListOrdered size={12} /> Job
+          </button>
+        </div>
+        <div className="space-y-1">
+          {sequence.map((target, index) => (
+            <div key={index} className="flex items-center gap-1.5 px-2 py-1 rounded border bg-slate-800/60 border-slate-700">
+              <span className="w-4 text-slate-500 font-mono">{index + 1}</span>
+              <span className="flex-1 truncate text-slate-300">{target.label}</span>
+              <button
+                onClick={() => updateTarget(index, { moveType: target.moveType === 'joint' ? 'linear' : 'joint' })}
+                className="px-1 rounded bg-slate-700 font-mono text-[9px] text-slate-300"
+                title="Move type of the move into this target (joint / linear)"
+              >
+                {target.moveType === 'joint' ? 'P' : 'L'}
+              </button>
+              <button onClick={() => setSequence(prev => moveItem(prev, index, index - 1))} className="text-slate-500 hover:text-white"><ChevronUp size={12} /></button>
+              <button onClick={() => setSequence(prev => moveItem(prev, index, index + 1))} className="text-slate-500 hover:text-white"><ChevronDown size={12} /></button>
+              <button onClick={() => setSequence(prev => prev.filter((_, idx) => idx !== index))} className="text-slate-500 hover:text-red-400"><Trash2 size={12} /></button>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-400">
+          <label className="flex items-center gap-1">
+            Joint
+            <input type="number" min={1} max={100} value={speed} onChange={(e) => setSpeed(parseFloat(e.target.value) || 1)} className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-1 py-0.5 rounded text-right" />
+            %
+          </label>
+          <label className="flex items-center gap-1">
+            Linear
+            <input type="number" min={1} value={linearSpeed} onChange={(e) => setLinearSpeed(parseFloat(e.target.value) || 1)} className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-1 py-0.5 rounded text-right" />
+            mm/s
+          </label>
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] text-slate-400">
+          <input type="checkbox" checked={closed} onChange={(e) => setClosed(e.target.checked)} />
+          Return to the first target (repeating cycle)
+        </label>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-1.5 text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+          <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {analysis && (
+        <>
+          {/* Cycle Time + Limiting Axis per Segment */}
+          <div className="space-y-2 border-t border-slate-800 pt-3">
+            <div className="flex items-baseline justify-between">
+              <span className={sectionLabel}>Estimated Cycle</span>
+              <span className="font-mono text-lg text-amber-300">{analysis.totalTime.toFixed(2)} s</span>
+            </div>
+            <table className="w-full font-mono text-[10px]">
+              <tbody>
+                {analysis.segments.map(segment => (
+                  <tr key={segment.index} className="text-slate-400" title={`${segment.from} → ${segment.to}`}>
+                    <td className="w-4 text-slate-500">{segment.index}</td>
+                    <td className="truncate max-w-[7rem]">{segment.to}</td>
+                    <td className="text-right">{segment.duration.toFixed(2)} s</td>
+                    <td className="text-right pl-2">
+                      {segment.tcpLimited ? (
+                        <span className="text-slate-300">TCP {segment.peakTcpSpeed.toFixed(0)} mm/s</span>
+                      ) : (
+                        <span style={{ color: AXIS_COLORS[segment.limit.axis] }}>
+                          {AXIS_LABELS[segment.limit.axis]} {segment.limit.kind} {(segment.limit.utilization * 100).toFixed(0)}%
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-[9px] text-slate-600">
+              Limit = axis closest to its speed / acceleration limit ({profile === 'scurve' ? 'S-curve' : 'trapezoidal'} profile). Excludes controller
+              accuracy settling and I/O waits.
+            </p>
+          </div>
+
+          {/* Plots */}
+          <div className="space-y-2 border-t border-slate-800 pt-3">
+            <div className="flex gap-1">
+              {CHANNELS.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => setChannel(c.id)}
+                  className={`flex-1 px-2 py-1 text-[10px] rounded border ${
+                    channel === c.id ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+            <CyclePlot analysis={analysis} channel={channel} axes={visibleAxes} />
+            {channel !== 'tcp' && (
+              <div className="flex gap-1">
+                {AXES.map(axis => (
+                  <button
+                    key={axis}
+                    onClick={() => toggleAxis(axis)}
+                    className={`flex-1 py-0.5 rounded border text-[10px] font-mono ${visibleAxes.includes(axis) ? 'border-slate-600' : 'border-slate-800 opacity-40'}`}
+                    style={{ color: AXIS_COLORS[axis] }}
+                  >
+                    {AXIS_LABELS[axis]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
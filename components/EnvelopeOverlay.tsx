@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { ReachEnvelope, revolveEnvelope, envelopePointCloud } from '../utils/workspace';
+
+export type EnvelopeMode = 'shell' | 'points';
+
+interface EnvelopeOverlayProps {
+  envelope: ReachEnvelope;
+  mode: EnvelopeMode;
+}
+
+// Base frame (mm, Z-up) -> Scene (m, Y-up)
+const toScene = (p: number[], out: number[]) => {
+  out.push(p[0] / 1000, p[2] / 1000, -p[1] / 1000);
+};
+
+// Translucent reach envelope drawn around the robot base (must be rendered inside the Canvas)
+export const EnvelopeOverlay: React.FC<EnvelopeOverlayProps> = ({ envelope, mode }) => {
+  const positions = useMemo(() => {
+    const flat: number[] = [];
+    if (mode === 'shell') {
+      revolveEnvelope(envelope).forEach(triangle => triangle.forEach(p => toScene(p, flat)));
+    } else {
+      envelopePointCloud(envelope).forEach(p => toScene(p, flat));
+    }
+    return new Float32Array(flat);
+  }, [envelope, mode]);
+
+  if (mode === 'points') {
+    return (
+      <points key={`points-${positions.length}`}>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+        </bufferGeometry>
+        <pointsMaterial color="#38BDF8" size={0.02} transparent opacity={0.6} depthWrite={false} />
+      </points>
+    );
+  }
+
+  return (
+    <mesh key={`shell-${positions.length}`}>
+      <bufferGeometry onUpdate={(geometry) => geometry.computeVertexNormals()}>
+        <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+      </bufferGeometry>
+      <meshStandardMaterial color="#38BDF8" transparent opacity={0.12} depthWrite={false} />
+    </mesh>
+  );
+};
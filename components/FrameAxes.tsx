@@ -0,0 +1,37 @@
+import React from 'react';
+import { Line, Sphere } from '@react-three/drei';
+import { Pose } from '../types';
+
+interface FrameAxesProps {
+  frame: Pose;      // mm / deg in the parent frame (Z-up)
+  length?: number;  // Axis length (mm)
+}
+
+const d2r = (deg: number) => (deg * Math.PI) / 180;
+
+const AXES: Array<{ end: [number, number, number]; color: string }> = [
+  { end: [1, 0, 0], color: '#EF4444' },
+  { end: [0, 1, 0], color: '#22C55E' },
+  { end: [0, 0, 1], color: '#3B82F6' },
+];
+
+// RGB = XYZ triad of a coordinate frame (must be placed inside a mm / Z-up group)
+export const FrameAxes: React.FC<FrameAxesProps> = ({ frame, length = 400 }) => (
+  <group
+    position={[frame.x, frame.y, frame.z]}
+    rotation={[d2r(frame.rx), d2r(frame.ry), d2r(frame.rz), 'ZYX']}
+  >
+    {AXES.map(axis => (
+      <Line
+        key={axis.color}
+        points={[[0, 0, 0], axis.end.map(v => v * length) as [number, number, number]]}
+        color={axis.color}
+        lineWidth={3}
+        depthTest={false}
+      />
+    ))}
+    <Sphere args={[length * 0.04, 16, 16]}>
+      <meshBasicMaterial color="#F8FAFC" depthTest={false} />
+    </Sphere>
+  </group>
+);
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { JointState } from '../types';
+import { JointChangeSource, JointHistory, canRedo, canUndo } from '../utils/jointHistory';
+import { Undo2, Redo2, Bookmark, Check, X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: JointHistory;
+  onSeek: (index: number) => void;
+  positionCount: number;  // Library size, for the default name
+  onSavePosition: (name: string, joints: JointState) => void;
+}
+
+const SOURCE_STYLES: Record<JointChangeSource, { label: string; className: string }> = {
+  initial: { label: 'Start', className: 'bg-slate-700 text-slate-300' },
+  slider: { label: 'Slider', className: 'bg-blue-900/60 text-blue-300' },
+  preset: { label: 'Preset', className: 'bg-amber-900/60 text-amber-300' },
+  ai: { label: 'AI', className: 'bg-sky-900/60 text-sky-300' },
+  program: { label: 'Program', className: 'bg-green-900/60 text-green-300' },
+  cell: { label: 'Cell', className: 'bg-purple-900/60 text-purple-300' },
+  remote: { label: 'Remote', className: 'bg-rose-900/60 text-rose-300' },
+};
+
+const formatJoints = (joints: JointState) =>
+  [joints.j1, joints.j2, joints.j3, joints.j4, joints.j5, joints.j6].map(v => v.toFixed(0)).join(' ');
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onSeek,
+  positionCount,
+  onSavePosition,
+}) => {
+  // Entry being named ("Save as position")
+  const [namingId, setNamingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+
+  const { entries, cursor } = history;
+  const button = 'flex-1 flex items-center justify-center gap-1 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const startNaming = (id: number) => {
+    setNamingId(id);
+    setName(`P${positionCount + 1}`);
+  };
+
+  const commitName = (joints: JointState) => {
+    if (name.trim()) onSavePosition(name.trim(), joints);
+    setNamingId(null);
+  };
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Undo / Redo + Timeline */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <button onClick={() => onSeek(cursor - 1)} disabled={!canUndo(history)} className={button} title="Undo (Ctrl+Z)">
+            <Undo2 size={12} /> Undo
+          </button>
+          <button onClick={() => onSeek(cursor + 1)} disabled={!canRedo(history)} className={button} title="Redo (Ctrl+Y / Ctrl+Shift+Z)">
+            <Redo2 size={12} /> Redo
+          </button>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, entries.length - 1)}
+          step={1}
+          value={cursor}
+          onChange={(e) => onSeek(parseInt(e.target.value, 10))}
+          disabled={entries.length < 2}
+          className="w-full accent-amber-500"
+        />
+        <div className="flex justify-between text-[10px] text-slate-500 font-mono">
+          <span>{cursor + 1} / {entries.length}</span>
+          <span>{new Date(entries[cursor].time).toLocaleTimeString()}</span>
+        </div>
+      </div>
+
+      {/* Entries (Newest first; greyed entries are the redo tail) */}
+      <div className="space-y-1 border-t border-slate-800 pt-3">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Changes</div>
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => {
+            const style = SOURCE_STYLES[entry.source];
+            return (
+              <div
+                key={entry.id}
+                className={`px-2 py-1.5 rounded border ${
+                  index === cursor ? 'bg-amber-900/20 border-amber-700/60' : 'bg-slate-800/60 border-slate-700'
+                } ${index > cursor ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <button onClick={() => onSeek(index)} className="flex-1 flex items-center gap-2 text-left min-w-0">
+                    <span className={`px-1.5 py-px rounded text-[9px] font-bold uppercase ${style.className}`}>{style.label}</span>
+                    <span className="font-mono text-[10px] text-slate-300 truncate">{formatJoints(entry.joints)}</span>
+                  </button>
+                  <span className="font-mono text-[9px] text-slate-500">{new Date(entry.time).toLocaleTimeString()}</span>
+                  <button onClick={() => startNaming(entry.id)} className="text-slate-500 hover:text-amber-400" title="Save to the position library">
+                    <Bookmark size={12} />
+                  </button>
+                </div>
+                {namingId === entry.id && (
+                  <div className="flex items-center gap-1 mt-1.5">
+                    <input
+                      autoFocus
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitName(entry.joints);
+                        if (e.key === 'Escape') setNamingId(null);
+                      }}
+                      className="flex-1 bg-slate-900 border border-slate-700 text-slate-200 px-1.5 py-0.5 rounded focus:border-amber-500 focus:outline-none"
+                    />
+                    <button onClick={() => commitName(entry.joints)} className="text-green-400 hover:text-green-300"><Check size={12} /></button>
+                    <button onClick={() => setNamingId(null)} className="text-slate-500 hover:text-slate-300"><X size={12} /></button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import { Line, Sphere } from '@react-three/drei';
+import { Vector3 } from '../types';
+
+interface JointPathOverlayProps {
+  points: Vector3[];   // TCP positions (mm, parent frame)
+  flagged?: number[];  // Indices of samples with issues (drawn as red markers)
+  cursor?: Vector3 | null;
+}
+
+// Markers beyond this are skipped (a bad log can flag every sample)
+const MAX_MARKERS = 300;
+
+// TCP path of a joint log (must be placed inside a mm / Z-up group, like FrameAxes)
+export const JointPathOverlay: React.FC<JointPathOverlayProps> = ({ points, flagged = [], cursor = null }) => {
+  const line = useMemo(() => points.map(p => [p.x, p.y, p.z] as [number, number, number]), [points]);
+  const markers = useMemo(
+    () => [...new Set(flagged)].slice(0, MAX_MARKERS).map(index => points[index]).filter(Boolean),
+    [points, flagged]
+  );
+
+  return (
+    <group>
+      {line.length > 1 && <Line points={line} color="#A78BFA" lineWidth={2} transparent opacity={0.85} />}
+      {markers.map((p, idx) => (
+        <Sphere key={idx} args={[12, 8, 8]} position={[p.x, p.y, p.z]}>
+          <meshBasicMaterial color="#EF4444" />
+        </Sphere>
+      ))}
+      {cursor && (
+        <Sphere args={[20, 16, 16]} position={[cursor.x, cursor.y, cursor.z]}>
+          <meshBasicMaterial color="#F8FAFC" depthTest={false} />
+        </Sphere>
+      )}
+    </group>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { JointState, RobotDescription } from '../types';
+import {
+  parseJointLog,
+  jointLogToCsv,
+  jointLogDuration,
+  jointLogAt,
+  sampleIndexAt,
+  JointLogIssue,
+  JointLogSample,
+} from '../utils/jointLog';
+import { downloadTextFile } from '../utils/download';
+import { FileClock, Upload, Download, Play, Pause, SkipBack, X, Circle, Square, AlertTriangle } from 'lucide-react';
+
+// Loaded log and its playback clock (App advances time from the Scene frame loop)
+export interface LogReplay {
+  name: string;
+  samples: JointLogSample[];
+  time: number;    // s
+  playing: boolean;
+  speed: number;   // Playback rate (1 = real time)
+}
+
+interface LogReplayPanelProps {
+  replay: LogReplay | null;
+  setReplay: React.Dispatch<React.SetStateAction<LogReplay | null>>;
+  issues: JointLogIssue[];  // Checks of the loaded log against the selected model
+  robot: RobotDescription;
+  recording: boolean;
+  setRecording: (recording: boolean) => void;
+  recorded: JointLogSample[];  // Last finished recording of the selected robot
+}
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const AXIS_LABELS: Record<keyof JointState, string> = { j1: 'S', j2: 'H', j3: 'V', j4: 'R2', j5: 'B', j6: 'R1' };
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+// Issues listed in the panel (the markers in the scene show all of them)
+const MAX_LISTED_ISSUES = 100;
+
+export const LogReplayPanel: React.FC<LogReplayPanelProps> = ({
+  replay,
+  setReplay,
+  issues,
+  robot,
+  recording,
+  setRecording,
+  recorded,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const duration = replay ? jointLogDuration(replay.samples) : 0;
+  const joints = replay ? jointLogAt(replay.samples, replay.time) : null;
+  const index = replay ? sampleIndexAt(replay.samples, replay.time) : 0;
+  const counts = useMemo(
+    () => ({ limit: issues.filter(i => i.kind === 'limit').length, jump: issues.filter(i => i.kind === 'jump').length }),
+    [issues]
+  );
+  const flaggedHere = issues.filter(i => i.index === index);
+
+  const load = (name: string, samples: JointLogSample[]) => setReplay({ name, samples, time: 0, playing: false, speed: 1 });
+  const update = (patch: Partial<LogReplay>) => setReplay(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { samples, error: parseError } = parseJointLog(await file.text());
+    setError(parseError);
+    if (!parseError) load(file.name, samples);
+  };
+
+  const togglePlay = () => {
+    if (!replay) return;
+    // Playing from the end starts over
+    update({ playing: !replay.playing, time: !replay.playing && replay.time >= duration ? 0 : replay.time });
+  };
+
+  const button = 'flex items-center justify-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Log Import */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+          <FileClock size={12} /> Joint Log Replay · {robot.name}
+        </div>
+        <p className="text-[10px] text-slate-500">
+          Controller logs as CSV: time S H V R2 B R1 (seconds, or milliseconds with a time_ms header). The selected robot shows the log
+          while it is loaded.
+        </p>
+        <div className="flex gap-1">
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,.log" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={`${button} flex-1`}>
+            <Upload size={12} /> Load Log
+          </button>
+          {replay && (
+            <button onClick={() => setReplay(null)} className={button} title="Close the log (back to the live robot)">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+        {error && <div className="text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">{error}</div>}
+      </div>
+
+      {/* Playback */}
+      {replay && joints && (
+        <div className="space-y-2 border-t border-slate-800 pt-3">
+          <div className="flex justify-between font-mono text-[10px] text-slate-400">
+            <span className="truncate text-amber-400/80">{replay.name}</span>
+            <span>{replay.samples.length} samples · {duration.toFixed(2)} s</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.001}
+            value={replay.time}
+            onChange={(e) => update({ time: parseFloat(e.target.value), playing: false })}
+            className="w-full accent-amber-500"
+          />
+          <div className="flex items-center gap-1">
+            <button onClick={() => update({ time: 0 })} className={button} title="Back to the start">
+              <SkipBack size={12} />
+            </button>
+            <button onClick={togglePlay} className={`${button} flex-1`}>
+              {replay.playing ? <Pause size={12} /> : <Play size={12} />} {replay.playing ? 'Pause' : 'Play'}
+            </button>
+            {SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => update({ speed })}
+                className={`px-1.5 py-1.5 text-[10px] rounded border ${
+                  replay.speed === speed
+                    ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {speed}×
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-6 gap-1 font-mono text-[10px] text-center">
+            {AXES.map(axis => (
+              <div
+                key={axis}
+                className={`rounded px-1 py-0.5 ${flaggedHere.some(i => i.axis === axis) ? 'bg-red-900/40 text-red-300' : 'bg-slate-800/60 text-slate-300'}`}
+              >
+                <div className="text-slate-500">{AXIS_LABELS[axis]}</div>
+                {joints[axis].toFixed(1)}
+              </div>
+            ))}
+          </div>
+          <div className="font-mono text-[10px] text-slate-500">
+            t = {replay.time.toFixed(3)} s · sample {index + 1}
+          </div>
+        </div>
+      )}
+
+      {/* Checks */}
+      {replay && (
+        <div className="space-y-1.5 border-t border-slate-800 pt-3">
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">
+            Checks · {counts.limit} limit · {counts.jump} jump
+          </div>
+          {issues.length === 0 ? (
+            <div className="text-[10px] text-green-300">Every sample is within the limits of the {robot.name}, no jumps.</div>
+          ) : (
+            <div className="space-y-0.5 max-h-40 overflow-y-auto">
+              {issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => update({ time: issue.time, playing: false })}
+                  className="w-full flex items-start gap-1.5 text-left text-[10px] text-red-300 hover:bg-slate-800 rounded px-1 py-0.5"
+                >
+                  <AlertTriangle size={11} className="flex-shrink-0 mt-0.5" />
+                  <span className="font-mono text-slate-500">{issue.time.toFixed(3)} s</span>
+                  <span>{issue.message}</span>
+                </button>
+              ))}
+              {issues.length > MAX_LISTED_ISSUES && (
+                <div className="text-[10px] text-slate-500">… {issues.length - MAX_LISTED_ISSUES} more</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recording (simulated motion in the same CSV format) */}
+      <div className="space-y-2 border-t border-slate-800 pt-3">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Record Simulated Motion</div>
+        <div className="flex gap-1">
+          <button onClick={() => setRecording(!recording)} className={`${button} flex-1 ${recording ? 'text-red-300' : ''}`}>
+            {recording ? <Square size={12} /> : <Circle size={12} className="text-red-400" />} {recording ? 'Stop Recording' : 'Record'}
+          </button>
+          <button
+            onClick={() => downloadTextFile('joint-log.csv', jointLogToCsv(recorded), 'text/csv')}
+            disabled={recording || recorded.length === 0}
+            className={button}
+            title="Export as CSV"
+          >
+            <Download size={12} /> CSV
+          </button>
+          <button
+            onClick={() => load('Recording', recorded)}
+            disabled={recording || recorded.length === 0}
+            className={button}
+            title="Replay the recording"
+          >
+            <Play size={12} />
+          </button>
+        </div>
+        <div className="font-mono text-[10px] text-slate-500">
+          {recording ? (
+            <span className="flex items-center gap-1.5 text-red-300">
+              <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" /> Recording every frame of the selected robot…
+            </span>
+          ) : recorded.length > 0 ? (
+            `${recorded.length} samples · ${jointLogDuration(recorded).toFixed(2)} s`
+          ) : (
+            'Nothing recorded yet.'
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+
+// Compact labelled number input used by the Workbench editors
+export const NumberField: React.FC<{
+  label: string;
+  value: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, disabled, onChange }) => (
+  <label className="flex items-center gap-1 text-[10px] font-mono text-slate-500">
+    <span className="w-6 uppercase">{label}</span>
+    <input
+      type="number"
+      value={value}
+      disabled={disabled}
+      onChange={(e) => {
+        const val = parseFloat(e.target.value);
+        if (!isNaN(val)) onChange(val);
+      }}
+      className="w-full min-w-0 bg-slate-800 border border-slate-700 text-slate-200 px-1 py-0.5 rounded focus:border-amber-500 focus:outline-none text-right disabled:opacity-50"
+    />
+  </label>
+);
@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { JointState, Payload, RobotDescription, ToolDefinition } from '../types';
+import {
+  allowedRadialOffset,
+  checkWristLoad,
+  combineLoads,
+  computeStaticTorques,
+  dynamicsOf,
+  NO_PAYLOAD,
+} from '../utils/payload';
+import { NumberField } from './NumberField';
+import { Weight, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface PayloadPanelProps {
+  joints: JointState;
+  robot: RobotDescription;
+  tool: ToolDefinition;
+  payload: Payload | undefined;  // Workpiece of the selected robot
+  setPayload: (payload: Payload) => void;
+}
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const AXIS_LABELS: Record<keyof JointState, string> = { j1: 'S', j2: 'H', j3: 'V', j4: 'R2', j5: 'B', j6: 'R1' };
+
+// Load diagram plot range (mm from the flange along the tool axis / radial)
+const DIAGRAM_ALONG = 800;
+const DIAGRAM_RADIAL = 500;
+const DIAGRAM_SIZE = 120;
+
+const barColor = (ratio: number) => (ratio > 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-green-500');
+
+const UtilizationBar: React.FC<{ label: string; value: string; ratio: number }> = ({ label, value, ratio }) => (
+  <div className="flex items-center gap-2 font-mono text-[10px]">
+    <span className="w-6 text-slate-500">{label}</span>
+    <div className="flex-1 h-1.5 bg-slate-800 rounded overflow-hidden">
+      <div className={`h-full ${barColor(ratio)}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+    </div>
+    <span className="w-20 text-right text-slate-400">{value}</span>
+    <span className={`w-9 text-right ${ratio > 1 ? 'text-red-300' : 'text-slate-500'}`}>{(ratio * 100).toFixed(0)}%</span>
+  </div>
+);
+
+export const PayloadPanel: React.FC<PayloadPanelProps> = ({ joints, robot, tool, payload = NO_PAYLOAD, setPayload }) => {
+  const load = useMemo(() => combineLoads(tool, payload), [tool, payload]);
+  const { torque, utilization } = useMemo(() => computeStaticTorques(joints, { robot, load }), [joints, robot, load]);
+  const wrist = useMemo(() => checkWristLoad(load, robot), [load, robot]);
+  const { ratedTorque, wristMoment } = dynamicsOf(robot);
+
+  // Load diagram: allowed region for the current mass, CoG as a dot
+  const diagram = useMemo(() => {
+    const points: string[] = [];
+    for (let along = 0; along <= DIAGRAM_ALONG; along += 20) {
+      const radial = Math.min(allowedRadialOffset(load.mass, along, robot), DIAGRAM_RADIAL);
+      points.push(`${(radial / DIAGRAM_RADIAL) * DIAGRAM_SIZE},${DIAGRAM_SIZE - (along / DIAGRAM_ALONG) * DIAGRAM_SIZE}`);
+    }
+    return `0,${DIAGRAM_SIZE} ${points.join(' ')} 0,0`;
+  }, [load.mass, robot]);
+  const cogRadial = Math.hypot(load.cog.x, load.cog.y);
+  const withinDiagram = wrist.warnings.length === 0;
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Workpiece */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+          <Weight size={12} /> Payload · {robot.name} ({robot.payload} kg rated)
+        </div>
+        <div className="text-[10px] text-slate-500">Workpiece (CoG in the flange frame, mm)</div>
+        <div className="grid grid-cols-2 gap-1">
+          <NumberField label="kg" value={payload.mass} onChange={(mass) => setPayload({ ...payload, mass: Math.max(0, mass) })} />
+          <NumberField label="x" value={payload.cog.x} onChange={(x) => setPayload({ ...payload, cog: { ...payload.cog, x } })} />
+          <NumberField label="y" value={payload.cog.y} onChange={(y) => setPayload({ ...payload, cog: { ...payload.cog, y } })} />
+          <NumberField label="z" value={payload.cog.z} onChange={(z) => setPayload({ ...payload, cog: { ...payload.cog, z } })} />
+        </div>
+        <div className="font-mono text-[10px] text-slate-400">
+          Tool {tool.mass.toFixed(1)} kg + workpiece {payload.mass.toFixed(1)} kg = {load.mass.toFixed(1)} kg
+          @ ({load.cog.x.toFixed(0)}, {load.cog.y.toFixed(0)}, {load.cog.z.toFixed(0)})
+        </div>
+      </div>
+
+      {/* Wrist Load Diagram */}
+      <div className="space-y-2 border-t border-slate-800 pt-3">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Wrist Load Diagram</div>
+        <UtilizationBar label="kg" value={`${load.mass.toFixed(0)} / ${robot.payload}`} ratio={wrist.payloadUtilization} />
+        <UtilizationBar label="R2" value={`${wrist.moments.j4.toFixed(0)} / ${wristMoment.j4.toFixed(0)}`} ratio={wrist.utilization.j4} />
+        <UtilizationBar label="B" value={`${wrist.moments.j5.toFixed(0)} / ${wristMoment.j5.toFixed(0)}`} ratio={wrist.utilization.j5} />
+        <UtilizationBar label="R1" value={`${wrist.moments.j6.toFixed(0)} / ${wristMoment.j6.toFixed(0)}`} ratio={wrist.utilization.j6} />
+        <div className="flex items-start gap-3">
+          <svg viewBox={`0 0 ${DIAGRAM_SIZE} ${DIAGRAM_SIZE}`} className="w-28 h-28 bg-slate-950/60 rounded border border-slate-800 flex-shrink-0">
+            {load.mass > 0 && <polygon points={diagram} fill="#22C55E" fillOpacity={0.15} stroke="#22C55E" strokeWidth={0.75} />}
+            <circle
+              cx={(Math.min(cogRadial, DIAGRAM_RADIAL) / DIAGRAM_RADIAL) * DIAGRAM_SIZE}
+              cy={DIAGRAM_SIZE - (Math.min(Math.max(load.cog.z, 0), DIAGRAM_ALONG) / DIAGRAM_ALONG) * DIAGRAM_SIZE}
+              r={3}
+              fill={withinDiagram ? '#22C55E' : '#EF4444'}
+            />
+          </svg>
+          <div className="text-[9px] text-slate-500 space-y-1">
+            <div>↑ CoG along the tool axis (0 ~ {DIAGRAM_ALONG} mm)</div>
+            <div>→ Radial offset (0 ~ {DIAGRAM_RADIAL} mm)</div>
+            <div>Shaded: allowed for {load.mass.toFixed(0)} kg</div>
+          </div>
+        </div>
+        {withinDiagram ? (
+          <div className="flex items-center gap-1.5 text-[10px] text-green-300 bg-green-900/20 border border-green-800/50 rounded px-2 py-1.5">
+            <CheckCircle2 size={12} /> Within the load diagram
+          </div>
+        ) : (
+          <div className="text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5 space-y-0.5">
+            {wrist.warnings.map(warning => (
+              <div key={warning} className="flex items-start gap-1.5">
+                <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" /> {warning}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Static Joint Torques (Current pose) */}
+      <div className="space-y-1.5 border-t border-slate-800 pt-3">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Static Torque (Current Pose, Nm)</div>
+        {AXES.map(axis => (
+          <UtilizationBar
+            key={axis}
+            label={AXIS_LABELS[axis]}
+            value={`${torque[axis].toFixed(0)} / ${ratedTorque[axis].toFixed(0)}`}
+            ratio={utilization[axis]}
+          />
+        ))}
+        <p className="text-[9px] text-slate-600">
+          Gravity only, estimated link masses, no balancer{robot.dynamics ? '' : ' (scaled from the HS220S)'}. Acceleration torques are not included.
+        </p>
+      </div>
+    </div>
+  );
+};
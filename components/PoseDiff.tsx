@@ -0,0 +1,69 @@
+import React from 'react';
+import { JointState, PoseValidation } from '../types';
+import { JUMP_WARNING_DEG } from '../utils/poseValidation';
+import { AlertTriangle, AlertCircle } from 'lucide-react';
+
+interface PoseDiffProps {
+  validation: PoseValidation;
+  editable?: boolean;
+  onEdit?: (target: JointState) => void;
+}
+
+const AXIS_LABELS: Record<keyof JointState, string> = { j1: 'S', j2: 'H', j3: 'V', j4: 'R2', j5: 'B', j6: 'R1' };
+
+// Old -> new value per axis of a model-generated pose, with the validation findings
+export const PoseDiff: React.FC<PoseDiffProps> = ({ validation, editable = false, onEdit }) => {
+  const target = validation.changes.reduce((acc, c) => ({ ...acc, [c.axis]: c.to }), {} as JointState);
+  const generalIssues = validation.issues.filter(issue => !issue.axis);
+
+  return (
+    <div className="space-y-1 font-mono text-[10px]">
+      <table className="w-full">
+        <tbody>
+          {validation.changes.map(({ axis, from, to }) => {
+            const issues = validation.issues.filter(issue => issue.axis === axis);
+            const hasError = issues.some(issue => issue.severity === 'error');
+            const delta = to - from;
+            return (
+              <tr key={axis} className={hasError ? 'text-red-300' : issues.length > 0 ? 'text-amber-300' : 'text-slate-400'} title={issues.map(i => i.message).join('\n')}>
+                <td className="w-6 text-slate-500">{AXIS_LABELS[axis]}</td>
+                <td className="text-right">{from.toFixed(1)}</td>
+                <td className="px-1 text-slate-600">→</td>
+                <td className="w-16">
+                  {editable ? (
+                    <input
+                      type="number"
+                      value={to}
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        if (!isNaN(val)) onEdit?.({ ...target, [axis]: val });
+                      }}
+                      className="w-full bg-slate-900 border border-slate-700 text-slate-200 px-1 rounded focus:border-amber-500 focus:outline-none text-right"
+                    />
+                  ) : (
+                    <span className="block text-right">{to.toFixed(1)}</span>
+                  )}
+                </td>
+                <td className={`text-right ${Math.abs(delta) > JUMP_WARNING_DEG ? 'text-amber-300' : ''}`}>
+                  {Math.abs(delta) < 0.05 ? '' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {validation.issues.length > 0 && (
+        <ul className="space-y-0.5">
+          {[...validation.issues.filter(issue => issue.axis), ...generalIssues].map((issue, idx) => (
+            <li key={idx} className={`flex items-start gap-1 ${issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+              {issue.severity === 'error'
+                ? <AlertCircle size={10} className="shrink-0 mt-px" />
+                : <AlertTriangle size={10} className="shrink-0 mt-px" />}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
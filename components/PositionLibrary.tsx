@@ -0,0 +1,333 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { JointState, NamedPosition, Pose, RobotDescription, ToolDefinition, FLANGE_TOOL } from '../types';
+import {
+  computePositionPose,
+  createPosition,
+  updatePositionJoints,
+  parseTags,
+  poseDifference,
+  positionGroups,
+  positionsToCsv,
+  positionsToJson,
+  parsePositionsCsv,
+  parsePositionsJson,
+  DEFAULT_GROUP,
+} from '../utils/positionLibrary';
+import { MoveRequest, MotionResult } from '../utils/motion';
+import { downloadTextFile } from '../utils/download';
+import { NumberField } from './NumberField';
+import { MapPin, Plus, Upload, Download, Trash2, Navigation, Crosshair, ChevronDown, ChevronRight, AlertTriangle, X, Ghost } from 'lucide-react';
+
+interface PositionLibraryProps {
+  joints: JointState;
+  positions: NamedPosition[];
+  setPositions: React.Dispatch<React.SetStateAction<NamedPosition[]>>;
+  tool: ToolDefinition;     // Active tool (new positions are computed with it)
+  tools: ToolDefinition[];  // Positions keep the tool they were taught with
+  robot: RobotDescription;
+  moveTo: (request: MoveRequest) => Promise<MotionResult>;
+  ghostIds: string[];  // Positions shown as ghosts in the scene
+  setGhostIds: (ids: string[]) => void;
+}
+
+const POSE_KEYS: Array<keyof Pose> = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+// Differences above these are highlighted (mm / deg)
+const POSITION_TOLERANCE = 1.0;
+const ANGLE_TOLERANCE = 0.1;
+
+const formatJoints = (joints: JointState) =>
+  [joints.j1, joints.j2, joints.j3, joints.j4, joints.j5, joints.j6].map(v => v.toFixed(1)).join(' ');
+
+export const PositionLibrary: React.FC<PositionLibraryProps> = ({
+  joints,
+  positions,
+  setPositions,
+  tool,
+  tools,
+  robot,
+  moveTo,
+  ghostIds,
+  setGhostIds,
+}) => {
+  // New position form
+  const [name, setName] = useState('');
+  const [group, setGroup] = useState(DEFAULT_GROUP);
+  const [tags, setTags] = useState('');
+  const [comment, setComment] = useState('');
+
+  const [filter, setFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = positionGroups(positions);
+  const toolOf = (position: NamedPosition) => tools.find(t => t.id === position.toolId) ?? FLANGE_TOOL;
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return positions;
+    return positions.filter(p =>
+      [p.name, p.comment, p.group, ...p.tags].some(text => text.toLowerCase().includes(query))
+    );
+  }, [positions, filter]);
+
+  const updatePosition = (id: string, updater: (position: NamedPosition) => NamedPosition) =>
+    setPositions(prev => prev.map(p => (p.id === id ? updater(p) : p)));
+
+  const handleSave = () => {
+    const position = createPosition(joints, {
+      name: name.trim() || `P${positions.length + 1}`,
+      comment: comment.trim(),
+      group,
+      tags: parseTags(tags),
+    }, { robot, tool });
+    setPositions(prev => [...prev, position]);
+    setExpandedId(position.id);
+    setName('');
+    setComment('');
+  };
+
+  const handleMove = async (position: NamedPosition) => {
+    setMessage(null);
+    const result = await moveTo({ target: position.joints });
+    if (result.error) setMessage(`${position.name}: ${result.error}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const parse = /\.json$/i.test(file.name) ? parsePositionsJson : parsePositionsCsv;
+    const { positions: imported, error } = parse(text, { robot, tool });
+    if (error) {
+      setMessage(`${file.name}: ${error}`);
+      return;
+    }
+    setPositions(prev => [...prev, ...imported]);
+    setMessage(null);
+  };
+
+  const button = 'flex items-center justify-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed';
+  const input = 'w-full bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none';
+  const sectionLabel = 'text-[10px] text-slate-500 uppercase tracking-wider';
+
+  const renderDetails = (position: NamedPosition) => {
+    const computed = computePositionPose(position.joints, { robot, tool: toolOf(position) });
+    const diff = position.expected ? poseDifference(computed, position.expected) : null;
+    const setExpected = (expected: Pose | null) => updatePosition(position.id, p => ({ ...p, expected }));
+
+    return (
+      <div className="mt-2 space-y-2 border-t border-slate-700 pt-2">
+        {/* Name / Group / Tags / Comment */}
+        <div className="grid grid-cols-2 gap-1">
+          <input
+            value={position.name}
+            onChange={(e) => updatePosition(position.id, p => ({ ...p, name: e.target.value }))}
+            className={input}
+            placeholder="Name"
+          />
+          <input
+            value={position.group}
+            onChange={(e) => updatePosition(position.id, p => ({ ...p, group: e.target.value }))}
+            onBlur={(e) => !e.target.value.trim() && updatePosition(position.id, p => ({ ...p, group: DEFAULT_GROUP }))}
+            list="position-groups"
+            className={input}
+            placeholder="Group"
+          />
+        </div>
+        <input
+          defaultValue={position.tags.join(', ')}
+          onBlur={(e) => updatePosition(position.id, p => ({ ...p, tags: parseTags(e.target.value) }))}
+          className={input}
+          placeholder="Tags (comma separated)"
+        />
+        <textarea
+          value={position.comment}
+          onChange={(e) => updatePosition(position.id, p => ({ ...p, comment: e.target.value }))}
+          rows={2}
+          className={`${input} resize-y`}
+          placeholder="Comment"
+        />
+
+        {/* Joints + Computed Pose */}
+        <div className="font-mono text-[10px] text-slate-400 space-y-0.5">
+          <div>J {formatJoints(position.joints)}</div>
+          <div>
+            P {POSE_KEYS.map(key => computed[key].toFixed(1)).join(' ')}
+            <span className="text-slate-600"> · {toolOf(position).name}</span>
+          </div>
+        </div>
+
+        {/* Expected (Controller Readout) */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className={sectionLabel}>Expected (Controller)</span>
+            {position.expected ? (
+              <button onClick={() => setExpected(null)} className="text-[10px] text-slate-500 hover:text-red-400">Clear</button>
+            ) : (
+              <button onClick={() => setExpected(computed)} className="text-[10px] text-amber-400 hover:text-amber-300">Enter readout</button>
+            )}
+          </div>
+          {position.expected && (
+            <div className="grid grid-cols-3 gap-1">
+              {POSE_KEYS.map(key => (
+                <NumberField
+                  key={key}
+                  label={key}
+                  value={position.expected![key]}
+                  onChange={(value) => setExpected({ ...position.expected!, [key]: value })}
+                />
+              ))}
+            </div>
+          )}
+          {diff && (
+            <div className="font-mono text-[10px] space-y-0.5">
+              <div className="grid grid-cols-3 gap-x-2">
+                {POSE_KEYS.map(key => {
+                  const tolerance = key.startsWith('r') ? ANGLE_TOLERANCE : POSITION_TOLERANCE;
+                  return (
+                    <span key={key} className={Math.abs(diff[key]) > tolerance ? 'text-amber-300' : 'text-slate-500'}>
+                      Δ{key.toUpperCase()} {diff[key] >= 0 ? '+' : ''}{diff[key].toFixed(2)}
+                    </span>
+                  );
+                })}
+              </div>
+              <div className={diff.distance > POSITION_TOLERANCE || diff.angle > ANGLE_TOLERANCE ? 'text-amber-300' : 'text-green-300'}>
+                |Δ| {diff.distance.toFixed(2)} mm · {diff.angle.toFixed(3)}°
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => updatePosition(position.id, p => updatePositionJoints(p, joints, { robot, tool }))}
+            className={`${button} flex-1`}
+            title="Overwrite with the current joints and tool"
+          >
+            <Crosshair size={12} /> Re-teach
+          </button>
+          <button
+            onClick={() => setPositions(prev => prev.filter(p => p.id !== position.id))}
+            className={`${button} text-red-300`}
+            title="Delete position"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      <datalist id="position-groups">
+        {groups.map(g => <option key={g} value={g} />)}
+      </datalist>
+
+      {/* Save Current Pose */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+          <MapPin size={12} /> Save Current Position
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <input value={name} onChange={(e) => setName(e.target.value)} className={input} placeholder={`P${positions.length + 1}`} />
+          <input value={group} onChange={(e) => setGroup(e.target.value)} list="position-groups" className={input} placeholder="Group" />
+        </div>
+        <input value={tags} onChange={(e) => setTags(e.target.value)} className={input} placeholder="Tags (comma separated)" />
+        <input value={comment} onChange={(e) => setComment(e.target.value)} className={input} placeholder="Comment" />
+        <button onClick={handleSave} className={`${button} w-full text-amber-300`}>
+          <Plus size={12} /> Save ({tool.name})
+        </button>
+      </div>
+
+      {/* Import / Export */}
+      <div className="flex gap-2">
+        <input ref={fileInputRef} type="file" accept=".json,.csv" onChange={handleImport} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} className={`${button} flex-1`} title="Import positions (JSON / CSV)">
+          <Upload size={12} /> Import
+        </button>
+        <button
+          onClick={() => downloadTextFile('positions.json', positionsToJson(positions), 'application/json')}
+          disabled={positions.length === 0}
+          className={`${button} flex-1`}
+        >
+          <Download size={12} /> JSON
+        </button>
+        <button
+          onClick={() => downloadTextFile('positions.csv', positionsToCsv(positions), 'text/csv')}
+          disabled={positions.length === 0}
+          className={`${button} flex-1`}
+        >
+          <Download size={12} /> CSV
+        </button>
+      </div>
+
+      {message && (
+        <div className="flex items-start gap-1.5 text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+          <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+          <span className="flex-1">{message}</span>
+          <button onClick={() => setMessage(null)} className="text-red-400 hover:text-white"><X size={12} /></button>
+        </div>
+      )}
+
+      {/* Library (Grouped, filtered by name / comment / group / tag) */}
+      <div className="space-y-2 border-t border-slate-800 pt-3">
+        <input value={filter} onChange={(e) => setFilter(e.target.value)} className={input} placeholder="Filter by name, group or tag" />
+        {visible.length === 0 && (
+          <div className="text-[10px] text-slate-500">{positions.length === 0 ? 'No positions saved.' : 'No matching positions.'}</div>
+        )}
+        {positionGroups(visible).map(g => (
+          <div key={g} className="space-y-1">
+            <div className={sectionLabel}>{g}</div>
+            {visible.filter(p => p.group === g).map(position => {
+              const expanded = expandedId === position.id;
+              return (
+                <div
+                  key={position.id}
+                  className={`px-2 py-1.5 rounded border ${expanded ? 'bg-slate-800 border-amber-700/60' : 'bg-slate-800/60 border-slate-700'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : position.id)}
+                      className="flex-1 flex items-center gap-1 text-left text-slate-200 min-w-0"
+                      title={position.comment}
+                    >
+                      {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                      <span className="truncate">{position.name}</span>
+                    </button>
+                    {position.tags.map(tag => (
+                      <span key={tag} className="px-1 py-px rounded bg-slate-700 text-[9px] text-slate-300">{tag}</span>
+                    ))}
+                    {position.expected && (() => {
+                      const diff = poseDifference(computePositionPose(position.joints, { robot, tool: toolOf(position) }), position.expected);
+                      const off = diff.distance > POSITION_TOLERANCE || diff.angle > ANGLE_TOLERANCE;
+                      return (
+                        <span className={`font-mono text-[9px] ${off ? 'text-amber-300' : 'text-green-300'}`} title="Computed - expected">
+                          {diff.distance.toFixed(1)} mm
+                        </span>
+                      );
+                    })()}
+                    <button
+                      onClick={() => setGhostIds(ghostIds.includes(position.id) ? ghostIds.filter(id => id !== position.id) : [...ghostIds, position.id])}
+                      className={ghostIds.includes(position.id) ? 'text-violet-300' : 'text-slate-500 hover:text-violet-300'}
+                      title="Show as ghost"
+                    >
+                      <Ghost size={12} />
+                    </button>
+                    <button onClick={() => handleMove(position)} className="text-slate-500 hover:text-amber-400" title="Move here">
+                      <Navigation size={12} />
+                    </button>
+                  </div>
+                  {expanded && renderDetails(position)}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
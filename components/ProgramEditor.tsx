@@ -0,0 +1,447 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { JointState, JobProgram, MoveType, Pose, ProgramLine, ProgramStep, RobotDescription, ToolDefinition } from '../types';
+import { MoveRequest, MotionResult } from '../utils/motion';
+import { createStep, changeMoveType, formatLine, moveItem, plannerSpeed, ACCURACY_LEVELS } from '../utils/program';
+import { parseJobFile, generateJobFile, JobDialect, JobFileWarning } from '../utils/jobFile';
+import { downloadTextFile } from '../utils/download';
+import {
+  Plus, Trash2, ArrowUp, ArrowDown, Save, Play, Pause, SkipBack, SkipForward, Upload, Download, AlertTriangle,
+} from 'lucide-react';
+
+interface ProgramEditorProps {
+  joints: JointState;
+  setJoints: React.Dispatch<React.SetStateAction<JointState>>;
+  moveTo: (request: MoveRequest) => Promise<MotionResult>;
+  program: JobProgram;
+  setProgram: React.Dispatch<React.SetStateAction<JobProgram>>;
+  tcp: Pose;
+  robot: RobotDescription;
+  tools: ToolDefinition[];                   // Tool numbers (T=) index this list, T=0 = first tool
+  onToolChange?: (toolId: string) => void;   // Steps with T= switch the robot's active tool
+  playback?: PlaybackCommand | null;         // Cell-wide Run All / Stop All
+  onRunningChange?: (running: boolean) => void;
+}
+
+// Issued to every robot's editor at once so all jobs start on the same timeline
+export interface PlaybackCommand {
+  action: 'run' | 'stop';
+  seq: number; // Increments per command
+}
+
+const MOVE_TYPES: Array<{ id: MoveType; label: string }> = [
+  { id: 'joint', label: 'Joint (P)' },
+  { id: 'linear', label: 'Linear (L)' },
+  { id: 'circular', label: 'Circular (C)' },
+];
+
+const sleep = (seconds: number) => new Promise(resolve => setTimeout(resolve, seconds * 1000));
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+export const ProgramEditor: React.FC<ProgramEditorProps> = ({
+  joints,
+  setJoints,
+  moveTo,
+  program,
+  setProgram,
+  tcp,
+  robot,
+  tools,
+  onToolChange,
+  playback,
+  onRunningChange,
+}) => {
+  const [cursor, setCursor] = useState(-1); // -1: before the first line
+  const [teachType, setTeachType] = useState<MoveType>('joint');
+  const [running, setRunning] = useState(false);
+  const [outputs, setOutputs] = useState<Record<number, number>>({});
+  const [dialect, setDialect] = useState<JobDialect>('hi5');
+  const [importWarnings, setImportWarnings] = useState<JobFileWarning[]>([]);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Latest values for the async playback loop
+  const runningRef = useRef(false);
+  const programRef = useRef(program);
+  programRef.current = program;
+
+  const lines = program.lines;
+  const current = cursor >= 0 ? lines[cursor] : undefined;
+  const currentStep = current?.kind === 'move' ? current : undefined;
+
+  let moveCount = 0;
+  const stepNumbers = lines.map(line => (line.kind === 'move' ? ++moveCount : 0));
+
+  // Stop playback when the panel unmounts
+  useEffect(() => () => { runningRef.current = false; }, []);
+
+  const updateLines = (updater: (lines: ProgramLine[]) => ProgramLine[]) => {
+    setProgram(prev => ({ ...prev, lines: updater(prev.lines) }));
+  };
+
+  const updateCurrentStep = (patch: Partial<ProgramStep>) => {
+    if (!currentStep) return;
+    updateLines(prev => prev.map(l => (l.id === currentStep.id && l.kind === 'move' ? { ...l, ...patch } : l)));
+  };
+
+  // --- Editing ---
+
+  const handleTeach = () => {
+    const step = createStep(joints, teachType);
+    const index = cursor + 1;
+    updateLines(prev => [...prev.slice(0, index), step, ...prev.slice(index)]);
+    setCursor(index);
+  };
+
+  const handleOverwrite = () => updateCurrentStep({ target: { ...joints } });
+
+  const handleMove = (offset: number) => {
+    const to = cursor + offset;
+    if (!current || to < 0 || to >= lines.length) return;
+    updateLines(prev => moveItem(prev, cursor, to));
+    setCursor(to);
+  };
+
+  const handleDelete = () => {
+    if (!current) return;
+    updateLines(prev => prev.filter(l => l.id !== current.id));
+    setCursor(Math.min(cursor, lines.length - 2));
+  };
+
+  // --- Job Files ---
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const { program: imported, warnings } = parseJobFile(text, {
+      name: file.name.replace(/\.[^.]+$/, ''),
+      seed: joints,
+      tcp,
+      robot,
+    });
+    setProgram(imported);
+    setImportWarnings(warnings);
+    setCursor(-1);
+  };
+
+  const handleExport = () => {
+    downloadTextFile(`${program.name || 'job'}.JOB`, generateJobFile(program, dialect));
+  };
+
+  // --- Playback ---
+
+  // Runs one line and returns the index of the next one (-1 = job finished)
+  const executeLine = async (index: number): Promise<number> => {
+    const allLines = programRef.current.lines;
+    const line = allLines[index];
+    if (!line) return -1;
+    setCursor(index);
+
+    switch (line.kind) {
+      case 'move': {
+        // MOVE C comes in pairs: the first C step is the via point, the second one the arc end
+        const next = allLines[index + 1];
+        const arcEnd: ProgramStep | undefined =
+          line.moveType === 'circular' && next?.kind === 'move' && next.moveType === 'circular' ? next : undefined;
+        const end = arcEnd ?? line;
+
+        // T=n selects the n-th tool for this move and stays active afterwards
+        let moveTcp = tcp;
+        if (line.tool !== undefined) {
+          const tool = tools[line.tool];
+          if (!tool) {
+            setPlaybackError(`Line ${index + 1}: Tool T=${line.tool} is not defined (${tools.length} tools, T=0 ~ T=${tools.length - 1}).`);
+            runningRef.current = false;
+            setCursor(index - 1);
+            return -1;
+          }
+          moveTcp = tool.tcp;
+          onToolChange?.(tool.id);
+        }
+
+        const result = await moveTo({
+          moveType: line.moveType,
+          target: end.target,
+          via: arcEnd ? line.target : undefined,
+          speed: plannerSpeed(end),
+          tcp: moveTcp,
+        });
+        if (!result.completed) {
+          // Planning error, or the move was interrupted (jog / new move): hold here and repeat it on Run
+          if (result.error) setPlaybackError(`Line ${index + 1}: ${result.error}`);
+          runningRef.current = false;
+          setCursor(index - 1);
+          return -1;
+        }
+
+        await sleep(end.wait);
+        if (arcEnd) {
+          setCursor(index + 1);
+          return index + 2 < allLines.length ? index + 2 : -1;
+        }
+        break;
+      }
+      case 'delay':
+        await sleep(line.seconds);
+        break;
+      case 'output':
+        setOutputs(prev => ({ ...prev, [line.port]: line.value }));
+        break;
+      case 'goto':
+        // Let a frame pass on every jump: a loop without moves or delays would otherwise never yield
+        await nextFrame();
+        return allLines.findIndex(l => l.kind === 'label' && l.label === line.label);
+      case 'end':
+        return -1;
+      // WAIT DI: simulated inputs are always satisfied; labels do nothing
+    }
+    return index + 1 < allLines.length ? index + 1 : -1;
+  };
+
+  const handleStep = (offset: number) => {
+    const index = cursor + offset;
+    if (running || index < 0 || index >= lines.length) return;
+    setPlaybackError(null);
+    executeLine(index);
+  };
+
+  const handleRun = async (from?: number) => {
+    if (runningRef.current || lines.length === 0) return;
+    runningRef.current = true;
+    setRunning(true);
+    onRunningChange?.(true);
+    setPlaybackError(null);
+
+    // Continue after the cursor, or restart from the top at the end of the job
+    let index = from ?? (cursor + 1 < lines.length ? cursor + 1 : 0);
+    while (runningRef.current && index >= 0) {
+      index = await executeLine(index);
+    }
+
+    runningRef.current = false;
+    setRunning(false);
+    onRunningChange?.(false);
+  };
+
+  const handlePause = () => {
+    runningRef.current = false;
+  };
+
+  // Cell playback: every job restarts from its first line
+  useEffect(() => {
+    if (!playback) return;
+    if (playback.action === 'run') handleRun(0);
+    else handlePause();
+  }, [playback?.seq]);
+
+  const toolbarButton = 'p-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="p-4 space-y-3 text-xs">
+      {/* Job Header */}
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-slate-500 uppercase tracking-wider">Job</span>
+        <input
+          type="text"
+          value={program.name}
+          onChange={(e) => setProgram(prev => ({ ...prev, name: e.target.value }))}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded font-mono focus:border-amber-500 focus:outline-none"
+        />
+        <span className="text-[10px] text-slate-500 font-mono">{lines.length} lines</span>
+      </div>
+
+      {/* Job File Import / Export */}
+      <div className="flex items-center gap-1">
+        <input ref={fileInputRef} type="file" accept=".job,.JOB,.txt" onChange={handleImport} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={running}
+          className={`${toolbarButton} flex-1 flex items-center justify-center gap-1`}
+          title="Import Hi5/Hi6 job file"
+        >
+          <Upload size={12} /> Import
+        </button>
+        <select
+          value={dialect}
+          onChange={(e) => setDialect(e.target.value as JobDialect)}
+          className="bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded text-[11px] focus:outline-none"
+        >
+          <option value="hi5">Hi5</option>
+          <option value="hi6">Hi6</option>
+        </select>
+        <button
+          onClick={handleExport}
+          className={`${toolbarButton} flex-1 flex items-center justify-center gap-1`}
+          title="Export job file"
+        >
+          <Download size={12} /> Export
+        </button>
+      </div>
+
+      {importWarnings.length > 0 && (
+        <div className="text-[10px] text-amber-200 bg-amber-900/20 border border-amber-800/50 rounded px-2 py-1.5 space-y-0.5 max-h-24 overflow-y-auto">
+          <div className="flex items-center justify-between font-bold">
+            <span className="flex items-center gap-1"><AlertTriangle size={12} /> {importWarnings.length} import warning(s)</span>
+            <button onClick={() => setImportWarnings([])} className="text-amber-400 hover:text-white">Dismiss</button>
+          </div>
+          {importWarnings.map((w, idx) => (
+            <div key={idx} className="font-mono">Line {w.line}: {w.message}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Playback */}
+      <div className="flex items-center gap-1">
+        <button onClick={() => handleStep(-1)} disabled={running || cursor <= 0} className={toolbarButton} title="Step Back">
+          <SkipBack size={14} />
+        </button>
+        {running ? (
+          <button onClick={handlePause} className={`${toolbarButton} flex-1 flex justify-center text-amber-300`} title="Pause">
+            <Pause size={14} />
+          </button>
+        ) : (
+          <button onClick={() => handleRun()} disabled={lines.length === 0} className={`${toolbarButton} flex-1 flex justify-center text-green-300`} title="Run">
+            <Play size={14} />
+          </button>
+        )}
+        <button onClick={() => handleStep(1)} disabled={running || cursor >= lines.length - 1} className={toolbarButton} title="Step Forward">
+          <SkipForward size={14} />
+        </button>
+      </div>
+
+      {playbackError && (
+        <div className="flex items-start gap-1.5 text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+          <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+          <span>{playbackError}</span>
+        </div>
+      )}
+
+      {/* Program Lines (Step numbers count MOVE lines only, like the pendant) */}
+      <div className="rounded-md border border-slate-700 bg-black/40 font-mono text-[11px] max-h-56 overflow-y-auto">
+        {lines.length === 0 && (
+          <div className="px-3 py-4 text-center text-slate-500">No steps. Jog the robot and press Teach.</div>
+        )}
+        {lines.map((line, idx) => (
+          <button
+            key={line.id}
+            onClick={() => !running && setCursor(idx)}
+            className={`w-full flex gap-2 px-2 py-1 text-left border-b border-slate-800/50 ${
+              idx === cursor ? 'bg-amber-500/20 text-amber-200' : 'text-slate-300 hover:bg-slate-800/60'
+            }`}
+          >
+            <span className="w-3 text-amber-400">{idx === cursor ? '▶' : ''}</span>
+            <span className="w-8 text-slate-500">{line.kind === 'move' ? `S${stepNumbers[idx]}` : ''}</span>
+            <span className={`truncate ${line.kind === 'move' ? '' : 'text-sky-300/80'}`}>{formatLine(line)}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Simulated Digital Outputs */}
+      {Object.keys(outputs).length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-[10px] font-mono text-slate-500">
+          <span>DO</span>
+          {Object.entries(outputs).map(([port, value]) => (
+            <span key={port} className={value ? 'text-green-300' : 'text-slate-600'}>
+              {port}{value ? '●' : '○'}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Editing Toolbar */}
+      <div className="flex items-center gap-1">
+        <select
+          value={teachType}
+          onChange={(e) => setTeachType(e.target.value as MoveType)}
+          className="bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded text-[11px] focus:outline-none"
+        >
+          {MOVE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        <button onClick={handleTeach} disabled={running} className={`${toolbarButton} flex items-center gap-1 px-2`} title="Insert current pose after the cursor">
+          <Plus size={12} /> Teach
+        </button>
+        <button onClick={handleOverwrite} disabled={running || !currentStep} className={toolbarButton} title="Overwrite step with current pose">
+          <Save size={14} />
+        </button>
+        <button onClick={() => handleMove(-1)} disabled={running || cursor <= 0} className={toolbarButton} title="Move Up">
+          <ArrowUp size={14} />
+        </button>
+        <button onClick={() => handleMove(1)} disabled={running || !current || cursor >= lines.length - 1} className={toolbarButton} title="Move Down">
+          <ArrowDown size={14} />
+        </button>
+        <button onClick={handleDelete} disabled={running || !current} className={`${toolbarButton} hover:text-red-300`} title="Delete Line">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {/* Step Properties */}
+      {currentStep && (
+        <div className="space-y-2 border-t border-slate-800 pt-3">
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">Step S{stepNumbers[cursor]}</div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-0.5">
+              <span className="text-[10px] text-slate-500">Move Type</span>
+              <select
+                value={currentStep.moveType}
+                disabled={running}
+                onChange={(e) => {
+                  const next = changeMoveType(currentStep, e.target.value as MoveType);
+                  updateCurrentStep({ moveType: next.moveType, speed: next.speed, speedUnit: next.speedUnit });
+                }}
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded focus:outline-none"
+              >
+                {MOVE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </label>
+            <label className="space-y-0.5">
+              <span className="text-[10px] text-slate-500">Speed ({currentStep.speedUnit})</span>
+              <input
+                type="number"
+                min={1}
+                max={currentStep.speedUnit === '%' ? 100 : 2000}
+                value={currentStep.speed}
+                disabled={running}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val > 0) updateCurrentStep({ speed: val });
+                }}
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded text-right font-mono focus:border-amber-500 focus:outline-none"
+              />
+            </label>
+            <label className="space-y-0.5">
+              <span className="text-[10px] text-slate-500">Accuracy</span>
+              <select
+                value={currentStep.accuracy}
+                disabled={running}
+                onChange={(e) => updateCurrentStep({ accuracy: parseInt(e.target.value, 10) })}
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded focus:outline-none"
+              >
+                {ACCURACY_LEVELS.map(a => <option key={a} value={a}>A{a}</option>)}
+              </select>
+            </label>
+            <label className="space-y-0.5">
+              <span className="text-[10px] text-slate-500">Wait (s)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={currentStep.wait}
+                disabled={running}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0) updateCurrentStep({ wait: val });
+                }}
+                className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-1 py-1 rounded text-right font-mono focus:border-amber-500 focus:outline-none"
+              />
+            </label>
+          </div>
+          <div className="font-mono text-[10px] text-slate-500">
+            S {currentStep.target.j1.toFixed(2)} H {currentStep.target.j2.toFixed(2)} V {currentStep.target.j3.toFixed(2)}
+            {' '}R2 {currentStep.target.j4.toFixed(2)} B {currentStep.target.j5.toFixed(2)} R1 {currentStep.target.j6.toFixed(2)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
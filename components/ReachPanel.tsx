@@ -0,0 +1,95 @@
+import React from 'react';
+import { RobotDescription, ToolDefinition } from '../types';
+import { ReachEnvelope, computeReachEnvelope, envelopeToCsv, envelopeToStl } from '../utils/workspace';
+import { downloadTextFile } from '../utils/download';
+import { EnvelopeMode } from './EnvelopeOverlay';
+import { Eye, EyeOff, Download } from 'lucide-react';
+
+interface ReachPanelProps {
+  envelope: ReachEnvelope | null; // Only computed while the overlay is shown
+  tool: ToolDefinition;
+  robot: RobotDescription;
+  visible: boolean;
+  setVisible: (visible: boolean) => void;
+  mode: EnvelopeMode;
+  setMode: (mode: EnvelopeMode) => void;
+}
+
+const MODES: Array<{ id: EnvelopeMode; label: string }> = [
+  { id: 'shell', label: 'Shell' },
+  { id: 'points', label: 'Point Cloud' },
+];
+
+export const ReachPanel: React.FC<ReachPanelProps> = ({ envelope, tool, robot, visible, setVisible, mode, setMode }) => {
+  // Exports compute the envelope on demand when the overlay is hidden
+  const exportAs = (filename: string, format: (envelope: ReachEnvelope) => string, type: string) => {
+    downloadTextFile(filename, format(envelope ?? computeReachEnvelope(tool.tcp, robot)), type);
+  };
+
+  const button = 'flex-1 flex items-center justify-center gap-1 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300';
+
+  return (
+    <div className="p-4 space-y-3 text-xs">
+      <p className="text-[10px] text-slate-500">
+        Reach of the {robot.name} with the active TCP (<span className="text-amber-400/80">{tool.name}</span>) sampled over H, V and the wrist
+        within the joint limits, revolved through the S range.
+      </p>
+
+      {/* Overlay Toggle */}
+      <div className="flex gap-1">
+        <button onClick={() => setVisible(!visible)} className={button}>
+          {visible ? <EyeOff size={12} /> : <Eye size={12} />} {visible ? 'Hide' : 'Show'} Envelope
+        </button>
+      </div>
+      <div className="flex gap-1">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setMode(m.id)}
+            className={`flex-1 py-1 text-[10px] rounded border transition-colors ${
+              mode === m.id
+                ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Envelope Figures */}
+      {envelope ? (
+        <div className="rounded-md border border-slate-700 bg-black/40 font-mono text-[11px] divide-y divide-slate-800/50">
+          <div className="flex justify-between px-3 py-1">
+            <span className="text-slate-400">Max Reach</span>
+            <span className="text-blue-300">{envelope.maxReach.toFixed(0)} mm</span>
+          </div>
+          <div className="flex justify-between px-3 py-1">
+            <span className="text-slate-400">Z Range</span>
+            <span className="text-blue-300">{envelope.minZ.toFixed(0)} ~ {envelope.maxZ.toFixed(0)} mm</span>
+          </div>
+          <div className="flex justify-between px-3 py-1">
+            <span className="text-slate-400">S Range</span>
+            <span className="text-blue-300">{envelope.sRange.min}° ~ {envelope.sRange.max}°</span>
+          </div>
+          <div className="flex justify-between px-3 py-1">
+            <span className="text-slate-400">Samples</span>
+            <span className="text-blue-300">{envelope.sampleCount.toLocaleString()}</span>
+          </div>
+        </div>
+      ) : (
+        <div className="text-[10px] text-slate-500">Show the envelope to compute reach figures.</div>
+      )}
+
+      {/* Export */}
+      <div className="flex gap-1">
+        <button onClick={() => exportAs('h220_envelope.csv', envelopeToCsv, 'text/csv')} className={button}>
+          <Download size={12} /> CSV
+        </button>
+        <button onClick={() => exportAs('h220_envelope.stl', envelopeToStl, 'model/stl')} className={button}>
+          <Download size={12} /> STL
+        </button>
+      </div>
+    </div>
+  );
+};
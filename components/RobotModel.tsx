@@ -1,10 +1,18 @@
 
-import React from 'react';
-import { JointState } from '../types';
-import { Cylinder, Box, Sphere } from '@react-three/drei';
+import React, { useMemo } from 'react';
+import { JointState, ToolDefinition, RobotDescription, CellMesh } from '../types';
+import { Cylinder, Box, Sphere, Line } from '@react-three/drei';
+import { HS220S, visualDimensions } from '../utils/robotDescription';
+import { RobotBodyId } from '../utils/collision';
+import { MeshGeometry } from './WorkcellObjects';
 
 interface RobotModelProps {
   joints: JointState;
+  tool?: ToolDefinition;
+  robot?: RobotDescription; // Default: HS220S
+  highlight?: string[]; // Colliding body ids (see utils/collision)
+  ghost?: boolean; // Translucent preview (planned poses), no collision glow
+  ghostColor?: string; // Tint of the ghost (default: preview blue)
 }
 
 // Helper to convert degrees to radians
@@ -17,20 +25,32 @@ const COLORS = {
   black: '#171717',      // Motors & Caps
   metal: '#CBD5E1',      // Pistons/Shafts
   darkMetal: '#475569',  // Joints/Flanges
-  tool: '#EF4444'        // TCP Tip
+  tool: '#EF4444',       // TCP Tip
+  collision: '#DC2626',  // Colliding links (emissive glow)
+  ghost: '#38BDF8',      // Preview poses
 };
 
-export const RobotModel: React.FC<RobotModelProps> = ({ joints }) => {
-  // Calibrated Visual Dimensions (Matches Python Script constants)
-  // Unit: Meters
-  const DIMENSIONS = {
-    baseHeight: 0.643,    // d1
-    j1OffsetX: 0.352,     // a1
-    link2Length: 1.075,   // a2
-    link3Length: 1.210,   // a3
-    // d4 is 0 in kinematic script, but we need a physical wrist size.
-    // We'll treat a3 as reaching the wrist center, and add a small visual tip.
-  };
+const GHOST_MATERIAL = { color: COLORS.ghost, transparent: true, opacity: 0.25, depthWrite: false };
+
+// Description mesh in its link frame (Z along the link, file units) -> Visual local (Y-up, m)
+const LinkMesh: React.FC<{ mesh: CellMesh; glow: object }> = ({ mesh, glow }) => (
+  <mesh rotation={[-Math.PI / 2, 0, 0]} scale={mesh.scale / 1000} castShadow>
+    <MeshGeometry mesh={mesh} />
+    <meshStandardMaterial color={COLORS.yellow} {...glow} />
+  </mesh>
+);
+
+export const RobotModel: React.FC<RobotModelProps> = ({ joints, tool, robot = HS220S, highlight = [], ghost = false, ghostColor = COLORS.ghost }) => {
+  const DIMENSIONS = useMemo(() => visualDimensions(robot), [robot]);
+  const meshes = robot.visual.meshes ?? {};
+  // Material overrides spread into every link material (ghost tint or collision glow)
+  const glow = (body: RobotBodyId) =>
+    ghost ? { ...GHOST_MATERIAL, color: ghostColor } : highlight.includes(body) ? { emissive: COLORS.collision, emissiveIntensity: 0.9 } : {};
+
+  // Tool TCP relative to the flange face (mm -> m). Kinematic flange (x, y, z) = Visual local (x, z, -y)
+  const tcp = tool?.tcp ?? { x: 0, y: 0, z: 0 };
+  const tcpPosition: [number, number, number] = [tcp.x / 1000, DIMENSIONS.flangeFace + tcp.z / 1000, -tcp.y / 1000];
+  const hasToolOffset = Math.hypot(tcp.x, tcp.y, tcp.z) > 1;
 
   // Rotation Logic
   // Kinematics define X as forward. In 3D (Y-up), rotating around Z moves in X-Y plane.
@@ -45,133 +65,166 @@ export const RobotModel: React.FC<RobotModelProps> = ({ joints }) => {
     <group position={[0, 0, 0]}>
       {/* ================= BASE (FIXED) ================= */}
       <group position={[0, 0, 0]}>
+        {meshes.base && <LinkMesh mesh={meshes.base} glow={glow('base')} />}
+        {!meshes.base && (<>
         {/* Floor Mounting Plate (Orange) */}
         <Box args={[1.0, 0.1, 1.0]} position={[0, 0.05, 0]}>
-          <meshStandardMaterial color={COLORS.orange} />
+          <meshStandardMaterial color={COLORS.orange} {...glow('base')} />
         </Box>
         {/* Base Main Casting (Orange) */}
         <group position={[0, 0.35, 0]}>
            <Cylinder args={[0.35, 0.45, 0.5, 32]} >
-             <meshStandardMaterial color={COLORS.orange} />
+             <meshStandardMaterial color={COLORS.orange} {...glow('base')} />
            </Cylinder>
            {/* Front connector box detail (Aligned to +X) */}
            <Box args={[0.3, 0.3, 0.5]} position={[0.4, -0.1, 0]}>
-              <meshStandardMaterial color={COLORS.orange} />
+              <meshStandardMaterial color={COLORS.orange} {...glow('base')} />
            </Box>
         </group>
+        </>)}
 
         {/* ================= J1 AXIS (SWIVEL - S) ================= */}
         {/* Rotates around Y. +S rotates towards +Y in math (X->Y), 
             In 3D Right-Handed: Y-Up. +RotY turns Z->X? 
             Let's stick to standard [0, S, 0] for simple turn. */}
         <group rotation={[0, d2r(joints.j1), 0]} position={[0, DIMENSIONS.baseHeight, 0]}>
+          {meshes.turret && <LinkMesh mesh={meshes.turret} glow={glow('turret')} />}
           
           {/* Turret / Shoulder Base (Yellow) */}
           <group position={[0, -0.1, 0]}>
+            {!meshes.turret && (<>
             <Cylinder args={[0.38, 0.38, 0.4, 32]} position={[0, 0, 0]}>
-              <meshStandardMaterial color={COLORS.yellow} />
+              <meshStandardMaterial color={COLORS.yellow} {...glow('turret')} />
             </Cylinder>
             
             {/* J2 Axis Motor Housing (Black, Rear) - Negative X direction */}
             <Box args={[0.4, 0.5, 0.4]} position={[-0.3, 0.1, 0]}>
-               <meshStandardMaterial color={COLORS.black} />
+               <meshStandardMaterial color={COLORS.black} {...glow('turret')} />
             </Box>
+            </>)}
 
             {/* ================= J2 AXIS (LOWER ARM - H) ================= */}
-            {/* Axis shifted forward in +X by a1 (0.352) */}
+            {/* Axis shifted forward in +X by a1 */}
             {/* ROTATION AXIS: Z (0,0,1) to move in X-Y plane (Side View) */}
             <group position={[DIMENSIONS.j1OffsetX, 0.1, 0]} rotation={[0, 0, j2Rot]}>
-              
+              {meshes.lowerArm && <LinkMesh mesh={meshes.lowerArm} glow={glow('lowerArm')} />}
+              {!meshes.lowerArm && (<>
               {/* J2 Pivot Cap (Black) - Aligned to Z-axis */}
               <Cylinder args={[0.32, 0.32, 0.65, 32]} rotation={[Math.PI/2, 0, 0]}>
-                <meshStandardMaterial color={COLORS.black} />
+                <meshStandardMaterial color={COLORS.black} {...glow('lowerArm')} />
               </Cylinder>
 
               {/* Link 2: Lower Arm (Yellow) */}
               <group position={[0, 0, 0]}>
                  {/* Main Arm Structure (Y-Up local) */}
                  <Box args={[0.4, DIMENSIONS.link2Length + 0.3, 0.5]} position={[0, DIMENSIONS.link2Length/2, 0]}>
-                    <meshStandardMaterial color={COLORS.yellow} />
+                    <meshStandardMaterial color={COLORS.yellow} {...glow('lowerArm')} />
                  </Box>
 
                  {/* Decorative Cutout / Side details */}
                  <Box args={[0.42, 0.6, 0.3]} position={[0, 0.4, 0]}>
-                    <meshStandardMaterial color={COLORS.yellow} />
+                    <meshStandardMaterial color={COLORS.yellow} {...glow('lowerArm')} />
                  </Box>
 
                  {/* Balancer Piston (Silver) */}
                  <group position={[-0.35, 0.3, 0]} rotation={[0, 0, -0.1]}>
                     <Cylinder args={[0.08, 0.08, 0.8, 16]} position={[0, 0.4, 0]}>
-                       <meshStandardMaterial color={COLORS.metal} roughness={0.3} metalness={0.8} />
+                       <meshStandardMaterial color={COLORS.metal} roughness={0.3} metalness={0.8} {...glow('lowerArm')} />
                     </Cylinder>
                  </group>
+              </group>
+              </>)}
+
+              <group position={[0, 0, 0]}>
 
                  {/* ================= J3 AXIS (UPPER ARM - V) ================= */}
                  {/* Moves up local Y to Elbow */}
                  <group position={[0, DIMENSIONS.link2Length, 0]} rotation={[0, 0, j3Rot]}>
-                    
+                    {meshes.upperArm && <LinkMesh mesh={meshes.upperArm} glow={glow('upperArm')} />}
+                    {!meshes.upperArm && (<>
                     {/* J3 Pivot Cap (Black) */}
                     <Cylinder args={[0.25, 0.25, 0.55, 32]} rotation={[Math.PI/2, 0, 0]}>
-                       <meshStandardMaterial color={COLORS.black} />
+                       <meshStandardMaterial color={COLORS.black} {...glow('upperArm')} />
                     </Cylinder>
 
                     {/* J3 Motor Box (Black, Rear) */}
                     <Box args={[0.3, 0.4, 0.3]} position={[0, -0.2, 0]}>
-                       <meshStandardMaterial color={COLORS.black} />
+                       <meshStandardMaterial color={COLORS.black} {...glow('upperArm')} />
                     </Box>
+                    </>)}
 
                     {/* Link 3: Upper Arm (Yellow) */}
                     <group position={[0, 0, 0]}>
+                       {!meshes.upperArm && (<>
                        {/* Elbow Joint Area */}
                        <Box args={[0.35, 0.35, 0.45]} position={[0, 0.1, 0]}>
-                          <meshStandardMaterial color={COLORS.yellow} />
+                          <meshStandardMaterial color={COLORS.yellow} {...glow('upperArm')} />
                        </Box>
                        
                        {/* Forearm Cylinder (Yellow) */}
                        <Cylinder args={[0.18, 0.22, DIMENSIONS.link3Length, 24]} position={[0, DIMENSIONS.link3Length/2, 0]}>
-                          <meshStandardMaterial color={COLORS.yellow} />
+                          <meshStandardMaterial color={COLORS.yellow} {...glow('upperArm')} />
                        </Cylinder>
+                       </>)}
 
                        {/* ================= J4 AXIS (ROLL - R2) ================= */}
                        {/* Rotates around local Y (Arm Axis) */}
                        <group position={[0, DIMENSIONS.link3Length, 0]} rotation={[0, -d2r(joints.j4), 0]}>
                           
                           {/* Wrist Housing (Yellow) */}
-                          <Cylinder args={[0.16, 0.18, 0.2, 24]} position={[0, 0.1, 0]}>
-                             <meshStandardMaterial color={COLORS.yellow} />
+                          {!meshes.upperArm && (
+                          <Cylinder args={[0.16, 0.18, DIMENSIONS.wristLength, 24]} position={[0, DIMENSIONS.wristLength / 2, 0]}>
+                             <meshStandardMaterial color={COLORS.yellow} {...glow('upperArm')} />
                           </Cylinder>
+                          )}
 
                           {/* ================= J5 AXIS (PITCH - B) ================= */}
                           {/* Rotates around Z to pitch up/down in X-Y plane */}
-                          <group position={[0, 0.2, 0]} rotation={[0, 0, d2r(joints.j5)]}>
-                             
+                          <group position={[0, DIMENSIONS.wristLength, 0]} rotation={[0, 0, d2r(joints.j5)]}>
+                             {meshes.wrist && <LinkMesh mesh={meshes.wrist} glow={glow('wrist')} />}
+                             {!meshes.wrist && (<>
                              {/* J5 Pivot Cap (Black) */}
                              <Cylinder args={[0.14, 0.14, 0.32, 32]} rotation={[Math.PI/2, 0, 0]}>
-                                <meshStandardMaterial color={COLORS.black} />
+                                <meshStandardMaterial color={COLORS.black} {...glow('wrist')} />
                              </Cylinder>
 
                              {/* Hand Base (Yellow) */}
                              <Box args={[0.2, 0.25, 0.2]} position={[0, 0.15, 0]}>
-                                <meshStandardMaterial color={COLORS.yellow} />
+                                <meshStandardMaterial color={COLORS.yellow} {...glow('wrist')} />
                              </Box>
+                             </>)}
 
                              {/* ================= J6 AXIS (TWIST - R1) ================= */}
                              {/* Rotates around local Y (Tool Axis) */}
-                             <group position={[0, 0.28, 0]} rotation={[0, -d2r(joints.j6), 0]}>
+                             <group position={[0, DIMENSIONS.handLength, 0]} rotation={[0, -d2r(joints.j6), 0]}>
                                 {/* Flange (Dark Metal) */}
                                 <Cylinder args={[0.12, 0.12, 0.04, 32]} position={[0, 0, 0]}>
-                                   <meshStandardMaterial color={COLORS.darkMetal} />
+                                   <meshStandardMaterial color={COLORS.darkMetal} {...glow('wrist')} />
                                 </Cylinder>
 
                                 {/* Tool / Tip (Red Arrow - Visualization) */}
-                                <group position={[0, 0.02, 0]}>
-                                   <Cylinder args={[0.01, 0.01, 0.2, 8]} position={[0, 0.1, 0]}>
-                                      <meshStandardMaterial color={COLORS.tool} opacity={0.5} transparent />
-                                   </Cylinder>
-                                   <Sphere args={[0.02]} position={[0, 0.2, 0]}>
-                                      <meshStandardMaterial color={COLORS.tool} />
-                                   </Sphere>
-                                </group>
+                                {hasToolOffset ? (
+                                   <group>
+                                      {/* Tool body: flange center -> TCP */}
+                                      <Line
+                                         points={[[0, DIMENSIONS.flangeFace, 0], tcpPosition]}
+                                         color={highlight.includes('tool') ? COLORS.collision : COLORS.tool}
+                                         lineWidth={4}
+                                      />
+                                      <Sphere args={[0.025]} position={tcpPosition}>
+                                         <meshStandardMaterial color={COLORS.tool} {...glow('tool')} />
+                                      </Sphere>
+                                   </group>
+                                ) : (
+                                   <group position={[0, DIMENSIONS.flangeFace, 0]}>
+                                      <Cylinder args={[0.01, 0.01, 0.2, 8]} position={[0, 0.1, 0]}>
+                                         <meshStandardMaterial color={COLORS.tool} opacity={0.5} transparent {...glow('tool')} />
+                                      </Cylinder>
+                                      <Sphere args={[0.02]} position={[0, 0.2, 0]}>
+                                         <meshStandardMaterial color={COLORS.tool} {...glow('tool')} />
+                                      </Sphere>
+                                   </group>
+                                )}
 
                              </group> {/* End J6 */}
                           </group> {/* End J5 */}
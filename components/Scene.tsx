@@ -1,17 +1,83 @@
 import React from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Grid, Environment, ContactShadows, PerspectiveCamera } from '@react-three/drei';
+import { Canvas, useFrame, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Grid, Environment, ContactShadows, PerspectiveCamera, Plane, Ring } from '@react-three/drei';
 import { RobotModel } from './RobotModel';
-import { JointState } from '../types';
+import { JointState, ToolDefinition, Workcell, Pose, RobotDescription, Vector3 } from '../types';
+import { FLOOR_BODY_ID } from '../utils/collision';
+import { ReachEnvelope } from '../utils/workspace';
+import { EnvelopeOverlay, EnvelopeMode } from './EnvelopeOverlay';
+import { WorkcellObjects, GizmoSettings } from './WorkcellObjects';
+import { FrameAxes } from './FrameAxes';
+import { JointPathOverlay } from './JointPathOverlay';
+import { TcpTrail } from './TcpTrail';
 
-interface SceneProps {
+// Runtime state of one robot instance of the cell
+export interface SceneRobot {
+  id: string;
+  base: Pose;
+  joints: JointState;
+  tool: ToolDefinition;
+  description: RobotDescription;
+  highlight: string[]; // Colliding body ids of this robot
+}
+
+// Translucent copy of the selected robot at a pose that is not applied (plan preview, pinned position)
+export interface SceneGhost {
   joints: JointState;
+  color?: string; // Default: preview blue
+}
+
+interface SceneProps {
+  robots: SceneRobot[];
+  selectedRobotId: string;
+  onSelectRobot?: (id: string) => void;
+  workcell: Workcell;
+  selectedObjectId?: string | null;
+  onSelectObject?: (id: string | null) => void;
+  gizmo: GizmoSettings;
+  onObjectPoseChange?: (id: string, pose: Pose) => void;
+  highlight?: string[]; // Colliding cell body ids (obstacles, floor)
+  userFrame?: Pose | null; // Active user frame axes (relative to the selected robot's base, hidden when null)
+  envelope?: ReachEnvelope | null; // Reach overlay of the selected robot (hidden when null)
+  envelopeMode?: EnvelopeMode;
+  ghosts?: SceneGhost[]; // Preview poses of the selected robot (AI Copilot plan, pinned positions, hovered move target)
+  trail?: boolean; // Fading TCP trail of every robot
+  trailKey?: number; // Changing it clears the trail
+  path?: { points: Vector3[]; flagged: number[]; cursor: Vector3 | null } | null; // Replayed log TCP path of the selected robot (base frame, mm)
+  onFrame?: (delta: number) => void; // Called every rendered frame (drives the motion planner)
 }
 
-export const Scene: React.FC<SceneProps> = ({ joints }) => {
+// useFrame is only available inside the Canvas tree
+const FrameDriver: React.FC<{ onFrame: (delta: number) => void }> = ({ onFrame }) => {
+  useFrame((_, delta) => onFrame(delta));
+  return null;
+};
+
+const d2r = (deg: number) => (deg * Math.PI) / 180;
+
+export const Scene: React.FC<SceneProps> = ({
+  robots,
+  selectedRobotId,
+  onSelectRobot,
+  workcell,
+  selectedObjectId = null,
+  onSelectObject,
+  gizmo,
+  onObjectPoseChange,
+  highlight = [],
+  userFrame,
+  envelope,
+  envelopeMode = 'shell',
+  ghosts = [],
+  trail = false,
+  trailKey = 0,
+  path = null,
+  onFrame,
+}) => {
   return (
     <div className="w-full h-full bg-slate-900">
-      <Canvas shadows>
+      <Canvas shadows onPointerMissed={() => onSelectObject?.(null)}>
+        {onFrame && <FrameDriver onFrame={onFrame} />}
         {/* Adjusted camera for larger robot scale (approx 3m height) */}
         <PerspectiveCamera makeDefault position={[4, 3, 5]} fov={50} />
         <OrbitControls makeDefault target={[0, 1.5, 0]} minDistance={2} maxDistance={15} />
@@ -25,10 +91,59 @@ export const Scene: React.FC<SceneProps> = ({ joints }) => {
         />
         <Environment preset="warehouse" />
 
-        <group position={[0, 0, 0]}>
-          <RobotModel joints={joints} />
+        {/* Robots on their base poses: World (mm, Z-up) -> Robot base -> back to Scene units (m, Y-up) */}
+        <group rotation={[-Math.PI / 2, 0, 0]} scale={0.001}>
+          {robots.map(robot => {
+            const { base } = robot;
+            const isSelected = robot.id === selectedRobotId;
+            return (
+              <group
+                key={robot.id}
+                position={[base.x, base.y, base.z]}
+                rotation={[d2r(base.rx), d2r(base.ry), d2r(base.rz), 'ZYX']}
+                onClick={(e: ThreeEvent<MouseEvent>) => {
+                  e.stopPropagation();
+                  onSelectRobot?.(robot.id);
+                }}
+              >
+                <group rotation={[Math.PI / 2, 0, 0]} scale={1000}>
+                  <RobotModel joints={robot.joints} tool={robot.tool} robot={robot.description} highlight={robot.highlight} />
+                  {/* Selection ring (only needed to tell robots apart) */}
+                  {isSelected && robots.length > 1 && (
+                    <Ring args={[0.75, 0.82, 48]} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.005, 0]}>
+                      <meshBasicMaterial color="#F59E0B" />
+                    </Ring>
+                  )}
+                  {isSelected && ghosts.map((ghost, idx) => (
+                    <RobotModel key={idx} joints={ghost.joints} tool={robot.tool} robot={robot.description} ghost ghostColor={ghost.color} />
+                  ))}
+                  {isSelected && envelope && <EnvelopeOverlay envelope={envelope} mode={envelopeMode} />}
+                </group>
+                {isSelected && userFrame && <FrameAxes frame={userFrame} />}
+                {isSelected && path && <JointPathOverlay points={path.points} flagged={path.flagged} cursor={path.cursor} />}
+              </group>
+            );
+          })}
         </group>
 
+        {trail && <TcpTrail key={trailKey} robots={robots} />}
+
+        <WorkcellObjects
+          objects={workcell.objects}
+          highlight={highlight}
+          selectedId={selectedObjectId}
+          onSelect={(id) => onSelectObject?.(id)}
+          gizmo={gizmo}
+          onPoseChange={(id, pose) => onObjectPoseChange?.(id, pose)}
+        />
+
+        {/* Floor contact warning */}
+        {highlight.includes(FLOOR_BODY_ID) && (
+          <Plane args={[6, 6]} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.002, 0]}>
+            <meshBasicMaterial color="#DC2626" transparent opacity={0.2} />
+          </Plane>
+        )}
+
         <Grid 
           position={[0, 0, 0]} 
           args={[20, 20]} 
@@ -0,0 +1,99 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import type { BufferGeometry } from 'three';
+import { JointState, Pose, RobotDescription, ToolDefinition } from '../types';
+import { calculateForwardKinematics } from '../utils/kinematics';
+import { poseToMatrix, transformPoint } from '../utils/transform';
+
+interface TrailRobot {
+  id: string;
+  base: Pose;
+  joints: JointState;
+  tool: ToolDefinition;
+  description: RobotDescription;
+}
+
+interface TcpTrailProps {
+  robots: TrailRobot[];
+  duration?: number;  // s until a point has faded out
+  color?: [number, number, number];  // RGB 0 ~ 1
+}
+
+type ScenePoint = [number, number, number];
+
+interface TrailPoint {
+  position: ScenePoint;
+  time: number;  // Canvas clock (s)
+}
+
+// A new point is added once the TCP has moved this far (m)
+const MIN_STEP = 0.002;
+const MAX_POINTS = 4000;
+
+// World (mm, Z-up) -> Scene (m, Y-up)
+const toScene = (p: number[]): ScenePoint => [p[0] / 1000, p[2] / 1000, -p[1] / 1000];
+
+const distance = (a: ScenePoint, b: ScenePoint) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+interface RobotTrailProps {
+  robot: TrailRobot;
+  duration: number;
+  color: [number, number, number];
+}
+
+// One robot: points are written into preallocated buffers every frame (no React re-render, no new geometry)
+const RobotTrail: React.FC<RobotTrailProps> = ({ robot, duration, color }) => {
+  const buffers = useMemo(() => ({ positions: new Float32Array(MAX_POINTS * 3), colors: new Float32Array(MAX_POINTS * 4) }), []);
+  const geometryRef = useRef<BufferGeometry>(null);
+  const trailRef = useRef<TrailPoint[]>([]);
+  const sampledRef = useRef<JointState | null>(null);
+
+  useFrame(({ clock }) => {
+    const now = clock.elapsedTime;
+    const trail = trailRef.current;
+
+    // Joint states are replaced, never mutated: same object = TCP has not moved
+    if (sampledRef.current !== robot.joints) {
+      sampledRef.current = robot.joints;
+      const { x, y, z } = calculateForwardKinematics(robot.joints, { tcp: robot.tool.tcp, robot: robot.description });
+      const position = toScene(transformPoint(poseToMatrix(robot.base), [x, y, z]));
+      const last = trail[trail.length - 1];
+      if (!last || distance(last.position, position) >= MIN_STEP) {
+        trail.push({ position, time: now });
+        if (trail.length > MAX_POINTS) trail.shift();
+      }
+    }
+    while (trail.length > 0 && now - trail[0].time > duration) trail.shift();
+
+    const geometry = geometryRef.current;
+    if (!geometry) return;
+    const { positions, colors } = buffers;
+    trail.forEach((point, i) => {
+      positions.set(point.position, i * 3);
+      colors.set(color, i * 4);
+      colors[i * 4 + 3] = Math.max(0, 1 - (now - point.time) / duration);
+    });
+    geometry.setDrawRange(0, trail.length > 1 ? trail.length : 0);
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.color.needsUpdate = true;
+  });
+
+  return (
+    <threeLine frustumCulled={false} renderOrder={1}>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" args={[buffers.positions, 3]} />
+        <bufferAttribute attach="attributes-color" args={[buffers.colors, 4]} />
+      </bufferGeometry>
+      <lineBasicMaterial vertexColors transparent depthWrite={false} />
+    </threeLine>
+  );
+};
+
+// Fading polyline behind the TCP of every robot (must be rendered inside the Canvas, in scene units)
+export const TcpTrail: React.FC<TcpTrailProps> = ({ robots, duration = 8, color = [0.98, 0.75, 0.14] }) => (
+  <group>
+    {robots.map(robot => (
+      <RobotTrail key={robot.id} robot={robot} duration={duration} color={color} />
+    ))}
+  </group>
+);
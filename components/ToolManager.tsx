@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { JointState, Pose, RobotDescription, ToolDefinition, Vector3, FLANGE_TOOL } from '../types';
+import { calibrateTcpFourPoint, TCP_CALIBRATION_POINTS, TcpCalibrationResult } from '../utils/tool';
+import { createId } from '../utils/id';
+import { NumberField } from './NumberField';
+import { Plus, Trash2, Crosshair, CheckCircle2, Circle } from 'lucide-react';
+
+interface ToolManagerProps {
+  joints: JointState;
+  tools: ToolDefinition[];
+  setTools: React.Dispatch<React.SetStateAction<ToolDefinition[]>>;
+  activeToolId: string;
+  setActiveToolId: (id: string) => void;
+  robot: RobotDescription; // Model the calibration poses were recorded on
+}
+
+export const ToolManager: React.FC<ToolManagerProps> = ({ joints, tools, setTools, activeToolId, setActiveToolId, robot }) => {
+  const [calibrationPoses, setCalibrationPoses] = useState<Array<JointState | null>>(
+    Array(TCP_CALIBRATION_POINTS).fill(null)
+  );
+  const [calibration, setCalibration] = useState<TcpCalibrationResult | null>(null);
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+
+  const activeTool = tools.find(t => t.id === activeToolId) ?? tools[0];
+  const isFlange = activeTool.id === FLANGE_TOOL.id;
+
+  const updateActiveTool = (patch: Partial<ToolDefinition>) => {
+    setTools(prev => prev.map(t => (t.id === activeTool.id ? { ...t, ...patch } : t)));
+  };
+
+  const handleCreate = () => {
+    const tool: ToolDefinition = {
+      ...FLANGE_TOOL,
+      id: createId('tool'),
+      name: `Tool ${tools.length}`,
+    };
+    setTools(prev => [...prev, tool]);
+    setActiveToolId(tool.id);
+  };
+
+  const handleDelete = () => {
+    if (isFlange) return;
+    setTools(prev => prev.filter(t => t.id !== activeTool.id));
+    setActiveToolId(FLANGE_TOOL.id);
+  };
+
+  const handleRecord = (index: number) => {
+    setCalibrationPoses(prev => prev.map((p, i) => (i === index ? { ...joints } : p)));
+    setCalibration(null);
+    setCalibrationError(null);
+  };
+
+  const handleCalibrate = () => {
+    const samples = calibrationPoses.filter((p): p is JointState => p !== null);
+    const result = calibrateTcpFourPoint(samples, robot);
+    if (!result) {
+      setCalibrationError('Calibration failed. Use clearly different wrist orientations for each point.');
+      return;
+    }
+    setCalibration(result);
+    setCalibrationError(null);
+    updateActiveTool({ tcp: { ...activeTool.tcp, x: result.tcp.x, y: result.tcp.y, z: result.tcp.z } });
+  };
+
+  const allRecorded = calibrationPoses.every(p => p !== null);
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Tool List */}
+      <div className="space-y-1">
+        {tools.map(tool => (
+          <button
+            key={tool.id}
+            onClick={() => setActiveToolId(tool.id)}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded border text-left ${
+              tool.id === activeTool.id
+                ? 'bg-amber-500/10 border-amber-500/60 text-amber-200'
+                : 'bg-slate-800/60 border-slate-700 text-slate-300 hover:bg-slate-800'
+            }`}
+          >
+            {tool.id === activeTool.id ? <CheckCircle2 size={12} /> : <Circle size={12} />}
+            <span className="flex-1 truncate">{tool.name}</span>
+            <span className="font-mono text-[10px] text-slate-500">Z {tool.tcp.z.toFixed(1)}</span>
+          </button>
+        ))}
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={handleCreate}
+            className="flex-1 flex items-center justify-center gap-1 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300"
+          >
+            <Plus size={12} /> New Tool
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isFlange}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-red-900/40 rounded border border-slate-700 text-slate-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Delete tool"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+
+      {/* Tool Editor */}
+      <div className="space-y-2 border-t border-slate-800 pt-3">
+        <input
+          type="text"
+          value={activeTool.name}
+          disabled={isFlange}
+          onChange={(e) => updateActiveTool({ name: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none disabled:opacity-50"
+        />
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">TCP Offset (Flange Frame, mm / °)</div>
+        <div className="grid grid-cols-3 gap-1">
+          {(Object.keys(activeTool.tcp) as Array<keyof Pose>).map(key => (
+            <NumberField
+              key={key}
+              label={key}
+              value={activeTool.tcp[key]}
+              disabled={isFlange}
+              onChange={(val) => updateActiveTool({ tcp: { ...activeTool.tcp, [key]: val } })}
+            />
+          ))}
+        </div>
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Mass (kg) / Center of Gravity (mm)</div>
+        <div className="grid grid-cols-2 gap-1">
+          <NumberField
+            label="kg"
+            value={activeTool.mass}
+            disabled={isFlange}
+            onChange={(val) => updateActiveTool({ mass: Math.max(0, val) })}
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {(Object.keys(activeTool.cog) as Array<keyof Vector3>).map(key => (
+            <NumberField
+              key={key}
+              label={key}
+              value={activeTool.cog[key]}
+              disabled={isFlange}
+              onChange={(val) => updateActiveTool({ cog: { ...activeTool.cog, [key]: val } })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* 4-Point TCP Calibration */}
+      {!isFlange && (
+        <div className="space-y-2 border-t border-slate-800 pt-3">
+          <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+            <Crosshair size={12} /> 4-Point TCP Calibration
+          </div>
+          <p className="text-[10px] text-slate-500">
+            Touch the same fixed point with the tool tip from four different wrist orientations and record each pose.
+          </p>
+          <div className="grid grid-cols-4 gap-1">
+            {calibrationPoses.map((p, idx) => (
+              <button
+                key={idx}
+                onClick={() => handleRecord(idx)}
+                className={`py-1.5 rounded border text-[10px] ${
+                  p
+                    ? 'bg-green-900/30 border-green-700/60 text-green-300'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+                title={p ? `S ${p.j1.toFixed(1)} H ${p.j2.toFixed(1)} V ${p.j3.toFixed(1)}` : 'Record current pose'}
+              >
+                P{idx + 1}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleCalibrate}
+            disabled={!allRecorded}
+            className="w-full py-1.5 bg-amber-500 hover:bg-amber-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded"
+          >
+            Compute TCP
+          </button>
+          {calibration && (
+            <div className="font-mono text-[10px] text-slate-400 bg-black/30 rounded px-2 py-1.5">
+              TCP: {calibration.tcp.x.toFixed(2)}, {calibration.tcp.y.toFixed(2)}, {calibration.tcp.z.toFixed(2)} mm
+              <br />
+              Max Error: <span className={calibration.maxError > 1 ? 'text-red-300' : 'text-green-300'}>
+                {calibration.maxError.toFixed(3)} mm
+              </span>
+            </div>
+          )}
+          {calibrationError && (
+            <div className="text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+              {calibrationError}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { JointState, Pose, RobotDescription, UserFrameDefinition, BASE_FRAME } from '../types';
+import { teachUserFrameThreePoint, USER_FRAME_POINTS, UserFrameTeachResult } from '../utils/userFrame';
+import { createId } from '../utils/id';
+import { NumberField } from './NumberField';
+import { Plus, Trash2, Crosshair, CheckCircle2, Circle } from 'lucide-react';
+
+interface UserFrameManagerProps {
+  joints: JointState;
+  frames: UserFrameDefinition[];
+  setFrames: React.Dispatch<React.SetStateAction<UserFrameDefinition[]>>;
+  activeFrameId: string;
+  setActiveFrameId: (id: string) => void;
+  tcp: Pose; // Active tool (the taught points are TCP positions)
+  robot: RobotDescription;
+}
+
+const POINT_LABELS = ['Origin', '+X', 'XY'];
+
+export const UserFrameManager: React.FC<UserFrameManagerProps> = ({
+  joints,
+  frames,
+  setFrames,
+  activeFrameId,
+  setActiveFrameId,
+  tcp,
+  robot,
+}) => {
+  const [teachPoses, setTeachPoses] = useState<Array<JointState | null>>(Array(USER_FRAME_POINTS).fill(null));
+  const [taught, setTaught] = useState<UserFrameTeachResult | null>(null);
+  const [teachError, setTeachError] = useState<string | null>(null);
+
+  const activeFrame = frames.find(f => f.id === activeFrameId) ?? frames[0];
+  const isBase = activeFrame.id === BASE_FRAME.id;
+
+  const updateActiveFrame = (patch: Partial<UserFrameDefinition>) => {
+    setFrames(prev => prev.map(f => (f.id === activeFrame.id ? { ...f, ...patch } : f)));
+  };
+
+  const handleCreate = () => {
+    const frame: UserFrameDefinition = {
+      ...BASE_FRAME,
+      id: createId('frame'),
+      name: `User ${frames.length}`,
+    };
+    setFrames(prev => [...prev, frame]);
+    setActiveFrameId(frame.id);
+  };
+
+  const handleDelete = () => {
+    if (isBase) return;
+    setFrames(prev => prev.filter(f => f.id !== activeFrame.id));
+    setActiveFrameId(BASE_FRAME.id);
+  };
+
+  const handleRecord = (index: number) => {
+    setTeachPoses(prev => prev.map((p, i) => (i === index ? { ...joints } : p)));
+    setTaught(null);
+    setTeachError(null);
+  };
+
+  const handleTeach = () => {
+    const samples = teachPoses.filter((p): p is JointState => p !== null);
+    const result = teachUserFrameThreePoint(samples, tcp, robot);
+    if (!result) {
+      setTeachError('Frame could not be computed. The three points must be distinct and not lie on one line.');
+      return;
+    }
+    setTaught(result);
+    setTeachError(null);
+    updateActiveFrame({ frame: result.frame });
+  };
+
+  const allRecorded = teachPoses.every(p => p !== null);
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Frame List */}
+      <div className="space-y-1">
+        {frames.map(frame => (
+          <button
+            key={frame.id}
+            onClick={() => setActiveFrameId(frame.id)}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded border text-left ${
+              frame.id === activeFrame.id
+                ? 'bg-amber-500/10 border-amber-500/60 text-amber-200'
+                : 'bg-slate-800/60 border-slate-700 text-slate-300 hover:bg-slate-800'
+            }`}
+          >
+            {frame.id === activeFrame.id ? <CheckCircle2 size={12} /> : <Circle size={12} />}
+            <span className="flex-1 truncate">{frame.name}</span>
+            <span className="font-mono text-[10px] text-slate-500">
+              {frame.frame.x.toFixed(0)}, {frame.frame.y.toFixed(0)}, {frame.frame.z.toFixed(0)}
+            </span>
+          </button>
+        ))}
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={handleCreate}
+            className="flex-1 flex items-center justify-center gap-1 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300"
+          >
+            <Plus size={12} /> New Frame
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isBase}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-red-900/40 rounded border border-slate-700 text-slate-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Delete frame"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+
+      {/* Frame Editor */}
+      <div className="space-y-2 border-t border-slate-800 pt-3">
+        <input
+          type="text"
+          value={activeFrame.name}
+          disabled={isBase}
+          onChange={(e) => updateActiveFrame({ name: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none disabled:opacity-50"
+        />
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider">Frame (Base Frame, mm / °)</div>
+        <div className="grid grid-cols-3 gap-1">
+          {(Object.keys(activeFrame.frame) as Array<keyof Pose>).map(key => (
+            <NumberField
+              key={key}
+              label={key}
+              value={+activeFrame.frame[key].toFixed(3)}
+              disabled={isBase}
+              onChange={(val) => updateActiveFrame({ frame: { ...activeFrame.frame, [key]: val } })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* 3-Point Teaching */}
+      {!isBase && (
+        <div className="space-y-2 border-t border-slate-800 pt-3">
+          <div className="flex items-center gap-1.5 text-slate-300 font-bold uppercase tracking-wider text-[10px]">
+            <Crosshair size={12} /> 3-Point Teaching
+          </div>
+          <p className="text-[10px] text-slate-500">
+            Touch the frame origin, a point along +X and a point on the +Y side of the XY plane with the active TCP.
+          </p>
+          <div className="grid grid-cols-3 gap-1">
+            {teachPoses.map((p, idx) => (
+              <button
+                key={idx}
+                onClick={() => handleRecord(idx)}
+                className={`py-1.5 rounded border text-[10px] ${
+                  p
+                    ? 'bg-green-900/30 border-green-700/60 text-green-300'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+                title={p ? `S ${p.j1.toFixed(1)} H ${p.j2.toFixed(1)} V ${p.j3.toFixed(1)}` : 'Record current pose'}
+              >
+                {POINT_LABELS[idx]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleTeach}
+            disabled={!allRecorded}
+            className="w-full py-1.5 bg-amber-500 hover:bg-amber-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded"
+          >
+            Compute Frame
+          </button>
+          {taught && (
+            <div className="font-mono text-[10px] text-slate-400 bg-black/30 rounded px-2 py-1.5">
+              Origin: {taught.points[0].x.toFixed(1)}, {taught.points[0].y.toFixed(1)}, {taught.points[0].z.toFixed(1)} mm
+              <br />
+              X / XY Angle: <span className={taught.skew < 30 ? 'text-amber-300' : 'text-green-300'}>
+                {taught.skew.toFixed(1)}°
+              </span>
+            </div>
+          )}
+          {teachError && (
+            <div className="text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+              {teachError}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { LucideIcon } from 'lucide-react';
+
+export interface WorkbenchTab {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  content: React.ReactNode;
+}
+
+interface WorkbenchProps {
+  tabs: WorkbenchTab[];
+}
+
+// Right-hand dock hosting the engineering panels (Tools, Programs, ...)
+export const Workbench: React.FC<WorkbenchProps> = ({ tabs }) => {
+  const [activeId, setActiveId] = useState(tabs[0]?.id);
+  const active = tabs.find(tab => tab.id === activeId) ?? tabs[0];
+
+  return (
+    <div className="absolute top-24 right-4 z-10 w-80 bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl text-slate-100 max-h-[calc(100vh-12rem)] flex flex-col">
+      {/* Tab Bar */}
+      <div className="flex border-b border-slate-800 overflow-x-auto flex-shrink-0">
+        {tabs.map(tab => {
+          const Icon = tab.icon;
+          return (
+            <button
+              key={tab.id}
+              onClick={() => setActiveId(tab.id)}
+              className={`flex items-center gap-1.5 px-3 py-2.5 text-xs font-medium border-b-2 transition-colors flex-shrink-0 ${
+                tab.id === active?.id
+                  ? 'border-amber-500 text-amber-400'
+                  : 'border-transparent text-slate-400 hover:text-white'
+              }`}
+              title={tab.label}
+            >
+              <Icon size={14} />
+              {tab.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Panels stay mounted so running jobs and unsaved edits survive tab switches */}
+      <div className="overflow-y-auto flex-1 min-h-0">
+        {tabs.map(tab => (
+          <div key={tab.id} className={tab.id === active?.id ? '' : 'hidden'}>
+            {tab.content}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import type { Object3D } from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { Box, Cylinder, TransformControls } from '@react-three/drei';
+import { CellObject, CellMesh, Pose } from '../types';
+import { obstacleBodyId } from '../utils/collision';
+
+export type GizmoMode = 'translate' | 'rotate';
+
+export interface GizmoSettings {
+  mode: GizmoMode;
+  translationSnap: number; // mm (0 = off)
+  rotationSnap: number;    // deg (0 = off)
+}
+
+interface WorkcellObjectsProps {
+  objects: CellObject[];
+  highlight?: string[]; // Colliding body ids
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  gizmo: GizmoSettings;
+  onPoseChange: (id: string, pose: Pose) => void;
+}
+
+const d2r = (deg: number) => (deg * Math.PI) / 180;
+const r2d = (rad: number) => (rad * 180) / Math.PI;
+
+// THREE.DoubleSide (imported meshes come with arbitrary winding)
+const DOUBLE_SIDE = 2;
+
+export const MeshGeometry: React.FC<{ mesh: CellMesh }> = ({ mesh }) => {
+  const positions = useMemo(() => new Float32Array(mesh.positions), [mesh.positions]);
+  return (
+    <bufferGeometry key={positions.length} onUpdate={(geometry) => geometry.computeVertexNormals()}>
+      <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+    </bufferGeometry>
+  );
+};
+
+// One object in its own frame (Z-up, mm). Primitives stand on their local origin.
+const CellObjectShape: React.FC<{ object: CellObject; color: string; emissive: string }> = ({ object, color, emissive }) => {
+  const material = <meshStandardMaterial color={color} emissive={emissive} emissiveIntensity={0.3} side={DOUBLE_SIDE} />;
+  const { x, y, z } = object.size;
+
+  if (object.shape === 'box') {
+    return <Box args={[x, y, z]} position={[0, 0, z / 2]} castShadow receiveShadow>{material}</Box>;
+  }
+  if (object.shape === 'cylinder') {
+    // Drei cylinders run along local Y; tip them onto Z
+    return (
+      <Cylinder args={[x / 2, x / 2, z, 32]} position={[0, 0, z / 2]} rotation={[Math.PI / 2, 0, 0]} castShadow receiveShadow>
+        {material}
+      </Cylinder>
+    );
+  }
+  if (!object.mesh) return null;
+  return (
+    <mesh scale={object.mesh.scale} castShadow receiveShadow>
+      <MeshGeometry mesh={object.mesh} />
+      {material}
+    </mesh>
+  );
+};
+
+/**
+ * Workcell objects + placement gizmo (must be rendered inside the Canvas)
+ * World frame (mm, Z-up) -> Scene (m, Y-up)
+ */
+export const WorkcellObjects: React.FC<WorkcellObjectsProps> = ({
+  objects,
+  highlight = [],
+  selectedId,
+  onSelect,
+  gizmo,
+  onPoseChange,
+}) => {
+  // The gizmo attaches to the Object3D of the selected object (set through a callback ref)
+  const [selectedNode, setSelectedNode] = useState<Object3D | null>(null);
+  const selected = objects.find(o => o.id === selectedId);
+
+  const handleObjectChange = () => {
+    if (!selectedNode || !selected) return;
+    const { position, rotation } = selectedNode;
+    onPoseChange(selected.id, {
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      rx: r2d(rotation.x),
+      ry: r2d(rotation.y),
+      rz: r2d(rotation.z),
+    });
+  };
+
+  return (
+    <>
+      <group rotation={[-Math.PI / 2, 0, 0]} scale={0.001}>
+        {objects.map(object => {
+          const isSelected = object.id === selectedId;
+          const colliding = highlight.includes(obstacleBodyId(object));
+          return (
+            <group
+              key={object.id}
+              ref={isSelected ? setSelectedNode : undefined}
+              position={[object.pose.x, object.pose.y, object.pose.z]}
+              rotation={[d2r(object.pose.rx), d2r(object.pose.ry), d2r(object.pose.rz), 'ZYX']}
+              onClick={(e: ThreeEvent<MouseEvent>) => {
+                e.stopPropagation();
+                onSelect(object.id);
+              }}
+            >
+              <CellObjectShape
+                object={object}
+                color={colliding ? '#DC2626' : object.color}
+                emissive={isSelected ? '#F59E0B' : '#000000'}
+              />
+            </group>
+          );
+        })}
+      </group>
+
+      {selected && selectedNode && (
+        <TransformControls
+          object={selectedNode}
+          mode={gizmo.mode}
+          space="local"
+          translationSnap={gizmo.translationSnap > 0 ? gizmo.translationSnap : null}
+          rotationSnap={gizmo.rotationSnap > 0 ? d2r(gizmo.rotationSnap) : null}
+          onObjectChange={handleObjectChange}
+        />
+      )}
+    </>
+  );
+};
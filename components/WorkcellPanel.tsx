@@ -0,0 +1,488 @@
+import React, { useRef, useState } from 'react';
+import {
+  CellObject,
+  JointState,
+  Pose,
+  RobotDescription,
+  RobotInstance,
+  ToolDefinition,
+  Vector3,
+  Workcell,
+  FLANGE_TOOL,
+  INITIAL_JOINTS,
+} from '../types';
+import {
+  createCellObject,
+  createMeshObject,
+  createRobotInstance,
+  cellObjectTarget,
+  meshSize,
+  parseWorkcellJson,
+  workcellToJson,
+} from '../utils/workcell';
+import { importMesh } from '../utils/meshImport';
+import { BUILT_IN_ROBOTS, findRobotDescription, importRobotDescription, robotDescriptionToJson } from '../utils/robotDescription';
+import { calculateInverseKinematics, selectClosestSolution } from '../utils/kinematics';
+import { MoveRequest, MotionResult } from '../utils/motion';
+import { downloadTextFile } from '../utils/download';
+import { GizmoSettings, GizmoMode } from './WorkcellObjects';
+import { NumberField } from './NumberField';
+import { Plus, Trash2, Upload, Download, FolderOpen, Box as BoxIcon, Cylinder as CylinderIcon, Shapes, Move3d, Rotate3d, Crosshair, AlertTriangle, Bot, CheckCircle2, XCircle, LucideIcon } from 'lucide-react';
+
+interface WorkcellPanelProps {
+  joints: JointState; // Selected robot
+  workcell: Workcell;
+  selectedRobotId: string;
+  setSelectedRobotId: (id: string) => void;
+  tools: ToolDefinition[];
+  models: RobotDescription[]; // Built-in + imported robot descriptions
+  setCustomModels: React.Dispatch<React.SetStateAction<RobotDescription[]>>;
+  setWorkcell: React.Dispatch<React.SetStateAction<Workcell>>;
+  selectedId: string | null;
+  setSelectedId: (id: string | null) => void;
+  gizmo: GizmoSettings;
+  setGizmo: React.Dispatch<React.SetStateAction<GizmoSettings>>;
+  moveTo: (request: MoveRequest) => Promise<MotionResult>; // Selected robot
+}
+
+const POSE_KEYS: Array<keyof Pose> = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+const SHAPE_ICONS: Record<CellObject['shape'], LucideIcon> = { box: BoxIcon, cylinder: CylinderIcon, mesh: Shapes };
+
+const GIZMO_MODES: Array<{ id: GizmoMode; label: string; icon: LucideIcon }> = [
+  { id: 'translate', label: 'Move', icon: Move3d },
+  { id: 'rotate', label: 'Rotate', icon: Rotate3d },
+];
+
+const PoseEditor: React.FC<{ pose: Pose; onChange: (pose: Pose) => void }> = ({ pose, onChange }) => (
+  <div className="grid grid-cols-3 gap-1">
+    {POSE_KEYS.map(key => (
+      <NumberField key={key} label={key} value={+pose[key].toFixed(2)} onChange={(val) => onChange({ ...pose, [key]: val })} />
+    ))}
+  </div>
+);
+
+export const WorkcellPanel: React.FC<WorkcellPanelProps> = ({
+  joints,
+  workcell,
+  selectedRobotId,
+  setSelectedRobotId,
+  tools,
+  models,
+  setCustomModels,
+  setWorkcell,
+  selectedId,
+  setSelectedId,
+  gizmo,
+  setGizmo,
+  moveTo,
+}) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const [clearance, setClearance] = useState(100);
+  const meshInputRef = useRef<HTMLInputElement>(null);
+  const cellInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = workcell.objects.find(o => o.id === selectedId);
+  const robot = workcell.robots.find(r => r.id === selectedRobotId) ?? workcell.robots[0];
+  const tcpOf = (r: RobotInstance) => (tools.find(t => t.id === r.toolId) ?? FLANGE_TOOL).tcp;
+  const modelOf = (r: RobotInstance) => findRobotDescription(models, r.modelId);
+
+  // --- Robots ---
+
+  const updateRobot = (patch: Partial<RobotInstance>) => {
+    setWorkcell(prev => ({ ...prev, robots: prev.robots.map(r => (r.id === robot.id ? { ...r, ...patch } : r)) }));
+  };
+
+  const handleAddRobot = () => {
+    const added = createRobotInstance(workcell.robots);
+    setWorkcell(prev => ({ ...prev, robots: [...prev.robots, added] }));
+    setSelectedRobotId(added.id);
+  };
+
+  const handleDeleteRobot = () => {
+    if (workcell.robots.length <= 1) return;
+    const remaining = workcell.robots.filter(r => r.id !== robot.id);
+    setWorkcell(prev => ({ ...prev, robots: prev.robots.filter(r => r.id !== robot.id) }));
+    setSelectedRobotId(remaining[0].id);
+  };
+
+  // Imported descriptions replace an earlier import with the same id; built-in models stay untouched
+  const handleImportModel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { description, error } = importRobotDescription(file.name, await file.text());
+    if (!description) {
+      setMessage(error);
+      return;
+    }
+    if (BUILT_IN_ROBOTS.some(m => m.id === description.id)) {
+      setMessage(`"${description.id}" is a built-in model. Give the description another id.`);
+      return;
+    }
+    setCustomModels(prev => [...prev.filter(m => m.id !== description.id), description]);
+    updateRobot({ modelId: description.id });
+    setMessage(null);
+  };
+
+  const handleExportModel = () => {
+    const model = modelOf(robot);
+    downloadTextFile(`${model.id}.json`, robotDescriptionToJson(model), 'application/json');
+  };
+
+  const updateSelected = (patch: Partial<CellObject>) => {
+    setWorkcell(prev => ({
+      ...prev,
+      objects: prev.objects.map(o => (o.id === selectedId ? { ...o, ...patch } : o)),
+    }));
+  };
+
+  const addObject = (object: CellObject) => {
+    setWorkcell(prev => ({ ...prev, objects: [...prev.objects, object] }));
+    setSelectedId(object.id);
+    setMessage(null);
+  };
+
+  const handleDelete = () => {
+    setWorkcell(prev => ({ ...prev, objects: prev.objects.filter(o => o.id !== selectedId) }));
+    setSelectedId(null);
+  };
+
+  // --- Files ---
+
+  const handleImportMesh = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { mesh, error } = importMesh(file.name, await file.arrayBuffer());
+    if (!mesh) {
+      setMessage(error);
+      return;
+    }
+    addObject(createMeshObject(mesh));
+  };
+
+  const handleLoadCell = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { workcell: loaded, error } = parseWorkcellJson(await file.text());
+    if (!loaded) {
+      setMessage(error);
+      return;
+    }
+    setWorkcell(loaded);
+    setSelectedRobotId(loaded.robots[0].id);
+    setSelectedId(null);
+    setMessage(null);
+  };
+
+  const handleSaveCell = () => {
+    downloadTextFile(`${workcell.name || 'cell'}.json`, workcellToJson(workcell), 'application/json');
+  };
+
+  // --- Targets ---
+
+  // IK solution (within limits) putting the robot's TCP above the object, or null when out of reach
+  const solveTarget = (object: CellObject, r: RobotInstance, seed: JointState) => {
+    const pose = cellObjectTarget(object, r.base, clearance);
+    const solutions = calculateInverseKinematics(pose, { seed, tcp: tcpOf(r), robot: modelOf(r) })
+      .filter(s => s.withinLimits);
+    return selectClosestSolution(solutions, seed);
+  };
+
+  const handleMoveToObject = async () => {
+    if (!selected) return;
+    const solution = solveTarget(selected, robot, joints);
+    if (!solution) {
+      setMessage(`${selected.name} is out of reach for ${robot.name}.`);
+      return;
+    }
+    setMessage(null);
+    const result = await moveTo({ target: solution.joints });
+    if (result.error) setMessage(result.error);
+  };
+
+  const button = 'flex-1 flex items-center justify-center gap-1 py-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300';
+  const sectionLabel = 'text-[10px] text-slate-500 uppercase tracking-wider';
+
+  return (
+    <div className="p-4 space-y-4 text-xs">
+      {/* Cell Files */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={workcell.name}
+          onChange={(e) => setWorkcell(prev => ({ ...prev, name: e.target.value }))}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+        />
+        <div className="flex gap-1">
+          <input ref={cellInputRef} type="file" accept=".json" onChange={handleLoadCell} className="hidden" />
+          <button onClick={() => cellInputRef.current?.click()} className={button} title="Load cell file">
+            <FolderOpen size={12} /> Load
+          </button>
+          <button onClick={handleSaveCell} className={button} title="Save cell file">
+            <Download size={12} /> Save
+          </button>
+        </div>
+        {message && (
+          <div className="flex items-start gap-1.5 text-[10px] text-red-300 bg-red-900/30 border border-red-800/50 rounded px-2 py-1.5">
+            <AlertTriangle size={12} className="shrink-0 mt-px" /> <span>{message}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Robots */}
+      <div className="space-y-1 border-t border-slate-800 pt-3">
+        <div className={sectionLabel}>Robots</div>
+        {workcell.robots.map(r => (
+          <button
+            key={r.id}
+            onClick={() => setSelectedRobotId(r.id)}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded border text-left ${
+              r.id === robot.id
+                ? 'bg-amber-500/10 border-amber-500/60 text-amber-200'
+                : 'bg-slate-800/60 border-slate-700 text-slate-300 hover:bg-slate-800'
+            }`}
+          >
+            <Bot size={12} />
+            <span className="flex-1 truncate">{r.name}</span>
+            <span className="text-[10px] text-slate-500">{modelOf(r).name}</span>
+            <span className="font-mono text-[10px] text-slate-500">
+              {r.base.x.toFixed(0)}, {r.base.y.toFixed(0)}, {r.base.z.toFixed(0)}
+            </span>
+          </button>
+        ))}
+        <div className="flex gap-1 pt-1">
+          <button onClick={handleAddRobot} className={button}>
+            <Plus size={12} /> Robot
+          </button>
+          <button
+            onClick={handleDeleteRobot}
+            disabled={workcell.robots.length <= 1}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-red-900/40 rounded border border-slate-700 text-slate-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Remove robot"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+        <input
+          type="text"
+          value={robot.name}
+          onChange={(e) => updateRobot({ name: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+        />
+        <div className={sectionLabel}>Model</div>
+        <div className="flex gap-1">
+          <select
+            value={modelOf(robot).id}
+            onChange={(e) => updateRobot({ modelId: e.target.value })}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+          >
+            {models.map(m => (
+              <option key={m.id} value={m.id}>{m.name}{m.payload > 0 ? ` (${m.payload} kg)` : ''}</option>
+            ))}
+          </select>
+          <input ref={modelInputRef} type="file" accept=".json,.urdf,.xml" onChange={handleImportModel} className="hidden" />
+          <button
+            onClick={() => modelInputRef.current?.click()}
+            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300"
+            title="Import robot description (JSON / URDF)"
+          >
+            <Upload size={12} />
+          </button>
+          <button
+            onClick={handleExportModel}
+            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-700 text-slate-300"
+            title="Export robot description (JSON)"
+          >
+            <Download size={12} />
+          </button>
+        </div>
+        <div className={sectionLabel}>Base (World, mm / deg)</div>
+        <PoseEditor pose={robot.base} onChange={(base) => updateRobot({ base })} />
+      </div>
+
+      {/* Object List */}
+      <div className="space-y-1 border-t border-slate-800 pt-3">
+        <div className={sectionLabel}>Objects</div>
+        {workcell.objects.length === 0 && (
+          <div className="text-[10px] text-slate-500">Empty cell. Add primitives or import CAD meshes.</div>
+        )}
+        {workcell.objects.map(object => {
+          const Icon = SHAPE_ICONS[object.shape];
+          return (
+            <button
+              key={object.id}
+              onClick={() => setSelectedId(object.id)}
+              className={`w-full flex items-center gap-2 px-2 py-1.5 rounded border text-left ${
+                object.id === selectedId
+                  ? 'bg-amber-500/10 border-amber-500/60 text-amber-200'
+                  : 'bg-slate-800/60 border-slate-700 text-slate-300 hover:bg-slate-800'
+              }`}
+            >
+              <Icon size={12} />
+              <span className="flex-1 truncate">{object.name}</span>
+              {!object.obstacle && <span className="text-[9px] text-slate-500">no collision</span>}
+            </button>
+          );
+        })}
+        <div className="flex gap-1 pt-1">
+          <button onClick={() => addObject(createCellObject('box', workcell.objects.length + 1))} className={button}>
+            <Plus size={12} /> Box
+          </button>
+          <button onClick={() => addObject(createCellObject('cylinder', workcell.objects.length + 1))} className={button}>
+            <Plus size={12} /> Cylinder
+          </button>
+          <input ref={meshInputRef} type="file" accept=".stl,.obj,.gltf,.glb" onChange={handleImportMesh} className="hidden" />
+          <button onClick={() => meshInputRef.current?.click()} className={button} title="Import STL / OBJ / glTF">
+            <Upload size={12} /> Mesh
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={!selected}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-red-900/40 rounded border border-slate-700 text-slate-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Delete object"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+
+      {/* Placement Gizmo */}
+      <div className="space-y-1 border-t border-slate-800 pt-3">
+        <div className={sectionLabel}>Gizmo (Click an object in the view)</div>
+        <div className="flex gap-1">
+          {GIZMO_MODES.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setGizmo(prev => ({ ...prev, mode: m.id }))}
+              className={`flex-1 flex items-center justify-center gap-1 py-1 text-[10px] rounded border transition-colors ${
+                gizmo.mode === m.id
+                  ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              <m.icon size={12} /> {m.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <NumberField
+            label="mm"
+            value={gizmo.translationSnap}
+            onChange={(val) => setGizmo(prev => ({ ...prev, translationSnap: Math.max(0, val) }))}
+          />
+          <NumberField
+            label="deg"
+            value={gizmo.rotationSnap}
+            onChange={(val) => setGizmo(prev => ({ ...prev, rotationSnap: Math.max(0, val) }))}
+          />
+        </div>
+        <div className="text-[9px] text-slate-600">Snap increments (0 = free)</div>
+      </div>
+
+      {/* Object Editor */}
+      {selected && (
+        <div className="space-y-2 border-t border-slate-800 pt-3">
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={selected.name}
+              onChange={(e) => updateSelected({ name: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 px-2 py-1 rounded focus:border-amber-500 focus:outline-none"
+            />
+            <input
+              type="color"
+              value={selected.color}
+              onChange={(e) => updateSelected({ color: e.target.value })}
+              className="w-8 h-7 bg-slate-800 border border-slate-700 rounded cursor-pointer"
+            />
+          </div>
+
+          <div className={sectionLabel}>Pose (World, mm / deg)</div>
+          <PoseEditor pose={selected.pose} onChange={(pose) => updateSelected({ pose })} />
+
+          <div className={sectionLabel}>Size (mm)</div>
+          {selected.shape === 'box' && (
+            <div className="grid grid-cols-3 gap-1">
+              {(Object.keys(selected.size) as Array<keyof Vector3>).map(key => (
+                <NumberField
+                  key={key}
+                  label={key}
+                  value={selected.size[key]}
+                  onChange={(val) => updateSelected({ size: { ...selected.size, [key]: Math.max(1, val) } })}
+                />
+              ))}
+            </div>
+          )}
+          {selected.shape === 'cylinder' && (
+            <div className="grid grid-cols-2 gap-1">
+              <NumberField
+                label="dia"
+                value={selected.size.x}
+                onChange={(val) => updateSelected({ size: { ...selected.size, x: Math.max(1, val), y: Math.max(1, val) } })}
+              />
+              <NumberField
+                label="h"
+                value={selected.size.z}
+                onChange={(val) => updateSelected({ size: { ...selected.size, z: Math.max(1, val) } })}
+              />
+            </div>
+          )}
+          {selected.shape === 'mesh' && selected.mesh && (
+            <div className="space-y-1">
+              <NumberField
+                label="scl"
+                value={selected.mesh.scale}
+                onChange={(val) => {
+                  const mesh = { ...selected.mesh!, scale: Math.max(1e-6, val) };
+                  updateSelected({ mesh, size: meshSize(mesh) });
+                }}
+              />
+              <div className="text-[10px] font-mono text-slate-400">
+                {selected.size.x.toFixed(0)} × {selected.size.y.toFixed(0)} × {selected.size.z.toFixed(0)}
+                <span className="text-slate-600"> · {selected.mesh.fileName}, {selected.mesh.positions.length / 9} tris</span>
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={selected.obstacle}
+              onChange={(e) => updateSelected({ obstacle: e.target.checked })}
+              className="accent-amber-500"
+            />
+            <span>Obstacle (collision checked)</span>
+          </label>
+
+          {/* Use as Target */}
+          <div className="flex gap-1 items-center">
+            <div className="w-24">
+              <NumberField label="gap" value={clearance} onChange={(val) => setClearance(Math.max(0, val))} />
+            </div>
+            <button onClick={handleMoveToObject} className={button} title="Joint move with the active TCP pointing down at the top face">
+              <Crosshair size={12} /> Move TCP Above
+            </button>
+          </div>
+
+          {/* Reach across the cell (IK from each robot's base with its own tool; other robots seeded from home) */}
+          {workcell.robots.length > 1 && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px]">
+              {workcell.robots.map(r => {
+                const reachable = !!solveTarget(selected, r, r.id === robot.id ? joints : INITIAL_JOINTS);
+                return (
+                  <span key={r.id} className={`flex items-center gap-1 ${reachable ? 'text-green-300' : 'text-slate-500'}`}>
+                    {reachable ? <CheckCircle2 size={10} /> : <XCircle size={10} />} {r.name}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
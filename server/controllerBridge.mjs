@@ -0,0 +1,270 @@
+// Virtual controller bridge: local relay between external programs and the simulator tab.
+// JSON-RPC 2.0 over WebSocket, no dependencies (node server/controllerBridge.mjs).
+// - The simulator connects to ws://HOST:PORT/sim and answers commands (getJoints, moveJ, ...)
+// - Scripts connect to ws://HOST:PORT/ and send requests; subscribeState streams "state" notifications
+// - Every connection must pass ?token=<TOKEN> (printed at startup); browsers must also come from an allowed Origin
+// A real controller adapter can take the simulator's place on /sim without changing the scripts.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.BRIDGE_PORT ?? 8765);
+const HOST = process.env.BRIDGE_HOST ?? '127.0.0.1';
+// Moves are answered on completion, so this covers the longest expected motion
+const REQUEST_TIMEOUT_MS = 120_000;
+const SIMULATOR_PATH = '/sim';
+// Shared secret for all connections (random per start unless BRIDGE_TOKEN is set)
+const TOKEN = process.env.BRIDGE_TOKEN || crypto.randomBytes(16).toString('hex');
+// Browser pages allowed to connect (scripts send no Origin header); default: the Vite dev server
+const ALLOWED_ORIGINS = (process.env.BRIDGE_ORIGINS ?? 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map(origin => origin.trim()).filter(Boolean);
+// Largest accepted message (single frame or reassembled fragments); larger ones close with 1009
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+// JSON-RPC error codes (-32000 ~ -32099 are implementation defined)
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const SIMULATOR_OFFLINE = -32001;
+const SIMULATOR_TIMEOUT = -32002;
+
+// --- [1] WebSocket Framing (RFC 6455: text frames, ping / pong, close; no extensions) ---
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;  // FIN + opcode (server frames are never masked)
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Wraps an upgraded socket: onMessage receives each complete text message
+ */
+const createConnection = (socket, { onMessage, onClose }) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(encodeFrame(OPCODE.close, payload));
+    onClose();
+  };
+
+  const send = (text) => {
+    if (!closed) socket.write(encodeFrame(OPCODE.text, Buffer.from(text, 'utf8')));
+  };
+
+  const readFrames = () => {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) return close(1002);  // Client frames must be masked
+      if (length > MAX_MESSAGE_BYTES) return close(1009);
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === OPCODE.close) return close();
+      if (opcode === OPCODE.ping) socket.write(encodeFrame(OPCODE.pong, payload));
+      if (opcode === OPCODE.text || opcode === OPCODE.binary || opcode === OPCODE.continuation) {
+        fragments.push(payload);
+        if (fragments.reduce((sum, part) => sum + part.length, 0) > MAX_MESSAGE_BYTES) return close(1009);
+        if (fin) {
+          const message = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          onMessage(message);
+        }
+      }
+    }
+  };
+
+  socket.on('data', (chunk) => {
+    if (closed) return;
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.on('close', () => {
+    if (!closed) {
+      closed = true;
+      onClose();
+    }
+  });
+  socket.on('error', () => socket.destroy());
+
+  return { send, close };
+};
+
+// --- [2] JSON-RPC Relay ---
+
+let simulator = null;        // Connection of the simulator tab (latest wins)
+const clients = new Set();   // { connection, subscribed }
+const pending = new Map();   // relay id -> { client, id, timer }
+let nextRelayId = 1;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const reply = (client, id, body) => client.connection.send(JSON.stringify({ jsonrpc: '2.0', id, ...body }));
+const replyError = (client, id, code, message) => reply(client, id, { error: { code, message } });
+
+const failPending = (code, message) => {
+  pending.forEach(({ client, id, timer }) => {
+    clearTimeout(timer);
+    replyError(client, id, code, message);
+  });
+  pending.clear();
+};
+
+const handleClientMessage = (client, text) => {
+  let request;
+  try {
+    request = JSON.parse(text);
+  } catch {
+    return replyError(client, null, PARSE_ERROR, 'Message is not valid JSON.');
+  }
+  if (!isObject(request) || typeof request.method !== 'string') {
+    return replyError(client, isObject(request) ? request.id ?? null : null, INVALID_REQUEST, 'Expected a JSON-RPC request with a method.');
+  }
+  const { id, method, params } = request;
+
+  // Handled by the relay itself
+  if (method === 'subscribeState' || method === 'unsubscribeState') {
+    client.subscribed = method === 'subscribeState';
+    return id === undefined ? undefined : reply(client, id, { result: { subscribed: client.subscribed } });
+  }
+
+  if (!simulator) {
+    return id === undefined ? undefined : replyError(client, id, SIMULATOR_OFFLINE, 'Simulator is not connected (open the app and connect the bridge).');
+  }
+  // Notifications are forwarded without waiting for an answer
+  if (id === undefined) return simulator.send(JSON.stringify({ jsonrpc: '2.0', method, params }));
+
+  const relayId = nextRelayId++;
+  const timer = setTimeout(() => {
+    pending.delete(relayId);
+    replyError(client, id, SIMULATOR_TIMEOUT, `Simulator did not answer "${method}" within ${REQUEST_TIMEOUT_MS / 1000} s.`);
+  }, REQUEST_TIMEOUT_MS);
+  pending.set(relayId, { client, id, timer });
+  simulator.send(JSON.stringify({ jsonrpc: '2.0', id: relayId, method, params }));
+};
+
+const handleSimulatorMessage = (text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (!isObject(message)) return;
+  // State stream
+  if (message.method === 'state') {
+    const notification = JSON.stringify({ jsonrpc: '2.0', method: 'state', params: message.params });
+    clients.forEach(client => client.subscribed && client.connection.send(notification));
+    return;
+  }
+  // Answer to a relayed request
+  const entry = pending.get(message.id);
+  if (!entry) return;
+  clearTimeout(entry.timer);
+  pending.delete(message.id);
+  reply(entry.client, entry.id, 'error' in message ? { error: message.error } : { result: message.result });
+};
+
+// --- [3] HTTP Server (Upgrade to WebSocket, plain GET = status) ---
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ simulator: simulator !== null, clients: clients.size }));
+});
+
+const tokenMatches = (token) => {
+  const given = Buffer.from(token ?? '', 'utf8');
+  const expected = Buffer.from(TOKEN, 'utf8');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const origin = req.headers.origin;
+  if (origin !== undefined && !ALLOWED_ORIGINS.includes(origin)) {
+    console.log(`Rejected connection from origin ${origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  if (!tokenMatches(url.searchParams.get('token'))) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    return;
+  }
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${crypto.createHash('sha1').update(key + WS_GUID).digest('base64')}`,
+    '', '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  if (url.pathname === SIMULATOR_PATH) {
+    const previous = simulator;
+    const connection = createConnection(socket, {
+      onMessage: handleSimulatorMessage,
+      onClose: () => {
+        if (simulator !== connection) return;
+        simulator = null;
+        failPending(SIMULATOR_OFFLINE, 'Simulator disconnected.');
+        console.log('Simulator disconnected');
+      },
+    });
+    simulator = connection;
+    previous?.close(1001);
+    console.log('Simulator connected');
+    return;
+  }
+
+  const client = { connection: null, subscribed: false };
+  client.connection = createConnection(socket, {
+    onMessage: (text) => handleClientMessage(client, text),
+    onClose: () => clients.delete(client),
+  });
+  clients.add(client);
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`H220 controller bridge on ws://${HOST}:${PORT}/?token=${TOKEN}`);
+  console.log(`Simulator URL: ws://${HOST}:${PORT}${SIMULATOR_PATH}  token: ${TOKEN}`);
+  console.log(`Allowed browser origins: ${ALLOWED_ORIGINS.join(', ') || '(none)'}`);
+});
@@ -0,0 +1,87 @@
+import { BridgeResponse } from "../utils/bridgeCommands";
+
+// Simulator side of the controller bridge: connects to the local relay (npm run bridge) as /sim,
+// answers the relayed JSON-RPC requests and pushes state notifications.
+// The relay prints a token at startup; it is passed as ?token= and only kept in memory by the app.
+
+export const DEFAULT_BRIDGE_URL = 'ws://127.0.0.1:8765/sim';
+const RECONNECT_MS = 2000;
+// State notifications are sampled at this period (and skipped when nothing changed)
+export const BRIDGE_STATE_INTERVAL_MS = 50;
+// Requests kept in the panel log
+export const BRIDGE_LOG_LIMIT = 50;
+
+export type BridgeStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface BridgeHandlers {
+  onRequest: (method: string, params: unknown) => Promise<BridgeResponse>;
+  onStatus: (status: BridgeStatus, detail?: string) => void;
+}
+
+export interface BridgeConnection {
+  notify: (method: string, params: unknown) => void;
+  close: () => void;
+}
+
+const withToken = (url: string, token: string) => {
+  const parsed = new URL(url);
+  parsed.searchParams.set('token', token);
+  return parsed.toString();
+};
+
+/**
+ * Opens the connection and keeps it open (retries every RECONNECT_MS until closed)
+ */
+export const connectControllerBridge = (url: string, token: string, handlers: BridgeHandlers): BridgeConnection => {
+  let socket: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const open = () => {
+    handlers.onStatus('connecting');
+    try {
+      socket = new WebSocket(withToken(url, token));
+    } catch (error) {
+      handlers.onStatus('disconnected', error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const current = socket;
+
+    current.onopen = () => handlers.onStatus('connected');
+    current.onclose = () => {
+      if (socket !== current) return;
+      socket = null;
+      if (closed) return;
+      handlers.onStatus('connecting', `Relay not reachable at ${url} (or token rejected), retrying…`);
+      retry = setTimeout(open, RECONNECT_MS);
+    };
+    current.onmessage = async (event) => {
+      let message: { id?: number | string; method?: string; params?: unknown };
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (typeof message !== 'object' || message === null || typeof message.method !== 'string') return;
+      const { result, error } = await handlers.onRequest(message.method, message.params);
+      // Notifications (no id) get no answer
+      if (message.id === undefined || current.readyState !== WebSocket.OPEN) return;
+      current.send(JSON.stringify(error ? { jsonrpc: '2.0', id: message.id, error } : { jsonrpc: '2.0', id: message.id, result }));
+    };
+  };
+
+  open();
+
+  return {
+    notify: (method, params) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ jsonrpc: '2.0', method, params }));
+    },
+    close: () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      socket?.close();
+      socket = null;
+      handlers.onStatus('disconnected');
+    },
+  };
+};
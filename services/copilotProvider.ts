@@ -0,0 +1,148 @@
+
+import { ChatMessage, RobotDescription, ToolDefinition } from "../types";
+import { CopilotFunctionName, CopilotSession } from "../utils/copilot";
+
+// The copilot talks to a language model through one small interface so the simulator runs with
+// Gemini, a local OpenAI-compatible server (llama.cpp, vLLM, Ollama) or fully offline with the mock.
+
+export type CopilotProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface CopilotProviderSettings {
+  kind: CopilotProviderKind;
+  model: string;
+  baseUrl: string;   // OpenAI-compatible endpoint (e.g. http://localhost:8080/v1)
+  apiKey: string;    // Typed in at runtime and kept in memory only (local servers usually need none)
+}
+
+export interface CopilotRequest {
+  history: ChatMessage[];   // Earlier chat (context)
+  prompt: string;
+  session: CopilotSession;  // Answers the function calls (queries + planned actions)
+  robot: RobotDescription;
+  tools: ToolDefinition[];
+}
+
+export interface CopilotProvider {
+  kind: CopilotProviderKind;
+  label: string;
+  // Runs one request as a function-calling loop and returns the final reply text
+  runRequest: (request: CopilotRequest) => Promise<string>;
+}
+
+// --- Shared Prompt and Function Surface ---
+
+// Upper bound of model <-> tool round trips for one user request
+export const MAX_TOOL_ROUNDS = 12;
+
+export interface CopilotFunctionSpec {
+  name: CopilotFunctionName;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema (object)
+}
+
+const numberProp = (description: string) => ({ type: 'number', description });
+
+const POSE_PROPERTIES = {
+  x: numberProp('TCP X in the robot base frame (mm)'),
+  y: numberProp('TCP Y in the robot base frame (mm)'),
+  z: numberProp('TCP Z in the robot base frame (mm)'),
+  rx: numberProp('TCP RX (deg, controller convention R = Rz * Ry * Rx). Omit to keep the current orientation'),
+  ry: numberProp('TCP RY (deg). Omit to keep the current orientation'),
+  rz: numberProp('TCP RZ (deg). Omit to keep the current orientation'),
+  relative: { type: 'boolean', description: 'Treat the given values as offsets from the current planned TCP pose' },
+};
+
+export const COPILOT_FUNCTIONS: CopilotFunctionSpec[] = [
+  {
+    name: 'getPose',
+    description: 'Returns the joints, TCP pose and active tool the robot will have after the steps planned so far.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'checkReach',
+    description: 'Checks whether a TCP pose can be reached within the joint limits. Does not plan a move.',
+    parameters: { type: 'object', properties: POSE_PROPERTIES },
+  },
+  {
+    name: 'moveJoint',
+    description: 'Plans a joint move (MOVE P). Omitted axes keep their planned value. Rejected when it violates limits or collides.',
+    parameters: {
+      type: 'object',
+      properties: {
+        j1: numberProp('S axis (deg)'),
+        j2: numberProp('H axis (deg)'),
+        j3: numberProp('V axis (deg)'),
+        j4: numberProp('R2 axis (deg)'),
+        j5: numberProp('B axis (deg)'),
+        j6: numberProp('R1 axis (deg)'),
+        speed: numberProp('Speed in % of the axis speed limits (default 50)'),
+      },
+    },
+  },
+  {
+    name: 'moveLinear',
+    description: 'Plans a straight-line TCP move (MOVE L). Rejected when unreachable, singular along the path or colliding.',
+    parameters: {
+      type: 'object',
+      properties: { ...POSE_PROPERTIES, speed: numberProp('TCP speed in mm/s (default 500)') },
+    },
+  },
+  {
+    name: 'setTool',
+    description: 'Switches the active tool for the following steps.',
+    parameters: {
+      type: 'object',
+      properties: { name: { type: 'string', description: 'Tool name from the tool library' } },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'addProgramStep',
+    description: 'Teaches the planned pose as a new step at the end of the job program.',
+    parameters: {
+      type: 'object',
+      properties: {
+        moveType: { type: 'string', enum: ['joint', 'linear'], description: 'Interpolation of the taught step' },
+        speed: numberProp('% for joint steps, mm/s for linear steps'),
+      },
+    },
+  },
+];
+
+export const copilotSystemInstruction = (robot: RobotDescription, tools: ToolDefinition[]) => `
+    You are an expert roboticist controlling a Hyundai Robotics ${robot.name} 6-axis industrial robot arm.
+    This is a heavy-duty robot (${robot.payload}kg payload) typically used for spot welding, heavy handling, and assembly.
+    Lower arm ${robot.kinematics.a2} mm, upper arm ${robot.kinematics.a3} mm, H axis ${robot.kinematics.d1} mm above the base.
+
+    The user may refer to axes using standard indices (J1-J6) or specific Hyundai/Industrial aliases:
+    - J1: "S" (Swivel)
+    - J2: "H" (Horizontal / Lower Arm)
+    - J3: "V" (Vertical / Upper Arm)
+    - J4: "R2" (Forearm Roll)
+    - J5: "B" (Bend / Wrist Pitch)
+    - J6: "R1" (Wrist Twist/Roll)
+
+    ${robot.name} Joint Limits (Degrees):
+    ${JSON.stringify(robot.limits)}
+
+    Tool Library: ${tools.map(t => t.name).join(', ')}
+
+    Task:
+    Plan the user's request with the provided functions. Motion functions do not move the robot;
+    they append steps to a plan that the user reviews and confirms.
+
+    Rules:
+    1. Call getPose first; never guess the current pose.
+    2. Use checkReach before moving to a Cartesian target you are unsure about.
+    3. For pick and place, approach and retract along the tool axis (e.g. 100 mm above the part) with moveLinear,
+       and travel between stations with moveJoint.
+    4. If a function returns an error, adjust the plan (other speed, intermediate point, other pose) or explain why it is impossible.
+    5. "Home" or "Ready" usually implies J2(H) at a slight angle and J3(V) bowing forward.
+    6. Finish with a short plain-text summary of the planned steps. Do not ask for confirmation; the UI does that.
+  `;
+
+// Chat history as model context (the greeting and error notices are UI-only)
+export const conversationHistory = (history: ChatMessage[]) =>
+  history
+    .filter(m => m.role !== 'system' && !m.isError)
+    .map(m => ({ role: m.role as 'user' | 'assistant', text: m.content }));
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FLANGE_TOOL, INITIAL_JOINTS, ToolDefinition } from '../types';
+import { createCopilotSession } from '../utils/copilot';
+import { HS220S } from '../utils/robotDescription';
+import { CopilotRequest } from './copilotProvider';
+import { createCopilotProvider, DEFAULT_PROVIDER_SETTINGS } from './copilotService';
+
+const GRIPPER: ToolDefinition = { ...FLANGE_TOOL, id: 'gripper', name: 'Gripper', tcp: { ...FLANGE_TOOL.tcp, z: 250 } };
+const TOOLS = [FLANGE_TOOL, GRIPPER];
+
+const request = (prompt: string): CopilotRequest => ({
+  history: [],
+  prompt,
+  session: createCopilotSession({ joints: INITIAL_JOINTS, robot: HS220S, tools: TOOLS, toolId: FLANGE_TOOL.id }),
+  robot: HS220S,
+  tools: TOOLS,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('provider settings', () => {
+  it('start without an API key', () => {
+    expect(DEFAULT_PROVIDER_SETTINGS.apiKey).toBe('');
+  });
+});
+
+describe('mock provider', () => {
+  const mock = createCopilotProvider({ ...DEFAULT_PROVIDER_SETTINGS, kind: 'mock' });
+
+  it('plans chained joint moves, a tool change and a taught step', async () => {
+    const req = request('S 45 then tool Gripper then teach');
+    const reply = await mock.runRequest(req);
+    expect(reply).not.toMatch(/Rejected|did not understand/);
+    expect(req.session.actions().map(a => a.kind)).toEqual(['move', 'setTool', 'addProgramStep']);
+    const move = req.session.actions()[0];
+    expect(move.kind === 'move' && move.target.j1).toBe(45);
+  });
+
+  it.each(['use tool Gripper', 'set the tool to gripper', 'select tool Gripper'])('understands "%s"', async (prompt) => {
+    const req = request(prompt);
+    await mock.runRequest(req);
+    expect(req.session.actions()).toEqual([{ kind: 'setTool', toolId: 'gripper', toolName: 'Gripper' }]);
+  });
+
+  it('answers a question about the tool instead of changing it', async () => {
+    const req = request('where is the tool now');
+    const reply = await mock.runRequest(req);
+    expect(reply).toMatch(/^TCP \(Flange/);
+    expect(req.session.actions()).toEqual([]);
+  });
+
+  it('reports rejected moves and unknown requests', async () => {
+    const req = request('H 400; make coffee');
+    const [rejected, unknown] = (await mock.runRequest(req)).split('\n');
+    expect(rejected).toMatch(/^Rejected: .*j2/);
+    expect(unknown).toMatch(/did not understand "make coffee"/);
+    expect(req.session.actions()).toEqual([]);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  const completion = (message: unknown) => new Response(JSON.stringify({ choices: [{ message }] }), { status: 200 });
+  const toolCall = (id: string, name: string, args: string) => ({ id, type: 'function', function: { name, arguments: args } });
+
+  it('answers tool calls from the session until the model replies with text', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(completion({
+        content: null,
+        tool_calls: [toolCall('1', 'getPose', '{}'), toolCall('2', 'moveJoint', '{"j1":30}'), toolCall('3', 'moveJoint', '{oops')],
+      }))
+      .mockResolvedValueOnce(completion({ content: 'Planned S 30.' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createCopilotProvider({ kind: 'openai', model: 'test', baseUrl: 'http://llm.test/v1/', apiKey: 'secret' });
+    const req = request('turn S to 30');
+    expect(await provider.runRequest(req)).toBe('Planned S 30.');
+    expect(req.session.actions()).toHaveLength(1);
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('http://llm.test/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    const toolMessages = JSON.parse(init.body).messages.filter((m: { role: string }) => m.role === 'tool');
+    expect(toolMessages.map((m: { content: string }) => Object.keys(JSON.parse(m.content))[0])).toEqual(['output', 'output', 'error']);
+  });
+
+  it('fails on an HTTP error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('down', { status: 503, statusText: 'Service Unavailable' })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = createCopilotProvider({ kind: 'openai', model: 'test', baseUrl: 'http://llm.test/v1', apiKey: '' });
+    await expect(provider.runRequest(request('S 10'))).rejects.toThrow(/503/);
+  });
+});
+
+describe('Gemini provider', () => {
+  it('needs a key typed into the settings', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = createCopilotProvider({ ...DEFAULT_PROVIDER_SETTINGS, kind: 'gemini', apiKey: '' });
+    await expect(provider.runRequest(request('S 10'))).rejects.toThrow(/API Key is missing/);
+  });
+});
@@ -0,0 +1,37 @@
+
+import { CopilotProvider, CopilotProviderKind, CopilotProviderSettings } from "./copilotProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleService";
+import { createMockProvider } from "./mockCopilotService";
+
+export const PROVIDER_LABELS: Record<CopilotProviderKind, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline mock',
+};
+
+export const DEFAULT_MODELS: Record<CopilotProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'local-model',
+  mock: 'rules',
+};
+
+// Build-time defaults (.env.local: LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL). API keys are never built in;
+// they are typed into the settings at runtime. Without any configuration the copilot starts on the offline mock
+const envKind = process.env.LLM_PROVIDER as CopilotProviderKind | undefined;
+const defaultKind: CopilotProviderKind = envKind && envKind in PROVIDER_LABELS ? envKind : 'mock';
+
+export const DEFAULT_PROVIDER_SETTINGS: CopilotProviderSettings = {
+  kind: defaultKind,
+  model: process.env.LLM_MODEL || DEFAULT_MODELS[defaultKind],
+  baseUrl: process.env.LLM_BASE_URL || 'http://localhost:8080/v1',
+  apiKey: '',
+};
+
+export const createCopilotProvider = (settings: CopilotProviderSettings): CopilotProvider => {
+  switch (settings.kind) {
+    case 'gemini': return createGeminiProvider(settings);
+    case 'openai': return createOpenAiCompatibleProvider(settings);
+    case 'mock': return createMockProvider();
+  }
+};
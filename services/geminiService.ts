@@ -1,82 +1,70 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { JointState, JOINT_LIMITS } from "../types";
+import { GoogleGenAI, Content } from "@google/genai";
+import {
+  CopilotProvider,
+  CopilotProviderSettings,
+  COPILOT_FUNCTIONS,
+  MAX_TOOL_ROUNDS,
+  copilotSystemInstruction,
+  conversationHistory,
+} from "./copilotProvider";
 
-const apiKey = process.env.API_KEY || '';
+/**
+ * Gemini backend (@google/genai function calling)
+ * - Every function call is answered by the planning session (queries + queued actions)
+ * - Returns the model's final text; the planned actions stay in the session
+ */
+export const createGeminiProvider = (settings: CopilotProviderSettings): CopilotProvider => {
+  const ai = settings.apiKey ? new GoogleGenAI({ apiKey: settings.apiKey }) : null;
 
-// Initialize the client globally (if key exists)
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  return {
+    kind: 'gemini',
+    label: `Gemini · ${settings.model}`,
+    runRequest: async ({ history, prompt, session, robot, tools }) => {
+      if (!ai) {
+        console.error("Gemini API Key is missing");
+        throw new Error("API Key is missing. Enter it in the copilot settings (gear icon).");
+      }
 
-export const generateRobotPose = async (
-  currentJoints: JointState,
-  prompt: string
-): Promise<JointState | null> => {
-  if (!ai) {
-    console.error("Gemini API Key is missing");
-    throw new Error("API Key is missing. Please check your configuration.");
-  }
+      const contents: Content[] = [
+        ...conversationHistory(history).map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] })),
+        { role: 'user', parts: [{ text: prompt }] },
+      ];
 
-  const systemInstruction = `
-    You are an expert roboticist controlling a Hyundai Robotics H220 6-axis industrial robot arm.
-    This is a heavy-duty robot (220kg payload) typically used for spot welding, heavy handling, and assembly.
-    
-    The user may refer to axes using standard indices (J1-J6) or specific H220/Industrial aliases:
-    - J1: "S" (Swivel)
-    - J2: "H" (Horizontal / Lower Arm)
-    - J3: "V" (Vertical / Upper Arm)
-    - J4: "R2" (Forearm Roll)
-    - J5: "B" (Bend / Wrist Pitch)
-    - J6: "R1" (Wrist Twist/Roll)
+      try {
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const response = await ai.models.generateContent({
+            model: settings.model,
+            contents,
+            config: {
+              systemInstruction: copilotSystemInstruction(robot, tools),
+              tools: [{
+                functionDeclarations: COPILOT_FUNCTIONS.map(f => ({
+                  name: f.name,
+                  description: f.description,
+                  parametersJsonSchema: f.parameters,
+                })),
+              }],
+            },
+          });
 
-    Current Joint State (Degrees):
-    ${JSON.stringify(currentJoints)}
+          const calls = response.functionCalls ?? [];
+          if (calls.length === 0) return response.text ?? '';
 
-    H220 Joint Limits (Degrees):
-    ${JSON.stringify(JOINT_LIMITS)}
+          contents.push(response.candidates?.[0]?.content ?? { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+          contents.push({
+            role: 'user',
+            parts: calls.map(call => ({
+              functionResponse: { id: call.id, name: call.name, response: session.execute(call.name ?? '', call.args ?? {}) },
+            })),
+          });
+        }
+        return 'Planning stopped after too many steps. Try splitting the task.';
 
-    Task:
-    Return a valid JSON object containing the target joint angles (j1, j2, j3, j4, j5, j6) based on the user's natural language request.
-    
-    Rules:
-    1. STRICTLY respect the joint limits.
-    2. Provide realistic poses. For example:
-       - "Home" or "Ready" usually implies J2(H) at a slight angle and J3(V) bowing forward.
-       - "Welding" implies the tool tip (J6/R1) is oriented towards a workpiece.
-    3. If the user says "Move S axis" or "Rotate H", map them to the corresponding joints J1, J2, etc.
-    4. Do NOT explain. ONLY return the JSON.
-    5. If the request is dangerous or impossible, stay as close to current or safe state as possible.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            j1: { type: Type.NUMBER },
-            j2: { type: Type.NUMBER },
-            j3: { type: Type.NUMBER },
-            j4: { type: Type.NUMBER },
-            j5: { type: Type.NUMBER },
-            j6: { type: Type.NUMBER },
-          },
-          required: ["j1", "j2", "j3", "j4", "j5", "j6"],
-        },
-      },
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) return null;
-
-    const targetJoints = JSON.parse(jsonText) as JointState;
-    return targetJoints;
-
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
+      } catch (error) {
+        console.error("Gemini API Error:", error);
+        throw error;
+      }
+    },
+  };
 };
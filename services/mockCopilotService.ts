@@ -0,0 +1,111 @@
+
+import { INITIAL_JOINTS, JointState } from "../types";
+import { CopilotSession, CopilotFunctionResult } from "../utils/copilot";
+import { CopilotProvider } from "./copilotProvider";
+
+// Deterministic rule-based backend: no network, same answer for the same request and robot state.
+// Understands the pendant vocabulary only; anything else is reported back instead of guessed.
+
+const AXIS_ALIASES: Record<string, keyof JointState> = {
+  s: 'j1', h: 'j2', v: 'j3', r2: 'j4', b: 'j5', r1: 'j6',
+  j1: 'j1', j2: 'j2', j3: 'j3', j4: 'j4', j5: 'j5', j6: 'j6',
+};
+
+// "S 45", "rotate S to 45", "B=-90", "J2 by 10" (by = relative)
+const AXIS_PATTERN = /\b(j[1-6]|r1|r2|s|h|v|b)\b\s*(?:(to|by|=|:)\s*)?([+-]?\d+(?:\.\d+)?)/gi;
+
+// "up 100", "move left 50 mm" (base frame, mm)
+const CARTESIAN_PATTERN = /\b(up|down|forward|backward|back|left|right)\s+(\d+(?:\.\d+)?)/gi;
+const CARTESIAN_DIRECTIONS: Record<string, [string, number]> = {
+  up: ['z', 1], down: ['z', -1],
+  forward: ['x', 1], back: ['x', -1], backward: ['x', -1],
+  left: ['y', 1], right: ['y', -1],
+};
+
+const SPEED_PATTERN = /\b(\d+(?:\.\d+)?)\s*(%|mm\/s)/i;
+
+// "tool Gripper", "use tool Gripper", "set the tool to Gripper" (a command only at the clause start,
+// so questions such as "where is the tool now" stay queries)
+const TOOL_PATTERN = /^\s*(?:(?:use|set|select|change|switch)\s+(?:the\s+)?)?tool\s+(?:to\s+)?(.+)$/i;
+
+const summarize = (result: CopilotFunctionResult, planned: string): string => {
+  if (result.error) return `Rejected: ${result.error}`;
+  return planned;
+};
+
+const formatJoints = (joints: Record<string, number>) =>
+  `S ${joints.j1} H ${joints.j2} V ${joints.j3} R2 ${joints.j4} B ${joints.j5} R1 ${joints.j6}`;
+
+// One clause ("then" / ";" / line separated) -> function calls on the session -> reply line
+const runClause = (clause: string, session: CopilotSession): string => {
+  const text = clause.toLowerCase();
+  const speedMatch = clause.match(SPEED_PATTERN);
+  const speed = speedMatch ? parseFloat(speedMatch[1]) : undefined;
+
+  // 1. Named poses
+  if (/\b(home|ready)\b/.test(text)) {
+    return summarize(session.execute('moveJoint', { ...INITIAL_JOINTS, speed }), `Planned joint move to home (${formatJoints({ ...INITIAL_JOINTS })}).`);
+  }
+
+  // 2. Tool change
+  const toolMatch = clause.match(TOOL_PATTERN);
+  if (toolMatch) {
+    const result = session.execute('setTool', { name: toolMatch[1].trim() });
+    return summarize(result, `Planned tool change to ${(result.output as { tool: string })?.tool}.`);
+  }
+
+  // 3. Teach the planned pose
+  if (/\b(teach|record|add (a )?(program )?step)\b/.test(text)) {
+    const moveType = /\blinear\b/.test(text) ? 'linear' : 'joint';
+    const result = session.execute('addProgramStep', { moveType, speed });
+    return summarize(result, `Planned program step: ${(result.output as { line: string })?.line}.`);
+  }
+
+  // 4. Cartesian jog in the base frame
+  const cartesian = [...clause.matchAll(CARTESIAN_PATTERN)];
+  if (cartesian.length > 0) {
+    const args: Record<string, unknown> = { relative: true, speed };
+    cartesian.forEach(([, direction, distance]) => {
+      const [axis, sign] = CARTESIAN_DIRECTIONS[direction.toLowerCase()];
+      args[axis] = ((args[axis] as number) ?? 0) + sign * parseFloat(distance);
+    });
+    const moved = cartesian.map(([, direction, distance]) => `${direction.toLowerCase()} ${distance} mm`).join(', ');
+    return summarize(session.execute('moveLinear', args), `Planned linear move ${moved}.`);
+  }
+
+  // 5. Axis targets (absolute, or relative with "by")
+  const axes = [...clause.matchAll(AXIS_PATTERN)];
+  if (axes.length > 0) {
+    const current = (session.execute('getPose', {}).output as { joints: JointState }).joints;
+    const args: Record<string, unknown> = { speed };
+    axes.forEach(([, alias, keyword, value]) => {
+      const axis = AXIS_ALIASES[alias.toLowerCase()];
+      args[axis] = keyword?.toLowerCase() === 'by' ? current[axis] + parseFloat(value) : parseFloat(value);
+    });
+    const moved = axes.map(([, alias]) => `${alias.toUpperCase()} ${args[AXIS_ALIASES[alias.toLowerCase()]]}`).join(', ');
+    return summarize(session.execute('moveJoint', args), `Planned joint move: ${moved}.`);
+  }
+
+  // 6. Queries
+  if (/\b(where|pose|position)\b/.test(text)) {
+    const { joints, tcp, tool } = session.execute('getPose', {}).output as {
+      joints: Record<string, number>;
+      tcp: Record<string, number>;
+      tool: string;
+    };
+    return `TCP (${tool}): X ${tcp.x} Y ${tcp.y} Z ${tcp.z} RX ${tcp.rx} RY ${tcp.ry} RZ ${tcp.rz} · ${formatJoints(joints)}`;
+  }
+
+  return `I did not understand "${clause.trim()}". Try "S 45", "rotate B to -90", "up 100", "tool Gripper", "teach" or "home".`;
+};
+
+export const createMockProvider = (): CopilotProvider => ({
+  kind: 'mock',
+  label: 'Offline mock (rules)',
+  runRequest: async ({ prompt, session }) =>
+    prompt
+      .split(/\s*(?:;|\n|\bthen\b)\s*/i)
+      .filter(clause => clause.trim())
+      .map(clause => runClause(clause, session))
+      .join('\n'),
+});
@@ -0,0 +1,85 @@
+
+import {
+  CopilotProvider,
+  CopilotProviderSettings,
+  COPILOT_FUNCTIONS,
+  MAX_TOOL_ROUNDS,
+  copilotSystemInstruction,
+  conversationHistory,
+} from "./copilotProvider";
+
+// Chat Completions wire format (subset used here)
+interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ChatCompletionMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const parseArguments = (text: string): Record<string, unknown> | null => {
+  try {
+    const args = JSON.parse(text || '{}');
+    return args && typeof args === 'object' ? args : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * OpenAI-compatible backend (POST {baseUrl}/chat/completions with tools)
+ * - Works with local servers on air-gapped networks: llama.cpp server, vLLM, Ollama, LM Studio
+ * - The model must support tool calls (e.g. llama.cpp with --jinja and a tool-capable chat template)
+ */
+export const createOpenAiCompatibleProvider = (settings: CopilotProviderSettings): CopilotProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    kind: 'openai',
+    label: `${settings.model} · ${settings.baseUrl}`,
+    runRequest: async ({ history, prompt, session, robot, tools }) => {
+      const messages: ChatCompletionMessage[] = [
+        { role: 'system', content: copilotSystemInstruction(robot, tools) },
+        ...conversationHistory(history).map(m => ({ role: m.role, content: m.text })),
+        { role: 'user', content: prompt },
+      ];
+
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            messages,
+            tools: COPILOT_FUNCTIONS.map(f => ({ type: 'function', function: f })),
+            tool_choice: 'auto',
+            temperature: 0,
+          }),
+        });
+        if (!response.ok) {
+          console.error("LLM endpoint error:", response.status, await response.text());
+          throw new Error(`LLM endpoint returned ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const message = data?.choices?.[0]?.message;
+        const calls: ToolCall[] = message?.tool_calls ?? [];
+        if (calls.length === 0) return message?.content ?? '';
+
+        messages.push({ role: 'assistant', content: message.content ?? null, tool_calls: calls });
+        calls.forEach(call => {
+          const args = parseArguments(call.function.arguments);
+          const result = args ? session.execute(call.function.name, args) : { error: 'Arguments are not valid JSON.' };
+          messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+        });
+      }
+      return 'Planning stopped after too many steps. Try splitting the task.';
+    },
+  };
+};
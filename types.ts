@@ -17,6 +17,42 @@ export interface Pose {
   rz: number;
 }
 
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// End-effector definition (TCP offset is expressed in the flange frame, mm / deg)
+export interface ToolDefinition {
+  id: string;
+  name: string;
+  tcp: Pose;
+  mass: number;    // kg
+  cog: Vector3;    // Center of gravity in the flange frame (mm)
+}
+
+export const FLANGE_TOOL: ToolDefinition = {
+  id: 'flange',
+  name: 'Flange (No Tool)',
+  tcp: { x: 0, y: 0, z: 0, rx: 0, ry: 0, rz: 0 },
+  mass: 0,
+  cog: { x: 0, y: 0, z: 0 },
+};
+
+// User coordinate system (work object frame) relative to the robot base
+export interface UserFrameDefinition {
+  id: string;
+  name: string;
+  frame: Pose;
+}
+
+export const BASE_FRAME: UserFrameDefinition = {
+  id: 'base',
+  name: 'Base',
+  frame: { x: 0, y: 0, z: 0, rx: 0, ry: 0, rz: 0 },
+};
+
 export const INITIAL_JOINTS: JointState = {
   j1: 0,
   j2: 90,  // "L-Shape" start position
@@ -26,22 +62,246 @@ export const INITIAL_JOINTS: JointState = {
   j6: 0,
 };
 
-// Hyundai Robotics H220S Specifications (Calibrated from Real Controller Data)
-// Data Points:
-// Pose 1: H=90, B=-90 -> X=1562, Z=1718
-// Pose 2: H=155, B=0  -> X=-272, Z=2502
-// Pose 3: H=10, B=0   -> X=1877, Z=-608
-export const JOINT_LIMITS = {
-  j1: { min: -180, max: 180 },  // S (Swivel)
-  j2: { min: 0, max: 160 },     // H (Lower Arm) - Observed max 155 in data
-  j3: { min: -180, max: 90 },   // V (Upper Arm)
-  j4: { min: -360, max: 360 },  // R2 (Roll)
-  j5: { min: -180, max: 180 },  // B (Bend)
-  j6: { min: -360, max: 360 },  // R1 (Twist)
+// TCP limits for linear / circular interpolation
+export const TCP_MAX_SPEED = 2000;       // mm/s
+export const TCP_MAX_ACCEL = 5000;       // mm/s^2
+export const TCP_MAX_ROT_SPEED = 180;    // deg/s
+export const TCP_MAX_ROT_ACCEL = 360;    // deg/s^2
+
+// --- Robot Descriptions (One definition per robot model) ---
+
+export type JointLimits = Record<keyof JointState, { min: number; max: number }>;
+
+// Links of the 6-axis arm that can carry a visual mesh
+export type RobotLink = 'base' | 'turret' | 'lowerArm' | 'upperArm' | 'wrist';
+
+// Mass of a moving link, CoG in its joint frame (X along the link):
+// turret = S frame at the floor, lowerArm = H axis, upperArm = V axis, wrist = B axis
+export interface LinkMass {
+  mass: number;  // kg
+  cog: Vector3;  // mm
+}
+
+// Static load model (no balancer, no friction)
+export interface RobotDynamics {
+  links: Record<Exclude<RobotLink, 'base'>, LinkMass>;
+  ratedTorque: JointState;                          // Continuous holding torque per axis (Nm)
+  wristMoment: { j4: number; j5: number; j6: number };  // Allowable load moments of the wrist load diagram (Nm)
+}
+
+/**
+ * Everything that differs between robot models of the 6-axis elbow / spherical wrist family.
+ * Kinematics, the 3D model, collision hulls, limit checks and the copilot prompt all read from it.
+ */
+export interface RobotDescription {
+  id: string;
+  name: string;           // Catalogue name (e.g. "HS220S")
+  payload: number;        // kg
+  kinematics: {
+    d1: number;           // Base height: floor -> H axis (mm)
+    a1: number;           // H axis forward offset from the S axis (mm)
+    a2: number;           // Lower arm: H axis -> V axis (mm)
+    a3: number;           // Upper arm: V axis -> wrist center (mm)
+    d4: number;           // Wrist center -> flange (mm)
+    j2OffsetDeg: number;  // Controller zero vs kinematic zero
+    j3OffsetDeg: number;
+  };
+  limits: JointLimits;    // deg
+  maxSpeed: JointState;   // deg/s
+  maxAccel: JointState;   // deg/s^2
+  dynamics?: RobotDynamics;  // Scaled from the HS220S by payload when missing
+  visual: {
+    wristLength: number;  // R2 housing -> B pivot (mm, drawn only; the end part of a3)
+    flangeFace: number;   // Flange center -> tool mounting face (mm)
+    meshes?: Partial<Record<RobotLink, CellMesh>>; // Replace the primitive link shapes (link frame, Z along the link)
+  };
+}
+
+export interface JointLimitViolation {
+  axis: keyof JointState;
+  value: number;   // Requested angle (deg)
+  bound: number;   // The limit that was crossed (deg)
+  excess: number;  // How far past the limit (deg, always positive)
+}
+
+// Arm configuration (solution branch) of a 6-axis elbow manipulator
+export interface ArmConfiguration {
+  front: boolean;    // Wrist center in front of the S axis (false = back reach)
+  elbowUp: boolean;  // Elbow above the line from the H axis to the wrist center
+  flip: boolean;     // Wrist flipped (B > 0)
+}
+
+export interface IKSolution {
+  joints: JointState;
+  configuration: ArmConfiguration;
+  withinLimits: boolean;
+  violations: JointLimitViolation[];
+}
+
+// Singular configurations of the HS220S (6-axis elbow manipulator with spherical wrist)
+export type SingularityType =
+  | 'wrist'     // B near 0 / 180: R2 and R1 line up
+  | 'shoulder'  // Wrist center on the S axis
+  | 'elbow';    // Upper arm fully stretched or folded against the lower arm
+
+// --- Job Programs (Teach & Playback) ---
+
+export type MoveType = 'joint' | 'linear' | 'circular';  // MOVE P / L / C
+export type SpeedUnit = '%' | 'mm/s';
+
+export interface ProgramStep {
+  kind: 'move';
+  id: string;
+  moveType: MoveType;
+  target: JointState;
+  speed: number;
+  speedUnit: SpeedUnit;  // % of max axis speed (joint) or TCP speed (linear/circular)
+  accuracy: number;      // Positioning accuracy level A0 (fine) ~ A7 (coarse)
+  wait: number;          // Dwell after arrival (s)
+  tool?: number;         // Controller tool number (T=), kept for job file round-trips
+  poseVariable?: string; // Pose variable the target was read from (e.g. "P1")
+}
+
+// Control statements of the controller job language
+export type ControlStatement =
+  | { kind: 'delay'; seconds: number }                 // DELAY 0.5
+  | { kind: 'output'; port: number; value: number }    // DO1=1
+  | { kind: 'waitInput'; port: number; value: number } // WAIT DI1=1
+  | { kind: 'label'; label: string }                   // *LOOP
+  | { kind: 'goto'; label: string }                    // GOTO *LOOP
+  | { kind: 'end' };                                   // END
+
+export type ProgramInstruction = ControlStatement & { id: string };
+
+export type ProgramLine = ProgramStep | ProgramInstruction;
+
+export interface JobProgram {
+  name: string;
+  lines: ProgramLine[];
+}
+
+export const EMPTY_PROGRAM: JobProgram = {
+  name: '0001',
+  lines: [],
+};
+
+// --- Workcell (Fixtures, conveyors, tables, imported CAD) ---
+
+export type CellObjectShape = 'box' | 'cylinder' | 'mesh';
+export type MeshFormat = 'stl' | 'obj' | 'gltf';
+
+export interface CellMesh {
+  fileName: string;
+  format: MeshFormat;
+  positions: number[];               // Triangle list (x, y, z per vertex) in file units
+  bounds: { min: Vector3; max: Vector3 }; // File units
+  scale: number;                     // File units -> mm (glTF is in meters)
+}
+
+export interface CellObject {
+  id: string;
+  name: string;
+  shape: CellObjectShape;
+  pose: Pose;        // Object frame in the world (cell) frame, mm / deg
+  size: Vector3;     // Box: edge lengths, Cylinder: x = diameter, z = height, Mesh: scaled bounding box
+  mesh?: CellMesh;
+  color: string;
+  obstacle: boolean; // Included in collision checking
+}
+
+// One H220 in the cell (joint states are runtime only and not stored here)
+export interface RobotInstance {
+  id: string;
+  name: string;
+  base: Pose;        // Robot base frame in the world frame (mm / deg)
+  modelId: string;   // Robot description (built-in model or imported)
+  toolId: string;    // Active tool from the shared tool library
+  program: JobProgram;
+  payload?: Payload; // Workpiece held by the tool (the tool's own mass comes from the tool library)
+}
+
+export interface Payload {
+  mass: number;  // kg
+  cog: Vector3;  // mm, flange frame
+}
+
+export const DEFAULT_ROBOT: RobotInstance = {
+  id: 'robot-1',
+  name: 'Robot 1',
+  base: { x: 0, y: 0, z: 0, rx: 0, ry: 0, rz: 0 },
+  modelId: 'hs220s',
+  toolId: FLANGE_TOOL.id,
+  program: EMPTY_PROGRAM,
 };
 
+export interface Workcell {
+  name: string;
+  robots: RobotInstance[];
+  objects: CellObject[];
+}
+
+export const EMPTY_WORKCELL: Workcell = {
+  name: 'Cell 1',
+  robots: [DEFAULT_ROBOT],
+  objects: [],
+};
+
+// --- AI Copilot (Tool-calling plans, executed after confirmation) ---
+
+// Validation of a model-generated joint target (schema, limits, jumps, collisions)
+export interface PoseIssue {
+  severity: 'error' | 'warning';  // Errors reject the pose, warnings only flag it
+  message: string;
+  axis?: keyof JointState;
+}
+
+export interface AxisChange {
+  axis: keyof JointState;
+  from: number;  // Current / previous planned value (deg)
+  to: number;    // Validated value (deg, after clamping)
+}
+
+export interface PoseValidation {
+  target: JointState | null;  // null when the pose is rejected
+  changes: AxisChange[];
+  issues: PoseIssue[];
+}
+
+export type CopilotAction =
+  | {
+      kind: 'move';
+      moveType: 'joint' | 'linear';
+      from: JointState;
+      target: JointState;
+      pose: Pose;
+      speed: number;
+      tcp: Pose;
+      validation: PoseValidation;
+    }
+  | { kind: 'setTool'; toolId: string; toolName: string }
+  | { kind: 'addProgramStep'; step: ProgramStep };
+
+export type CopilotPlanStatus = 'pending' | 'running' | 'done' | 'discarded' | 'failed';
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   isError?: boolean;
+  plan?: CopilotAction[];        // Proposed actions (assistant replies only)
+  planStatus?: CopilotPlanStatus;
+}
+
+// --- Position Library (Named joint states, persisted) ---
+
+export interface NamedPosition {
+  id: string;
+  name: string;
+  comment: string;
+  group: string;
+  tags: string[];
+  joints: JointState;
+  pose: Pose;              // TCP pose computed when saved (robot model + tool at that time)
+  toolId: string;          // Tool the pose was computed with
+  expected: Pose | null;   // Controller readout to compare against (calibration check)
+  createdAt: string;       // ISO timestamp
 }
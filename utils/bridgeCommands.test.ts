@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { FLANGE_TOOL, INITIAL_JOINTS, JointState } from '../types';
+import { BRIDGE_ERRORS, BridgeContext, executeBridgeCommand } from './bridgeCommands';
+import { CollisionPair } from './collision';
+import { MoveRequest, MotionResult } from './motion';
+import { HS220S } from './robotDescription';
+
+const GRIPPER = { ...FLANGE_TOOL, id: 'gripper', name: 'Gripper', tcp: { ...FLANGE_TOOL.tcp, z: 200 } };
+
+const COLLISION: CollisionPair = {
+  a: { id: 'tool', name: 'Tool', hull: { kind: 'capsule', a: [0, 0, 0], b: [0, 0, 1], radius: 1 } },
+  b: { id: 'obstacle:table', name: 'Table', hull: { kind: 'capsule', a: [0, 0, 0], b: [0, 0, 1], radius: 1 } },
+};
+
+// Two robots at the initial pose; moves arrive at once and are recorded
+const fakeContext = (options: { collisions?: CollisionPair[]; moveResult?: MotionResult } = {}) => {
+  const moves: Array<{ robotId: string; request: MoveRequest }> = [];
+  const joints: Record<string, JointState> = { r1: INITIAL_JOINTS, r2: INITIAL_JOINTS };
+  const context: BridgeContext = {
+    robots: [
+      { id: 'r1', name: 'Robot 1', description: HS220S, tool: FLANGE_TOOL },
+      { id: 'r2', name: 'Robot 2', description: HS220S, tool: FLANGE_TOOL },
+    ],
+    selectedRobotId: 'r1',
+    tools: [FLANGE_TOOL, GRIPPER],
+    jointsOf: (robotId) => joints[robotId],
+    isMoving: () => false,
+    move: async (robotId, request) => {
+      moves.push({ robotId, request });
+      const result = options.moveResult ?? { completed: true };
+      if (result.completed) joints[robotId] = request.target;
+      return result;
+    },
+    stop: () => {},
+    setTool: () => {},
+    collisionsAt: () => options.collisions ?? [],
+  };
+  return { context, moves };
+};
+
+describe('executeBridgeCommand', () => {
+  it.each(['fly', 'toString', 'constructor', 'hasOwnProperty', '__proto__', ''])('rejects the unknown method "%s"', async (method) => {
+    const { context, moves } = fakeContext();
+    const response = await executeBridgeCommand(context, method, {});
+    expect(response.error?.code).toBe(BRIDGE_ERRORS.methodNotFound);
+    expect(moves).toEqual([]);
+  });
+
+  it.each([[[1, 2]], ['j1'], [42], [true]])('rejects positional or primitive params %j', async (params) => {
+    const { context, moves } = fakeContext();
+    const response = await executeBridgeCommand(context, 'moveJ', params);
+    expect(response.error?.code).toBe(BRIDGE_ERRORS.invalidParams);
+    expect(moves).toEqual([]);
+  });
+
+  it.each([undefined, null])('accepts missing params (%s) for the selected robot', async (params) => {
+    const { context } = fakeContext();
+    const response = await executeBridgeCommand(context, 'getJoints', params);
+    expect(response).toEqual({ result: { robot: 'r1', joints: INITIAL_JOINTS }, error: null });
+  });
+
+  it('finds robots by id or name and rejects unknown ones', async () => {
+    const { context } = fakeContext();
+    expect((await executeBridgeCommand(context, 'getState', { robot: 'robot 2' })).result).toMatchObject({ robot: 'r2' });
+    const response = await executeBridgeCommand(context, 'getState', { robot: 'r9' });
+    expect(response.error).toEqual({ code: BRIDGE_ERRORS.invalidParams, message: expect.stringMatching(/Unknown robot "r9"/) });
+  });
+
+  it('moves the joints and answers with the end pose', async () => {
+    const { context, moves } = fakeContext();
+    const response = await executeBridgeCommand(context, 'moveJ', { j1: 30, speed: 20 });
+    expect(response.error).toBeNull();
+    expect(response.result).toMatchObject({ completed: true, robot: 'r1', joints: { ...INITIAL_JOINTS, j1: 30 } });
+    expect(moves).toEqual([{ robotId: 'r1', request: { moveType: 'joint', target: { ...INITIAL_JOINTS, j1: 30 }, speed: 20 } }]);
+  });
+
+  it.each([{ j2: 400 }, { j3: 'up' }, { joints: { j1: -1000 } }])('rejects the joint target %j', async (params) => {
+    const { context, moves } = fakeContext();
+    const response = await executeBridgeCommand(context, 'moveJ', params);
+    expect(response.error?.code).toBe(BRIDGE_ERRORS.invalidParams);
+    expect(moves).toEqual([]);
+  });
+
+  it('rejects a joint target in collision', async () => {
+    const { context, moves } = fakeContext({ collisions: [COLLISION] });
+    const response = await executeBridgeCommand(context, 'moveJ', { j1: 30 });
+    expect(response.error?.message).toMatch(/Collision: Tool ↔ Table/);
+    expect(moves).toEqual([]);
+  });
+
+  it('moves the TCP along a line to a relative target', async () => {
+    const { context, moves } = fakeContext();
+    const response = await executeBridgeCommand(context, 'moveL', { z: -100, relative: true });
+    expect(response.error).toBeNull();
+    expect(moves).toHaveLength(1);
+    expect(moves[0].request.moveType).toBe('linear');
+  });
+
+  it('rejects a linear target in collision or out of reach', async () => {
+    const blocked = fakeContext({ collisions: [COLLISION] });
+    const collision = await executeBridgeCommand(blocked.context, 'moveL', { z: -100, relative: true });
+    expect(collision.error).toEqual({ code: BRIDGE_ERRORS.rejected, message: expect.stringMatching(/Collision: Tool ↔ Table/) });
+    expect(blocked.moves).toEqual([]);
+
+    const free = fakeContext();
+    const reach = await executeBridgeCommand(free.context, 'moveL', { x: 10000 });
+    expect(reach.error).toEqual({ code: BRIDGE_ERRORS.rejected, message: 'Target pose is out of reach.' });
+    expect(free.moves).toEqual([]);
+  });
+
+  it('reports moves that were stopped or could not be planned', async () => {
+    const { context } = fakeContext({ moveResult: { completed: false, error: 'Path crosses a singularity.' } });
+    expect((await executeBridgeCommand(context, 'moveJ', { j1: 30 })).error?.message).toBe('Path crosses a singularity.');
+    expect((await executeBridgeCommand(context, 'moveJ', { j1: 30, wait: false })).error?.message).toBe('Path crosses a singularity.');
+  });
+
+  it('selects tools by id or name and rejects unknown ones', async () => {
+    const { context } = fakeContext();
+    expect((await executeBridgeCommand(context, 'setTool', { tool: 'GRIPPER' })).result).toMatchObject({ tool: 'Gripper' });
+    expect((await executeBridgeCommand(context, 'setTool', { tool: 'welder' })).error?.code).toBe(BRIDGE_ERRORS.invalidParams);
+  });
+});
@@ -0,0 +1,230 @@
+import { JointState, Pose, RobotDescription, ToolDefinition } from "../types";
+import { calculateForwardKinematics, calculateInverseKinematics, selectClosestSolution } from "./kinematics";
+import { MoveRequest, MotionResult } from "./motion";
+import { validateAiPose, formatPoseIssues } from "./poseValidation";
+import { CollisionPair } from "./collision";
+
+// Commands of the virtual controller bridge (server/controllerBridge.mjs relays them from external scripts).
+// Unlike copilot calls they act on the live robots: moves run immediately and answer when they finish.
+
+export const BRIDGE_METHODS = ['getRobots', 'getJoints', 'getPose', 'getState', 'moveJ', 'moveL', 'setTool', 'stop'] as const;
+export type BridgeMethod = typeof BRIDGE_METHODS[number];
+
+// JSON-RPC 2.0 error codes (-32000: command rejected by the simulator)
+export const BRIDGE_ERRORS = {
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  rejected: -32000,
+} as const;
+
+export interface BridgeError {
+  code: number;
+  message: string;
+}
+
+export interface BridgeResponse {
+  result: unknown;
+  error: BridgeError | null;
+}
+
+export interface BridgeRobot {
+  id: string;
+  name: string;
+  description: RobotDescription;
+  tool: ToolDefinition;
+}
+
+export interface BridgeContext {
+  robots: BridgeRobot[];
+  selectedRobotId: string;   // Default target when a command names no robot
+  tools: ToolDefinition[];
+  // Live state (read when the command runs, so answers after a move see its end pose)
+  jointsOf: (robotId: string) => JointState;
+  isMoving: (robotId: string) => boolean;
+  move: (robotId: string, request: MoveRequest) => Promise<MotionResult>;
+  stop: (robotId: string) => void;
+  setTool: (robotId: string, toolId: string) => void;
+  collisionsAt?: (robotId: string, joints: JointState) => CollisionPair[];
+}
+
+// Pushed to subscribed clients as the "state" notification
+export interface BridgeStateSnapshot {
+  time: number;  // ms since epoch
+  robots: Array<{ id: string; name: string; tool: string; joints: JointState; pose: Pose; moving: boolean }>;
+}
+
+type Params = Record<string, unknown>;
+
+const POSE_KEYS: Array<keyof Pose> = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+const roundAll = <T extends object>(values: T): T =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, round(v as number)])) as T;
+
+const numberParam = (params: Params, key: string): number | undefined => {
+  const value = params[key];
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+};
+
+const ok = (result: unknown): BridgeResponse => ({ result, error: null });
+const fail = (code: number, message: string): BridgeResponse => ({ result: null, error: { code, message } });
+
+const tcpPoseOf = (joints: JointState, robot: BridgeRobot): Pose => {
+  const { x, y, z, rx, ry, rz } = calculateForwardKinematics(joints, { tcp: robot.tool.tcp, robot: robot.description });
+  return { x, y, z, rx, ry, rz };
+};
+
+// --- [1] State ---
+
+export const bridgeStateSnapshot = (context: BridgeContext, time = Date.now()): BridgeStateSnapshot => ({
+  time,
+  robots: context.robots.map(robot => {
+    const joints = context.jointsOf(robot.id);
+    return {
+      id: robot.id,
+      name: robot.name,
+      tool: robot.tool.name,
+      joints: roundAll(joints),
+      pose: roundAll(tcpPoseOf(joints, robot)),
+      moving: context.isMoving(robot.id),
+    };
+  }),
+});
+
+// --- [2] Commands ---
+
+// Target robot: "robot" param by id or name, else the selected one
+const resolveRobot = (context: BridgeContext, params: Params): { robot: BridgeRobot | null; error: string | null } => {
+  const requested = params.robot;
+  if (requested === undefined || requested === null) {
+    return { robot: context.robots.find(r => r.id === context.selectedRobotId) ?? context.robots[0], error: null };
+  }
+  const name = String(requested).trim().toLowerCase();
+  const match = context.robots.find(r => r.id.toLowerCase() === name || r.name.toLowerCase() === name);
+  if (!match) return { robot: null, error: `Unknown robot "${requested}". Available: ${context.robots.map(r => r.name).join(', ')}` };
+  return { robot: match, error: null };
+};
+
+const robotState = (context: BridgeContext, robot: BridgeRobot) => {
+  const joints = context.jointsOf(robot.id);
+  return {
+    robot: robot.id,
+    joints: roundAll(joints),
+    pose: roundAll(tcpPoseOf(joints, robot)),
+    tool: robot.tool.name,
+    moving: context.isMoving(robot.id),
+  };
+};
+
+/**
+ * Runs a validated move; wait=false answers as soon as the move starts
+ */
+const runMove = async (context: BridgeContext, robot: BridgeRobot, request: MoveRequest, wait: boolean): Promise<BridgeResponse> => {
+  const motion = context.move(robot.id, request);
+  if (!wait) {
+    // A move that could not be planned is already settled and wins the race; a started one stays pending
+    const early = await Promise.race([motion, Promise.resolve(null)]);
+    if (early && !early.completed) return fail(BRIDGE_ERRORS.rejected, early.error ?? 'Move could not be planned.');
+    return ok({ started: true, target: roundAll(request.target) });
+  }
+  const result = await motion;
+  if (!result.completed) return fail(BRIDGE_ERRORS.rejected, result.error ?? 'Move was stopped before reaching the target.');
+  return ok({ completed: true, ...robotState(context, robot) });
+};
+
+type Handler = (context: BridgeContext, robot: BridgeRobot, params: Params) => BridgeResponse | Promise<BridgeResponse>;
+
+const handlers: Record<BridgeMethod, Handler> = {
+  getRobots: (context) =>
+    ok(context.robots.map(r => ({
+      id: r.id,
+      name: r.name,
+      model: r.description.name,
+      tool: r.tool.name,
+      selected: r.id === context.selectedRobotId,
+    }))),
+
+  getJoints: (context, robot) => ok({ robot: robot.id, joints: roundAll(context.jointsOf(robot.id)) }),
+
+  getPose: (context, robot) =>
+    ok({ robot: robot.id, pose: roundAll(tcpPoseOf(context.jointsOf(robot.id), robot)), tool: robot.tool.name }),
+
+  getState: (context, robot) => ok(robotState(context, robot)),
+
+  // Joint targets j1 ~ j6 (omitted axes keep their value), speed in % of the axis limits
+  moveJ: (context, robot, params) => {
+    const current = context.jointsOf(robot.id);
+    const validation = validateAiPose(params.joints ?? params, current, {
+      robot: robot.description,
+      partial: true,
+      collisionsAt: context.collisionsAt && ((joints) => context.collisionsAt!(robot.id, joints)),
+    });
+    if (!validation.target) return fail(BRIDGE_ERRORS.invalidParams, formatPoseIssues(validation));
+    const speed = numberParam(params, 'speed') ?? 50;
+    return runMove(context, robot, { moveType: 'joint', target: validation.target, speed }, params.wait !== false);
+  },
+
+  // TCP pose in the base frame (omitted values keep the current pose; offsets when relative), speed in mm/s
+  moveL: (context, robot, params) => {
+    const current = context.jointsOf(robot.id);
+    const currentPose = tcpPoseOf(current, robot);
+    const requested = (params.pose ?? params) as Params;
+    const relative = params.relative === true;
+    const pose = POSE_KEYS.reduce((acc, key) => {
+      const value = numberParam(requested, key);
+      return { ...acc, [key]: value === undefined ? currentPose[key] : relative ? currentPose[key] + value : value };
+    }, {} as Pose);
+
+    const solutions = calculateInverseKinematics(pose, { tcp: robot.tool.tcp, robot: robot.description, seed: current });
+    const best = selectClosestSolution(solutions.filter(s => s.withinLimits), current);
+    if (!best) {
+      return fail(BRIDGE_ERRORS.rejected, solutions.length === 0 ? 'Target pose is out of reach.' : 'Target pose violates the joint limits.');
+    }
+    // Same target checks as moveJ (floor, obstacles, other robots)
+    const validation = validateAiPose(best.joints, current, {
+      robot: robot.description,
+      collisionsAt: context.collisionsAt && ((joints) => context.collisionsAt!(robot.id, joints)),
+    });
+    if (!validation.target) return fail(BRIDGE_ERRORS.rejected, formatPoseIssues(validation));
+    const speed = numberParam(params, 'speed') ?? 250;
+    return runMove(context, robot, { moveType: 'linear', target: validation.target, speed }, params.wait !== false);
+  },
+
+  setTool: (context, robot, params) => {
+    const requested = params.tool ?? params.name;
+    const name = String(requested ?? '').trim().toLowerCase();
+    const match = context.tools.find(t => t.id.toLowerCase() === name || t.name.toLowerCase() === name);
+    if (!match) {
+      return fail(BRIDGE_ERRORS.invalidParams, `Unknown tool "${requested}". Available: ${context.tools.map(t => t.name).join(', ')}`);
+    }
+    context.setTool(robot.id, match.id);
+    return ok({ robot: robot.id, tool: match.name, pose: roundAll(tcpPoseOf(context.jointsOf(robot.id), { ...robot, tool: match })) });
+  },
+
+  stop: (context, robot) => {
+    context.stop(robot.id);
+    return ok({ robot: robot.id, joints: roundAll(context.jointsOf(robot.id)) });
+  },
+};
+
+/**
+ * Executes one bridge request (moves answer when the robot arrives, or fail when stopped / rejected)
+ */
+export const executeBridgeCommand = async (context: BridgeContext, method: string, params: unknown): Promise<BridgeResponse> => {
+  // Own keys only: inherited names ("toString", "constructor") are not methods
+  const handler = Object.hasOwn(handlers, method) ? handlers[method as BridgeMethod] : undefined;
+  if (!handler) {
+    return fail(BRIDGE_ERRORS.methodNotFound, `Unknown method "${method}". Available: ${BRIDGE_METHODS.join(', ')}, subscribeState`);
+  }
+  if (params !== undefined && params !== null && (typeof params !== 'object' || Array.isArray(params))) {
+    return fail(BRIDGE_ERRORS.invalidParams, 'Params must be an object (named parameters).');
+  }
+  const args = (params ?? {}) as Params;
+  const { robot, error } = resolveRobot(context, args);
+  if (!robot) return fail(BRIDGE_ERRORS.invalidParams, error ?? 'No robot in the cell.');
+  try {
+    return await handler(context, robot, args);
+  } catch (e) {
+    return fail(BRIDGE_ERRORS.rejected, e instanceof Error ? e.message : String(e));
+  }
+};
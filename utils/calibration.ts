@@ -0,0 +1,202 @@
+import { JointState, Pose, RobotDescription, Vector3 } from "../types";
+import { calculateForwardKinematics } from "./kinematics";
+import { solveLinearSystem } from "./linalg";
+import { BUILT_IN_ROBOTS } from "./robotDescription";
+
+type Dimensions = RobotDescription['kinematics'];
+export type CalibrationParameter = keyof Dimensions;
+
+export const CALIBRATION_PARAMETERS: CalibrationParameter[] = ['d1', 'a1', 'a2', 'a3', 'd4', 'j2OffsetDeg', 'j3OffsetDeg'];
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+
+export interface CalibrationSample {
+  line: number;        // Source line of the pasted / imported text (1-based)
+  joints: JointState;  // Pendant joint readout (deg)
+  measured: Vector3;   // Pendant Cartesian readout of the same pose (mm)
+}
+
+export interface CalibrationSampleParseResult {
+  samples: CalibrationSample[];
+  error: string | null;
+}
+
+// --- [1] Sample Import ---
+
+/**
+ * Reads (joint, Cartesian) pairs, one pose per line:
+ *   S H V R2 B R1 X Y Z [RX RY RZ]
+ * - Comma, semicolon, tab or space separated; blank lines, # comments and header lines are skipped
+ * - The orientation columns are accepted (pendant exports carry them) but not used by the fit
+ */
+export const parseCalibrationSamples = (text: string): CalibrationSampleParseResult => {
+  const samples: CalibrationSample[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/#.*$/, '').trim();
+    if (!line) continue;
+    const fields = line.split(/[\s,;]+/).filter(Boolean);
+    // Header row (S,H,V,... or J1,J2,...)
+    if (samples.length === 0 && isNaN(Number(fields[0]))) continue;
+
+    const values = fields.map(Number);
+    if (values.some(isNaN) || (values.length !== 9 && values.length !== 12)) {
+      return { samples: [], error: `Line ${i + 1}: expected 6 joint values followed by X Y Z (and optionally RX RY RZ).` };
+    }
+    const joints = AXES.reduce((acc, axis, idx) => ({ ...acc, [axis]: values[idx] }), {} as JointState);
+    samples.push({ line: i + 1, joints, measured: { x: values[6], y: values[7], z: values[8] } });
+  }
+
+  if (samples.length === 0) return { samples: [], error: 'No poses found.' };
+  return { samples, error: null };
+};
+
+// --- [2] Least-Squares Fit ---
+
+export interface CalibrationOptions {
+  // Parameters to fit; the others keep their current value (default: all)
+  free?: CalibrationParameter[];
+  // Active tool TCP when the pendant readout is the tool tip (omit for the flange)
+  tcp?: Pose;
+  maxIterations?: number;
+}
+
+export interface CalibrationResidual {
+  line: number;
+  dx: number;     // Model - measured (mm)
+  dy: number;
+  dz: number;
+  error: number;  // Euclidean distance (mm)
+}
+
+export interface KinematicCalibration {
+  kinematics: Dimensions;          // Fitted parameters (locked ones unchanged)
+  residuals: CalibrationResidual[];
+  rms: number;                     // RMS position error after the fit (mm)
+  initialRms: number;              // RMS position error of the starting model (mm)
+  iterations: number;
+}
+
+export interface KinematicCalibrationResult {
+  calibration: KinematicCalibration | null;
+  error: string | null;
+}
+
+// Central-difference step (mm for lengths, deg for offsets)
+const STEP = 1e-3;
+
+const residualsOf = (
+  samples: CalibrationSample[],
+  robot: RobotDescription,
+  kinematics: Dimensions,
+  tcp?: Pose,
+): CalibrationResidual[] => {
+  const model = { ...robot, kinematics };
+  return samples.map(({ line, joints, measured }) => {
+    const p = calculateForwardKinematics(joints, { tcp, robot: model });
+    const dx = p.x - measured.x;
+    const dy = p.y - measured.y;
+    const dz = p.z - measured.z;
+    return { line, dx, dy, dz, error: Math.hypot(dx, dy, dz) };
+  });
+};
+
+const rmsOf = (residuals: CalibrationResidual[]) =>
+  Math.sqrt(residuals.reduce((sum, r) => sum + r.error * r.error, 0) / residuals.length);
+
+const stacked = (residuals: CalibrationResidual[]) => residuals.flatMap(r => [r.dx, r.dy, r.dz]);
+
+const withValues = (kinematics: Dimensions, free: CalibrationParameter[], values: number[]): Dimensions =>
+  free.reduce((acc, key, idx) => ({ ...acc, [key]: values[idx] }), { ...kinematics });
+
+/**
+ * Kinematic Calibration (Levenberg-Marquardt)
+ * - Fits the free link lengths / zero offsets so the model FK matches the measured positions
+ * - Jacobian by central differences; damping falls back towards gradient descent when a step fails
+ * - Needs at least as many equations (3 per pose) as free parameters; poses should vary H, V and B
+ *   widely, otherwise some parameters are unobservable and the damping keeps them near their start value
+ */
+export const calibrateKinematics = (
+  samples: CalibrationSample[],
+  robot: RobotDescription,
+  options: CalibrationOptions = {},
+): KinematicCalibrationResult => {
+  const { free = CALIBRATION_PARAMETERS, tcp, maxIterations = 100 } = options;
+  if (free.length === 0) return { calibration: null, error: 'Select at least one parameter to fit.' };
+  if (samples.length * 3 < free.length) {
+    return { calibration: null, error: `Fitting ${free.length} parameters needs at least ${Math.ceil(free.length / 3)} poses.` };
+  }
+
+  const initial = residualsOf(samples, robot, robot.kinematics, tcp);
+  const initialRms = rmsOf(initial);
+
+  let values = free.map(key => robot.kinematics[key]);
+  let residuals = initial;
+  let cost = stacked(initial).reduce((sum, r) => sum + r * r, 0);
+  let lambda = 1e-3;
+  let iterations = 0;
+
+  for (; iterations < maxIterations; iterations++) {
+    // 1. Numeric Jacobian d(residual) / d(parameter)
+    const r = stacked(residuals);
+    const J = r.map(() => new Array(free.length).fill(0));
+    free.forEach((_, k) => {
+      const plus = stacked(residualsOf(samples, robot, withValues(robot.kinematics, free, values.map((v, i) => (i === k ? v + STEP : v))), tcp));
+      const minus = stacked(residualsOf(samples, robot, withValues(robot.kinematics, free, values.map((v, i) => (i === k ? v - STEP : v))), tcp));
+      plus.forEach((_, row) => { J[row][k] = (plus[row] - minus[row]) / (2 * STEP); });
+    });
+
+    // 2. Normal equations J^T J and gradient J^T r
+    const JtJ = free.map((_, i) => free.map((_, j) => J.reduce((sum, row) => sum + row[i] * row[j], 0)));
+    const Jtr = free.map((_, i) => J.reduce((sum, row, n) => sum + row[i] * r[n], 0));
+
+    // 3. Damped step; raise the damping until the cost goes down
+    let improved = false;
+    let stepSize = 0;
+    while (lambda < 1e10) {
+      const A = JtJ.map((row, i) => row.map((v, j) => (i === j ? v + lambda * Math.max(v, 1e-6) : v)));
+      const delta = solveLinearSystem(A, Jtr.map(g => -g));
+      if (delta) {
+        const candidate = values.map((v, i) => v + delta[i]);
+        const trial = residualsOf(samples, robot, withValues(robot.kinematics, free, candidate), tcp);
+        const trialCost = stacked(trial).reduce((sum, e) => sum + e * e, 0);
+        if (trialCost < cost) {
+          values = candidate;
+          residuals = trial;
+          stepSize = Math.max(...delta.map(Math.abs));
+          improved = cost - trialCost > 1e-12 * cost;
+          cost = trialCost;
+          lambda = Math.max(lambda / 10, 1e-9);
+          break;
+        }
+      }
+      lambda *= 10;
+    }
+
+    // 4. Converged: no downhill step left or the parameters stopped moving
+    if (!improved || stepSize < 1e-7) break;
+  }
+
+  return {
+    calibration: {
+      kinematics: withValues(robot.kinematics, free, values),
+      residuals,
+      rms: rmsOf(residuals),
+      initialRms,
+      iterations,
+    },
+    error: null,
+  };
+};
+
+// --- [3] Applying the Fit ---
+
+/**
+ * Robot description carrying the fitted parameters.
+ * Built-in models stay untouched: their calibration becomes a custom "<id>-cal" model.
+ */
+export const calibratedDescription = (robot: RobotDescription, kinematics: Dimensions): RobotDescription =>
+  BUILT_IN_ROBOTS.some(m => m.id === robot.id)
+    ? { ...robot, id: `${robot.id}-cal`, name: `${robot.name} (Calibrated)`, kinematics }
+    : { ...robot, kinematics };
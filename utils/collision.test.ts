@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { JointState, Pose } from '../types';
+import { BUILT_IN_ROBOTS } from './robotDescription';
+import { calculateForwardKinematics } from './kinematics';
+import { computeRobotHulls } from './collision';
+
+const JOINTS: JointState[] = [
+  { j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 },
+  { j1: 35, j2: 120, j3: -40, j4: 60, j5: 45, j6: -30 },
+  { j1: -120, j2: 40, j3: 20, j4: -150, j5: -70, j6: 200 },
+];
+const TCP: Pose = { x: 40, y: -25, z: 180, rx: 0, ry: 0, rz: 0 };
+
+const distance = ([x, y, z]: number[], pose: Pose) => Math.hypot(x - pose.x, y - pose.y, z - pose.z);
+
+describe('computeRobotHulls', () => {
+  it.each(BUILT_IN_ROBOTS.flatMap(robot => JOINTS.map(joints => ({ robot, joints, name: robot.name }))))(
+    'puts the $name tool hull on the kinematic flange and TCP',
+    ({ robot, joints }) => {
+      const tool = computeRobotHulls(joints, TCP, undefined, robot).find(body => body.id === 'tool')!.hull;
+      if (tool.kind !== 'capsule') throw new Error('Tool hull is not a capsule');
+      const flange = calculateForwardKinematics(joints, { robot });
+      const tcp = calculateForwardKinematics(joints, { robot, tcp: TCP });
+      expect(distance(tool.a, flange)).toBeLessThan(1e-6);
+      expect(distance(tool.b, tcp)).toBeLessThan(1e-6);
+    },
+  );
+});
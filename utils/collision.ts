@@ -0,0 +1,362 @@
+import { JointState, Pose, CellObject, RobotDescription } from "../types";
+import {
+  Matrix4,
+  multiplyMatrices,
+  translationMatrix,
+  rotationY,
+  rotationZ,
+  identityMatrix,
+  invertTransform,
+  transformPoint,
+  poseToMatrix,
+} from "./transform";
+import { HS220S, visualDimensions } from "./robotDescription";
+import { cellObjectBounds } from "./workcell";
+import { MotionSegment } from "./motion";
+
+// All collision geometry is expressed in the world (cell) frame (Z up, mm, floor at Z = 0).
+// Without a robot base pose the world and robot base frames coincide.
+// The link frames follow the RobotModel mesh hierarchy, not the kinematic DH chain,
+// so the hulls wrap what is actually drawn.
+
+type Vec3 = [number, number, number];
+
+// --- [1] Hull Shapes ---
+
+export type Hull =
+  | { kind: 'capsule'; a: Vec3; b: Vec3; radius: number }       // Segment a-b swept by a sphere
+  | { kind: 'box'; matrix: Matrix4; half: Vec3 };                // Oriented box (matrix: box frame -> world)
+
+export type RobotBodyId = 'base' | 'turret' | 'lowerArm' | 'upperArm' | 'wrist' | 'tool';
+
+export interface CollisionBody {
+  id: string;        // RobotBodyId, 'floor', 'obstacle:<cell object id>' or '<robot id>/<RobotBodyId>' (other robots)
+  name: string;
+  hull: Hull;
+}
+
+export interface CollisionPair {
+  a: CollisionBody;
+  b: CollisionBody;
+}
+
+export const ROBOT_BODY_NAMES: Record<RobotBodyId, string> = {
+  base: 'Base',
+  turret: 'Turret',
+  lowerArm: 'Lower Arm',
+  upperArm: 'Upper Arm',
+  wrist: 'Wrist',
+  tool: 'Tool',
+};
+
+export const FLOOR_BODY_ID = 'floor';
+export const obstacleBodyId = (object: CellObject) => `obstacle:${object.id}`;
+export const robotBodyId = (robotId: string, body: RobotBodyId) => `${robotId}/${body}`;
+
+// Robot link pairs that can touch each other (neighbours through a joint are skipped)
+const SELF_COLLISION_PAIRS: Array<[RobotBodyId, RobotBodyId]> = [
+  ['base', 'upperArm'], ['base', 'wrist'], ['base', 'tool'],
+  ['turret', 'upperArm'], ['turret', 'wrist'], ['turret', 'tool'],
+  ['lowerArm', 'wrist'], ['lowerArm', 'tool'],
+  ['upperArm', 'tool'],
+];
+
+// Bodies that can reach the floor (the base stands on it)
+const FLOOR_BODIES: RobotBodyId[] = ['lowerArm', 'upperArm', 'wrist', 'tool'];
+
+// Hull sizes wrapping the RobotModel meshes (mm)
+const HULL = {
+  base: { center: [50, 0, 300] as Vec3, half: [500, 450, 300] as Vec3 },    // Casting + connector box
+  turret: { center: [-60, 0, -25] as Vec3, half: [440, 380, 275] as Vec3 }, // Turret cylinder + J2 motor (J1 frame)
+  lowerArmRadius: 250,
+  upperArmRadius: 220,
+  wristRadius: 140,
+  toolRadius: 30,
+  tipLength: 200, // Placeholder tip drawn when no tool is defined
+};
+
+const d2r = (deg: number) => (deg * Math.PI) / 180.0;
+const m = (meters: number) => meters * 1000;
+
+/**
+ * Link frames of the RobotModel hierarchy + Hulls
+ * (three.js rotation about Y = base Rz, about Z = base Ry(-angle), local Y = base Z)
+ * `base` places the robot base frame in the world.
+ */
+export const computeRobotHulls = (
+  joints: JointState,
+  tcp?: Pose,
+  base: Matrix4 = identityMatrix(),
+  robot: RobotDescription = HS220S,
+): Array<CollisionBody & { id: RobotBodyId }> => {
+  const D = visualDimensions(robot);
+  const j1Frame = multiplyMatrices(base, translationMatrix(0, 0, m(D.baseHeight)), rotationZ(d2r(joints.j1)));
+  const j2Frame = multiplyMatrices(j1Frame, translationMatrix(m(D.j1OffsetX), 0, 0), rotationY(-d2r(joints.j2 - 90)));
+  const j3Frame = multiplyMatrices(j2Frame, translationMatrix(0, 0, m(D.link2Length)), rotationY(-d2r(joints.j3 - 90)));
+  const j4Frame = multiplyMatrices(j3Frame, translationMatrix(0, 0, m(D.link3Length)), rotationZ(-d2r(joints.j4)));
+  const j5Frame = multiplyMatrices(j4Frame, translationMatrix(0, 0, m(D.wristLength)), rotationY(-d2r(joints.j5)));
+  const flange = multiplyMatrices(j5Frame, translationMatrix(0, 0, m(D.handLength)), rotationZ(-d2r(joints.j6)));
+
+  const origin: Vec3 = [0, 0, 0];
+  const face = m(D.flangeFace);
+  const hasToolOffset = !!tcp && Math.hypot(tcp.x, tcp.y, tcp.z) > 1;
+  const toolEnd: Vec3 = hasToolOffset ? [tcp!.x, tcp!.y, face + tcp!.z] : [0, 0, face + HULL.tipLength];
+
+  const box = (frame: Matrix4, center: Vec3, half: Vec3): Hull => ({
+    kind: 'box',
+    matrix: multiplyMatrices(frame, translationMatrix(...center)),
+    half,
+  });
+  const capsule = (frame: Matrix4, a: Vec3, b: Vec3, radius: number): Hull => ({
+    kind: 'capsule',
+    a: transformPoint(frame, a),
+    b: transformPoint(frame, b),
+    radius,
+  });
+
+  const hulls: Record<RobotBodyId, Hull> = {
+    base: box(base, HULL.base.center, HULL.base.half),
+    turret: box(j1Frame, HULL.turret.center, HULL.turret.half),
+    lowerArm: capsule(j2Frame, origin, [0, 0, m(D.link2Length)], HULL.lowerArmRadius),
+    upperArm: capsule(j3Frame, origin, [0, 0, m(D.link3Length + D.wristLength)], HULL.upperArmRadius),
+    wrist: capsule(j5Frame, origin, [0, 0, m(D.handLength)], HULL.wristRadius),
+    tool: capsule(flange, [0, 0, face], toolEnd, HULL.toolRadius),
+  };
+
+  return (Object.keys(hulls) as RobotBodyId[]).map(id => ({ id, name: ROBOT_BODY_NAMES[id], hull: hulls[id] }));
+};
+
+// Cell objects are checked as their oriented bounding box
+export const obstacleBody = (object: CellObject): CollisionBody => {
+  const { center, half } = cellObjectBounds(object);
+  return {
+    id: obstacleBodyId(object),
+    name: object.name,
+    hull: { kind: 'box', matrix: multiplyMatrices(poseToMatrix(object.pose), translationMatrix(...center)), half },
+  };
+};
+
+// --- [2] Distance Queries ---
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const clamp01 = (t: number) => Math.min(Math.max(t, 0), 1);
+const lerp = (a: Vec3, b: Vec3, t: number): Vec3 => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+/**
+ * Closest distance between segments p1-q1 and p2-q2 (Ericson, Real-Time Collision Detection 5.1.9)
+ */
+const segmentDistance = (p1: Vec3, q1: Vec3, p2: Vec3, q2: Vec3): number => {
+  const d1 = sub(q1, p1);
+  const d2 = sub(q2, p2);
+  const r = sub(p1, p2);
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+  let s: number;
+  let t: number;
+
+  if (a < 1e-9 && e < 1e-9) {
+    s = 0; t = 0;
+  } else if (a < 1e-9) {
+    s = 0; t = clamp01(f / e);
+  } else {
+    const c = dot(d1, r);
+    if (e < 1e-9) {
+      t = 0; s = clamp01(-c / a);
+    } else {
+      const b = dot(d1, d2);
+      const denom = a * e - b * b;
+      s = denom > 1e-9 ? clamp01((b * f - c * e) / denom) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) { t = 0; s = clamp01(-c / a); }
+      else if (t > 1) { t = 1; s = clamp01((b - c) / a); }
+    }
+  }
+  const diff = sub(lerp(p1, q1, s), lerp(p2, q2, t));
+  return Math.sqrt(dot(diff, diff));
+};
+
+// Distance from a point (in box coordinates) to an axis-aligned box centered at the origin
+const pointBoxDistance = (p: Vec3, half: Vec3) => {
+  const dx = Math.max(Math.abs(p[0]) - half[0], 0);
+  const dy = Math.max(Math.abs(p[1]) - half[1], 0);
+  const dz = Math.max(Math.abs(p[2]) - half[2], 0);
+  return Math.hypot(dx, dy, dz);
+};
+
+/**
+ * Segment <-> Oriented box distance
+ * The distance to a convex set is convex along the segment, so a ternary search finds the minimum.
+ */
+const segmentBoxDistance = (a: Vec3, b: Vec3, matrix: Matrix4, half: Vec3): number => {
+  const inv = invertTransform(matrix);
+  const la = transformPoint(inv, a);
+  const lb = transformPoint(inv, b);
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 40; i++) {
+    const m1 = lo + (hi - lo) / 3;
+    const m2 = hi - (hi - lo) / 3;
+    if (pointBoxDistance(lerp(la, lb, m1), half) < pointBoxDistance(lerp(la, lb, m2), half)) hi = m2;
+    else lo = m1;
+  }
+  return pointBoxDistance(lerp(la, lb, (lo + hi) / 2), half);
+};
+
+const column = (matrix: Matrix4, i: number): Vec3 => [matrix[0][i], matrix[1][i], matrix[2][i]];
+
+/**
+ * Oriented box overlap (Separating axis theorem: 3 + 3 face normals, 9 edge cross products)
+ */
+const boxesOverlap = (ma: Matrix4, ha: Vec3, mb: Matrix4, hb: Vec3): boolean => {
+  const axesA = [0, 1, 2].map(i => column(ma, i));
+  const axesB = [0, 1, 2].map(i => column(mb, i));
+  const t = sub(column(mb, 3), column(ma, 3));
+  const cross = (u: Vec3, v: Vec3): Vec3 => [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+
+  const candidates: Vec3[] = [...axesA, ...axesB];
+  axesA.forEach(u => axesB.forEach(v => candidates.push(cross(u, v))));
+
+  return candidates.every(axis => {
+    if (dot(axis, axis) < 1e-9) return true; // Parallel edges
+    const ra = axesA.reduce((sum, u, i) => sum + ha[i] * Math.abs(dot(u, axis)), 0);
+    const rb = axesB.reduce((sum, v, i) => sum + hb[i] * Math.abs(dot(v, axis)), 0);
+    return Math.abs(dot(t, axis)) <= ra + rb;
+  });
+};
+
+export const hullsIntersect = (a: Hull, b: Hull): boolean => {
+  if (a.kind === 'capsule' && b.kind === 'capsule') {
+    return segmentDistance(a.a, a.b, b.a, b.b) < a.radius + b.radius;
+  }
+  if (a.kind === 'capsule' && b.kind === 'box') {
+    return segmentBoxDistance(a.a, a.b, b.matrix, b.half) < a.radius;
+  }
+  if (a.kind === 'box' && b.kind === 'capsule') {
+    return segmentBoxDistance(b.a, b.b, a.matrix, a.half) < b.radius;
+  }
+  if (a.kind === 'box' && b.kind === 'box') {
+    return boxesOverlap(a.matrix, a.half, b.matrix, b.half);
+  }
+  return false;
+};
+
+// Lowest point of a hull (world Z, mm)
+const hullBottom = (hull: Hull): number => {
+  if (hull.kind === 'capsule') return Math.min(hull.a[2], hull.b[2]) - hull.radius;
+  const [r0, r1, r2] = [hull.matrix[2][0], hull.matrix[2][1], hull.matrix[2][2]];
+  return hull.matrix[2][3] - (Math.abs(r0) * hull.half[0] + Math.abs(r1) * hull.half[1] + Math.abs(r2) * hull.half[2]);
+};
+
+// --- [3] Collision Checks ---
+
+// Another robot sharing the cell (held at the given joints)
+export interface CollisionRobot {
+  id: string;
+  name: string;
+  joints: JointState;
+  tcp?: Pose;
+  base?: Pose;
+  robot?: RobotDescription;
+}
+
+export interface CollisionOptions {
+  tcp?: Pose;
+  obstacles?: CellObject[];
+  robotBase?: Pose;               // Robot base frame in the world (default: world origin)
+  robot?: RobotDescription;       // Robot model (default: HS220S)
+  otherRobots?: CollisionRobot[];
+  floor?: boolean;                // Check against the floor plane Z = 0 (default true)
+}
+
+const FLOOR_BODY: CollisionBody = {
+  id: FLOOR_BODY_ID,
+  name: 'Floor',
+  hull: { kind: 'box', matrix: translationMatrix(0, 0, -1), half: [1e6, 1e6, 1] },
+};
+
+/**
+ * Every colliding pair for one joint state (self, floor, obstacles and the other robots in the cell)
+ */
+export const checkCollisions = (joints: JointState, options: CollisionOptions = {}): CollisionPair[] => {
+  const { tcp, obstacles = [], robotBase, otherRobots = [], floor = true } = options;
+  const robot = computeRobotHulls(joints, tcp, robotBase ? poseToMatrix(robotBase) : identityMatrix(), options.robot);
+  const body = (id: RobotBodyId) => robot.find(b => b.id === id)!;
+  const pairs: CollisionPair[] = [];
+
+  // 1. Self collision
+  SELF_COLLISION_PAIRS.forEach(([a, b]) => {
+    if (hullsIntersect(body(a).hull, body(b).hull)) pairs.push({ a: body(a), b: body(b) });
+  });
+
+  // 2. Floor
+  if (floor) {
+    FLOOR_BODIES.forEach(id => {
+      if (hullBottom(body(id).hull) < 0) pairs.push({ a: body(id), b: FLOOR_BODY });
+    });
+  }
+
+  // 3. Obstacles (The fixed base is allowed to stand on / next to fixtures)
+  obstacles.forEach(obstacle => {
+    const other = obstacleBody(obstacle);
+    robot.forEach(link => {
+      if (link.id === 'base') return;
+      if (hullsIntersect(link.hull, other.hull)) pairs.push({ a: link, b: other });
+    });
+  });
+
+  // 4. Other robots (every link, bases included: robots placed too close overlap at the base)
+  otherRobots.forEach(neighbour => {
+    const base = neighbour.base ? poseToMatrix(neighbour.base) : identityMatrix();
+    computeRobotHulls(neighbour.joints, neighbour.tcp, base, neighbour.robot).forEach(body => {
+      const other: CollisionBody = {
+        id: robotBodyId(neighbour.id, body.id),
+        name: `${neighbour.name} ${body.name}`,
+        hull: body.hull,
+      };
+      robot.forEach(link => {
+        if (hullsIntersect(link.hull, other.hull)) pairs.push({ a: link, b: other });
+      });
+    });
+  });
+
+  return pairs;
+};
+
+export const pairKey = (pair: CollisionPair) => `${pair.a.id}|${pair.b.id}`;
+
+export const formatCollisionPair = (pair: CollisionPair) => `${pair.a.name} ↔ ${pair.b.name}`;
+
+// Ids of every body involved in at least one pair (for highlighting)
+export const collidingBodyIds = (pairs: CollisionPair[]): string[] =>
+  Array.from(new Set(pairs.flatMap(pair => [pair.a.id, pair.b.id])));
+
+export interface TrajectoryCollision {
+  time: number;          // s into the segment
+  joints: JointState;
+  pairs: CollisionPair[];
+}
+
+/**
+ * Checks the interpolated samples of a motion segment.
+ * Pairs listed in `ignore` (already touching at the start) are not reported, so a move
+ * out of an existing collision is still allowed.
+ */
+export const checkTrajectoryCollisions = (
+  segment: MotionSegment,
+  options: CollisionOptions = {},
+  ignore: CollisionPair[] = [],
+  sampleTime = 0.02,
+): TrajectoryCollision | null => {
+  const ignored = new Set(ignore.map(pairKey));
+  const count = Math.max(1, Math.ceil(segment.duration / sampleTime));
+
+  for (let i = 1; i <= count; i++) {
+    const time = Math.min(i * sampleTime, segment.duration);
+    const joints = segment.sample(time);
+    const pairs = checkCollisions(joints, options).filter(pair => !ignored.has(pairKey(pair)));
+    if (pairs.length > 0) return { time, joints, pairs };
+  }
+  return null;
+};
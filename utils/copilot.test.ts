@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { FLANGE_TOOL, INITIAL_JOINTS } from '../types';
+import { createCopilotSession, editPlannedMove, isPlanValid } from './copilot';
+import { HS220S } from './robotDescription';
+
+const session = () => createCopilotSession({ joints: INITIAL_JOINTS, robot: HS220S, tools: [FLANGE_TOOL], toolId: FLANGE_TOOL.id });
+
+describe('createCopilotSession', () => {
+  it('chains planned moves: each starts where the previous one ends', () => {
+    const plan = session();
+    expect(plan.execute('moveJoint', { j1: 30 }).error).toBeUndefined();
+    expect(plan.execute('moveLinear', { z: -100, relative: true }).error).toBeUndefined();
+    const [first, second] = plan.actions();
+    if (first.kind !== 'move' || second.kind !== 'move') throw new Error('Expected two moves');
+    expect(second.from).toEqual(first.target);
+    expect(second.pose.z).toBeCloseTo(first.pose.z - 100, 3);
+  });
+
+  it.each(['toString', 'constructor', 'hasOwnProperty', 'fly'])('rejects the unknown function "%s"', (name) => {
+    const plan = session();
+    expect(plan.execute(name, {})).toEqual({ error: `Unknown function "${name}".` });
+    expect(plan.actions()).toEqual([]);
+  });
+
+  it('rejects invalid targets without adding a step', () => {
+    const plan = session();
+    expect(plan.execute('moveJoint', { j2: 400 }).error).toMatch(/j2/);
+    expect(plan.execute('moveJoint', { j3: 'up' }).error).toMatch(/j3 must be a number/);
+    expect(plan.execute('moveLinear', { x: 10000 }).error).toMatch(/out of reach/);
+    expect(plan.actions()).toEqual([]);
+  });
+});
+
+describe('editPlannedMove', () => {
+  it('re-validates the edited move and invalidates the plan when it breaks a limit', () => {
+    const plan = session();
+    plan.execute('moveJoint', { j1: 30 });
+    plan.execute('moveJoint', { j1: 60 });
+    const edited = editPlannedMove(plan.actions(), 0, { ...INITIAL_JOINTS, j2: 400 }, { robot: HS220S });
+    expect(isPlanValid(plan.actions())).toBe(true);
+    expect(isPlanValid(edited)).toBe(false);
+  });
+});
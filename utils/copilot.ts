@@ -0,0 +1,193 @@
+import { CopilotAction, JointState, Pose, RobotDescription, ToolDefinition, FLANGE_TOOL } from "../types";
+import { calculateForwardKinematics, calculateInverseKinematics, selectClosestSolution } from "./kinematics";
+import { planMove, MoveRequest } from "./motion";
+import { createStep, formatStep } from "./program";
+import { validateAiPose, formatPoseIssues } from "./poseValidation";
+import { CollisionPair } from "./collision";
+
+// Tool calls of the AI Copilot run against a planned robot state: queries answer for the pose
+// the plan has reached so far, motion calls only append actions. Nothing moves until the user confirms.
+
+export const COPILOT_FUNCTION_NAMES = ['getPose', 'checkReach', 'moveJoint', 'moveLinear', 'setTool', 'addProgramStep'] as const;
+export type CopilotFunctionName = typeof COPILOT_FUNCTION_NAMES[number];
+
+export interface CopilotContext {
+  joints: JointState;        // Plan start (current joints of the selected robot)
+  robot: RobotDescription;
+  tools: ToolDefinition[];
+  toolId: string;            // Active tool at the plan start
+  // Cell-level check of a planned move (collisions); returns the rejection reason or null
+  checkMove?: (from: JointState, request: MoveRequest) => string | null;
+  // Collisions / floor contact at a single pose (target validation)
+  collisionsAt?: (joints: JointState) => CollisionPair[];
+}
+
+// Function response payload ("output" on success, "error" otherwise)
+export type CopilotFunctionResult = Record<string, unknown>;
+
+export interface CopilotSession {
+  execute: (name: string, args: Record<string, unknown>) => CopilotFunctionResult;
+  actions: () => CopilotAction[];
+}
+
+const POSE_KEYS: Array<keyof Pose> = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+const round = (v: number) => Math.round(v * 100) / 100;
+const roundAll = <T extends object>(values: T): T =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, round(v as number)])) as T;
+
+const numberArg = (args: Record<string, unknown>, key: string): number | undefined => {
+  const value = args[key];
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+};
+
+// --- [1] Planning Session ---
+
+const tcpPoseOf = (joints: JointState, tcp: Pose, robot: RobotDescription): Pose => {
+  const { x, y, z, rx, ry, rz } = calculateForwardKinematics(joints, { tcp, robot });
+  return { x, y, z, rx, ry, rz };
+};
+
+export const createCopilotSession = (context: CopilotContext): CopilotSession => {
+  const { robot, tools, checkMove, collisionsAt } = context;
+  const actions: CopilotAction[] = [];
+  let joints = { ...context.joints };
+  let tool = tools.find(t => t.id === context.toolId) ?? FLANGE_TOOL;
+
+  const tcpPose = (at: JointState): Pose => tcpPoseOf(at, tool.tcp, robot);
+
+  // Requested pose: absolute base-frame values, or offsets from the planned TCP when relative
+  const targetPose = (args: Record<string, unknown>): Pose => {
+    const current = tcpPose(joints);
+    const relative = args.relative === true;
+    return POSE_KEYS.reduce((pose, key) => {
+      const value = numberArg(args, key);
+      return { ...pose, [key]: value === undefined ? current[key] : relative ? current[key] + value : value };
+    }, {} as Pose);
+  };
+
+  // Model output is validated before it becomes a step (partial: omitted axes keep their planned value)
+  const appendMove = (moveType: 'joint' | 'linear', requested: unknown, speed: number, partial = false): CopilotFunctionResult => {
+    const validation = validateAiPose(requested, joints, { robot, partial, collisionsAt });
+    if (!validation.target) return { error: formatPoseIssues(validation) };
+    const target = validation.target;
+
+    const request: MoveRequest = { moveType, target, speed, tcp: tool.tcp, robot };
+    const plan = planMove(joints, request);
+    const rejection = plan.error ?? checkMove?.(joints, request) ?? null;
+    if (rejection) return { error: rejection };
+
+    const pose = tcpPose(target);
+    actions.push({ kind: 'move', moveType, from: joints, target, pose, speed, tcp: tool.tcp, validation });
+    joints = target;
+    const warnings = validation.issues.map(issue => issue.message);
+    return { output: { step: actions.length, joints: roundAll(target), tcp: roundAll(pose), ...(warnings.length > 0 ? { warnings } : {}) } };
+  };
+
+  const handlers: Record<CopilotFunctionName, (args: Record<string, unknown>) => CopilotFunctionResult> = {
+    getPose: () => ({
+      output: { joints: roundAll(joints), tcp: roundAll(tcpPose(joints)), tool: tool.name, plannedSteps: actions.length },
+    }),
+
+    checkReach: (args) => {
+      const pose = targetPose(args);
+      const solutions = calculateInverseKinematics(pose, { tcp: tool.tcp, robot, seed: joints });
+      const best = selectClosestSolution(solutions.filter(s => s.withinLimits), joints);
+      if (best) return { output: { reachable: true, joints: roundAll(best.joints) } };
+      return {
+        output: {
+          reachable: false,
+          reason: solutions.length === 0 ? 'Out of reach' : 'Only reachable outside the joint limits',
+        },
+      };
+    },
+
+    moveJoint: (args) => appendMove('joint', args, numberArg(args, 'speed') ?? 50, true),
+
+    moveLinear: (args) => {
+      const pose = targetPose(args);
+      const solutions = calculateInverseKinematics(pose, { tcp: tool.tcp, robot, seed: joints });
+      const best = selectClosestSolution(solutions.filter(s => s.withinLimits), joints);
+      if (!best) return { error: solutions.length === 0 ? 'Target pose is out of reach.' : 'Target pose violates the joint limits.' };
+      return appendMove('linear', best.joints, numberArg(args, 'speed') ?? 500);
+    },
+
+    setTool: (args) => {
+      const name = String(args.name ?? '').trim().toLowerCase();
+      const match = tools.find(t => t.id.toLowerCase() === name || t.name.toLowerCase() === name);
+      if (!match) return { error: `Unknown tool "${args.name}". Available: ${tools.map(t => t.name).join(', ')}` };
+      tool = match;
+      actions.push({ kind: 'setTool', toolId: match.id, toolName: match.name });
+      return { output: { step: actions.length, tool: match.name, tcp: roundAll(tcpPose(joints)) } };
+    },
+
+    addProgramStep: (args) => {
+      const moveType = args.moveType === 'linear' ? 'linear' : 'joint';
+      const speed = numberArg(args, 'speed');
+      const taught = createStep(joints, moveType);
+      const step = speed === undefined ? taught : { ...taught, speed };
+      actions.push({ kind: 'addProgramStep', step });
+      return { output: { step: actions.length, line: formatStep(step), joints: roundAll(joints) } };
+    },
+  };
+
+  return {
+    execute: (name, args) => {
+      // Own keys only: inherited names ("toString", "constructor") are not functions of the model
+      const handler = Object.hasOwn(handlers, name) ? handlers[name as CopilotFunctionName] : undefined;
+      return handler ? handler(args ?? {}) : { error: `Unknown function "${name}".` };
+    },
+    actions: () => [...actions],
+  };
+};
+
+// --- [2] Plan Review ---
+
+/**
+ * Replaces the target of a planned move (user edit) and re-validates it and every later move,
+ * since each move starts where the previous one ends. Taught steps follow the edited poses.
+ */
+export const editPlannedMove = (
+  actions: CopilotAction[],
+  index: number,
+  target: JointState,
+  context: Pick<CopilotContext, 'robot' | 'collisionsAt'>,
+): CopilotAction[] => {
+  let previous: JointState | null = null;
+  return actions.map((action, i) => {
+    if (i < index) return action;
+    if (action.kind === 'addProgramStep') {
+      return previous ? { ...action, step: { ...action.step, target: { ...previous } } } : action;
+    }
+    if (action.kind !== 'move') return action;
+
+    const from = previous ?? action.from;
+    const requested = i === index ? target : action.target;
+    const validation = validateAiPose(requested, from, { robot: context.robot, collisionsAt: context.collisionsAt });
+    const resolved = validation.target ?? requested;
+    previous = resolved;
+    return { ...action, from, target: resolved, pose: tcpPoseOf(resolved, action.tcp, context.robot), validation };
+  });
+};
+
+// A plan can only be confirmed while every move target passes validation
+export const isPlanValid = (actions: CopilotAction[]): boolean =>
+  actions.every(action => action.kind !== 'move' || action.validation.target !== null);
+
+// --- [3] Plan Display ---
+
+export const describeAction = (action: CopilotAction): string => {
+  switch (action.kind) {
+    case 'move': {
+      const { x, y, z } = action.pose;
+      const speed = action.moveType === 'joint' ? `${action.speed}%` : `${action.speed}mm/s`;
+      return `MOVE ${action.moveType === 'joint' ? 'P' : 'L'},S=${speed} → X ${x.toFixed(1)} Y ${y.toFixed(1)} Z ${z.toFixed(1)}`;
+    }
+    case 'setTool': return `TOOL ${action.toolName}`;
+    case 'addProgramStep': return `TEACH ${formatStep(action.step)}`;
+  }
+};
+
+// Joint targets of the planned moves (ghost preview in the scene)
+export const previewTargets = (actions: CopilotAction[]): JointState[] =>
+  actions.flatMap(action => (action.kind === 'move' ? [action.target] : []));
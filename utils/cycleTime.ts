@@ -0,0 +1,173 @@
+import { JointState, Pose, RobotDescription } from "../types";
+import { calculateForwardKinematics } from "./kinematics";
+import { planMove, MotionProfile } from "./motion";
+import { HS220S } from "./robotDescription";
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+
+// Sample period of the analysis (s)
+export const ANALYSIS_SAMPLE_TIME = 0.01;
+// A linear move whose TCP reaches this fraction of the programmed speed is limited by the TCP speed, not an axis
+const TCP_LIMIT_RATIO = 0.98;
+
+export interface CycleTarget {
+  label: string;
+  target: JointState;
+  moveType: 'joint' | 'linear';
+  speed?: number;  // % (joint) or mm/s (linear); default from the options
+  wait?: number;   // Dwell after arrival (s)
+}
+
+export interface CycleOptions {
+  speed?: number;        // Joint moves, % of the axis limits (default 100)
+  linearSpeed?: number;  // Linear moves, mm/s (default 1000)
+  profile?: MotionProfile;
+  tcp?: Pose;
+  robot?: RobotDescription;
+  closed?: boolean;      // Return from the last target to the first (a repeating cycle)
+}
+
+export interface MotionSample {
+  time: number;              // s since cycle start
+  joints: JointState;        // deg
+  velocity: JointState;      // deg/s
+  acceleration: JointState;  // deg/s^2
+  tcpSpeed: number;          // mm/s
+}
+
+// Axis that sets the duration of a segment, and how close it runs to its limit
+export interface SegmentLimit {
+  axis: keyof JointState;
+  kind: 'speed' | 'accel';
+  utilization: number;  // Peak |v| / vmax or |a| / amax of that axis (0 ~ 1)
+}
+
+export interface CycleSegment {
+  index: number;
+  from: string;
+  to: string;
+  moveType: 'joint' | 'linear';
+  startTime: number;  // s
+  duration: number;   // Motion time (s)
+  dwell: number;      // Wait at the target (s)
+  limit: SegmentLimit;
+  tcpLimited: boolean;  // Linear moves running at the programmed TCP speed
+  peakTcpSpeed: number; // mm/s
+}
+
+export interface CycleAnalysis {
+  segments: CycleSegment[];
+  samples: MotionSample[];
+  totalTime: number;  // s, motion + dwell
+}
+
+export interface CycleAnalysisResult {
+  analysis: CycleAnalysis | null;
+  error: string | null;
+}
+
+const zeroJoints = (): JointState => ({ j1: 0, j2: 0, j3: 0, j4: 0, j5: 0, j6: 0 });
+
+const tcpPosition = (joints: JointState, tcp?: Pose, robot?: RobotDescription) => {
+  const { x, y, z } = calculateForwardKinematics(joints, { tcp, robot });
+  return [x, y, z];
+};
+
+/**
+ * Estimates the cycle time of a target sequence with the motion planner
+ * 1. Each segment is planned exactly as playback would (profile, axis speed / acceleration limits, IK for linear moves)
+ * 2. The segment is sampled every ANALYSIS_SAMPLE_TIME; velocity and acceleration are central differences
+ *    (every move starts and ends at rest)
+ * 3. The limiting axis is the one running closest to its speed or acceleration limit
+ */
+export const analyzeCycle = (targets: CycleTarget[], options: CycleOptions = {}): CycleAnalysisResult => {
+  const { speed = 100, linearSpeed = 1000, profile = 'scurve', tcp, robot = HS220S, closed = false } = options;
+  if (targets.length < 2) return { analysis: null, error: 'Add at least two targets.' };
+
+  const points = closed ? [...targets, targets[0]] : targets;
+  const segments: CycleSegment[] = [];
+  const samples: MotionSample[] = [];
+  let time = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const plan = planMove(from.target, {
+      moveType: to.moveType,
+      target: to.target,
+      speed: to.speed ?? (to.moveType === 'joint' ? speed : linearSpeed),
+      profile,
+      tcp,
+      robot,
+    });
+    if (!plan.segment) {
+      return { analysis: null, error: `Segment ${i} (${from.label} → ${to.label}): ${plan.error ?? 'Move could not be planned.'}` };
+    }
+
+    // Joint + TCP samples (held at both ends: the robot is at rest before and after the move)
+    const { duration } = plan.segment;
+    const n = Math.max(2, Math.ceil(duration / ANALYSIS_SAMPLE_TIME));
+    const h = duration / n;
+    const joints = Array.from({ length: n + 1 }, (_, k) => plan.segment!.sample(k * h));
+    const positions = joints.map(j => tcpPosition(j, tcp, robot));
+    const at = <T>(list: T[], k: number) => list[Math.min(n, Math.max(0, k))];
+
+    const peakVelocity = zeroJoints();
+    const peakAccel = zeroJoints();
+    let peakTcpSpeed = 0;
+
+    joints.forEach((current, k) => {
+      if (i > 1 && k === 0) return;  // Same instant as the previous segment's end
+      const prev = at(joints, k - 1);
+      const next = at(joints, k + 1);
+      const velocity = zeroJoints();
+      const acceleration = zeroJoints();
+      if (h > 0) {
+        AXES.forEach(axis => {
+          velocity[axis] = (next[axis] - prev[axis]) / (2 * h);
+          acceleration[axis] = (next[axis] - 2 * current[axis] + prev[axis]) / (h * h);
+          peakVelocity[axis] = Math.max(peakVelocity[axis], Math.abs(velocity[axis]));
+          peakAccel[axis] = Math.max(peakAccel[axis], Math.abs(acceleration[axis]));
+        });
+      }
+      const [px, py, pz] = at(positions, k - 1);
+      const [nx, ny, nz] = at(positions, k + 1);
+      const tcpSpeed = h > 0 ? Math.hypot(nx - px, ny - py, nz - pz) / (2 * h) : 0;
+      peakTcpSpeed = Math.max(peakTcpSpeed, tcpSpeed);
+      samples.push({ time: time + k * h, joints: current, velocity, acceleration, tcpSpeed });
+    });
+
+    // Limiting axis
+    const limit = AXES.reduce<SegmentLimit>((best, axis) => {
+      const speedRatio = peakVelocity[axis] / robot.maxSpeed[axis];
+      const accelRatio = peakAccel[axis] / robot.maxAccel[axis];
+      const ratio = Math.max(speedRatio, accelRatio);
+      return ratio > best.utilization
+        ? { axis, kind: speedRatio >= accelRatio ? 'speed' : 'accel', utilization: ratio }
+        : best;
+    }, { axis: 'j1', kind: 'speed', utilization: 0 });
+    const programmedSpeed = to.speed ?? linearSpeed;
+
+    segments.push({
+      index: i,
+      from: from.label,
+      to: to.label,
+      moveType: to.moveType,
+      startTime: time,
+      duration,
+      dwell: to.wait ?? 0,
+      limit,
+      tcpLimited: to.moveType === 'linear' && peakTcpSpeed >= programmedSpeed * TCP_LIMIT_RATIO,
+      peakTcpSpeed,
+    });
+    time += duration;
+
+    // Dwell at rest
+    if (to.wait && to.wait > 0) {
+      time += to.wait;
+      samples.push({ time, joints: to.target, velocity: zeroJoints(), acceleration: zeroJoints(), tcpSpeed: 0 });
+    }
+  }
+
+  return { analysis: { segments, samples, totalTime: time }, error: null };
+};
@@ -0,0 +1,9 @@
+// Saves generated text (job files, exports) through a temporary download link
+export const downloadTextFile = (filename: string, text: string, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
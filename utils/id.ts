@@ -0,0 +1,3 @@
+// Short unique ids for user-created records (tools, steps, frames...)
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
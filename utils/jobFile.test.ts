@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { JointState, ProgramLine, ProgramStep, TCP_MAX_SPEED } from '../types';
+import { generateJobFile, parseJobFile } from './jobFile';
+import { calculateForwardKinematics } from './kinematics';
+import { plannerSpeed } from './program';
+
+const HI5_JOB = `Program File Format Version : 1.6  MechType: HS220S  TotalAxis: 6  AuxAxis: 0
+P1=(0.000,90.000,0.000,0.000,-90.000,0.000)A
+S1   MOVE P,S=60%,A=0,T=1  (10.000,80.000,5.000,0.000,-85.000,0.000)A
+*LOOP
+S2   MOVE L,P1,S=500mm/sec,A=3,T=1
+     DELAY 0.5
+     DO3=1
+     WAIT DI2=1
+S3   MOVE C,S=1.2m/sec,A=1,T=0  (-20.000,100.000,-10.000,30.000,-60.000,45.000)A
+     DELAY 1
+     GOTO *LOOP
+     END
+`;
+
+// Fields a round-trip keeps (line ids are new on every parse)
+const portable = ({ id, ...line }: ProgramLine) => line;
+
+describe('parseJobFile', () => {
+  it('reads moves, pose variables and control statements', () => {
+    const { program, warnings } = parseJobFile(HI5_JOB, { name: '0007' });
+    expect(warnings).toEqual([]);
+    expect(program.name).toBe('0007');
+    expect(program.lines.map(line => line.kind)).toEqual(['move', 'label', 'move', 'output', 'waitInput', 'move', 'goto', 'end']);
+
+    const [first, , second, , , third] = program.lines as ProgramStep[];
+    expect(first).toMatchObject({ moveType: 'joint', speed: 60, speedUnit: '%', accuracy: 0, tool: 1, wait: 0 });
+    expect(second).toMatchObject({ moveType: 'linear', speed: 500, speedUnit: 'mm/s', accuracy: 3, wait: 0.5, poseVariable: 'P1' });
+    expect(second.target).toEqual({ j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 });
+    expect(third).toMatchObject({ moveType: 'circular', speed: 1200, speedUnit: 'mm/s', tool: 0, wait: 1 });
+  });
+
+  it('solves Cartesian targets on the branch closest to the previous step', () => {
+    const joints: JointState = { j1: 20, j2: 100, j3: -15, j4: 10, j5: -70, j6: 5 };
+    const { x, y, z, rx, ry, rz } = calculateForwardKinematics(joints);
+    const text = `S1   MOVE P,S=50%,A=0,T=0  (${[x, y, z, rx, ry, rz].map(v => v.toFixed(3)).join(',')})R\n`;
+    const { program, warnings } = parseJobFile(text, { seed: joints });
+    expect(warnings).toEqual([]);
+    const target = (program.lines[0] as ProgramStep).target;
+    (Object.keys(joints) as Array<keyof JointState>).forEach(axis => expect(target[axis]).toBeCloseTo(joints[axis], 1));
+  });
+
+  it('warns about what it cannot read', () => {
+    const { program, warnings } = parseJobFile(
+      'S1   MOVE X,S=50%  (0,90,0,0,-90,0)A\nS2   MOVE P,P9,S=50%\nS3   MOVE P,S=2sec  (0,90,0,0,-90,0)A\nCALL 0002\nGOTO *MISSING\n',
+    );
+    // Line 2: undefined variable, then no target
+    expect(warnings.map(w => w.line)).toEqual([1, 2, 2, 3, 4, 5]);
+    expect(program.lines.map(line => line.kind)).toEqual(['move', 'goto']);
+  });
+});
+
+describe('generateJobFile', () => {
+  it.each(['hi5', 'hi6'] as const)('round-trips through the %s dialect', dialect => {
+    const { program } = parseJobFile(HI5_JOB);
+    const text = generateJobFile(program, dialect);
+    const reread = parseJobFile(text);
+    expect(reread.warnings).toEqual([]);
+    expect(reread.program.lines.map(portable)).toEqual(program.lines.map(portable));
+    // Stable once written
+    expect(generateJobFile(reread.program, dialect)).toBe(text);
+  });
+});
+
+describe('plannerSpeed', () => {
+  const step = (moveType: ProgramStep['moveType'], speed: number, speedUnit: ProgramStep['speedUnit']) =>
+    ({ moveType, speed, speedUnit }) as ProgramStep;
+
+  it('keeps the unit each move type plans in', () => {
+    expect(plannerSpeed(step('joint', 40, '%'))).toBe(40);
+    expect(plannerSpeed(step('linear', 800, 'mm/s'))).toBe(800);
+  });
+
+  it('converts between % and mm/s against the maximum TCP speed', () => {
+    expect(plannerSpeed(step('joint', TCP_MAX_SPEED / 2, 'mm/s'))).toBe(50);
+    expect(plannerSpeed(step('circular', 25, '%'))).toBe(TCP_MAX_SPEED / 4);
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  JointState,
+  JobProgram,
+  MoveType,
+  Pose,
+  ProgramLine,
+  ProgramStep,
+  RobotDescription,
+  SpeedUnit,
+  INITIAL_JOINTS,
+} from "../types";
+import { calculateInverseKinematics, selectClosestSolution, checkJointLimits } from "./kinematics";
+import { createStep, MOVE_TYPE_CODES } from "./program";
+import { createId } from "./id";
+
+// Hyundai Hi5 / Hi6 Job Files (Subset)
+// - MOVE P/L/C with S=/spd=, A=/accu=, T=/tool= and an inline pose or a pose variable (P1=...)
+// - Pose literals: (S,H,V,R2,B,R1)A = axis angles, (X,Y,Z,RX,RY,RZ)R = base Cartesian (solved with IK)
+// - DELAY, DO/WAIT DI, *LABEL / GOTO, END
+// Anything else is skipped with a line-numbered warning.
+
+export type JobDialect = 'hi5' | 'hi6';
+
+export interface JobFileWarning {
+  line: number;
+  message: string;
+}
+
+export interface JobParseResult {
+  program: JobProgram;
+  warnings: JobFileWarning[];
+}
+
+export interface JobParseOptions {
+  name?: string;
+  seed?: JointState; // Pose the robot starts from (picks the IK branch for Cartesian targets)
+  tcp?: Pose;        // Tool the Cartesian targets were taught with
+  robot?: RobotDescription; // Robot model the job runs on (default: HS220S)
+}
+
+interface PoseLiteral {
+  values: number[];
+  cartesian: boolean;
+}
+
+const MOVE_CODES: Record<string, MoveType> = { P: 'joint', L: 'linear', C: 'circular' };
+
+const HEADER_PATTERN = /^(Program File Format|Hyundai Robot Job File)/i;
+const POSE_VARIABLE_PATTERN = /^(P\[?\d+\]?)\s*=\s*(\([^)]*\)\s*[A-Za-z]?)\s*$/i;
+const POSE_LITERAL_PATTERN = /\(([^)]*)\)\s*([AR](?![\w=]))?/i;
+
+const normalizeVariable = (name: string) => name.toUpperCase().replace(/[[\]]/g, '');
+
+const parseOnOff = (value: string | undefined) => {
+  if (value === undefined) return 1;
+  const v = value.toUpperCase();
+  return v === 'ON' || v === '1' ? 1 : 0;
+};
+
+const parsePoseLiteral = (text: string): PoseLiteral | null => {
+  const m = text.match(POSE_LITERAL_PATTERN);
+  if (!m) return null;
+  // Hi5 Cartesian poses may carry a trailing configuration field; only the first 6 values are used
+  const values = m[1].split(',').slice(0, 6).map(v => parseFloat(v));
+  if (values.length < 6 || values.some(v => isNaN(v))) return null;
+  return { values, cartesian: (m[2] ?? 'R').toUpperCase() === 'R' };
+};
+
+const parseSpeed = (text: string, moveType: MoveType): { speed: number; speedUnit: SpeedUnit } | string => {
+  const m = text.trim().match(/^([\d.]+)\s*(%|mm\/sec|mm\/s|m\/sec|m\/s|sec|s)?$/i);
+  if (!m) return `Invalid speed "${text}"`;
+  const value = parseFloat(m[1]);
+  const unit = (m[2] ?? (moveType === 'joint' ? '%' : 'mm/s')).toLowerCase();
+  if (unit === '%') return { speed: value, speedUnit: '%' };
+  if (unit.startsWith('mm')) return { speed: value, speedUnit: 'mm/s' };
+  if (unit.startsWith('m/')) return { speed: value * 1000, speedUnit: 'mm/s' };
+  return `Time-based speed "${text}" is not supported`;
+};
+
+/**
+ * Job file text -> Program model
+ */
+export const parseJobFile = (text: string, options: JobParseOptions = {}): JobParseResult => {
+  const warnings: JobFileWarning[] = [];
+  const lines: ProgramLine[] = [];
+  const sourceLines = text.split(/\r?\n/);
+
+  // 1. Pose variable definitions (may appear after their first use)
+  const variables: Record<string, PoseLiteral> = {};
+  sourceLines.forEach((raw, idx) => {
+    const m = raw.trim().match(POSE_VARIABLE_PATTERN);
+    if (!m) return;
+    const literal = parsePoseLiteral(m[2]);
+    if (literal) {
+      variables[normalizeVariable(m[1])] = literal;
+    } else {
+      warnings.push({ line: idx + 1, message: `Invalid pose variable "${m[1]}".` });
+    }
+  });
+
+  let previousJoints = options.seed ?? INITIAL_JOINTS;
+
+  const resolveTarget = (literal: PoseLiteral, lineNo: number): JointState | null => {
+    const [a, b, c, d, e, f] = literal.values;
+    if (!literal.cartesian) {
+      const joints = { j1: a, j2: b, j3: c, j4: d, j5: e, j6: f };
+      if (checkJointLimits(joints, options.robot).length > 0) {
+        warnings.push({ line: lineNo, message: 'Target is outside the joint limits.' });
+      }
+      return joints;
+    }
+    const solutions = calculateInverseKinematics(
+      { x: a, y: b, z: c, rx: d, ry: e, rz: f },
+      { seed: previousJoints, tcp: options.tcp, robot: options.robot },
+    ).filter(s => s.withinLimits);
+    const best = selectClosestSolution(solutions, previousJoints);
+    if (!best) {
+      warnings.push({ line: lineNo, message: 'Cartesian target is unreachable. Step skipped.' });
+      return null;
+    }
+    return best.joints;
+  };
+
+  const parseMove = (body: string, lineNo: number): ProgramStep | null => {
+    const m = body.match(/^MOVE\s+([A-Z]+)\s*,?\s*(.*)$/i);
+    if (!m) {
+      warnings.push({ line: lineNo, message: `Invalid MOVE statement "${body}". Skipped.` });
+      return null;
+    }
+    const moveType = MOVE_CODES[m[1].toUpperCase()];
+    if (!moveType) {
+      warnings.push({ line: lineNo, message: `Interpolation "${m[1]}" is not supported. Skipped.` });
+      return null;
+    }
+
+    // Inline pose literal first (it contains commas), then the key=value parameters
+    let params = m[2];
+    let literal = parsePoseLiteral(params);
+    params = params.replace(POSE_LITERAL_PATTERN, '');
+
+    const step = createStep(previousJoints, moveType);
+    let poseVariable: string | undefined;
+
+    params.split(',').map(p => p.trim()).filter(Boolean).forEach(param => {
+      const [rawKey, rawValue] = param.split('=').map(p => p.trim());
+      const key = rawKey.toUpperCase();
+
+      // Hi6 "tg=(...)A": the inline pose was already taken out above
+      if (key === 'TG' && !rawValue) return;
+
+      if (rawValue === undefined || key === 'TG') {
+        // Bare pose variable ("P1") or Hi6 target ("tg=P1")
+        const name = normalizeVariable(rawValue ?? rawKey);
+        if (variables[name]) {
+          literal = variables[name];
+          poseVariable = name;
+        } else if (rawValue !== undefined || /^P\[?\d+\]?$/i.test(rawKey)) {
+          warnings.push({ line: lineNo, message: `Pose variable "${name}" is not defined.` });
+        } else {
+          warnings.push({ line: lineNo, message: `Unknown MOVE parameter "${param}" ignored.` });
+        }
+        return;
+      }
+
+      if (key === 'S' || key === 'SPD') {
+        const speed = parseSpeed(rawValue, moveType);
+        if (typeof speed === 'string') {
+          warnings.push({ line: lineNo, message: `${speed}. Default speed used.` });
+        } else {
+          step.speed = speed.speed;
+          step.speedUnit = speed.speedUnit;
+        }
+      } else if (key === 'A' || key === 'ACCU') {
+        const accuracy = parseInt(rawValue, 10);
+        if (accuracy >= 0 && accuracy <= 7) step.accuracy = accuracy;
+        else warnings.push({ line: lineNo, message: `Accuracy "${rawValue}" out of range (0-7).` });
+      } else if (key === 'T' || key === 'TOOL') {
+        const tool = parseInt(rawValue, 10);
+        if (!isNaN(tool)) step.tool = tool;
+      } else {
+        warnings.push({ line: lineNo, message: `Unknown MOVE parameter "${param}" ignored.` });
+      }
+    });
+
+    if (!literal) {
+      warnings.push({ line: lineNo, message: 'MOVE has no target pose. Skipped.' });
+      return null;
+    }
+    const target = resolveTarget(literal, lineNo);
+    if (!target) return null;
+
+    step.target = target;
+    step.poseVariable = poseVariable;
+    previousJoints = target;
+    return step;
+  };
+
+  // 2. Statements
+  sourceLines.forEach((raw, idx) => {
+    const lineNo = idx + 1;
+    // Comments start with an apostrophe
+    const body = raw.replace(/'.*$/, '').trim().replace(/^S\d+\s+/i, '');
+    if (!body || HEADER_PATTERN.test(body) || POSE_VARIABLE_PATTERN.test(body)) return;
+
+    let m: RegExpMatchArray | null;
+    const push = (statement: ProgramLine) => lines.push(statement);
+
+    if (/^MOVE\b/i.test(body)) {
+      const step = parseMove(body, lineNo);
+      if (step) push(step);
+    } else if ((m = body.match(/^DELAY\s+([\d.]+)$/i))) {
+      const seconds = parseFloat(m[1]);
+      // A DELAY right after a move is that step's dwell time
+      const last = lines[lines.length - 1];
+      if (last && last.kind === 'move' && last.wait === 0) {
+        last.wait = seconds;
+      } else {
+        push({ kind: 'delay', seconds, id: createId('line') });
+      }
+    } else if ((m = body.match(/^DO\[?(\d+)\]?\s*=\s*(\d+|ON|OFF)$/i))) {
+      push({ kind: 'output', port: parseInt(m[1], 10), value: parseOnOff(m[2]), id: createId('line') });
+    } else if ((m = body.match(/^WAIT\s+DI\[?(\d+)\]?(?:\s*=\s*(\d+|ON|OFF))?$/i))) {
+      push({ kind: 'waitInput', port: parseInt(m[1], 10), value: parseOnOff(m[2]), id: createId('line') });
+    } else if ((m = body.match(/^\*(\w+)$/))) {
+      push({ kind: 'label', label: m[1].toUpperCase(), id: createId('line') });
+    } else if ((m = body.match(/^GOTO\s+\*?(\w+)$/i))) {
+      push({ kind: 'goto', label: m[1].toUpperCase(), id: createId('line') });
+    } else if (/^END$/i.test(body)) {
+      push({ kind: 'end', id: createId('line') });
+    } else {
+      warnings.push({ line: lineNo, message: `Unsupported statement "${body}" skipped.` });
+    }
+  });
+
+  // 3. Jump targets
+  const labels = new Set(lines.filter(l => l.kind === 'label').map(l => (l.kind === 'label' ? l.label : '')));
+  sourceLines.forEach((raw, idx) => {
+    const m = raw.replace(/'.*$/, '').trim().match(/^GOTO\s+\*?(\w+)$/i);
+    if (m && !labels.has(m[1].toUpperCase())) {
+      warnings.push({ line: idx + 1, message: `GOTO target "*${m[1]}" is not defined.` });
+    }
+  });
+
+  warnings.sort((a, b) => a.line - b.line);
+  return {
+    program: { name: options.name ?? '0001', lines },
+    warnings,
+  };
+};
+
+// --- Generator ---
+
+const formatNumber = (value: number) => value.toFixed(3);
+
+const formatJoints = (j: JointState) =>
+  `(${[j.j1, j.j2, j.j3, j.j4, j.j5, j.j6].map(formatNumber).join(',')})A`;
+
+const sameJoints = (a: JointState, b: JointState) =>
+  (Object.keys(a) as Array<keyof JointState>).every(axis => Math.abs(a[axis] - b[axis]) < 1e-6);
+
+/**
+ * Program model -> Job file text
+ * - Targets are written as axis poses, so no IK is needed when the file is read back
+ * - Pose variables are kept when every step that uses them still shares the same target
+ */
+export const generateJobFile = (program: JobProgram, dialect: JobDialect = 'hi5'): string => {
+  const hi6 = dialect === 'hi6';
+  const kw = (word: string) => (hi6 ? word.toLowerCase() : word);
+  const out: string[] = [];
+
+  out.push(hi6
+    ? 'Hyundai Robot Job File; { version: 1.6, mech_type: "HS220S", total_axis: 6, aux_axis: 0 }'
+    : 'Program File Format Version : 1.6  MechType: HS220S  TotalAxis: 6  AuxAxis: 0');
+
+  // 1. Pose variables (First definition wins; diverged steps fall back to inline poses)
+  const variables: Record<string, JointState> = {};
+  program.lines.forEach(line => {
+    if (line.kind === 'move' && line.poseVariable && !variables[line.poseVariable]) {
+      variables[line.poseVariable] = line.target;
+    }
+  });
+  Object.entries(variables).forEach(([name, joints]) => out.push(`${name}=${formatJoints(joints)}`));
+
+  // 2. Statements
+  let stepNo = 0;
+  program.lines.forEach(line => {
+    const indent = '     ';
+    switch (line.kind) {
+      case 'move': {
+        stepNo++;
+        const speed = line.speedUnit === '%'
+          ? `${line.speed}%`
+          : `${line.speed}${hi6 ? 'mm/s' : 'mm/sec'}`;
+        const useVariable = line.poseVariable && sameJoints(variables[line.poseVariable], line.target);
+        const pose = useVariable ? line.poseVariable : formatJoints(line.target);
+        const tool = line.tool ?? 0;
+        const code = MOVE_TYPE_CODES[line.moveType];
+        const prefix = `S${stepNo}`.padEnd(5);
+        if (hi6) {
+          out.push(`${prefix}move ${code},tg=${pose},spd=${speed},accu=${line.accuracy},tool=${tool}`);
+        } else if (useVariable) {
+          out.push(`${prefix}MOVE ${code},${pose},S=${speed},A=${line.accuracy},T=${tool}`);
+        } else {
+          out.push(`${prefix}MOVE ${code},S=${speed},A=${line.accuracy},T=${tool}  ${pose}`);
+        }
+        if (line.wait > 0) out.push(`${indent}${kw('DELAY')} ${line.wait}`);
+        break;
+      }
+      case 'delay': out.push(`${indent}${kw('DELAY')} ${line.seconds}`); break;
+      case 'output': out.push(`${indent}${kw('DO')}${line.port}=${line.value}`); break;
+      case 'waitInput': out.push(`${indent}${kw('WAIT')} ${kw('DI')}${line.port}=${line.value}`); break;
+      case 'label': out.push(`*${line.label}`); break;
+      case 'goto': out.push(`${indent}${kw('GOTO')} *${line.label}`); break;
+      case 'end': out.push(`${indent}${kw('END')}`); break;
+    }
+  });
+
+  const last = program.lines[program.lines.length - 1];
+  if (!last || last.kind !== 'end') out.push(`     ${kw('END')}`);
+
+  return out.join('\n') + '\n';
+};
@@ -0,0 +1,154 @@
+import { JointState, Pose, ArmConfiguration, RobotDescription } from "../types";
+import {
+  calculateForwardKinematics,
+  calculateInverseKinematics,
+  selectClosestSolution,
+  jointDistance,
+  detectSingularity,
+  SINGULARITY_WARNING_DEG,
+  SINGULARITY_STOP_DEG,
+} from "./kinematics";
+import {
+  Matrix4,
+  multiplyMatrices,
+  translationMatrix,
+  rotationX,
+  rotationY,
+  rotationZ,
+  identityMatrix,
+  poseToMatrix,
+  matrixToPose,
+  invertTransform,
+} from "./transform";
+
+export type JogFrame = 'base' | 'tool' | 'user';
+export type CartesianAxis = 'x' | 'y' | 'z' | 'rx' | 'ry' | 'rz';
+
+export interface JogStep {
+  linear: number;  // mm per click
+  angular: number; // deg per click
+}
+
+export interface JogOptions {
+  userFrame?: Pose; // User frame relative to base (used when frame = 'user')
+  tcp?: Pose;       // Active tool TCP in the flange frame
+  robot?: RobotDescription; // Default: HS220S
+}
+
+// Either the solved joints, or the reason the jog was stopped
+export interface JogResult {
+  joints: JointState | null;
+  error: string | null;
+}
+
+// A Cartesian step that needs more than this on any axis is a branch jump, not a jog
+const MAX_JOINT_STEP_DEG = 10.0;
+
+const AXIS_CODES: Record<keyof JointState, string> = {
+  j1: 'S', j2: 'H', j3: 'V', j4: 'R2', j5: 'B', j6: 'R1',
+};
+
+const SINGULARITY_LABELS = {
+  wrist: 'Wrist singularity (B near 0°)',
+  shoulder: 'Shoulder singularity (wrist center over the S axis)',
+  elbow: 'Elbow singularity (arm fully stretched)',
+};
+
+// Step expressed in the jog frame's own axes
+const deltaTransform = (axis: CartesianAxis, amount: number): Matrix4 => {
+  const rad = (amount * Math.PI) / 180.0;
+  switch (axis) {
+    case 'x': return translationMatrix(amount, 0, 0);
+    case 'y': return translationMatrix(0, amount, 0);
+    case 'z': return translationMatrix(0, 0, amount);
+    case 'rx': return rotationX(rad);
+    case 'ry': return rotationY(rad);
+    case 'rz': return rotationZ(rad);
+  }
+};
+
+// Rotation part only (Frame axes without the origin)
+const rotationOnly = (m: Matrix4): Matrix4 => [
+  [m[0][0], m[0][1], m[0][2], 0],
+  [m[1][0], m[1][1], m[1][2], 0],
+  [m[2][0], m[2][1], m[2][2], 0],
+  [0, 0, 0, 1],
+];
+
+const sameBranch = (a: ArmConfiguration, b: ArmConfiguration) =>
+  a.front === b.front && a.elbowUp === b.elbowUp && a.flip === b.flip;
+
+/**
+ * One Cartesian jog step solved with IK from the current joints
+ * - Base / User frame: translate along the frame axes, rotate about the frame axes through the TCP
+ * - Tool frame: translate / rotate in the TCP frame
+ * - Stays on the current solution branch; stops at joint limits and singularities
+ */
+export const jogCartesian = (
+  joints: JointState,
+  axis: CartesianAxis,
+  direction: 1 | -1,
+  step: JogStep,
+  frame: JogFrame,
+  options: JogOptions = {},
+): JogResult => {
+  const { userFrame, tcp, robot } = options;
+  const isLinear = axis === 'x' || axis === 'y' || axis === 'z';
+  const delta = deltaTransform(axis, direction * (isLinear ? step.linear : step.angular));
+  const current = calculateForwardKinematics(joints, { tcp, robot }).matrix;
+
+  // 1. Target flange transform
+  let target: Matrix4;
+  if (frame === 'tool') {
+    target = multiplyMatrices(current, delta);
+  } else {
+    const axes = frame === 'user' && userFrame ? rotationOnly(poseToMatrix(userFrame)) : identityMatrix();
+    const pivot = translationMatrix(current[0][3], current[1][3], current[2][3]);
+    // Express the step in the frame axes, applied about the current TCP point
+    const worldDelta = multiplyMatrices(axes, delta, invertTransform(axes));
+    target = multiplyMatrices(pivot, worldDelta, invertTransform(pivot), current);
+  }
+
+  // 2. Solve and stay on the current branch
+  const currentBranch = selectClosestSolution(
+    calculateInverseKinematics(matrixToPose(current), { seed: joints, tcp, robot }),
+    joints,
+  );
+  const candidates = calculateInverseKinematics(matrixToPose(target), { seed: joints, tcp, robot })
+    .filter((s) => !currentBranch || sameBranch(s.configuration, currentBranch.configuration));
+  const solution = selectClosestSolution(candidates, joints);
+
+  if (!solution) {
+    return { joints: null, error: 'Target is out of reach.' };
+  }
+
+  // 3. Singularity: the branch needs a large joint swing for a small Cartesian step
+  if (jointDistance(solution.joints, joints) > MAX_JOINT_STEP_DEG) {
+    const singularity =
+      detectSingularity(solution.joints, SINGULARITY_WARNING_DEG, robot) ??
+      detectSingularity(joints, SINGULARITY_WARNING_DEG, robot);
+    return {
+      joints: null,
+      error: singularity
+        ? `${SINGULARITY_LABELS[singularity]}. Jog in joint mode to move away.`
+        : 'Step requires a large joint motion. Jog in joint mode to move away.',
+    };
+  }
+
+  // Entering the stop zone around a singularity (leaving one is allowed)
+  const entering = detectSingularity(solution.joints, SINGULARITY_STOP_DEG, robot);
+  if (entering && entering !== detectSingularity(joints, SINGULARITY_STOP_DEG, robot)) {
+    return { joints: null, error: `${SINGULARITY_LABELS[entering]}. Jog in joint mode to pass through.` };
+  }
+
+  // 4. Joint limits
+  if (!solution.withinLimits) {
+    const v = solution.violations[0];
+    return {
+      joints: null,
+      error: `${AXIS_CODES[v.axis]} limit reached (${v.bound}°, exceeded by ${v.excess.toFixed(2)}°).`,
+    };
+  }
+
+  return { joints: solution.joints, error: null };
+};
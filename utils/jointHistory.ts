@@ -0,0 +1,69 @@
+import { JointState } from "../types";
+
+// Who changed the joints: pendant sliders / jog, preset buttons, copilot plans, job playback, cell panel moves, bridge clients
+export type JointChangeSource = 'initial' | 'slider' | 'preset' | 'ai' | 'program' | 'cell' | 'remote';
+
+export interface JointHistoryEntry {
+  id: number;
+  joints: JointState;
+  source: JointChangeSource;
+  time: number;  // ms since epoch
+}
+
+// Entries oldest first; cursor = entry the robot currently shows (undo moves it back, redo forward)
+export interface JointHistory {
+  entries: JointHistoryEntry[];
+  cursor: number;
+}
+
+export const HISTORY_LIMIT = 200;
+// Consecutive slider / jog changes closer than this become one entry (a drag is one command)
+export const COALESCE_MS = 600;
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const EPSILON_DEG = 1e-6;
+
+const sameJoints = (a: JointState, b: JointState) => AXES.every(axis => Math.abs(a[axis] - b[axis]) < EPSILON_DEG);
+
+let nextEntryId = 1;
+
+export const createJointHistory = (joints: JointState, time = Date.now()): JointHistory => ({
+  entries: [{ id: 0, joints: { ...joints }, source: 'initial', time }],
+  cursor: 0,
+});
+
+/**
+ * Records a joint change
+ * - Drops the redo tail (entries after the cursor)
+ * - No-op when the joints equal the current entry
+ * - Slider changes within COALESCE_MS of the previous slider entry replace it
+ * - Keeps the newest HISTORY_LIMIT entries
+ */
+export const pushJointHistory = (
+  history: JointHistory,
+  joints: JointState,
+  source: JointChangeSource,
+  time = Date.now()
+): JointHistory => {
+  const entries = history.entries.slice(0, history.cursor + 1);
+  const last = entries[entries.length - 1];
+  if (last && sameJoints(last.joints, joints)) return history;
+
+  if (last && source === 'slider' && last.source === 'slider' && time - last.time < COALESCE_MS) {
+    entries[entries.length - 1] = { ...last, joints: { ...joints }, time };
+  } else {
+    entries.push({ id: nextEntryId++, joints: { ...joints }, source, time });
+  }
+
+  const trimmed = entries.slice(-HISTORY_LIMIT);
+  return { entries: trimmed, cursor: trimmed.length - 1 };
+};
+
+// Moves the cursor (undo = -1, redo = +1, timeline scrub = any index); null when nothing changes
+export const seekJointHistory = (history: JointHistory, index: number): JointHistory | null => {
+  const cursor = Math.max(0, Math.min(history.entries.length - 1, index));
+  return cursor === history.cursor ? null : { ...history, cursor };
+};
+
+export const canUndo = (history: JointHistory) => history.cursor > 0;
+export const canRedo = (history: JointHistory) => history.cursor < history.entries.length - 1;
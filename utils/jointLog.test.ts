@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_JOINTS } from '../types';
+import { appendJointLogSample, checkJointLog, jointLogAt, jointLogToCsv, parseJointLog } from './jointLog';
+import { HS220S } from './robotDescription';
+
+describe('parseJointLog', () => {
+  it('reads seconds, skips comments and rebases the time to 0', () => {
+    const { samples, error } = parseJointLog(
+      '# controller export\ntime,S,H,V,R2,B,R1\n10.0,0,90,0,0,-90,0\n\n10.5;1;90;0;0;-90;0  # first step\n11.0\t2\t91\t0\t0\t-90\t0\n',
+    );
+    expect(error).toBeNull();
+    expect(samples.map(s => s.time)).toEqual([0, 0.5, 1]);
+    expect(samples[2].joints).toEqual({ j1: 2, j2: 91, j3: 0, j4: 0, j5: -90, j6: 0 });
+  });
+
+  it('scales milliseconds named in the header', () => {
+    const { samples } = parseJointLog('time_ms S H V R2 B R1\n2000 0 90 0 0 -90 0\n2250 0 90 0 0 -90 0\n');
+    expect(samples.map(s => s.time)).toEqual([0, 0.25]);
+  });
+
+  it.each([
+    ['time,S,H,V,R2,B,R1\n0,0,90,0,0,-90\n', /Line 2: expected a time followed by 6 joint values/],
+    ['0,0,90,0,0,-90,0\n1,0,90,x,0,-90,0\n', /Line 2: expected/],
+    ['1,0,90,0,0,-90,0\n0.5,0,90,0,0,-90,0\n', /Line 2: time runs backwards/],
+    ['# nothing\n', /No samples found/],
+  ])('rejects %j', (text, message) => {
+    const { samples, error } = parseJointLog(text);
+    expect(samples).toEqual([]);
+    expect(error).toMatch(message);
+  });
+
+  it('round-trips through CSV', () => {
+    const samples = [0, 0.016, 0.033].map((time, i) => ({ time, joints: { ...INITIAL_JOINTS, j1: i * 0.5, j6: 90 - i * 1.25 } }));
+    expect(parseJointLog(jointLogToCsv(samples))).toEqual({ samples, error: null });
+  });
+});
+
+describe('jointLogAt', () => {
+  const samples = [
+    { time: 0, joints: INITIAL_JOINTS },
+    { time: 1, joints: { ...INITIAL_JOINTS, j1: 10 } },
+  ];
+
+  it('interpolates between samples and holds outside', () => {
+    expect(jointLogAt(samples, 0.25).j1).toBeCloseTo(2.5, 9);
+    expect(jointLogAt(samples, -1)).toEqual(INITIAL_JOINTS);
+    expect(jointLogAt(samples, 5).j1).toBe(10);
+  });
+});
+
+describe('checkJointLog', () => {
+  it('flags samples outside the limits and steps faster than the axis', () => {
+    const fast = HS220S.maxSpeed.j1 * 0.1 * 2; // Twice the limit over 0.1 s
+    const issues = checkJointLog([
+      { time: 0, joints: INITIAL_JOINTS },
+      { time: 0.1, joints: { ...INITIAL_JOINTS, j1: fast } },
+      { time: 0.2, joints: { ...INITIAL_JOINTS, j1: fast, j2: HS220S.limits.j2.max + 1 } },
+      { time: 0.2, joints: { ...INITIAL_JOINTS, j1: fast, j2: HS220S.limits.j2.max + 2 } },
+    ]);
+    expect(issues.map(({ index, axis, kind }) => ({ index, axis, kind }))).toEqual([
+      { index: 1, axis: 'j1', kind: 'jump' },
+      { index: 2, axis: 'j2', kind: 'limit' },
+      { index: 2, axis: 'j2', kind: 'jump' },
+      { index: 3, axis: 'j2', kind: 'limit' },
+      { index: 3, axis: 'j2', kind: 'jump' },
+    ]);
+  });
+
+  it('passes a slow log within the limits', () => {
+    const samples = [0, 1, 2].map(time => ({ time, joints: { ...INITIAL_JOINTS, j1: time * 10 } }));
+    expect(checkJointLog(samples)).toEqual([]);
+  });
+});
+
+describe('appendJointLogSample', () => {
+  it('keeps only the first and last sample of a standstill', () => {
+    const moved = { ...INITIAL_JOINTS, j1: 1 };
+    const samples = [0, 1, 2, 3].reduce(
+      (acc, time) => appendJointLogSample(acc, time, INITIAL_JOINTS),
+      appendJointLogSample([], -1, moved),
+    );
+    expect(samples.map(s => s.time)).toEqual([-1, 0, 3]);
+  });
+});
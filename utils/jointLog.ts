@@ -0,0 +1,165 @@
+import { JointState, Pose, RobotDescription, Vector3 } from "../types";
+import { calculateForwardKinematics } from "./kinematics";
+import { HS220S } from "./robotDescription";
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const AXIS_LABELS: Record<keyof JointState, string> = { j1: 'S', j2: 'H', j3: 'V', j4: 'R2', j5: 'B', j6: 'R1' };
+
+// A step is a jump when it implies more than this multiple of the axis speed limit
+const JUMP_SPEED_FACTOR = 1.1;
+// Recordings stop growing here (~8 min at 60 fps)
+export const RECORDING_LIMIT = 30_000;
+
+export interface JointLogSample {
+  time: number;        // s since the first sample
+  joints: JointState;  // deg
+}
+
+export interface JointLogParseResult {
+  samples: JointLogSample[];
+  error: string | null;
+}
+
+export interface JointLogIssue {
+  index: number;  // Sample index
+  time: number;   // s
+  axis: keyof JointState;
+  kind: 'limit' | 'jump';
+  message: string;
+}
+
+// --- [1] CSV Import / Export ---
+
+/**
+ * Reads a controller joint log, one sample per line:
+ *   time S H V R2 B R1
+ * - Comma, semicolon, tab or space separated; blank lines, # comments and header lines are skipped
+ * - Time in seconds, or milliseconds when the header names it so (time_ms, t[ms], ...); rebased to start at 0
+ * - Time must not run backwards
+ */
+export const parseJointLog = (text: string): JointLogParseResult => {
+  const samples: JointLogSample[] = [];
+  const lines = text.split(/\r?\n/);
+  let timeScale = 1;
+  let start = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/#.*$/, '').trim();
+    if (!line) continue;
+    const fields = line.split(/[\s,;]+/).filter(Boolean);
+    // Header row (time,S,H,... or t,J1,J2,...)
+    if (samples.length === 0 && isNaN(Number(fields[0]))) {
+      if (/ms|msec|milli/i.test(fields[0])) timeScale = 0.001;
+      continue;
+    }
+
+    const values = fields.map(Number);
+    if (values.some(isNaN) || values.length !== 7) {
+      return { samples: [], error: `Line ${i + 1}: expected a time followed by 6 joint values (S H V R2 B R1).` };
+    }
+    if (samples.length === 0) start = values[0];
+    const time = (values[0] - start) * timeScale;
+    if (samples.length > 0 && time < samples[samples.length - 1].time) {
+      return { samples: [], error: `Line ${i + 1}: time runs backwards (${values[0]}).` };
+    }
+    const joints = AXES.reduce((acc, axis, idx) => ({ ...acc, [axis]: values[idx + 1] }), {} as JointState);
+    samples.push({ time, joints });
+  }
+
+  if (samples.length === 0) return { samples: [], error: 'No samples found.' };
+  return { samples, error: null };
+};
+
+export const jointLogToCsv = (samples: JointLogSample[]): string => {
+  const rows = samples.map(s => [s.time.toFixed(3), ...AXES.map(axis => s.joints[axis].toFixed(3))].join(','));
+  return ['time,S,H,V,R2,B,R1', ...rows].join('\n') + '\n';
+};
+
+// --- [2] Replay ---
+
+export const jointLogDuration = (samples: JointLogSample[]) => (samples.length > 0 ? samples[samples.length - 1].time : 0);
+
+/**
+ * Index of the last sample at or before the given time (binary search)
+ */
+export const sampleIndexAt = (samples: JointLogSample[], time: number): number => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (samples[mid].time <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+/**
+ * Joints at any time of the log (linear between samples, held outside)
+ */
+export const jointLogAt = (samples: JointLogSample[], time: number): JointState => {
+  const i = sampleIndexAt(samples, time);
+  const a = samples[i];
+  const b = samples[i + 1];
+  if (!b || b.time <= a.time || time <= a.time) return a.joints;
+  const t = Math.min(1, (time - a.time) / (b.time - a.time));
+  return AXES.reduce((acc, axis) => ({ ...acc, [axis]: a.joints[axis] + (b.joints[axis] - a.joints[axis]) * t }), {} as JointState);
+};
+
+/**
+ * TCP position of every sample (Base frame, mm)
+ */
+export const jointLogPath = (samples: JointLogSample[], options: { tcp?: Pose; robot?: RobotDescription } = {}): Vector3[] =>
+  samples.map(s => {
+    const { x, y, z } = calculateForwardKinematics(s.joints, options);
+    return { x, y, z };
+  });
+
+// --- [3] Checks ---
+
+/**
+ * Flags samples outside the joint limits of the model, and steps faster than the axis can move
+ * (zero time steps count as jumps whenever the joint changes)
+ */
+export const checkJointLog = (samples: JointLogSample[], robot: RobotDescription = HS220S): JointLogIssue[] => {
+  const issues: JointLogIssue[] = [];
+  samples.forEach((sample, index) => {
+    AXES.forEach(axis => {
+      const value = sample.joints[axis];
+      const { min, max } = robot.limits[axis];
+      if (value < min || value > max) {
+        issues.push({
+          index, time: sample.time, axis, kind: 'limit',
+          message: `${AXIS_LABELS[axis]} ${value.toFixed(1)}° outside ${min}° ~ ${max}°`,
+        });
+      }
+      if (index === 0) return;
+      const previous = samples[index - 1];
+      const step = Math.abs(value - previous.joints[axis]);
+      const dt = sample.time - previous.time;
+      if (step > 0 && (dt <= 0 || step / dt > robot.maxSpeed[axis] * JUMP_SPEED_FACTOR)) {
+        issues.push({
+          index, time: sample.time, axis, kind: 'jump',
+          message: `${AXIS_LABELS[axis]} jumps ${step.toFixed(1)}° in ${(dt * 1000).toFixed(0)} ms` +
+            (dt > 0 ? ` (${(step / dt).toFixed(0)}°/s, limit ${robot.maxSpeed[axis]}°/s)` : ''),
+        });
+      }
+    });
+  });
+  return issues;
+};
+
+// --- [4] Recording (simulated motion in the log format) ---
+
+/**
+ * Appends a frame; runs of unchanged joints keep only their first and last sample
+ */
+export const appendJointLogSample = (samples: JointLogSample[], time: number, joints: JointState): JointLogSample[] => {
+  const same = (a: JointState, b: JointState) => AXES.every(axis => a[axis] === b[axis]);
+  const last = samples[samples.length - 1];
+  const beforeLast = samples[samples.length - 2];
+  if (last && beforeLast && same(last.joints, joints) && same(beforeLast.joints, joints)) {
+    return [...samples.slice(0, -1), { time, joints }];
+  }
+  if (samples.length >= RECORDING_LIMIT) return samples;
+  return [...samples, { time, joints }];
+};
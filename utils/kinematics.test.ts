@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { JointState, Pose } from '../types';
+import { calculateForwardKinematics, calculateInverseKinematics, selectClosestSolution } from './kinematics';
+import { quaternionAngle } from './transform';
+
+const pose = (j2: number, j5: number): JointState => ({ j1: 0, j2, j3: 0, j4: 0, j5, j6: 0 });
+
+// Controller readouts of the HS220S (flange, base frame)
+const CONTROLLER_POSES = [
+  { name: 'Pose 1 (H=90, B=-90)', joints: pose(90, -90), x: 1562, z: 1718 },
+  { name: 'Pose 2 (H=155, B=0)', joints: pose(155, 0), x: -272, z: 2502 },
+  { name: 'Pose 3 (H=10, B=0)', joints: pose(10, 0), x: 1877, z: -608 },
+];
+
+describe('calculateForwardKinematics', () => {
+  it.each(CONTROLLER_POSES)('matches the controller at $name', ({ joints, x, z }) => {
+    const fk = calculateForwardKinematics(joints);
+    expect(Math.abs(fk.x - x)).toBeLessThan(1);
+    expect(Math.abs(fk.y)).toBeLessThan(1e-6);
+    expect(Math.abs(fk.z - z)).toBeLessThan(1);
+  });
+});
+
+// Spread over the workspace, away from the wrist singularity (B = 0) so every branch is unique
+const ROUND_TRIP_JOINTS: JointState[] = [
+  { j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 },
+  { j1: 35, j2: 120, j3: -40, j4: 60, j5: 45, j6: -30 },
+  { j1: -120, j2: 40, j3: 20, j4: -150, j5: -70, j6: 200 },
+  { j1: 170, j2: 140, j3: -120, j4: 300, j5: 110, j6: -300 },
+  { j1: -60, j2: 15, j3: 60, j4: 10, j5: -20, j6: 45 },
+];
+const ANGLE_TOLERANCE = (0.02 * Math.PI) / 180;  // rad
+const TCP: Pose = { x: 30, y: -20, z: 250, rx: 0, ry: 15, rz: 90 };
+
+const maxJointError = (a: JointState, b: JointState) =>
+  Math.max(...(Object.keys(a) as Array<keyof JointState>).map(axis => Math.abs(a[axis] - b[axis])));
+
+describe('calculateInverseKinematics', () => {
+  it.each(ROUND_TRIP_JOINTS.flatMap(joints => [{ joints, tcp: undefined }, { joints, tcp: TCP }]))(
+    'recovers the joints of FK($joints) with tcp $tcp',
+    ({ joints, tcp }) => {
+      const pose = calculateForwardKinematics(joints, { tcp });
+      const solutions = calculateInverseKinematics(pose, { tcp, seed: joints });
+      expect(solutions.length).toBeGreaterThan(0);
+
+      // The original joints are one of the branches (FK rounds RX/RY/RZ to 0.01°)
+      const best = selectClosestSolution(solutions, joints);
+      expect(maxJointError(best!.joints, joints)).toBeLessThan(0.05);
+
+      // Every branch reaches the same pose
+      solutions.forEach(solution => {
+        const reached = calculateForwardKinematics(solution.joints, { tcp });
+        expect(Math.hypot(reached.x - pose.x, reached.y - pose.y, reached.z - pose.z)).toBeLessThan(1e-6);
+        expect(quaternionAngle(reached.quaternion, pose.quaternion)).toBeLessThan(ANGLE_TOLERANCE);
+      });
+    },
+  );
+
+  it('returns no solution out of reach', () => {
+    expect(calculateInverseKinematics({ x: 5000, y: 0, z: 1000, rx: 180, ry: 0, rz: 180 })).toEqual([]);
+  });
+});
@@ -1,112 +1,109 @@
 
-import { JointState, Pose } from "../types";
+import { JointState, Pose, RobotDescription, JointLimitViolation, IKSolution, SingularityType } from "../types";
+import { HS220S } from "./robotDescription";
+import {
+  Matrix4,
+  multiplyMatrices,
+  translationMatrix,
+  rotationX,
+  rotationY,
+  rotationZ,
+  poseToMatrix,
+  matrixToPose,
+  matrixToQuaternion,
+  invertTransform,
+  Quaternion,
+} from "./transform";
+import { symmetricEigenvalues } from "./linalg";
 
 // Helper: Degrees to Radians
 const d2r = (deg: number) => (deg * Math.PI) / 180.0;
 // Helper: Radians to Degrees
 const r2d = (rad: number) => (rad * 180.0) / Math.PI;
 
-// --- [1] Calibrated Dimensions (Refined from Pose 1, 2, 3) ---
-// Pose 1(Vertical) and Pose 3(Stretch) analysis suggests slightly different effective lengths.
-// These values are optimized to minimize error across all 3 poses.
-const DIMS = {
-  d1: 643.0,   // Base Height (Fixed from Pose 1)
-  a1: 352.0,   // Axis 1 Forward Offset (Fixed from Pose 1)
-  
-  // Adjusted Dimensions based on Pose 2 (Back-flip) & Pose 3 (Low-reach)
-  a2: 1075.0,  // Link 2 (Lower Arm) - Standard Spec
-  a3: 1210.0,  // Link 3 (Upper Arm) - Standard Spec
-  d4: 0.0,     // Tool Length (Flange center)
-  
-  // Angle Offsets (Software 0 vs Kinematic 0)
-  // Hyundai robots typically have J2 vertical at 90, J3 horizontal at 0 relative to J2
-  j2_offset_deg: 0.0,   
-  j3_offset_deg: -90.0  // Critical: Compensates for the "L" shape when V=0
-};
+// --- [1] Dimensions ---
+// Link lengths and zero offsets come from the robot description (default: the calibrated HS220S).
+type Dimensions = RobotDescription['kinematics'];
 
 const cleanFloat = (num: number) => {
   if (Math.abs(num) < 0.001) return 0.0;
   return parseFloat(num.toFixed(2));
 };
 
+// --- [2] Homogeneous Transform Chain ---
+// Local X runs along each link. H/V/B pitch about the local Y axis (negative sense so that
+// positive angles lift the arm), R2/R1 roll about the link axis in the same sense as RobotModel.
+
+// Base -> Upper arm frame (S, H, V applied; X along the upper arm, origin at the V axis)
+const armTransform = (S: number, H: number, V: number, DIMS: Dimensions): Matrix4 =>
+  multiplyMatrices(
+    rotationZ(S),
+    translationMatrix(DIMS.a1, 0, DIMS.d1),
+    rotationY(-(H + d2r(DIMS.j2OffsetDeg))),
+    translationMatrix(DIMS.a2, 0, 0),
+    rotationY(-(V + d2r(DIMS.j3OffsetDeg))),
+  );
+
+// Upper arm frame -> Flange frame (Z = tool approach direction)
+const wristTransform = (R2: number, B: number, R1: number, DIMS: Dimensions): Matrix4 =>
+  multiplyMatrices(
+    rotationX(-R2),
+    translationMatrix(DIMS.a3, 0, 0),
+    rotationY(-B),
+    rotationX(-R1),
+    translationMatrix(DIMS.d4, 0, 0),
+    rotationY(Math.PI / 2),
+  );
+
+/**
+ * Partial chains for bulk sampling (workspace envelope): Base -> Upper arm and Upper arm -> Flange
+ * FK(joints) = calculateArmTransform(joints) * calculateWristTransform(joints)
+ */
+export const calculateArmTransform = (joints: JointState, robot: RobotDescription = HS220S): Matrix4 =>
+  armTransform(d2r(joints.j1), d2r(joints.j2), d2r(joints.j3), robot.kinematics);
+
+export const calculateWristTransform = (joints: JointState, robot: RobotDescription = HS220S): Matrix4 =>
+  wristTransform(d2r(joints.j4), d2r(joints.j5), d2r(joints.j6), robot.kinematics);
+
+export interface KinematicsConfig {
+  // Active tool TCP in the flange frame (omit to report the flange itself)
+  tcp?: Pose;
+  // Robot model (default: HS220S)
+  robot?: RobotDescription;
+}
+
+export interface ForwardKinematicsResult extends Pose {
+  matrix: Matrix4;        // Base -> TCP homogeneous transform
+  quaternion: Quaternion; // Flange orientation (w, x, y, z)
+}
+
 /**
- * Advanced Forward Kinematics for HS220S
- * - Uses calibrated DH parameters
- * - Handles singularity and back-flip orientation robustly
+ * Advanced Forward Kinematics (HS220S unless config.robot is given)
+ * - Uses the DH parameters of the robot description
+ * - Full homogeneous chain: R2 (J4) and R1 (J6) roll the flange frame
+ * - Reports the active tool TCP when config.tcp is given
+ * - RX/RY/RZ follow the controller convention (R = Rz * Ry * Rx), so the
+ *   calibration poses read RX=180/RZ=180 in front reach and RX=0/RZ=0 in back reach
  */
-export const calculateForwardKinematics = (joints: JointState): Pose => {
+export const calculateForwardKinematics = (
+  joints: JointState,
+  config: KinematicsConfig = {},
+): ForwardKinematicsResult => {
   // 1. Convert Input to Radians
   const S = d2r(joints.j1);
   const H = d2r(joints.j2);
   const V = d2r(joints.j3);
+  const R2 = d2r(joints.j4);
   const B = d2r(joints.j5);
-  // R2 (J4) and R1 (J6) are ignored for position/pitch but needed for full rotation matrix
-  // const R2 = d2r(joints.j4);
-  // const R1 = d2r(joints.j6);
-
-  // 2. Kinematic Angle Calculation (Geometric)
-  // Theta 2: H axis (No offset needed as H=90 is vertical calculation base)
-  const theta_2 = H; 
-  
-  // Theta 3: V axis (Needs -90 offset because V=0 means 'perpendicular' to H)
-  const theta_3 = H + V + d2r(DIMS.j3_offset_deg);
-  
-  // Theta 4: B axis (Global Pitch Accumulation)
-  const theta_4 = H + V + B + d2r(DIMS.j3_offset_deg);
-
-  // 3. Position Calculation (XYZ)
-  // Projected radius on XY plane
-  const r_xy = DIMS.a1 + 
-               DIMS.a2 * Math.cos(theta_2) + 
-               DIMS.a3 * Math.cos(theta_3) + 
-               DIMS.d4 * Math.cos(theta_4);
-
-  const x = Math.cos(S) * r_xy;
-  const y = Math.sin(S) * r_xy;
-  const z = DIMS.d1 + 
-            DIMS.a2 * Math.sin(theta_2) + 
-            DIMS.a3 * Math.sin(theta_3) + 
-            DIMS.d4 * Math.sin(theta_4);
-
-  // 4. Orientation Calculation (Ry - Pitch)
-  // We calculate the logical pitch based on the kinematic chain
-  const global_pitch_deg = r2d(theta_4);
-
-  let rx = 0.0;
-  let ry = 0.0;
-  let rz = 0.0;
-
-  // Improved Orientation Logic:
-  // Instead of checking x >= 0, we check the effective 'reach direction'.
-  // If the arm is reaching 'backwards' (relative to S axis rotation), coordinate flips.
-  
-  // Logic: 
-  // If r_xy is positive, Robot is reaching front -> Standard Frame (Rx=180)
-  // If r_xy is negative, Robot is reaching back -> Flipped Frame (Rx=0)
-  // This handles the case where X is negative but S is rotated 180 degrees.
-  
-  if (r_xy >= 0) {
-    // Front Reach Case (Normal)
-    rx = 180.0;
-    rz = 180.0;
-    // Formula derived from Pose 1 & 3:
-    // Global Pitch -90 (down) -> RY 0
-    // Global Pitch -80 (down) -> RY 10
-    // Relation: RY = Global_Pitch + 90
-    ry = global_pitch_deg + 90.0;
-  } else {
-    // Back Reach Case (Back-flip)
-    rx = 0.0;
-    rz = 0.0;
-    // Formula derived from Pose 2:
-    // Global Pitch +65 (up/back) -> RY 25
-    // Relation: RY = 90 - Global_Pitch
-    ry = 90.0 - global_pitch_deg;
-  }
-  
-  // Normalize RY to be within -180 to 180 for cleaner UI
-  if (ry > 180) ry -= 360;
-  if (ry < -180) ry += 360;
+  const R1 = d2r(joints.j6);
+
+  // 2. Chain the link transforms: Base -> Upper Arm -> Flange (-> TCP)
+  const DIMS = (config.robot ?? HS220S).kinematics;
+  const flange = multiplyMatrices(armTransform(S, H, V, DIMS), wristTransform(R2, B, R1, DIMS));
+  const matrix = config.tcp ? multiplyMatrices(flange, poseToMatrix(config.tcp)) : flange;
+
+  // 3. Decompose into Controller Euler angles
+  const { x, y, z, rx, ry, rz } = matrixToPose(matrix);
 
   return {
     x: x, // Unit: mm (Keep consistent with input dimensions)
@@ -115,5 +112,289 @@ export const calculateForwardKinematics = (joints: JointState): Pose => {
     rx: cleanFloat(rx),
     ry: cleanFloat(ry),
     rz: cleanFloat(rz),
+    matrix,
+    quaternion: matrixToQuaternion(matrix),
   };
 };
+
+// --- [3] Inverse Kinematics ---
+
+export interface IKConfig extends KinematicsConfig {
+  // Reference joints: picks R2/R1 turns (+/-360 range) and the free R2 angle at B = 0
+  seed?: JointState;
+}
+
+const EPS = 1e-9;
+
+// Wrap to (-180, 180]
+const normalizeDeg = (deg: number) => {
+  const wrapped = deg - 360.0 * Math.floor((deg + 180.0) / 360.0);
+  return wrapped === -180.0 ? 180.0 : wrapped;
+};
+
+// Transpose of the rotation block (Inverse of a pure rotation)
+const transposeRotation = (m: Matrix4): Matrix4 => [
+  [m[0][0], m[1][0], m[2][0], 0],
+  [m[0][1], m[1][1], m[2][1], 0],
+  [m[0][2], m[1][2], m[2][2], 0],
+  [0, 0, 0, 1],
+];
+
+// Drop floating-point residue (-7e-15 -> 0) so the UI does not show -0.00
+const snapZero = (deg: number) => (Math.abs(deg) < 1e-9 ? 0.0 : deg);
+
+// Pick the 360-equivalent angle closest to the reference (used for multi-turn R2 / R1)
+const nearestTurn = (deg: number, reference: number) =>
+  deg + 360.0 * Math.round((reference - deg) / 360.0);
+
+/**
+ * Checks a joint state against the joint limits of the robot description.
+ * Returns one entry per failing axis with the crossed bound and the excess in degrees.
+ */
+export const checkJointLimits = (joints: JointState, robot: RobotDescription = HS220S): JointLimitViolation[] => {
+  const violations: JointLimitViolation[] = [];
+  (Object.keys(robot.limits) as Array<keyof JointState>).forEach((axis) => {
+    const value = joints[axis];
+    const { min, max } = robot.limits[axis];
+    if (value < min - 1e-6) {
+      violations.push({ axis, value, bound: min, excess: min - value });
+    } else if (value > max + 1e-6) {
+      violations.push({ axis, value, bound: max, excess: value - max });
+    }
+  });
+  return violations;
+};
+
+/**
+ * Closed-form Inverse Kinematics (HS220S unless config.robot is given)
+ * - Decouples position (S, H, V -> wrist center) from orientation (R2, B, R1)
+ * - Returns every branch that can reach the pose: front/back x elbow up/down x flip/no-flip
+ * - Each branch carries its joint limit check; an empty array means the pose is out of reach
+ * - The pose is the TCP pose when config.tcp is given
+ */
+export const calculateInverseKinematics = (pose: Pose, config: IKConfig = {}): IKSolution[] => {
+  const { seed, tcp, robot = HS220S } = config;
+  const DIMS = robot.kinematics;
+  // Flange = TCP * Tool^-1
+  const target = tcp
+    ? multiplyMatrices(poseToMatrix(pose), invertTransform(poseToMatrix(tcp)))
+    : poseToMatrix(pose);
+
+  // 1. Wrist Center = Flange - d4 along the approach (Z) axis
+  const wx = target[0][3] - DIMS.d4 * target[0][2];
+  const wy = target[1][3] - DIMS.d4 * target[1][2];
+  const wz = target[2][3] - DIMS.d4 * target[2][2];
+
+  // 2. S axis candidates (front reach and back reach through S + 180)
+  // Wrist center on the S axis (shoulder singularity): S is free, keep the seed value
+  const radial = Math.hypot(wx, wy);
+  const S_front = radial > EPS ? Math.atan2(wy, wx) : d2r(seed?.j1 ?? 0.0);
+  const shoulders = [
+    { front: true, S: S_front, r: radial },
+    { front: false, S: S_front + Math.PI, r: -radial },
+  ];
+
+  const solutions: IKSolution[] = [];
+
+  shoulders.forEach(({ front, S, r }) => {
+    // 3. Planar 2-link problem (H axis -> wrist center) in the S-rotated plane
+    const u = r - DIMS.a1;
+    const v = wz - DIMS.d1;
+    const cosPhi = (u * u + v * v - DIMS.a2 * DIMS.a2 - DIMS.a3 * DIMS.a3) / (2 * DIMS.a2 * DIMS.a3);
+    if (Math.abs(cosPhi) > 1 + 1e-9) return; // Out of reach for this shoulder side
+
+    const phiAbs = Math.acos(Math.min(1, Math.max(-1, cosPhi)));
+
+    [phiAbs, -phiAbs].forEach((phi) => {
+      // phi: angle of the upper arm relative to the lower arm
+      const theta_2 = Math.atan2(v, u) - Math.atan2(DIMS.a3 * Math.sin(phi), DIMS.a2 + DIMS.a3 * Math.cos(phi));
+      const H = theta_2 - d2r(DIMS.j2OffsetDeg);
+      const V = phi - d2r(DIMS.j3OffsetDeg);
+
+      // Elbow above the shoulder-wrist line (sign flips when reaching backwards)
+      const ex = DIMS.a2 * Math.cos(theta_2);
+      const ez = DIMS.a2 * Math.sin(theta_2);
+      const elbowUp = (u * ez - v * ex) * u > 0;
+
+      // 4. Wrist orientation: Rx(-R2) * Ry(-B) * Rx(-R1) = R03^T * R * Ry(-90)
+      const R03 = armTransform(S, H, V, DIMS);
+      const W = multiplyMatrices(transposeRotation(R03), target, rotationY(-Math.PI / 2));
+
+      const sinB = Math.hypot(W[1][0], W[2][0]);
+      const wrists: Array<{ a: number; b: number; c: number }> = [];
+
+      if (sinB > 1e-9) {
+        const b = Math.atan2(sinB, W[0][0]);
+        const a = Math.atan2(W[1][0], -W[2][0]);
+        const c = Math.atan2(W[0][1], W[0][2]);
+        wrists.push({ a, b, c }, { a: a + Math.PI, b: -b, c: c + Math.PI });
+      } else {
+        // Wrist singularity (B = 0 or 180): only R2 + R1 is defined, keep R2 at the seed
+        const a = -d2r(seed?.j4 ?? 0.0);
+        if (W[0][0] > 0) {
+          wrists.push({ a, b: 0, c: Math.atan2(W[2][1], W[1][1]) - a });
+        } else {
+          wrists.push({ a, b: Math.PI, c: Math.atan2(-W[2][1], W[1][1]) + a });
+        }
+      }
+
+      wrists.forEach(({ a, b, c }) => {
+        const R2 = normalizeDeg(r2d(-a));
+        const R1 = normalizeDeg(r2d(-c));
+        const joints: JointState = {
+          j1: snapZero(normalizeDeg(r2d(S))),
+          j2: snapZero(normalizeDeg(r2d(H))),
+          j3: snapZero(normalizeDeg(r2d(V))),
+          j4: snapZero(nearestTurn(R2, seed?.j4 ?? 0.0)),
+          j5: snapZero(normalizeDeg(r2d(-b))),
+          j6: snapZero(nearestTurn(R1, seed?.j6 ?? 0.0)),
+        };
+        const violations = checkJointLimits(joints, robot);
+        solutions.push({
+          joints,
+          configuration: { front, elbowUp, flip: joints.j5 > 0 },
+          withinLimits: violations.length === 0,
+          violations,
+        });
+      });
+    });
+  });
+
+  return solutions;
+};
+
+/**
+ * Largest single-axis difference between two joint states (deg)
+ */
+export const jointDistance = (a: JointState, b: JointState): number =>
+  Math.max(...(Object.keys(a) as Array<keyof JointState>).map((axis) => Math.abs(a[axis] - b[axis])));
+
+/**
+ * Picks the IK branch closest to the reference joints (smallest largest-axis move)
+ */
+export const selectClosestSolution = (solutions: IKSolution[], reference: JointState): IKSolution | null =>
+  solutions.reduce<IKSolution | null>(
+    (best, s) => (!best || jointDistance(s.joints, reference) < jointDistance(best.joints, reference) ? s : best),
+    null,
+  );
+
+// --- [4] Singularity Classification ---
+
+// Angular margin (deg) and shoulder radius (mm) treated as "at the singularity"
+// (The radius scales with a caller-supplied angular tolerance)
+const SINGULAR_ANGLE_DEG = 1.0;
+const SINGULAR_RADIUS_MM = 50.0;
+
+/**
+ * Geometric singularity check
+ * - Wrist: B at 0 / 180 (R2 and R1 axes collinear)
+ * - Elbow: upper arm in line with the lower arm (V at 90 / -90)
+ * - Shoulder: wrist center on the S axis
+ */
+export const detectSingularity = (
+  joints: JointState,
+  toleranceDeg: number = SINGULAR_ANGLE_DEG,
+  robot: RobotDescription = HS220S,
+): SingularityType | null => {
+  const DIMS = robot.kinematics;
+  const nearLine = (deg: number) => Math.abs(Math.sin(d2r(deg))) < Math.sin(d2r(toleranceDeg));
+
+  if (nearLine(joints.j5)) return 'wrist';
+  if (nearLine(joints.j3 + DIMS.j3OffsetDeg)) return 'elbow';
+
+  const arm = armTransform(d2r(joints.j1), d2r(joints.j2), d2r(joints.j3), DIMS);
+  const wristX = arm[0][3] + DIMS.a3 * arm[0][0];
+  const wristY = arm[1][3] + DIMS.a3 * arm[1][0];
+  const radiusLimit = SINGULAR_RADIUS_MM * (toleranceDeg / SINGULAR_ANGLE_DEG);
+  if (Math.hypot(wristX, wristY) < radiusLimit) return 'shoulder';
+
+  return null;
+};
+
+// --- [5] Jacobian & Manipulability ---
+
+// Singularity zones used by the UI gauge and by Cartesian motion planning (deg)
+export const SINGULARITY_WARNING_DEG = 10.0; // Gauge turns amber
+export const SINGULARITY_STOP_DEG = 2.0;     // Linear / circular paths are refused inside this margin
+
+// Characteristic length used to make the translational rows unitless (mm)
+const reachScale = (robot: RobotDescription) => robot.kinematics.a2 + robot.kinematics.a3;
+
+type Vec3 = [number, number, number];
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const axisOf = (m: Matrix4, col: number, sign: number): Vec3 => [sign * m[0][col], sign * m[1][col], sign * m[2][col]];
+const originOf = (m: Matrix4): Vec3 => [m[0][3], m[1][3], m[2][3]];
+
+/**
+ * Geometric Jacobian (6x6) of the TCP
+ * - Rows: vx, vy, vz (mm/rad), wx, wy, wz (rad/rad) in the base frame
+ * - Columns: S, H, V, R2, B, R1 (each axis taken from the same chain as FK, incl. its sign)
+ */
+export const calculateJacobian = (joints: JointState, config: KinematicsConfig = {}): number[][] => {
+  const S = d2r(joints.j1);
+  const H = d2r(joints.j2);
+  const V = d2r(joints.j3);
+  const R2 = d2r(joints.j4);
+  const B = d2r(joints.j5);
+  const DIMS = (config.robot ?? HS220S).kinematics;
+
+  // 1. Joint frames (before each joint's own rotation)
+  const sFrame = translationMatrix(0, 0, 0);
+  const hFrame = multiplyMatrices(rotationZ(S), translationMatrix(DIMS.a1, 0, DIMS.d1));
+  const vFrame = multiplyMatrices(hFrame, rotationY(-(H + d2r(DIMS.j2OffsetDeg))), translationMatrix(DIMS.a2, 0, 0));
+  const arm = armTransform(S, H, V, DIMS);
+  const bFrame = multiplyMatrices(arm, rotationX(-R2), translationMatrix(DIMS.a3, 0, 0));
+  const r1Frame = multiplyMatrices(bFrame, rotationY(-B));
+
+  // 2. Joint axes in the base frame (pitch joints turn about -Y, roll joints about -X)
+  const axes: Array<{ axis: Vec3; origin: Vec3 }> = [
+    { axis: axisOf(sFrame, 2, 1), origin: originOf(sFrame) },
+    { axis: axisOf(hFrame, 1, -1), origin: originOf(hFrame) },
+    { axis: axisOf(vFrame, 1, -1), origin: originOf(vFrame) },
+    { axis: axisOf(arm, 0, -1), origin: originOf(arm) },
+    { axis: axisOf(bFrame, 1, -1), origin: originOf(bFrame) },
+    { axis: axisOf(r1Frame, 0, -1), origin: originOf(r1Frame) },
+  ];
+
+  // 3. Columns: v = w x (p_tcp - p_joint), w = axis
+  const tcp = originOf(calculateForwardKinematics(joints, config).matrix);
+  const columns = axes.map(({ axis, origin }) => {
+    const v = cross(axis, [tcp[0] - origin[0], tcp[1] - origin[1], tcp[2] - origin[2]]);
+    return [...v, ...axis];
+  });
+
+  return [0, 1, 2, 3, 4, 5].map(row => columns.map(col => col[row]));
+};
+
+export interface ManipulabilityResult {
+  jacobian: number[][];
+  manipulability: number;    // Yoshikawa sqrt(det(J J^T)) with the translational rows scaled by the reach
+  conditionIndex: number;    // sigma_min / sigma_max (1 = isotropic, 0 = singular)
+  singularity: SingularityType | null; // Closest singularity inside the warning zone
+  level: 'ok' | 'near' | 'singular';
+}
+
+/**
+ * Live singularity analysis: Jacobian measures + geometric classification
+ */
+export const analyzeManipulability = (joints: JointState, config: KinematicsConfig = {}): ManipulabilityResult => {
+  const jacobian = calculateJacobian(joints, config);
+  const scale = reachScale(config.robot ?? HS220S);
+  const scaled = jacobian.map((row, i) => (i < 3 ? row.map(v => v / scale) : row));
+
+  // Eigenvalues of J J^T = squared singular values
+  const JJt = scaled.map(a => scaled.map(b => a.reduce((sum, v, k) => sum + v * b[k], 0)));
+  const eigen = symmetricEigenvalues(JJt).map(v => Math.max(v, 0));
+  const manipulability = Math.sqrt(eigen.reduce((product, v) => product * v, 1));
+  const conditionIndex = eigen[0] > EPS ? Math.sqrt(eigen[eigen.length - 1] / eigen[0]) : 0;
+
+  const singularity = detectSingularity(joints, SINGULARITY_WARNING_DEG, config.robot);
+  const level = detectSingularity(joints, undefined, config.robot) ? 'singular' : singularity ? 'near' : 'ok';
+
+  return { jacobian, manipulability, conditionIndex, singularity, level };
+};
@@ -0,0 +1,86 @@
+// Small dense linear algebra helpers (Row-major number[][])
+
+/**
+ * Solves A x = b with Gaussian elimination and partial pivoting.
+ * Returns null when A is singular (or numerically close to it).
+ */
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    // 1. Pivot on the largest remaining entry
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    // 2. Eliminate below
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+
+  // 3. Back substitution
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+/**
+ * Linear least squares min |A x - b| via the normal equations (A^T A) x = A^T b
+ */
+export const solveLeastSquares = (A: number[][], b: number[]): number[] | null => {
+  const cols = A[0].length;
+  const AtA = Array.from({ length: cols }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => A.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const Atb = Array.from({ length: cols }, (_, i) => A.reduce((sum, row, r) => sum + row[i] * b[r], 0));
+  return solveLinearSystem(AtA, Atb);
+};
+
+/**
+ * Eigenvalues of a symmetric matrix (Cyclic Jacobi rotations), sorted descending
+ */
+export const symmetricEigenvalues = (S: number[][], maxSweeps = 50): number[] => {
+  const n = S.length;
+  const A = S.map(row => [...row]);
+
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    // 1. Converged when the off-diagonal part vanishes
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += A[p][q] * A[p][q];
+    if (off < 1e-24) break;
+
+    // 2. Zero each off-diagonal entry with a plane rotation
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(A[p][q]) < 1e-300) continue;
+        const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = A[k][p];
+          const akq = A[k][q];
+          A[k][p] = c * akp - s * akq;
+          A[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = A[p][k];
+          const aqk = A[q][k];
+          A[p][k] = c * apk - s * aqk;
+          A[q][k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+  return A.map((row, i) => row[i]).sort((a, b) => b - a);
+};
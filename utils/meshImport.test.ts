@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { importMesh } from './meshImport';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+// One triangle (meters, Y-up) in an embedded buffer, placed by a translated node
+const triangleGltf = (patch: Record<string, unknown> = {}) => {
+  const points = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+  const base64 = Buffer.from(points.buffer).toString('base64');
+  return {
+    asset: { version: '2.0' },
+    buffers: [{ uri: `data:application/octet-stream;base64,${base64}`, byteLength: 36 }],
+    bufferViews: [{ buffer: 0, byteLength: 36 }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3' }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    nodes: [{ mesh: 0, translation: [0, 0, 2] }],
+    scenes: [{ nodes: [0] }],
+    ...patch,
+  };
+};
+
+describe('importMesh', () => {
+  it('reads an ASCII STL and an OBJ quad', () => {
+    const stl = importMesh('part.stl', encode('solid p\nfacet normal 0 0 1\nouter loop\nvertex 0 0 0\nvertex 10 0 0\nvertex 0 10 0\nendloop\nendfacet\nendsolid p'));
+    expect(stl.mesh?.positions).toEqual([0, 0, 0, 10, 0, 0, 0, 10, 0]);
+    const obj = importMesh('quad.obj', encode('v 0 0 0\nv 1 0 0\nv 1 1 0\nv 0 1 0\nf 1 2 3 4'));
+    expect(obj.mesh?.positions).toHaveLength(18);
+  });
+
+  it('bakes glTF node transforms and turns Y-up into Z-up', () => {
+    const { mesh, error } = importMesh('part.gltf', encode(JSON.stringify(triangleGltf())));
+    expect(error).toBeNull();
+    // Node at glTF z = 2 -> cell y = -2; glTF +Y -> cell +Z
+    expect(mesh?.positions).toEqual([0, -2, 0, 1, -2, 0, 0, -2, 1]);
+    expect(mesh?.scale).toBe(1000);
+  });
+
+  it.each([
+    ['a JSON primitive', '1'],
+    ['null', 'null'],
+    ['a node that is not an object', JSON.stringify(triangleGltf({ nodes: [null] }))],
+    ['a missing mesh', JSON.stringify(triangleGltf({ nodes: [{ mesh: 3 }] }))],
+    ['a malformed primitive', JSON.stringify(triangleGltf({ meshes: [{ primitives: [{ attributes: {} }] }] }))],
+    ['an external buffer', JSON.stringify(triangleGltf({ buffers: [{ uri: 'part.bin' }] }))],
+    ['a scene index that is an inherited name', JSON.stringify(triangleGltf({ scenes: [{ nodes: ['toString'] }] }))],
+  ])('rejects %s with a message', (_, text) => {
+    const { mesh, error } = importMesh('part.gltf', encode(text));
+    expect(mesh).toBeNull();
+    expect(error).toMatch(/^(Failed to read|No triangles)/);
+    expect(error).not.toMatch(/TypeError|Cannot read/);
+  });
+});
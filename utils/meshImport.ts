@@ -0,0 +1,298 @@
+import { CellMesh, MeshFormat, Vector3 } from "../types";
+
+// Minimal CAD mesh readers: only triangle positions are kept (no normals, materials or textures).
+// Positions stay in file units; CellMesh.scale converts them to mm.
+
+export interface MeshImportResult {
+  mesh: CellMesh | null;
+  error: string | null;
+}
+
+// Vertices are stored rounded to keep saved cells small
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+// Default unit guess per format (STL / OBJ exports are usually mm, glTF is always meters)
+const DEFAULT_SCALE: Record<MeshFormat, number> = { stl: 1, obj: 1, gltf: 1000 };
+
+export const meshFormatFromName = (fileName: string): MeshFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'stl') return 'stl';
+  if (ext === 'obj') return 'obj';
+  if (ext === 'gltf' || ext === 'glb') return 'gltf';
+  return null;
+};
+
+const computeBounds = (positions: number[]): { min: Vector3; max: Vector3 } => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    const axis = i % 3;
+    min[axis] = Math.min(min[axis], positions[i]);
+    max[axis] = Math.max(max[axis], positions[i]);
+  }
+  return {
+    min: { x: min[0], y: min[1], z: min[2] },
+    max: { x: max[0], y: max[1], z: max[2] },
+  };
+};
+
+// --- [1] STL (Binary + ASCII) ---
+
+const parseStl = (buffer: ArrayBuffer): number[] => {
+  // Binary STL: 80 byte header, uint32 count, 50 bytes per facet
+  if (buffer.byteLength >= 84) {
+    const view = new DataView(buffer);
+    const count = view.getUint32(80, true);
+    if (84 + count * 50 === buffer.byteLength) {
+      const positions: number[] = [];
+      for (let f = 0; f < count; f++) {
+        const offset = 84 + f * 50 + 12; // Skip the facet normal
+        for (let k = 0; k < 9; k++) positions.push(view.getFloat32(offset + k * 4, true));
+      }
+      return positions;
+    }
+  }
+
+  const text = new TextDecoder().decode(buffer);
+  const positions: number[] = [];
+  const pattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    positions.push(parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]));
+  }
+  return positions;
+};
+
+// --- [2] OBJ (v / f records, polygons fan-triangulated) ---
+
+const parseObj = (text: string): number[] => {
+  const vertices: number[][] = [];
+  const positions: number[] = [];
+
+  text.split(/\r?\n/).forEach(raw => {
+    const parts = raw.trim().split(/\s+/);
+    if (parts[0] === 'v') {
+      vertices.push(parts.slice(1, 4).map(parseFloat));
+    } else if (parts[0] === 'f') {
+      // "f 1/1/1 2/2/2 3/3/3" -> position indices (1-based, negative = relative to the end)
+      const indices = parts.slice(1).map(token => {
+        const index = parseInt(token.split('/')[0], 10);
+        return index < 0 ? vertices.length + index : index - 1;
+      });
+      for (let i = 1; i + 1 < indices.length; i++) {
+        [indices[0], indices[i], indices[i + 1]].forEach(index => {
+          const v = vertices[index];
+          if (v) positions.push(v[0], v[1], v[2]);
+        });
+      }
+    }
+  });
+  return positions;
+};
+
+// --- [3] glTF 2.0 (.gltf with embedded buffers, .glb) ---
+
+type Mat4 = number[]; // Column-major, as stored in glTF
+
+// The subset of the glTF 2.0 schema read here. The JSON is parsed as unknown and every entry is
+// checked with a guard when it is used, so a malformed file fails with a message instead of a TypeError.
+interface GltfBuffer { uri?: string }
+interface GltfBufferView { buffer: number; byteOffset?: number; byteStride?: number }
+interface GltfAccessor { componentType: number; type: string; count: number; bufferView?: number; byteOffset?: number }
+interface GltfPrimitive { mode?: number; indices?: number; attributes: { POSITION: number } }
+interface GltfMesh { primitives: GltfPrimitive[] }
+interface GltfNode { matrix?: number[]; translation?: number[]; rotation?: number[]; scale?: number[]; mesh?: number; children?: number[] }
+interface GltfScene { nodes?: number[] }
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isIndex = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+const isNumberList = (v: unknown, length?: number): v is number[] =>
+  Array.isArray(v) && (length === undefined || v.length === length) && v.every(n => typeof n === 'number');
+const optional = <T>(v: unknown, guard: (v: unknown) => v is T) => v === undefined || guard(v);
+
+const isBuffer = (v: unknown): v is GltfBuffer => isObject(v) && optional(v.uri, (u): u is string => typeof u === 'string');
+const isBufferView = (v: unknown): v is GltfBufferView =>
+  isObject(v) && isIndex(v.buffer) && optional(v.byteOffset, isIndex) && optional(v.byteStride, isIndex);
+const isAccessor = (v: unknown): v is GltfAccessor =>
+  isObject(v) && typeof v.componentType === 'number' && typeof v.type === 'string' && isIndex(v.count) &&
+  optional(v.bufferView, isIndex) && optional(v.byteOffset, isIndex);
+const isPrimitive = (v: unknown): v is GltfPrimitive =>
+  isObject(v) && isObject(v.attributes) && isIndex(v.attributes.POSITION) && optional(v.indices, isIndex) && optional(v.mode, isIndex);
+const isMesh = (v: unknown): v is GltfMesh => isObject(v) && Array.isArray(v.primitives) && v.primitives.every(isPrimitive);
+const isNode = (v: unknown): v is GltfNode =>
+  isObject(v) &&
+  optional(v.matrix, (m): m is number[] => isNumberList(m, 16)) &&
+  optional(v.translation, (t): t is number[] => isNumberList(t, 3)) &&
+  optional(v.rotation, (r): r is number[] => isNumberList(r, 4)) &&
+  optional(v.scale, (t): t is number[] => isNumberList(t, 3)) &&
+  optional(v.mesh, isIndex) &&
+  optional(v.children, (c): c is number[] => Array.isArray(c) && c.every(isIndex));
+const isScene = (v: unknown): v is GltfScene => isObject(v) && optional(v.nodes, (n): n is number[] => Array.isArray(n) && n.every(isIndex));
+
+// Entry of a top-level array ("nodes", "accessors", ...) by index, checked with its guard
+const entry = <T>(json: JsonObject, key: string, index: number, guard: (v: unknown) => v is T): T => {
+  const list = json[key];
+  const value = Array.isArray(list) ? list[index] : undefined;
+  if (!guard(value)) throw new Error(`Missing or malformed ${key}[${index}]`);
+  return value;
+};
+
+const entries = <T>(json: JsonObject, key: string, guard: (v: unknown) => v is T): T[] => {
+  const list = json[key] ?? [];
+  if (!Array.isArray(list)) throw new Error(`"${key}" is not an array`);
+  return list.map((_, index) => entry(json, key, index, guard));
+};
+
+const COMPONENT_READERS: Record<number, { size: number; read: (view: DataView, offset: number) => number }> = {
+  5121: { size: 1, read: (view, offset) => view.getUint8(offset) },
+  5123: { size: 2, read: (view, offset) => view.getUint16(offset, true) },
+  5125: { size: 4, read: (view, offset) => view.getUint32(offset, true) },
+  5126: { size: 4, read: (view, offset) => view.getFloat32(offset, true) },
+};
+const TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC3: 3 };
+
+const multiplyMat4 = (a: Mat4, b: Mat4): Mat4 => {
+  const out = new Array(16).fill(0);
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      for (let k = 0; k < 4; k++) out[c * 4 + r] += a[k * 4 + r] * b[c * 4 + k];
+    }
+  }
+  return out;
+};
+
+// Node transform from matrix or translation / rotation (quaternion) / scale
+const nodeMatrix = (node: GltfNode): Mat4 => {
+  if (node.matrix) return node.matrix;
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+};
+
+const decodeDataUri = (uri: string): ArrayBuffer => {
+  const binary = atob(uri.slice(uri.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const parseGltf = (buffer: ArrayBuffer): number[] => {
+  // 1. Container: GLB (JSON chunk + BIN chunk) or plain JSON with data URIs
+  let json: unknown;
+  let binChunk: ArrayBuffer | null = null;
+  const view = new DataView(buffer);
+  if (buffer.byteLength >= 12 && view.getUint32(0, true) === 0x46546c67) { // "glTF"
+    let offset = 12;
+    while (offset + 8 <= buffer.byteLength) {
+      const length = view.getUint32(offset, true);
+      const type = view.getUint32(offset + 4, true);
+      const chunk = buffer.slice(offset + 8, offset + 8 + length);
+      if (type === 0x4e4f534a) json = JSON.parse(new TextDecoder().decode(chunk)); // "JSON"
+      if (type === 0x004e4942) binChunk = chunk;                                   // "BIN"
+      offset += 8 + length;
+    }
+  } else {
+    json = JSON.parse(new TextDecoder().decode(buffer));
+  }
+  if (json === undefined) throw new Error('No glTF JSON chunk found');
+  if (!isObject(json)) throw new Error('glTF JSON is not an object');
+  const gltf = json;
+
+  const buffers: ArrayBuffer[] = entries(gltf, 'buffers', isBuffer).map(b => {
+    if (!b.uri) {
+      if (!binChunk) throw new Error('Missing GLB binary chunk');
+      return binChunk;
+    }
+    if (!b.uri.startsWith('data:')) throw new Error(`External buffer "${b.uri}" is not supported (use .glb or embedded buffers)`);
+    return decodeDataUri(b.uri);
+  });
+
+  // 2. Accessor reader
+  const readAccessor = (index: number): number[][] => {
+    const accessor = entry(gltf, 'accessors', index, isAccessor);
+    const reader = COMPONENT_READERS[accessor.componentType];
+    const width = TYPE_SIZES[accessor.type];
+    if (!reader || !width) throw new Error(`Unsupported accessor ${accessor.type} / ${accessor.componentType}`);
+    if (accessor.bufferView === undefined) return Array.from({ length: accessor.count }, () => new Array(width).fill(0));
+
+    const bufferView = entry(gltf, 'bufferViews', accessor.bufferView, isBufferView);
+    if (!buffers[bufferView.buffer]) throw new Error(`Missing buffers[${bufferView.buffer}]`);
+    const data = new DataView(buffers[bufferView.buffer]);
+    const stride = bufferView.byteStride ?? reader.size * width;
+    const base = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+    return Array.from({ length: accessor.count }, (_, i) =>
+      Array.from({ length: width }, (_, k) => reader.read(data, base + i * stride + k * reader.size))
+    );
+  };
+
+  // 3. Walk the default scene, baking node transforms into the triangle list
+  const positions: number[] = [];
+  const visit = (nodeIndex: number, parent: Mat4) => {
+    const node = entry(gltf, 'nodes', nodeIndex, isNode);
+    const world = multiplyMat4(parent, nodeMatrix(node));
+    const mesh = node.mesh !== undefined ? entry(gltf, 'meshes', node.mesh, isMesh) : null;
+
+    mesh?.primitives.forEach(primitive => {
+      if ((primitive.mode ?? 4) !== 4) return; // Triangles only
+      const points = readAccessor(primitive.attributes.POSITION);
+      const indices = primitive.indices !== undefined
+        ? readAccessor(primitive.indices).map(i => i[0])
+        : points.map((_, i) => i);
+      indices.forEach(i => {
+        const [x, y, z] = points[i];
+        positions.push(
+          world[0] * x + world[4] * y + world[8] * z + world[12],
+          world[1] * x + world[5] * y + world[9] * z + world[13],
+          world[2] * x + world[6] * y + world[10] * z + world[14],
+        );
+      });
+    });
+    (node.children ?? []).forEach(child => visit(child, world));
+  };
+
+  // glTF is Y-up: rotate +90 deg about X so the model stands upright in the Z-up cell
+  const yUpToZUp: Mat4 = [1, 0, 0, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1];
+  const scene = Array.isArray(gltf.scenes) && gltf.scenes.length > 0
+    ? entry(gltf, 'scenes', isIndex(gltf.scene) ? gltf.scene : 0, isScene)
+    : null;
+  const roots: number[] = scene?.nodes ?? entries(gltf, 'nodes', isNode).map((_, i) => i);
+  roots.forEach(root => visit(root, yUpToZUp));
+  return positions;
+};
+
+// --- [4] Entry Point ---
+
+/**
+ * File contents -> CellMesh (triangle soup in file units)
+ */
+export const importMesh = (fileName: string, buffer: ArrayBuffer): MeshImportResult => {
+  const format = meshFormatFromName(fileName);
+  if (!format) return { mesh: null, error: `Unsupported file type "${fileName}" (use STL, OBJ, glTF or GLB)` };
+
+  let raw: number[];
+  try {
+    raw = format === 'stl' ? parseStl(buffer)
+      : format === 'obj' ? parseObj(new TextDecoder().decode(buffer))
+      : parseGltf(buffer);
+  } catch (error) {
+    return { mesh: null, error: `Failed to read ${fileName}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (raw.length < 9 || raw.some(v => !isFinite(v))) {
+    return { mesh: null, error: `No triangles found in ${fileName}` };
+  }
+
+  const positions = raw.map(round);
+  return {
+    mesh: { fileName, format, positions, bounds: computeBounds(positions), scale: DEFAULT_SCALE[format] },
+    error: null,
+  };
+};
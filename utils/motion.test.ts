@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { JointState } from '../types';
+import { calculateForwardKinematics, calculateInverseKinematics, selectClosestSolution } from './kinematics';
+import { MotionProfile, MotionSegment, planJointMove, planLinearMove } from './motion';
+import { HS220S } from './robotDescription';
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const FROM: JointState = { j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 };
+const TO: JointState = { j1: 60, j2: 110, j3: -20, j4: 45, j5: -60, j6: 90 };
+const PROFILES: MotionProfile[] = ['trapezoidal', 'scurve'];
+
+// Finite-difference step (s)
+const DT = 1e-3;
+
+// Largest |velocity| and |acceleration| of each axis over the segment
+const peaks = (segment: MotionSegment) => {
+  const velocity: JointState = { j1: 0, j2: 0, j3: 0, j4: 0, j5: 0, j6: 0 };
+  const acceleration = { ...velocity };
+  for (let t = DT; t < segment.duration - DT; t += DT) {
+    const [a, b, c] = [segment.sample(t - DT), segment.sample(t), segment.sample(t + DT)];
+    AXES.forEach(axis => {
+      velocity[axis] = Math.max(velocity[axis], Math.abs(c[axis] - a[axis]) / (2 * DT));
+      acceleration[axis] = Math.max(acceleration[axis], Math.abs(c[axis] - 2 * b[axis] + a[axis]) / (DT * DT));
+    });
+  }
+  return { velocity, acceleration };
+};
+
+const tcpPosition = (joints: JointState) => {
+  const { x, y, z } = calculateForwardKinematics(joints);
+  return [x, y, z];
+};
+
+describe('planJointMove', () => {
+  it.each(PROFILES.flatMap(profile => [100, 30].map(speed => ({ profile, speed }))))(
+    '$profile at $speed% starts and ends at rest on the targets within the axis limits',
+    ({ profile, speed }) => {
+      const { segment, error } = planJointMove(FROM, TO, { profile, speed });
+      expect(error).toBeNull();
+      expect(segment!.sample(0)).toEqual(FROM);
+      expect(segment!.sample(segment!.duration)).toEqual(TO);
+
+      const scale = speed / 100;
+      const { velocity, acceleration } = peaks(segment!);
+      AXES.forEach(axis => {
+        expect(velocity[axis]).toBeLessThanOrEqual(HS220S.maxSpeed[axis] * scale * 1.001);
+        expect(acceleration[axis]).toBeLessThanOrEqual(HS220S.maxAccel[axis] * scale * 1.01);
+      });
+      // Time-optimal: the slowest axis runs at one of its limits
+      expect(
+        AXES.some(axis =>
+          velocity[axis] > HS220S.maxSpeed[axis] * scale * 0.99 || acceleration[axis] > HS220S.maxAccel[axis] * scale * 0.95),
+      ).toBe(true);
+    },
+  );
+
+  it('moves every axis monotonically and in sync', () => {
+    const { segment } = planJointMove(FROM, TO);
+    let previous = segment!.sample(0);
+    for (let t = 0.05; t <= segment!.duration; t += 0.05) {
+      const current = segment!.sample(t);
+      AXES.forEach(axis => expect(Math.sign(current[axis] - previous[axis])).not.toBe(-Math.sign(TO[axis] - FROM[axis])));
+      // Same normalized progress on every moving axis
+      const progress = AXES.filter(axis => TO[axis] !== FROM[axis]).map(axis => (current[axis] - FROM[axis]) / (TO[axis] - FROM[axis]));
+      progress.forEach(p => expect(p).toBeCloseTo(progress[0], 9));
+      previous = current;
+    }
+  });
+
+  it('takes longer at lower speed and with the S-curve', () => {
+    const duration = (speed: number, profile: MotionProfile) => planJointMove(FROM, TO, { speed, profile }).segment!.duration;
+    expect(duration(50, 'scurve')).toBeGreaterThan(duration(100, 'scurve'));
+    expect(duration(100, 'scurve')).toBeGreaterThanOrEqual(duration(100, 'trapezoidal'));
+  });
+
+  it('plans a zero-length move as an instant arrival', () => {
+    const { segment } = planJointMove(FROM, FROM);
+    expect(segment!.duration).toBe(0);
+    expect(segment!.sample(0)).toEqual(FROM);
+  });
+});
+
+describe('planLinearMove', () => {
+  const to: JointState = { j1: 20, j2: 100, j3: -10, j4: 0, j5: -80, j6: 0 };
+
+  it.each(PROFILES)('%s keeps the TCP on the straight line within the requested speed', profile => {
+    const speed = 500;
+    const { segment, error } = planLinearMove(FROM, to, { profile, speed });
+    expect(error).toBeNull();
+    expect(segment!.sample(segment!.duration)).toEqual(to);
+
+    const p0 = tcpPosition(FROM);
+    const p1 = tcpPosition(to);
+    const direction = p1.map((v, i) => v - p0[i]);
+    const length = Math.hypot(...direction);
+    let previous = p0;
+    for (let t = 0.02; t <= segment!.duration; t += 0.02) {
+      const p = tcpPosition(segment!.sample(t));
+      // Distance from the line through p0 and p1
+      const along = p.reduce((sum, v, i) => sum + (v - p0[i]) * direction[i], 0) / length;
+      const offset = Math.sqrt(Math.max(0, Math.hypot(...p.map((v, i) => v - p0[i])) ** 2 - along ** 2));
+      expect(offset).toBeLessThan(1);
+      expect(Math.hypot(...p.map((v, i) => v - previous[i])) / 0.02).toBeLessThan(speed * 1.02);
+      previous = p;
+    }
+  });
+
+  it('slows a short move near the wrist flip down to the axis limits, or rejects it', () => {
+    // B just outside the singularity stop: a small lateral TCP step spins R2 and R1 fast
+    const sideStep = (b: number) => {
+      const from: JointState = { j1: 0, j2: 90, j3: 0, j4: 0, j5: b, j6: 0 };
+      const p = calculateForwardKinematics(from);
+      const target = selectClosestSolution(calculateInverseKinematics({ ...p, y: p.y + 50 }, { seed: from }), from)!.joints;
+      return planLinearMove(from, target, { speed: 2000, profile: 'trapezoidal' });
+    };
+    const { segment, error } = sideStep(-2.2);
+    if (error) {
+      expect(segment).toBeNull();
+      return;
+    }
+    // Slower than the same step away from the singularity, where only the TCP speed limits it
+    expect(segment!.duration).toBeGreaterThan(sideStep(-45).segment!.duration * 1.5);
+    const { velocity } = peaks(segment!);
+    AXES.forEach(axis => expect(velocity[axis]).toBeLessThanOrEqual(HS220S.maxSpeed[axis] * 1.001));
+  });
+});
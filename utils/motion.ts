@@ -0,0 +1,447 @@
+import {
+  JointState,
+  Pose,
+  MoveType,
+  RobotDescription,
+  TCP_MAX_SPEED,
+  TCP_MAX_ACCEL,
+  TCP_MAX_ROT_SPEED,
+  TCP_MAX_ROT_ACCEL,
+} from "../types";
+import {
+  calculateForwardKinematics,
+  calculateInverseKinematics,
+  selectClosestSolution,
+  jointDistance,
+  detectSingularity,
+  SINGULARITY_STOP_DEG,
+} from "./kinematics";
+import {
+  Quaternion,
+  matrixToPose,
+  matrixToQuaternion,
+  quaternionToMatrix,
+  quaternionAngle,
+  slerpQuaternion,
+} from "./transform";
+import { HS220S } from "./robotDescription";
+
+// --- [1] Velocity Profiles ---
+// Both profiles accelerate for ta, cruise, and decelerate for ta (symmetric).
+// Trapezoidal: constant acceleration. S-Curve: half-cosine acceleration ramp (no acceleration steps),
+// which needs pi/2 times the peak acceleration of a trapezoid with the same ta.
+
+export type MotionProfile = 'trapezoidal' | 'scurve';
+
+const PEAK_ACCEL_FACTOR: Record<MotionProfile, number> = {
+  trapezoidal: 1.0,
+  scurve: Math.PI / 2,
+};
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+
+// Sample period used to pre-solve Cartesian paths (s)
+const PATH_SAMPLE_TIME = 0.01;
+// Largest joint change allowed between two path samples before calling it a branch jump (deg)
+const MAX_SAMPLE_JUMP_DEG = 5.0;
+
+interface ProfileTiming {
+  duration: number;
+  rampFraction: number; // ta / T (0.5 = triangular, no cruise)
+}
+
+/**
+ * Time-optimal duration for one axis (distance, vmax, amax all positive)
+ */
+const optimalTiming = (distance: number, vmax: number, amax: number, profile: MotionProfile): ProfileTiming => {
+  if (distance < 1e-9) return { duration: 0, rampFraction: 0.5 };
+  const k = PEAK_ACCEL_FACTOR[profile];
+  const rampAtFullSpeed = (k * vmax) / amax;
+
+  if (distance >= vmax * rampAtFullSpeed) {
+    // Reaches cruise speed
+    const duration = distance / vmax + rampAtFullSpeed;
+    return { duration, rampFraction: rampAtFullSpeed / duration };
+  }
+  // Triangular (Never reaches vmax)
+  const peak = Math.sqrt((distance * amax) / k);
+  return { duration: (2 * k * peak) / amax, rampFraction: 0.5 };
+};
+
+/**
+ * Shortest duration for a fixed ramp fraction that keeps the axis within vmax / amax
+ */
+const durationForFraction = (distance: number, vmax: number, amax: number, f: number, profile: MotionProfile) => {
+  if (distance < 1e-9) return 0;
+  const k = PEAK_ACCEL_FACTOR[profile];
+  return Math.max(distance / (vmax * (1 - f)), Math.sqrt((k * distance) / (amax * f * (1 - f))));
+};
+
+/**
+ * Synchronizes several axes: every axis shares the slowest axis' duration and ramp shape
+ */
+const synchronize = (
+  axes: Array<{ distance: number; vmax: number; amax: number }>,
+  profile: MotionProfile,
+): ProfileTiming => {
+  const timings = axes.map(a => optimalTiming(a.distance, a.vmax, a.amax, profile));
+  const slowest = timings.reduce((best, t) => (t.duration > best.duration ? t : best), timings[0]);
+  const f = slowest.rampFraction;
+  const duration = Math.max(...axes.map(a => durationForFraction(a.distance, a.vmax, a.amax, f, profile)));
+  return { duration, rampFraction: f };
+};
+
+/**
+ * Normalized position s(t) in [0, 1] for a profile with the given timing
+ */
+const profilePosition = (t: number, timing: ProfileTiming, profile: MotionProfile): number => {
+  const T = timing.duration;
+  if (T <= 0 || t >= T) return 1;
+  if (t <= 0) return 0;
+
+  const ta = timing.rampFraction * T;
+  const vp = 1 / (T - ta); // Peak normalized velocity
+
+  // Distance covered after time x of an acceleration ramp
+  const ramp = (x: number) =>
+    profile === 'trapezoidal'
+      ? (vp * x * x) / (2 * ta)
+      : vp * (x / 2 - (ta / (2 * Math.PI)) * Math.sin((Math.PI * x) / ta));
+
+  if (t < ta) return ramp(t);
+  if (t <= T - ta) return vp * ta / 2 + vp * (t - ta);
+  return 1 - ramp(T - t);
+};
+
+// --- [2] Motion Segments ---
+
+export interface MotionSegment {
+  duration: number;                    // s
+  target: JointState;
+  tcp?: Pose;                          // Tool used to report Cartesian progress
+  robot?: RobotDescription;            // Robot model the joints belong to (default: HS220S)
+  sample: (t: number) => JointState;   // Joint state at time t (0 ~ duration)
+}
+
+// Either the planned segment, or why the move cannot be executed
+export interface MotionPlan {
+  segment: MotionSegment | null;
+  error: string | null;
+}
+
+export interface JointMoveOptions {
+  speed?: number;           // % of the axis speed limits (1 ~ 100)
+  profile?: MotionProfile;
+  tcp?: Pose;
+  robot?: RobotDescription; // Axis speed / acceleration limits (default: HS220S)
+}
+
+export interface CartesianMoveOptions {
+  speed?: number;           // TCP speed (mm/s)
+  profile?: MotionProfile;
+  tcp?: Pose;
+  robot?: RobotDescription;
+}
+
+const lerpJoints = (a: JointState, b: JointState, s: number): JointState => ({
+  j1: a.j1 + (b.j1 - a.j1) * s,
+  j2: a.j2 + (b.j2 - a.j2) * s,
+  j3: a.j3 + (b.j3 - a.j3) * s,
+  j4: a.j4 + (b.j4 - a.j4) * s,
+  j5: a.j5 + (b.j5 - a.j5) * s,
+  j6: a.j6 + (b.j6 - a.j6) * s,
+});
+
+/**
+ * Joint interpolation (MOVE P): all axes start and finish together
+ */
+export const planJointMove = (from: JointState, to: JointState, options: JointMoveOptions = {}): MotionPlan => {
+  const { speed = 100, profile = 'scurve', tcp, robot = HS220S } = options;
+  const scale = Math.min(Math.max(speed, 1), 100) / 100;
+
+  const timing = synchronize(
+    AXES.map(axis => ({
+      distance: Math.abs(to[axis] - from[axis]),
+      vmax: robot.maxSpeed[axis] * scale,
+      amax: robot.maxAccel[axis] * scale,
+    })),
+    profile,
+  );
+
+  return {
+    segment: {
+      duration: timing.duration,
+      target: { ...to },
+      tcp,
+      robot,
+      sample: (t) => (t >= timing.duration ? { ...to } : lerpJoints(from, to, profilePosition(t, timing, profile))),
+    },
+    error: null,
+  };
+};
+
+/**
+ * Cartesian path -> Pre-solved joint samples
+ * - pathPoint(s) gives the TCP position for the normalized path parameter s
+ * - Orientation is slerped from start to end
+ * - The timing is stretched until no axis exceeds its speed limit
+ */
+const planCartesianPath = (
+  from: JointState,
+  to: JointState,
+  length: number,
+  pathPoint: (s: number) => [number, number, number],
+  options: CartesianMoveOptions,
+): MotionPlan => {
+  const { speed = 500, profile = 'scurve', tcp, robot = HS220S } = options;
+  const startQ: Quaternion = calculateForwardKinematics(from, { tcp, robot }).quaternion;
+  const endQ: Quaternion = calculateForwardKinematics(to, { tcp, robot }).quaternion;
+  const rotation = (quaternionAngle(startQ, endQ) * 180) / Math.PI;
+
+  let timing = synchronize(
+    [
+      { distance: length, vmax: Math.min(speed, TCP_MAX_SPEED), amax: TCP_MAX_ACCEL },
+      { distance: rotation, vmax: TCP_MAX_ROT_SPEED, amax: TCP_MAX_ROT_ACCEL },
+    ],
+    profile,
+  );
+
+  // A path may leave a singular start pose, but must not run into a (new) singularity
+  const startSingularity = detectSingularity(from, SINGULARITY_STOP_DEG, robot);
+
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const count = Math.max(2, Math.ceil(timing.duration / PATH_SAMPLE_TIME) + 1);
+    const dt = timing.duration / (count - 1);
+    const samples: JointState[] = [];
+    let previous = from;
+    let speedRatio = 0;
+
+    for (let i = 0; i < count; i++) {
+      const s = profilePosition(i * dt, timing, profile);
+      const pose = matrixToPose(quaternionToMatrix(slerpQuaternion(startQ, endQ, s), pathPoint(s)));
+      const solution = selectClosestSolution(
+        calculateInverseKinematics(pose, { seed: previous, tcp, robot }),
+        previous,
+      );
+
+      if (!solution) {
+        return { segment: null, error: `Path leaves the reachable workspace at ${(s * 100).toFixed(0)}%.` };
+      }
+      if (!solution.withinLimits) {
+        return { segment: null, error: `Path crosses the ${solution.violations[0].axis.toUpperCase()} joint limit.` };
+      }
+      const singularity = detectSingularity(solution.joints, SINGULARITY_STOP_DEG, robot);
+      if (singularity && singularity !== startSingularity) {
+        return { segment: null, error: `Path passes too close to a ${singularity} singularity.` };
+      }
+      if (i > 0 && jointDistance(solution.joints, previous) > MAX_SAMPLE_JUMP_DEG) {
+        return { segment: null, error: 'Path passes through a singularity.' };
+      }
+
+      if (i > 0 && dt > 0) {
+        AXES.forEach(axis => {
+          speedRatio = Math.max(speedRatio, Math.abs(solution.joints[axis] - previous[axis]) / dt / robot.maxSpeed[axis]);
+        });
+      }
+      samples.push(solution.joints);
+      previous = solution.joints;
+    }
+
+    // The path must end on the taught configuration, not just at the same TCP pose
+    if (jointDistance(samples[samples.length - 1], to) > 1.0) {
+      return { segment: null, error: 'Target was taught in a different arm configuration than the path reaches.' };
+    }
+
+    if (speedRatio > 1.0) {
+      // Slow the whole path down so the fastest axis stays within its limit (rejected after the last attempt)
+      timing = { ...timing, duration: timing.duration * speedRatio * 1.05 };
+      continue;
+    }
+
+    samples[samples.length - 1] = { ...to };
+    const duration = timing.duration;
+    return {
+      segment: {
+        duration,
+        target: { ...to },
+        tcp,
+        robot,
+        sample: (t) => {
+          if (t >= duration || count < 2) return { ...to };
+          const x = Math.max(0, t / dt);
+          const i = Math.min(Math.floor(x), count - 2);
+          return lerpJoints(samples[i], samples[i + 1], x - i);
+        },
+      },
+      error: null,
+    };
+  }
+
+  return { segment: null, error: 'Path exceeds the axis speed limits.' };
+};
+
+const position = (joints: JointState, tcp?: Pose, robot?: RobotDescription): [number, number, number] => {
+  const p = calculateForwardKinematics(joints, { tcp, robot });
+  return [p.x, p.y, p.z];
+};
+
+/**
+ * Linear interpolation (MOVE L): straight TCP path, solved with IK
+ */
+export const planLinearMove = (from: JointState, to: JointState, options: CartesianMoveOptions = {}): MotionPlan => {
+  const p0 = position(from, options.tcp, options.robot);
+  const p1 = position(to, options.tcp, options.robot);
+  const length = Math.hypot(p1[0] - p0[0], p1[1] - p0[1], p1[2] - p0[2]);
+  return planCartesianPath(from, to, length, (s) => [
+    p0[0] + (p1[0] - p0[0]) * s,
+    p0[1] + (p1[1] - p0[1]) * s,
+    p0[2] + (p1[2] - p0[2]) * s,
+  ], options);
+};
+
+/**
+ * Circular interpolation (MOVE C pair): arc from the start through the via point to the end
+ * Falls back to a straight line when the three points are collinear.
+ */
+export const planCircularMove = (
+  from: JointState,
+  via: JointState,
+  to: JointState,
+  options: CartesianMoveOptions = {},
+): MotionPlan => {
+  const p0 = position(from, options.tcp, options.robot);
+  const p1 = position(via, options.tcp, options.robot);
+  const p2 = position(to, options.tcp, options.robot);
+
+  const sub = (a: number[], b: number[]) => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const cross = (a: number[], b: number[]) => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+
+  // 1. Circumcenter of the triangle (p0, p1, p2)
+  const a = sub(p1, p0);
+  const b = sub(p2, p0);
+  const n = cross(a, b);
+  const nn = dot(n, n);
+  if (nn < 1e-6) return planLinearMove(from, to, options);
+
+  const t = cross(sub(b.map(v => v * dot(a, a)), a.map(v => v * dot(b, b))), n);
+  const center = [p0[0] + t[0] / (2 * nn), p0[1] + t[1] / (2 * nn), p0[2] + t[2] / (2 * nn)];
+  const radius = Math.sqrt(dot(sub(p0, center), sub(p0, center)));
+
+  // 2. In-plane basis: u towards the start, w along the direction of travel
+  const normal = n.map(v => v / Math.sqrt(nn));
+  const u = sub(p0, center).map(v => v / radius);
+  const w = cross(normal, u);
+  const e = sub(p2, center);
+  let sweep = Math.atan2(dot(e, w), dot(e, u));
+  if (sweep <= 0) sweep += 2 * Math.PI;
+
+  return planCartesianPath(from, to, radius * sweep, (s) => {
+    const angle = sweep * s;
+    return [0, 1, 2].map(i =>
+      center[i] + radius * (Math.cos(angle) * u[i] + Math.sin(angle) * w[i])
+    ) as [number, number, number];
+  }, options);
+};
+
+// A move as requested by the UI, job playback or the copilot
+export interface MoveRequest {
+  moveType?: MoveType;    // Default: joint
+  target: JointState;
+  via?: JointState;       // Circular moves only
+  speed?: number;         // % (joint) or mm/s (linear / circular)
+  profile?: MotionProfile;
+  tcp?: Pose;
+  robot?: RobotDescription;
+}
+
+export const planMove = (from: JointState, request: MoveRequest): MotionPlan => {
+  const { moveType = 'joint', target, via, ...options } = request;
+  if (moveType === 'circular' && via) return planCircularMove(from, via, target, options);
+  if (moveType === 'joint') return planJointMove(from, target, options);
+  return planLinearMove(from, target, options);
+};
+
+// --- [3] Motion Planner (Driven by the Scene render loop) ---
+
+export interface MotionProgress {
+  elapsed: number;   // s
+  duration: number;  // s
+  joints: JointState;
+  pose: Pose;        // TCP pose of the sampled joints
+  done: boolean;
+}
+
+export interface MotionResult {
+  completed: boolean; // false when the move was stopped, replaced or could not be planned
+  error?: string;
+}
+
+/**
+ * Executes one segment at a time; a new segment replaces (and cancels) the running one.
+ * tick() is called every frame with the frame time and returns the new state while moving.
+ */
+export const createMotionPlanner = () => {
+  let active: {
+    segment: MotionSegment;
+    elapsed: number;
+    resolve: (result: MotionResult) => void;
+    onProgress?: (progress: MotionProgress) => void;
+  } | null = null;
+
+  const stop = () => {
+    if (!active) return;
+    const { resolve } = active;
+    active = null;
+    resolve({ completed: false });
+  };
+
+  const execute = (
+    segment: MotionSegment,
+    onProgress?: (progress: MotionProgress) => void,
+  ): Promise<MotionResult> => {
+    stop();
+    return new Promise(resolve => {
+      active = { segment, elapsed: 0, resolve, onProgress };
+    });
+  };
+
+  const tick = (delta: number): MotionProgress | null => {
+    if (!active) return null;
+    const current = active;
+    current.elapsed = Math.min(current.elapsed + delta, current.segment.duration);
+
+    const joints = current.segment.sample(current.elapsed);
+    const { matrix, quaternion, ...pose } = calculateForwardKinematics(joints, {
+      tcp: current.segment.tcp,
+      robot: current.segment.robot,
+    });
+    const progress: MotionProgress = {
+      elapsed: current.elapsed,
+      duration: current.segment.duration,
+      joints,
+      pose,
+      done: current.elapsed >= current.segment.duration,
+    };
+
+    current.onProgress?.(progress);
+    if (progress.done) {
+      active = null;
+      current.resolve({ completed: true });
+    }
+    return progress;
+  };
+
+  return {
+    execute,
+    tick,
+    stop,
+    isMoving: () => active !== null,
+  };
+};
+
+export type MotionPlanner = ReturnType<typeof createMotionPlanner>;
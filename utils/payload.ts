@@ -0,0 +1,174 @@
+import { JointState, Payload, RobotDescription, RobotDynamics, ToolDefinition, Vector3 } from "../types";
+import { HS220S } from "./robotDescription";
+import { Matrix4, multiplyMatrices, translationMatrix, rotationX, rotationY, rotationZ, transformPoint } from "./transform";
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const GRAVITY = 9.81;  // m/s^2
+
+const d2r = (deg: number) => (deg * Math.PI) / 180.0;
+
+export const NO_PAYLOAD: Payload = { mass: 0, cog: { x: 0, y: 0, z: 0 } };
+
+// --- [1] Load Model ---
+
+/**
+ * Dynamics of models that do not carry their own (HS180, HX400, imported JSON / URDF):
+ * HS220S link masses scaled with the rated payload, CoGs scaled with the link lengths
+ */
+export const dynamicsOf = (robot: RobotDescription): RobotDynamics => {
+  if (robot.dynamics) return robot.dynamics;
+  const reference = HS220S.dynamics!;
+  const massScale = robot.payload > 0 ? robot.payload / HS220S.payload : 1;
+  const k = robot.kinematics;
+  const h = HS220S.kinematics;
+  const scaleCog = (cog: Vector3, along: number, across: number): Vector3 => ({ x: cog.x * along, y: cog.y * across, z: cog.z * across });
+  const lengthScale = (k.a2 + k.a3) / (h.a2 + h.a3);
+  const scaleJoints = (values: JointState, factor: number) =>
+    AXES.reduce((acc, axis) => ({ ...acc, [axis]: values[axis] * factor }), {} as JointState);
+
+  return {
+    links: {
+      turret: { mass: reference.links.turret.mass * massScale, cog: scaleCog(reference.links.turret.cog, k.a1 / h.a1, k.d1 / h.d1) },
+      lowerArm: { mass: reference.links.lowerArm.mass * massScale, cog: scaleCog(reference.links.lowerArm.cog, k.a2 / h.a2, 1) },
+      upperArm: { mass: reference.links.upperArm.mass * massScale, cog: scaleCog(reference.links.upperArm.cog, k.a3 / h.a3, 1) },
+      wrist: { mass: reference.links.wrist.mass * massScale, cog: reference.links.wrist.cog },
+    },
+    ratedTorque: scaleJoints(reference.ratedTorque, massScale * lengthScale),
+    wristMoment: {
+      j4: reference.wristMoment.j4 * massScale,
+      j5: reference.wristMoment.j5 * massScale,
+      j6: reference.wristMoment.j6 * massScale,
+    },
+  };
+};
+
+/**
+ * Tool + workpiece as one load (mass-weighted CoG in the flange frame)
+ */
+export const combineLoads = (tool: Pick<ToolDefinition, 'mass' | 'cog'>, workpiece: Payload = NO_PAYLOAD): Payload => {
+  const mass = tool.mass + workpiece.mass;
+  if (mass <= 0) return NO_PAYLOAD;
+  const weighted = (axis: keyof Vector3) => (tool.mass * tool.cog[axis] + workpiece.mass * workpiece.cog[axis]) / mass;
+  return { mass, cog: { x: weighted('x'), y: weighted('y'), z: weighted('z') } };
+};
+
+// --- [2] Static Joint Torques ---
+
+export interface StaticTorqueResult {
+  torque: JointState;       // Motor torque holding the pose against gravity (Nm, about the positive joint axis)
+  utilization: JointState;  // |torque| / rated torque
+}
+
+type Vec = [number, number, number];
+const sub = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec, b: Vec): Vec => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const column = (m: Matrix4, c: number, sign = 1): Vec => [sign * m[0][c], sign * m[1][c], sign * m[2][c]];
+
+/**
+ * Gravity torque of every axis for a floor-mounted robot
+ * 1. Joint frames from the same chain as the forward kinematics (H/V/B pitch about -Y, R2/R1 roll about -X)
+ * 2. Each body (links + load) hangs its weight at its CoG
+ * 3. Axis i holds the weight of every body beyond it: tau_i = -sum((cog - p_i) x F) . axis_i
+ */
+export const computeStaticTorques = (
+  joints: JointState,
+  options: { robot?: RobotDescription; load?: Payload } = {}
+): StaticTorqueResult => {
+  const { robot = HS220S, load = NO_PAYLOAD } = options;
+  const k = robot.kinematics;
+  const { links, ratedTorque } = dynamicsOf(robot);
+
+  // 1. Joint frames (mm)
+  const S = rotationZ(d2r(joints.j1));
+  const H = multiplyMatrices(S, translationMatrix(k.a1, 0, k.d1), rotationY(-d2r(joints.j2 + k.j2OffsetDeg)));
+  const V = multiplyMatrices(H, translationMatrix(k.a2, 0, 0), rotationY(-d2r(joints.j3 + k.j3OffsetDeg)));
+  const R2 = multiplyMatrices(V, rotationX(-d2r(joints.j4)));
+  const B = multiplyMatrices(R2, translationMatrix(k.a3, 0, 0), rotationY(-d2r(joints.j5)));
+  const R1 = multiplyMatrices(B, rotationX(-d2r(joints.j6)));
+  const flange = multiplyMatrices(R1, translationMatrix(k.d4, 0, 0), rotationY(Math.PI / 2));
+
+  const frames = [S, H, V, R2, B, R1];
+  const axes: Vec[] = [column(S, 2), column(H, 1, -1), column(V, 1, -1), column(R2, 0, -1), column(B, 1, -1), column(R1, 0, -1)];
+
+  // 2. Bodies: weight at the CoG, moved by the axes before `from`
+  const body = (frame: Matrix4, cog: Vector3, mass: number, from: number) => ({
+    point: transformPoint(frame, [cog.x, cog.y, cog.z]) as Vec,
+    force: [0, 0, -mass * GRAVITY] as Vec,
+    from,
+  });
+  const bodies = [
+    body(S, links.turret.cog, links.turret.mass, 1),
+    body(H, links.lowerArm.cog, links.lowerArm.mass, 2),
+    body(V, links.upperArm.cog, links.upperArm.mass, 3),
+    body(B, links.wrist.cog, links.wrist.mass, 5),
+    body(flange, load.cog, load.mass, 6),
+  ];
+
+  // 3. Torque per axis (mm -> m)
+  const torque = {} as JointState;
+  const utilization = {} as JointState;
+  AXES.forEach((axis, i) => {
+    const origin = column(frames[i], 3);
+    const gravity = bodies
+      .filter(b => b.from > i)
+      .reduce((sum, b) => sum + dot(cross(sub(b.point, origin), b.force), axes[i]) / 1000, 0);
+    torque[axis] = gravity === 0 ? 0 : -gravity;
+    utilization[axis] = ratedTorque[axis] > 0 ? Math.abs(torque[axis]) / ratedTorque[axis] : 0;
+  });
+  return { torque, utilization };
+};
+
+// --- [3] Wrist Load Diagram ---
+
+export interface WristLoadCheck {
+  moments: { j4: number; j5: number; j6: number };      // Worst-case load moment about each wrist axis (Nm)
+  utilization: { j4: number; j5: number; j6: number };  // moment / allowable moment
+  payloadUtilization: number;                           // mass / rated payload
+  warnings: string[];
+}
+
+/**
+ * Pose-independent check against the wrist load diagram
+ * - R2 and B: the load CoG can sit at its full distance from the B axis (d4 + offset)
+ * - R1: only the radial offset from the flange axis counts
+ */
+export const checkWristLoad = (load: Payload, robot: RobotDescription = HS220S): WristLoadCheck => {
+  const { wristMoment } = dynamicsOf(robot);
+  const weight = load.mass * GRAVITY;
+  const radial = Math.hypot(load.cog.x, load.cog.y) / 1000;
+  const fromB = Math.hypot(radial, (robot.kinematics.d4 + load.cog.z) / 1000);
+
+  const moments = { j4: weight * fromB, j5: weight * fromB, j6: weight * radial };
+  const utilization = {
+    j4: moments.j4 / wristMoment.j4,
+    j5: moments.j5 / wristMoment.j5,
+    j6: moments.j6 / wristMoment.j6,
+  };
+  const payloadUtilization = robot.payload > 0 ? load.mass / robot.payload : 0;
+
+  const warnings: string[] = [];
+  if (payloadUtilization > 1) {
+    warnings.push(`Load ${load.mass.toFixed(1)} kg exceeds the rated payload of ${robot.payload} kg.`);
+  }
+  (['j4', 'j5', 'j6'] as const).forEach(axis => {
+    if (utilization[axis] > 1) {
+      const name = { j4: 'R2', j5: 'B', j6: 'R1' }[axis];
+      warnings.push(`${name} moment ${moments[axis].toFixed(0)} Nm exceeds the allowable ${wristMoment[axis].toFixed(0)} Nm.`);
+    }
+  });
+  return { moments, utilization, payloadUtilization, warnings };
+};
+
+/**
+ * Allowed CoG region of the load diagram for one mass (mm from the flange: along the axis -> max radial offset)
+ */
+export const allowedRadialOffset = (mass: number, along: number, robot: RobotDescription = HS220S): number => {
+  if (mass <= 0) return Infinity;
+  const { wristMoment } = dynamicsOf(robot);
+  const weight = mass * GRAVITY;
+  const fromB = (1000 * Math.min(wristMoment.j4, wristMoment.j5)) / weight;
+  const axial = robot.kinematics.d4 + along;
+  const bLimit = fromB > Math.abs(axial) ? Math.sqrt(fromB * fromB - axial * axial) : 0;
+  return Math.min(bLimit, (1000 * wristMoment.j6) / weight);
+};
@@ -0,0 +1,87 @@
+import { AxisChange, JointState, PoseIssue, PoseValidation, RobotDescription } from "../types";
+import { HS220S } from "./robotDescription";
+import { CollisionPair, FLOOR_BODY_ID, formatCollisionPair } from "./collision";
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+
+// Values this far past a limit are clamped onto it (rounding / "just inside" answers), beyond that the pose is rejected
+export const CLAMP_TOLERANCE_DEG = 5.0;
+// Single-axis moves larger than this are flagged for review
+export const JUMP_WARNING_DEG = 90.0;
+
+export interface PoseValidationOptions {
+  robot?: RobotDescription;
+  // Missing axes keep the current value (partial joint moves); otherwise all six are required
+  partial?: boolean;
+  // Collisions at a joint state (self, floor, obstacles, other robots); omit to skip the check
+  collisionsAt?: (joints: JointState) => CollisionPair[];
+}
+
+/**
+ * Validation pipeline for model-generated joint targets
+ * 1. Schema: an object with finite numbers for the axes (NaN, strings, missing keys are errors)
+ * 2. Joint limits: clamped within CLAMP_TOLERANCE_DEG, rejected beyond
+ * 3. Jumps: axes moving more than JUMP_WARNING_DEG from the current pose are flagged
+ * 4. Floor contact and collisions at the target (only when the pose passed 1 and 2)
+ */
+export const validateAiPose = (raw: unknown, current: JointState, options: PoseValidationOptions = {}): PoseValidation => {
+  const { robot = HS220S, partial = false, collisionsAt } = options;
+  const issues: PoseIssue[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return {
+      target: null,
+      changes: AXES.map(axis => ({ axis, from: current[axis], to: current[axis] })),
+      issues: [{ severity: 'error', message: 'Expected an object with joint angles j1 ~ j6.' }],
+    };
+  }
+  const values = raw as Record<string, unknown>;
+
+  // 1. + 2. Schema and limits, axis by axis
+  const changes: AxisChange[] = AXES.map((axis) => {
+    const from = current[axis];
+    const value = values[axis];
+    if (value === undefined || value === null) {
+      if (!partial) issues.push({ axis, severity: 'error', message: `${axis} is missing.` });
+      return { axis, from, to: from };
+    }
+    if (typeof value !== 'number' || !isFinite(value)) {
+      issues.push({ axis, severity: 'error', message: `${axis} must be a number (got ${typeof value === 'number' ? value : JSON.stringify(value)}).` });
+      return { axis, from, to: from };
+    }
+
+    const { min, max } = robot.limits[axis];
+    const bound = value < min ? min : value > max ? max : null;
+    if (bound === null) return { axis, from, to: value };
+    const excess = Math.abs(value - bound);
+    if (excess <= CLAMP_TOLERANCE_DEG) {
+      issues.push({ axis, severity: 'warning', message: `${axis} ${value.toFixed(1)}° clamped to the limit ${bound}°.` });
+      return { axis, from, to: bound };
+    }
+    issues.push({ axis, severity: 'error', message: `${axis} ${value.toFixed(1)}° is ${excess.toFixed(1)}° past the limit ${bound}°.` });
+    return { axis, from, to: value };
+  });
+
+  // 3. Large jumps
+  changes.forEach(({ axis, from, to }) => {
+    const jump = Math.abs(to - from);
+    if (jump > JUMP_WARNING_DEG) {
+      issues.push({ axis, severity: 'warning', message: `${axis} jumps ${jump.toFixed(1)}° from the current pose.` });
+    }
+  });
+
+  const target = AXES.reduce((acc, axis, idx) => ({ ...acc, [axis]: changes[idx].to }), {} as JointState);
+  if (issues.some(issue => issue.severity === 'error')) return { target: null, changes, issues };
+
+  // 4. Floor and collisions at the target
+  (collisionsAt?.(target) ?? []).forEach(pair => {
+    const floor = pair.a.id === FLOOR_BODY_ID || pair.b.id === FLOOR_BODY_ID;
+    const body = pair.a.id === FLOOR_BODY_ID ? pair.b.name : pair.a.name;
+    issues.push({ severity: 'error', message: floor ? `${body} touches the floor.` : `Collision: ${formatCollisionPair(pair)}.` });
+  });
+
+  return { target: issues.some(issue => issue.severity === 'error') ? null : target, changes, issues };
+};
+
+export const formatPoseIssues = (validation: PoseValidation): string =>
+  validation.issues.map(issue => `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.message}`).join(' ');
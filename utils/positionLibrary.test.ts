@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_POSITIONS,
+  parsePositionsCsv,
+  parsePositionsJson,
+  poseDifference,
+  positionsToCsv,
+  positionsToJson,
+} from './positionLibrary';
+
+// Fields an import keeps (ids and creation times are new)
+const portable = ({ name, comment, group, tags, joints, expected }: (typeof DEFAULT_POSITIONS)[number]) =>
+  ({ name, comment, group, tags, joints, expected });
+
+describe('DEFAULT_POSITIONS', () => {
+  it.each(DEFAULT_POSITIONS.map(position => ({ position, name: position.name })))('$name matches its controller readout', ({ position }) => {
+    expect(position.expected).not.toBeNull();
+    const diff = poseDifference(position.pose, position.expected!);
+    expect(diff.distance).toBeLessThan(1);
+    expect(diff.angle).toBeLessThan(0.01);
+  });
+});
+
+describe('position files', () => {
+  it('round-trip through JSON', () => {
+    const { positions, error } = parsePositionsJson(positionsToJson(DEFAULT_POSITIONS));
+    expect(error).toBeNull();
+    expect(positions.map(portable)).toEqual(DEFAULT_POSITIONS.map(portable));
+  });
+
+  it('round-trip through CSV', () => {
+    const { positions, error } = parsePositionsCsv(positionsToCsv(DEFAULT_POSITIONS));
+    expect(error).toBeNull();
+    expect(positions.map(portable)).toEqual(DEFAULT_POSITIONS.map(portable));
+  });
+});
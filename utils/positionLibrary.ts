@@ -0,0 +1,254 @@
+import { FLANGE_TOOL, JointState, NamedPosition, Pose, RobotDescription, ToolDefinition } from "../types";
+import { calculateForwardKinematics } from "./kinematics";
+import { matrixToQuaternion, poseToMatrix, quaternionAngle } from "./transform";
+import { createId } from "./id";
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const POSE_KEYS: Array<keyof Pose> = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+// Robot model + tool the Cartesian pose of a position is computed with
+export interface PositionContext {
+  robot?: RobotDescription;
+  tool?: ToolDefinition;
+}
+
+export interface PositionImportResult {
+  positions: NamedPosition[];
+  error: string | null;
+}
+
+// --- [1] Positions ---
+
+export interface PositionFields {
+  name: string;
+  comment?: string;
+  group?: string;
+  tags?: string[];
+  expected?: Pose | null;
+}
+
+export const DEFAULT_GROUP = 'General';
+
+export const computePositionPose = (joints: JointState, { robot, tool = FLANGE_TOOL }: PositionContext = {}): Pose => {
+  const { x, y, z, rx, ry, rz } = calculateForwardKinematics(joints, { tcp: tool.tcp, robot });
+  return { x, y, z, rx, ry, rz };
+};
+
+export const createPosition = (joints: JointState, fields: PositionFields, context: PositionContext = {}): NamedPosition => ({
+  id: createId('pos'),
+  name: fields.name,
+  comment: fields.comment ?? '',
+  group: fields.group?.trim() || DEFAULT_GROUP,
+  tags: fields.tags ?? [],
+  joints: { ...joints },
+  pose: computePositionPose(joints, context),
+  toolId: (context.tool ?? FLANGE_TOOL).id,
+  expected: fields.expected ?? null,
+  createdAt: new Date().toISOString(),
+});
+
+// Re-teach: new joints, pose recomputed with the current model / tool
+export const updatePositionJoints = (position: NamedPosition, joints: JointState, context: PositionContext = {}): NamedPosition => ({
+  ...position,
+  joints: { ...joints },
+  pose: computePositionPose(joints, context),
+  toolId: (context.tool ?? FLANGE_TOOL).id,
+});
+
+// "weld, left side;  check" -> ['weld', 'left side', 'check']
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(/[,;]/).map(tag => tag.trim()).filter(Boolean))];
+
+// Calibration poses of the HS220S that used to be hard-coded in Controls (flange). Expected = controller readout:
+// X / Z as read on the pendant, Y = 0 and the orientation follow from the joints alone (every axis in the XZ plane)
+export const DEFAULT_POSITIONS: NamedPosition[] = [
+  {
+    name: 'Pose 1 (Ready)', comment: 'L-Shape: X=1562, Z=1718',
+    joints: { j1: 0, j2: 90, j3: 0, j4: 0, j5: -90, j6: 0 },
+    expected: { x: 1562, y: 0, z: 1718, rx: 180, ry: 0, rz: 180 },
+  },
+  {
+    name: 'Pose 2 (High)', comment: 'Back: X=-272, Z=2502',
+    joints: { j1: 0, j2: 155, j3: 0, j4: 0, j5: 0, j6: 0 },
+    expected: { x: -272, y: 0, z: 2502, rx: 0, ry: 25, rz: 0 },
+  },
+  {
+    name: 'Pose 3 (Low)', comment: 'Fwd: X=1877, Z=-608',
+    joints: { j1: 0, j2: 10, j3: 0, j4: 0, j5: 0, j6: 0 },
+    expected: { x: 1877, y: 0, z: -608, rx: 180, ry: 10, rz: 180 },
+  },
+].map((preset, idx) => ({
+  ...createPosition(preset.joints, { ...preset, group: 'Presets', tags: ['calibration'] }),
+  id: `preset-${idx + 1}`,
+}));
+
+/**
+ * Positions saved before the library had groups, tags and poses (name + joints only)
+ */
+export const normalizePositions = (stored: Array<Partial<NamedPosition>>, context: PositionContext = {}): NamedPosition[] =>
+  stored
+    .filter(p => p && p.joints)
+    .map(p => ({
+      ...createPosition(p.joints!, { name: p.name ?? 'Position', comment: p.comment, group: p.group, tags: p.tags, expected: p.expected }, context),
+      ...(p.pose ? { pose: p.pose, toolId: p.toolId ?? FLANGE_TOOL.id } : {}),
+      id: p.id ?? createId('pos'),
+      createdAt: p.createdAt ?? new Date().toISOString(),
+    }));
+
+export const positionGroups = (positions: NamedPosition[]): string[] => [...new Set(positions.map(p => p.group))];
+
+// --- [2] Expected vs Computed ---
+
+export interface PoseDifference extends Pose {
+  distance: number;  // Position error (mm)
+  angle: number;     // Orientation error (deg, independent of the Euler convention)
+}
+
+const wrapAngle = (deg: number) => ((((deg + 180) % 360) + 360) % 360) - 180;
+
+// computed - expected (RX/RY/RZ wrapped into [-180, 180))
+export const poseDifference = (computed: Pose, expected: Pose): PoseDifference => {
+  const angle = quaternionAngle(matrixToQuaternion(poseToMatrix(computed)), matrixToQuaternion(poseToMatrix(expected)));
+  return {
+    x: computed.x - expected.x,
+    y: computed.y - expected.y,
+    z: computed.z - expected.z,
+    rx: wrapAngle(computed.rx - expected.rx),
+    ry: wrapAngle(computed.ry - expected.ry),
+    rz: wrapAngle(computed.rz - expected.rz),
+    distance: Math.hypot(computed.x - expected.x, computed.y - expected.y, computed.z - expected.z),
+    angle: (angle * 180) / Math.PI,
+  };
+};
+
+// --- [3] JSON ---
+
+export const positionsToJson = (positions: NamedPosition[]): string =>
+  JSON.stringify({ format: 'h220-positions', version: 1, positions }, null, 2);
+
+const readNumbers = <K extends string>(raw: unknown, keys: K[]): Record<K, number> | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const values = raw as Record<string, unknown>;
+  if (!keys.every(key => typeof values[key] === 'number' && isFinite(values[key] as number))) return null;
+  return keys.reduce((acc, key) => ({ ...acc, [key]: values[key] }), {} as Record<K, number>);
+};
+
+/**
+ * Reads an exported library (or a bare array of positions)
+ * - name and j1 ~ j6 are required; poses are recomputed with the current robot model and tool
+ * - Imported positions get new ids so they never replace existing ones
+ */
+export const parsePositionsJson = (text: string, context: PositionContext = {}): PositionImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { positions: [], error: 'File is not valid JSON.' };
+  }
+  const list = Array.isArray(data) ? data : (data as { positions?: unknown })?.positions;
+  if (!Array.isArray(list)) return { positions: [], error: 'Expected a "positions" array.' };
+
+  const positions: NamedPosition[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const raw = list[i] as Record<string, unknown>;
+    const joints = readNumbers(raw?.joints, AXES);
+    if (typeof raw?.name !== 'string' || !raw.name.trim() || !joints) {
+      return { positions: [], error: `Position ${i + 1}: a name and joints j1 ~ j6 are required.` };
+    }
+    positions.push(createPosition(joints, {
+      name: raw.name.trim(),
+      comment: typeof raw.comment === 'string' ? raw.comment : '',
+      group: typeof raw.group === 'string' ? raw.group : undefined,
+      tags: Array.isArray(raw.tags) ? raw.tags.filter((t): t is string => typeof t === 'string') : [],
+      expected: readNumbers(raw.expected, POSE_KEYS),
+    }, context));
+  }
+  if (positions.length === 0) return { positions: [], error: 'No positions found.' };
+  return { positions, error: null };
+};
+
+// --- [4] CSV ---
+
+// One row per position; tags are ";" separated, expected_* columns are blank when not set
+const CSV_COLUMNS = [
+  'name', 'group', 'tags', 'comment',
+  ...AXES,
+  ...POSE_KEYS,
+  ...POSE_KEYS.map(key => `expected_${key}`),
+];
+
+const csvField = (value: string | number) => {
+  const text = String(value).replace(/\r?\n/g, ' ');
+  return /[",]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field); field = ''; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+};
+
+export const positionsToCsv = (positions: NamedPosition[]): string => {
+  const round = (value: number) => Number(value.toFixed(3));
+  const rows = positions.map(p => [
+    p.name, p.group, p.tags.join(';'), p.comment,
+    ...AXES.map(axis => round(p.joints[axis])),
+    ...POSE_KEYS.map(key => round(p.pose[key])),
+    ...POSE_KEYS.map(key => (p.expected ? round(p.expected[key]) : '')),
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Reads a CSV with a header row (column order free, names as in the export)
+ * - name and j1 ~ j6 are required; x ~ rz are ignored (recomputed), expected_* are all-or-nothing
+ */
+export const parsePositionsCsv = (text: string, context: PositionContext = {}): PositionImportResult => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return { positions: [], error: 'Expected a header row followed by one row per position.' };
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const missing = ['name', ...AXES].filter(col => !header.includes(col));
+  if (missing.length > 0) return { positions: [], error: `Missing column(s): ${missing.join(', ')}.` };
+
+  const positions: NamedPosition[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const fields = splitCsvLine(lines[i]);
+    const cell = (col: string) => fields[header.indexOf(col)] ?? '';
+    const joints = AXES.reduce((acc, axis) => ({ ...acc, [axis]: parseFloat(cell(axis)) }), {} as JointState);
+    if (!cell('name') || AXES.some(axis => !isFinite(joints[axis]))) {
+      return { positions: [], error: `Line ${i + 1}: a name and numeric j1 ~ j6 are required.` };
+    }
+
+    const expectedCells = POSE_KEYS.map(key => cell(`expected_${key}`));
+    let expected: Pose | null = null;
+    if (expectedCells.some(Boolean)) {
+      const values = expectedCells.map(parseFloat);
+      if (values.some(v => !isFinite(v))) {
+        return { positions: [], error: `Line ${i + 1}: expected_x ~ expected_rz must all be numbers (or all blank).` };
+      }
+      expected = POSE_KEYS.reduce((acc, key, idx) => ({ ...acc, [key]: values[idx] }), {} as Pose);
+    }
+
+    positions.push(createPosition(joints, {
+      name: cell('name'),
+      comment: cell('comment'),
+      group: cell('group'),
+      tags: parseTags(cell('tags')),
+      expected,
+    }, context));
+  }
+  return { positions, error: null };
+};
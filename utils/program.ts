@@ -0,0 +1,79 @@
+import { JointState, MoveType, ProgramStep, ProgramLine, JobProgram, EMPTY_PROGRAM, TCP_MAX_SPEED } from "../types";
+import { createId } from "./id";
+
+export const MOVE_TYPE_CODES: Record<MoveType, string> = {
+  joint: 'P',
+  linear: 'L',
+  circular: 'C',
+};
+
+export const ACCURACY_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * New step taught from the current pose (Default speeds follow the pendant: 50% / 500mm/s)
+ */
+export const createStep = (joints: JointState, moveType: MoveType = 'joint'): ProgramStep => ({
+  kind: 'move',
+  id: createId('step'),
+  moveType,
+  target: { ...joints },
+  speed: moveType === 'joint' ? 50 : 500,
+  speedUnit: moveType === 'joint' ? '%' : 'mm/s',
+  accuracy: 1,
+  wait: 0,
+});
+
+/**
+ * Changing the move type resets the speed to a sensible value for the new unit
+ */
+export const changeMoveType = (step: ProgramStep, moveType: MoveType): ProgramStep => {
+  if (step.moveType === moveType) return step;
+  const fresh = createStep(step.target, moveType);
+  return { ...step, moveType, speed: fresh.speed, speedUnit: fresh.speedUnit };
+};
+
+/**
+ * Step speed in the unit the motion planner takes: % of the axis limits for joint moves, mm/s for
+ * linear / circular moves. Imported jobs can carry the other unit (100% = TCP_MAX_SPEED).
+ */
+export const plannerSpeed = (step: ProgramStep): number => {
+  const percent = step.moveType === 'joint';
+  if ((step.speedUnit === '%') === percent) return step.speed;
+  return percent ? (step.speed / TCP_MAX_SPEED) * 100 : (step.speed / 100) * TCP_MAX_SPEED;
+};
+
+// Pendant-style one-line summary: "MOVE P,S=50%,A=1,T=0"
+export const formatStep = (step: ProgramStep): string => {
+  const speed = step.speedUnit === '%' ? `${step.speed}%` : `${step.speed}mm/s`;
+  const tool = step.tool !== undefined ? `,T=${step.tool}` : '';
+  const wait = step.wait > 0 ? ` / DELAY ${step.wait}` : '';
+  return `MOVE ${MOVE_TYPE_CODES[step.moveType]},S=${speed},A=${step.accuracy}${tool}${wait}`;
+};
+
+export const formatLine = (line: ProgramLine): string => {
+  switch (line.kind) {
+    case 'move': return formatStep(line);
+    case 'delay': return `DELAY ${line.seconds}`;
+    case 'output': return `DO${line.port}=${line.value}`;
+    case 'waitInput': return `WAIT DI${line.port}=${line.value}`;
+    case 'label': return `*${line.label}`;
+    case 'goto': return `GOTO *${line.label}`;
+    case 'end': return 'END';
+  }
+};
+
+/**
+ * Programs saved before control statements existed stored moves under "steps"
+ */
+export const normalizeProgram = (stored: Partial<JobProgram> & { steps?: ProgramStep[] }): JobProgram => ({
+  name: stored.name ?? EMPTY_PROGRAM.name,
+  lines: stored.lines ?? (stored.steps ?? []).map(step => ({ ...step, kind: 'move' as const })),
+});
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
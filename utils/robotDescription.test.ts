@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_ROBOTS, HS220S, parseRobotDescriptionJson, robotDescriptionToJson } from './robotDescription';
+
+describe('parseRobotDescriptionJson', () => {
+  it.each(BUILT_IN_ROBOTS.map(robot => ({ robot, name: robot.name })))('reads back the exported $name', ({ robot }) => {
+    const { description, error } = parseRobotDescriptionJson(robotDescriptionToJson(robot));
+    expect(error).toBeNull();
+    expect(description).toEqual(robot);
+  });
+
+  it.each(['null', '1', '"h220sim-robot"', '[]', '{"format":"h220sim-robot"}', 'not json'])('rejects %s', (text) => {
+    const { description, error } = parseRobotDescriptionJson(text);
+    expect(description).toBeNull();
+    expect(error).toBeTruthy();
+  });
+
+  it('rejects malformed limits and meshes', () => {
+    const exported = JSON.parse(robotDescriptionToJson(HS220S));
+    const badLimits = { ...exported, limits: { ...exported.limits, j2: { min: 10, max: 'x' } } };
+    const badMesh = { ...exported, visual: { ...exported.visual, meshes: { wrist: { positions: null } } } };
+    expect(parseRobotDescriptionJson(JSON.stringify(badLimits)).error).toMatch(/limits/);
+    expect(parseRobotDescriptionJson(JSON.stringify(badMesh)).error).toMatch(/wrist/);
+  });
+
+  it('ignores the retired visual.handLength of older files', () => {
+    const exported = JSON.parse(robotDescriptionToJson(HS220S));
+    const old = { ...exported, visual: { ...exported.visual, handLength: 280 } };
+    expect(parseRobotDescriptionJson(JSON.stringify(old)).description?.visual).toEqual(HS220S.visual);
+  });
+});
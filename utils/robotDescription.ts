@@ -0,0 +1,342 @@
+import { CellMesh, JointLimits, JointState, LinkMass, RobotDescription, RobotDynamics, RobotLink } from "../types";
+
+// Robot models share one description format (see RobotDescription in types.ts).
+// Kinematic lengths are in mm, angles in deg, speeds in deg/s.
+
+const ROBOT_FILE_FORMAT = 'h220sim-robot';
+const ROBOT_FILE_VERSION = 1;
+
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+const LINKS: RobotLink[] = ['base', 'turret', 'lowerArm', 'upperArm', 'wrist'];
+
+// --- [1] Built-in Models ---
+
+// Hyundai Robotics H220S Specifications (Calibrated from Real Controller Data)
+// Data Points:
+// Pose 1: H=90, B=-90 -> X=1562, Z=1718
+// Pose 2: H=155, B=0  -> X=-272, Z=2502
+// Pose 3: H=10, B=0   -> X=1877, Z=-608
+export const HS220S: RobotDescription = {
+  id: 'hs220s',
+  name: 'HS220S',
+  payload: 220,
+  kinematics: {
+    // Least-squares fit of the three poses (residuals below 1 mm). The poses all have V = 0, so an
+    // elbow offset cannot be told apart from the lower arm and is folded into a2.
+    d1: 608.0,   // Base Height
+    a1: 312.0,   // Axis 1 Forward Offset
+    a2: 1330.0,  // Link 2 (Lower Arm)
+    a3: 1250.0,  // Link 3 (Upper Arm, V axis -> wrist center)
+    d4: 220.0,   // Wrist center -> flange face
+    // Hyundai robots typically have J2 vertical at 90, J3 horizontal at 0 relative to J2
+    j2OffsetDeg: 0.0,
+    j3OffsetDeg: -90.0, // Critical: Compensates for the "L" shape when V=0
+  },
+  limits: {
+    j1: { min: -180, max: 180 },  // S (Swivel)
+    j2: { min: 0, max: 160 },     // H (Lower Arm) - Observed max 155 in data
+    j3: { min: -180, max: 90 },   // V (Upper Arm)
+    j4: { min: -360, max: 360 },  // R2 (Roll)
+    j5: { min: -180, max: 180 },  // B (Bend)
+    j6: { min: -360, max: 360 },  // R1 (Twist)
+  },
+  // Approximate HS220S catalogue values
+  maxSpeed: { j1: 110, j2: 110, j3: 110, j4: 150, j5: 150, j6: 220 },
+  maxAccel: { j1: 250, j2: 250, j3: 250, j4: 400, j5: 400, j6: 600 },
+  // Estimated link masses (about 1,050 kg robot), rated torques for the rated payload at 300 mm
+  dynamics: {
+    links: {
+      turret: { mass: 330, cog: { x: 140, y: 0, z: 450 } },
+      lowerArm: { mass: 160, cog: { x: 480, y: 0, z: 0 } },
+      upperArm: { mass: 190, cog: { x: 250, y: 0, z: 0 } },
+      wrist: { mass: 35, cog: { x: 120, y: 0, z: 0 } },
+    },
+    ratedTorque: { j1: 5500, j2: 10600, j3: 4600, j4: 1360, j5: 1360, j6: 735 },
+    wristMoment: { j4: 1360, j5: 1360, j6: 735 },
+  },
+  visual: {
+    wristLength: 200,
+    flangeFace: 20,
+  },
+};
+
+// Approximate catalogue values (not calibrated against a controller)
+export const HS180: RobotDescription = {
+  id: 'hs180',
+  name: 'HS180',
+  payload: 180,
+  kinematics: { d1: 600.0, a1: 300.0, a2: 1000.0, a3: 1150.0, d4: 200.0, j2OffsetDeg: 0.0, j3OffsetDeg: -90.0 },
+  limits: {
+    j1: { min: -180, max: 180 },
+    j2: { min: 0, max: 160 },
+    j3: { min: -175, max: 90 },
+    j4: { min: -360, max: 360 },
+    j5: { min: -130, max: 130 },
+    j6: { min: -360, max: 360 },
+  },
+  maxSpeed: { j1: 120, j2: 115, j3: 120, j4: 170, j5: 170, j6: 260 },
+  maxAccel: { j1: 280, j2: 280, j3: 280, j4: 450, j5: 450, j6: 700 },
+  visual: { wristLength: 180, flangeFace: 20 },
+};
+
+export const HX400: RobotDescription = {
+  id: 'hx400',
+  name: 'HX400',
+  payload: 400,
+  kinematics: { d1: 720.0, a1: 400.0, a2: 1200.0, a3: 1300.0, d4: 250.0, j2OffsetDeg: 0.0, j3OffsetDeg: -90.0 },
+  limits: {
+    j1: { min: -180, max: 180 },
+    j2: { min: 10, max: 150 },
+    j3: { min: -170, max: 80 },
+    j4: { min: -360, max: 360 },
+    j5: { min: -125, max: 125 },
+    j6: { min: -360, max: 360 },
+  },
+  maxSpeed: { j1: 85, j2: 80, j3: 80, j4: 100, j5: 100, j6: 170 },
+  maxAccel: { j1: 180, j2: 180, j3: 180, j4: 300, j5: 300, j6: 450 },
+  visual: { wristLength: 240, flangeFace: 25 },
+};
+
+export const BUILT_IN_ROBOTS: RobotDescription[] = [HS220S, HS180, HX400];
+
+/**
+ * Description of a robot instance (falls back to the HS220S for unknown / deleted models)
+ */
+export const findRobotDescription = (models: RobotDescription[], id: string): RobotDescription =>
+  models.find(m => m.id === id) ?? HS220S;
+
+// --- [2] Derived Values ---
+
+/**
+ * Link lengths of the 3D model (Unit: Meters)
+ * Shared by RobotModel (meshes) and the collision hulls so the two cannot drift apart.
+ * Derived from the kinematics: the R2 housing is the end of a3 (R2 rolls about the arm axis, so
+ * where it is drawn does not move the wrist), and the flange face sits d4 past the B pivot.
+ */
+export const visualDimensions = (robot: RobotDescription) => {
+  const { d1, a1, a2, a3, d4 } = robot.kinematics;
+  const wristLength = Math.min(robot.visual.wristLength, a3 / 2);
+  return {
+    baseHeight: d1 / 1000,
+    j1OffsetX: a1 / 1000,
+    link2Length: a2 / 1000,
+    link3Length: (a3 - wristLength) / 1000,
+    wristLength: wristLength / 1000,
+    handLength: (d4 - robot.visual.flangeFace) / 1000,  // B pivot -> flange center
+    flangeFace: robot.visual.flangeFace / 1000,
+  };
+};
+
+export const clampToLimits = (robot: RobotDescription, axis: keyof JointState, value: number): number =>
+  Math.min(Math.max(value, robot.limits[axis].min), robot.limits[axis].max);
+
+// --- [3] Description Files (JSON) ---
+
+export interface RobotDescriptionParseResult {
+  description: RobotDescription | null;
+  error: string | null;
+}
+
+export const robotDescriptionToJson = (robot: RobotDescription): string =>
+  JSON.stringify({ format: ROBOT_FILE_FORMAT, version: ROBOT_FILE_VERSION, ...robot }, null, 2);
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const hasNumbers = (v: unknown, keys: string[]): v is JsonObject => isObject(v) && keys.every(key => isNumber(v[key]));
+
+const isJointValues = (v: unknown): v is JointState => hasNumbers(v, AXES);
+const isLimits = (v: unknown): v is JointLimits =>
+  isObject(v) && AXES.every(axis => {
+    const limit = v[axis];
+    return hasNumbers(limit, ['min', 'max']) && (limit.min as number) < (limit.max as number);
+  });
+const isLinkMass = (v: unknown): v is LinkMass => hasNumbers(v, ['mass']) && hasNumbers(v.cog, ['x', 'y', 'z']);
+const isDynamics = (v: unknown): v is RobotDynamics =>
+  isObject(v) &&
+  isObject(v.links) &&
+  ['turret', 'lowerArm', 'upperArm', 'wrist'].every(link => isLinkMass((v.links as JsonObject)[link])) &&
+  isJointValues(v.ratedTorque) &&
+  hasNumbers(v.wristMoment, ['j4', 'j5', 'j6']);
+const isKinematics = (v: unknown): v is RobotDescription['kinematics'] => hasNumbers(v, ['d1', 'a1', 'a2', 'a3', 'd4']);
+const isLinkMesh = (v: unknown): v is CellMesh => isObject(v) && Array.isArray(v.positions);
+
+export const parseRobotDescriptionJson = (text: string): RobotDescriptionParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { description: null, error: 'Not a valid JSON file.' };
+  }
+  if (!isObject(data) || data.format !== ROBOT_FILE_FORMAT) return { description: null, error: 'Not an H220 robot description.' };
+  if (isNumber(data.version) && data.version > ROBOT_FILE_VERSION) {
+    return { description: null, error: `Robot description version ${data.version} is newer than this simulator.` };
+  }
+  if (typeof data.id !== 'string' || typeof data.name !== 'string') {
+    return { description: null, error: 'Robot description is missing its id or name.' };
+  }
+  const k = data.kinematics;
+  if (!isKinematics(k)) {
+    return { description: null, error: 'Kinematics need d1, a1, a2, a3 and d4 (mm).' };
+  }
+  if (!(k.a2 > 0 && k.a3 > 0)) return { description: null, error: 'Arm lengths a2 and a3 must be positive.' };
+  if (!isLimits(data.limits)) return { description: null, error: 'Joint limits need a min below the max for J1 ~ J6.' };
+  if (!isJointValues(data.maxSpeed)) return { description: null, error: 'Axis speeds are missing for J1 ~ J6.' };
+
+  const visual = isObject(data.visual) ? data.visual : {};
+  const meshes = isObject(visual.meshes) ? visual.meshes : {};
+  const invalidMesh = Object.keys(meshes).find(link => !LINKS.includes(link as RobotLink) || !isLinkMesh(meshes[link]));
+  if (invalidMesh) return { description: null, error: `Visual mesh "${invalidMesh}" is malformed.` };
+
+  return {
+    description: {
+      id: data.id,
+      name: data.name,
+      payload: isNumber(data.payload) ? data.payload : 0,
+      kinematics: {
+        j2OffsetDeg: isNumber(k.j2OffsetDeg) ? k.j2OffsetDeg : 0,
+        j3OffsetDeg: isNumber(k.j3OffsetDeg) ? k.j3OffsetDeg : -90,
+        d1: k.d1, a1: k.a1, a2: k.a2, a3: k.a3, d4: k.d4,
+      },
+      limits: data.limits,
+      maxSpeed: data.maxSpeed,
+      maxAccel: isJointValues(data.maxAccel) ? data.maxAccel : { ...HS220S.maxAccel },
+      dynamics: isDynamics(data.dynamics) ? data.dynamics : undefined,
+      visual: {
+        wristLength: isNumber(visual.wristLength) ? visual.wristLength : HS220S.visual.wristLength,
+        flangeFace: isNumber(visual.flangeFace) ? visual.flangeFace : HS220S.visual.flangeFace,
+        ...(Object.keys(meshes).length > 0 ? { meshes: meshes as Partial<Record<RobotLink, CellMesh>> } : {}),
+      },
+    },
+    error: null,
+  };
+};
+
+// --- [4] URDF Import ---
+
+interface UrdfJoint {
+  name: string;
+  type: string;
+  xyz: [number, number, number];
+  axis: [number, number, number];
+  lower: number;
+  upper: number;
+  velocity: number;
+}
+
+const attribute = (tag: string, name: string): string | null =>
+  new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`).exec(tag)?.[1] ?? null;
+
+const triple = (text: string | null, fallback: [number, number, number]): [number, number, number] => {
+  const values = (text ?? '').trim().split(/\s+/).map(Number);
+  return values.length === 3 && values.every(v => !isNaN(v)) ? (values as [number, number, number]) : fallback;
+};
+
+const parseUrdfJoints = (text: string): UrdfJoint[] => {
+  const joints: UrdfJoint[] = [];
+  const pattern = /<joint\b([^>]*)>([\s\S]*?)<\/joint>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const body = match[2];
+    const tag = (name: string) => new RegExp(`<${name}\\b[^>]*>`).exec(body)?.[0] ?? '';
+    const limit = tag('limit');
+    joints.push({
+      name: attribute(match[1], 'name') ?? '',
+      type: attribute(match[1], 'type') ?? '',
+      xyz: triple(attribute(tag('origin'), 'xyz'), [0, 0, 0]),
+      axis: triple(attribute(tag('axis'), 'xyz'), [1, 0, 0]),
+      lower: parseFloat(attribute(limit, 'lower') ?? 'NaN'),
+      upper: parseFloat(attribute(limit, 'upper') ?? 'NaN'),
+      velocity: parseFloat(attribute(limit, 'velocity') ?? 'NaN'),
+    });
+  }
+  return joints;
+};
+
+// Controller angle = sign * URDF angle + offset (URDF zero: lower arm vertical, upper arm horizontal)
+// The sign follows each axis direction against the H220 chain (S about +Z, the others about -Y / -X).
+const URDF_AXIS_MAP: Array<{ axis: 0 | 1 | 2; sign: number; offset: number }> = [
+  { axis: 2, sign: 1, offset: 0 },   // S
+  { axis: 1, sign: -1, offset: 90 }, // H
+  { axis: 1, sign: -1, offset: 0 },  // V
+  { axis: 0, sign: -1, offset: 0 },  // R2
+  { axis: 1, sign: -1, offset: 0 },  // B
+  { axis: 0, sign: -1, offset: 0 },  // R1
+];
+
+const r2d = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Reads a ROS-Industrial style URDF of a 6-axis elbow robot with a spherical wrist
+ * - The first six revolute joints are S, H, V, R2, B, R1 (meters / radians in the file)
+ * - Link lengths come from the joint origins, limits and speeds from the <limit> tags
+ * - The fixed joint after R1 (flange / tool0), if any, becomes d4
+ * Accelerations are not part of URDF and are taken from the HS220S.
+ */
+export const parseUrdf = (text: string, fileName: string): RobotDescriptionParseResult => {
+  const robotTag = /<robot\b[^>]*>/.exec(text)?.[0];
+  if (!robotTag) return { description: null, error: 'Not a URDF file (no <robot> element).' };
+
+  const all = parseUrdfJoints(text);
+  const revolute = all.filter(j => j.type === 'revolute' || j.type === 'continuous');
+  if (revolute.length < 6) {
+    return { description: null, error: `Found ${revolute.length} revolute joints; a 6-axis arm needs 6.` };
+  }
+  const [s, h, v, r2, b, r1] = revolute;
+  const flange = all.slice(all.indexOf(r1) + 1).find(j => j.type === 'fixed');
+  const mm = (m: number) => +(m * 1000).toFixed(3);
+
+  // Elbow offset (V -> R2 above the upper arm axis) is not part of the H220 chain
+  if (Math.abs(r2.xyz[2]) > 0.05) {
+    return { description: null, error: 'Upper arm elbow offsets over 50 mm are not supported.' };
+  }
+
+  const limits = {} as JointLimits;
+  const maxSpeed = {} as JointState;
+  const dominant = (axis: [number, number, number]) =>
+    [0, 1, 2].reduce((best, i) => (Math.abs(axis[i]) > Math.abs(axis[best]) ? i : best), 0);
+
+  for (let i = 0; i < 6; i++) {
+    const joint = revolute[i];
+    const map = URDF_AXIS_MAP[i];
+    if (dominant(joint.axis) !== map.axis) {
+      return { description: null, error: `Joint "${joint.name}" turns about an axis the H220 chain does not have.` };
+    }
+    const sign = map.sign * Math.sign(joint.axis[map.axis]);
+    const lower = isNaN(joint.lower) ? -Math.PI : joint.lower;
+    const upper = isNaN(joint.upper) ? Math.PI : joint.upper;
+    const ends = [sign * r2d(lower) + map.offset, sign * r2d(upper) + map.offset];
+    limits[AXES[i]] = { min: +Math.min(...ends).toFixed(2), max: +Math.max(...ends).toFixed(2) };
+    maxSpeed[AXES[i]] = isNaN(joint.velocity) ? HS220S.maxSpeed[AXES[i]] : +r2d(joint.velocity).toFixed(1);
+  }
+
+  const id = (attribute(robotTag, 'name') ?? fileName.replace(/\.[^.]+$/, '')).trim() || 'urdf-robot';
+  return {
+    description: {
+      id: id.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      name: id,
+      payload: 0,
+      kinematics: {
+        d1: mm(s.xyz[2] + h.xyz[2]),
+        a1: mm(h.xyz[0]),
+        a2: mm(Math.hypot(...v.xyz)),
+        a3: mm(r2.xyz[0] + b.xyz[0]),
+        d4: mm(r1.xyz[0] + (flange?.xyz[0] ?? 0)),
+        j2OffsetDeg: 0,
+        j3OffsetDeg: -90,
+      },
+      limits,
+      maxSpeed,
+      maxAccel: { ...HS220S.maxAccel },
+      visual: { ...HS220S.visual },
+    },
+    error: null,
+  };
+};
+
+/**
+ * JSON description or URDF, picked by the file extension
+ */
+export const importRobotDescription = (fileName: string, text: string): RobotDescriptionParseResult =>
+  /\.(urdf|xml)$/i.test(fileName) ? parseUrdf(text, fileName) : parseRobotDescriptionJson(text);
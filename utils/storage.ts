@@ -0,0 +1,20 @@
+// Browser localStorage helpers (JSON, fail-soft when storage is unavailable or corrupt)
+const STORAGE_PREFIX = 'h220sim:';
+
+export const loadFromStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to load "${key}" from storage:`, error);
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T>(key: string, value: T) => {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save "${key}" to storage:`, error);
+  }
+};
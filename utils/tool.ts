@@ -0,0 +1,50 @@
+import { JointState, RobotDescription, Vector3 } from "../types";
+import { calculateForwardKinematics } from "./kinematics";
+import { solveLeastSquares } from "./linalg";
+
+export interface TcpCalibrationResult {
+  tcp: Vector3;      // TCP offset in the flange frame (mm)
+  point: Vector3;    // The fixed reference point in the base frame (mm)
+  maxError: number;  // Largest distance from a recorded TCP to the reference point (mm)
+}
+
+export const TCP_CALIBRATION_POINTS = 4;
+
+/**
+ * 4-Point TCP Calibration (Teach Pendant Method)
+ * - Each recorded pose touches the same fixed point with a different wrist orientation
+ * - Flange R_i * t + p_i = P for every pose  =>  [R_i  -I] [t; P] = -p_i
+ * - Solved as a least-squares problem; returns null if the orientations are too similar
+ */
+export const calibrateTcpFourPoint = (samples: JointState[], robot?: RobotDescription): TcpCalibrationResult | null => {
+  if (samples.length < TCP_CALIBRATION_POINTS) return null;
+
+  const flanges = samples.map((joints) => calculateForwardKinematics(joints, { robot }).matrix);
+
+  // 1. Stack 3 equations per pose: unknowns [tx, ty, tz, Px, Py, Pz]
+  const A: number[][] = [];
+  const b: number[] = [];
+  flanges.forEach((m) => {
+    for (let r = 0; r < 3; r++) {
+      A.push([m[r][0], m[r][1], m[r][2], r === 0 ? -1 : 0, r === 1 ? -1 : 0, r === 2 ? -1 : 0]);
+      b.push(-m[r][3]);
+    }
+  });
+
+  const x = solveLeastSquares(A, b);
+  if (!x) return null;
+  const [tx, ty, tz, px, py, pz] = x;
+
+  // 2. Residual: where each pose actually puts the computed TCP
+  const maxError = Math.max(...flanges.map((m) => Math.hypot(
+    m[0][0] * tx + m[0][1] * ty + m[0][2] * tz + m[0][3] - px,
+    m[1][0] * tx + m[1][1] * ty + m[1][2] * tz + m[1][3] - py,
+    m[2][0] * tx + m[2][1] * ty + m[2][2] * tz + m[2][3] - pz,
+  )));
+
+  return {
+    tcp: { x: tx, y: ty, z: tz },
+    point: { x: px, y: py, z: pz },
+    maxError,
+  };
+};
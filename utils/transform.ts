@@ -0,0 +1,208 @@
+import { Pose } from "../types";
+
+// 4x4 Homogeneous Transform (Row-major, translation in mm)
+export type Matrix4 = number[][];
+
+// Helper: Degrees to Radians
+const d2r = (deg: number) => (deg * Math.PI) / 180.0;
+// Helper: Radians to Degrees
+const r2d = (rad: number) => (rad * 180.0) / Math.PI;
+
+export const identityMatrix = (): Matrix4 => [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [0, 0, 0, 1],
+];
+
+export const multiplyMatrices = (...matrices: Matrix4[]): Matrix4 =>
+  matrices.reduce((a, b) =>
+    a.map((row) => [0, 1, 2, 3].map((c) =>
+      row[0] * b[0][c] + row[1] * b[1][c] + row[2] * b[2][c] + row[3] * b[3][c]
+    ))
+  , identityMatrix());
+
+export const translationMatrix = (x: number, y: number, z: number): Matrix4 => [
+  [1, 0, 0, x],
+  [0, 1, 0, y],
+  [0, 0, 1, z],
+  [0, 0, 0, 1],
+];
+
+// Elementary rotations (Angle in radians, right-handed)
+export const rotationX = (rad: number): Matrix4 => {
+  const c = Math.cos(rad), s = Math.sin(rad);
+  return [
+    [1, 0, 0, 0],
+    [0, c, -s, 0],
+    [0, s, c, 0],
+    [0, 0, 0, 1],
+  ];
+};
+
+export const rotationY = (rad: number): Matrix4 => {
+  const c = Math.cos(rad), s = Math.sin(rad);
+  return [
+    [c, 0, s, 0],
+    [0, 1, 0, 0],
+    [-s, 0, c, 0],
+    [0, 0, 0, 1],
+  ];
+};
+
+export const rotationZ = (rad: number): Matrix4 => {
+  const c = Math.cos(rad), s = Math.sin(rad);
+  return [
+    [c, -s, 0, 0],
+    [s, c, 0, 0],
+    [0, 0, 1, 0],
+    [0, 0, 0, 1],
+  ];
+};
+
+/**
+ * Inverse of a rigid transform: [R | p]^-1 = [R^T | -R^T p]
+ */
+export const invertTransform = (m: Matrix4): Matrix4 => {
+  const inv = identityMatrix();
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) inv[r][c] = m[c][r];
+    inv[r][3] = -(m[0][r] * m[0][3] + m[1][r] * m[1][3] + m[2][r] * m[2][3]);
+  }
+  return inv;
+};
+
+export const transformPoint = (m: Matrix4, p: [number, number, number]): [number, number, number] => [
+  m[0][0] * p[0] + m[0][1] * p[1] + m[0][2] * p[2] + m[0][3],
+  m[1][0] * p[0] + m[1][1] * p[1] + m[1][2] * p[2] + m[1][3],
+  m[2][0] * p[0] + m[2][1] * p[1] + m[2][2] * p[2] + m[2][3],
+];
+
+/**
+ * Pose -> Matrix using the Hyundai RX/RY/RZ convention:
+ * Rotations about the fixed base X, then Y, then Z  =>  R = Rz(RZ) * Ry(RY) * Rx(RX)
+ */
+export const poseToMatrix = (pose: Pose): Matrix4 =>
+  multiplyMatrices(
+    translationMatrix(pose.x, pose.y, pose.z),
+    rotationZ(d2r(pose.rz)),
+    rotationY(d2r(pose.ry)),
+    rotationX(d2r(pose.rx)),
+  );
+
+// Keep +180 instead of -180 (atan2 returns -180 for tiny negative residuals)
+const wrapDeg = (deg: number) => (deg <= -179.995 ? 180.0 : deg);
+
+/**
+ * Matrix -> Pose (Inverse of poseToMatrix)
+ * - RY is kept within [-90, 90]
+ * - At RY = +/-90 (gimbal lock) RZ is fixed to 0 and the remaining rotation goes into RX
+ */
+export const matrixToPose = (m: Matrix4): Pose => {
+  const cy = Math.hypot(m[0][0], m[1][0]);
+  const ry = Math.atan2(-m[2][0], cy);
+
+  let rx: number;
+  let rz: number;
+  if (cy > 1e-9) {
+    rx = Math.atan2(m[2][1], m[2][2]);
+    rz = Math.atan2(m[1][0], m[0][0]);
+  } else {
+    rz = 0.0;
+    rx = ry > 0 ? Math.atan2(m[0][1], m[1][1]) : Math.atan2(-m[0][1], m[1][1]);
+  }
+
+  return {
+    x: m[0][3],
+    y: m[1][3],
+    z: m[2][3],
+    rx: wrapDeg(r2d(rx)),
+    ry: r2d(ry),
+    rz: wrapDeg(r2d(rz)),
+  };
+};
+
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Rotation block -> Unit quaternion (Shepperd's method, w >= 0)
+ */
+export const matrixToQuaternion = (m: Matrix4): Quaternion => {
+  const trace = m[0][0] + m[1][1] + m[2][2];
+  let q: Quaternion;
+
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1.0) * 2;
+    q = { w: 0.25 * s, x: (m[2][1] - m[1][2]) / s, y: (m[0][2] - m[2][0]) / s, z: (m[1][0] - m[0][1]) / s };
+  } else if (m[0][0] > m[1][1] && m[0][0] > m[2][2]) {
+    const s = Math.sqrt(1.0 + m[0][0] - m[1][1] - m[2][2]) * 2;
+    q = { w: (m[2][1] - m[1][2]) / s, x: 0.25 * s, y: (m[0][1] + m[1][0]) / s, z: (m[0][2] + m[2][0]) / s };
+  } else if (m[1][1] > m[2][2]) {
+    const s = Math.sqrt(1.0 + m[1][1] - m[0][0] - m[2][2]) * 2;
+    q = { w: (m[0][2] - m[2][0]) / s, x: (m[0][1] + m[1][0]) / s, y: 0.25 * s, z: (m[1][2] + m[2][1]) / s };
+  } else {
+    const s = Math.sqrt(1.0 + m[2][2] - m[0][0] - m[1][1]) * 2;
+    q = { w: (m[1][0] - m[0][1]) / s, x: (m[0][2] + m[2][0]) / s, y: (m[1][2] + m[2][1]) / s, z: 0.25 * s };
+  }
+
+  // Keep the hemisphere stable (q and -q are the same rotation)
+  if (q.w < 0) q = { w: -q.w, x: -q.x, y: -q.y, z: -q.z };
+  return q;
+};
+
+/**
+ * Unit quaternion (+ optional position in mm) -> Homogeneous transform
+ */
+export const quaternionToMatrix = (q: Quaternion, position: [number, number, number] = [0, 0, 0]): Matrix4 => {
+  const { w, x, y, z } = q;
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y), position[0]],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x), position[1]],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y), position[2]],
+    [0, 0, 0, 1],
+  ];
+};
+
+// Rotation angle between two orientations (rad)
+export const quaternionAngle = (a: Quaternion, b: Quaternion): number => {
+  const dot = Math.abs(a.w * b.w + a.x * b.x + a.y * b.y + a.z * b.z);
+  return 2 * Math.acos(Math.min(1, dot));
+};
+
+/**
+ * Spherical linear interpolation (Shortest path, t in [0, 1])
+ */
+export const slerpQuaternion = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  let dot = a.w * b.w + a.x * b.x + a.y * b.y + a.z * b.z;
+  let end = b;
+  if (dot < 0) {
+    dot = -dot;
+    end = { w: -b.w, x: -b.x, y: -b.y, z: -b.z };
+  }
+
+  // Nearly identical orientations: linear blend avoids dividing by sin(~0)
+  let wa: number;
+  let wb: number;
+  if (dot > 0.9995) {
+    wa = 1 - t;
+    wb = t;
+  } else {
+    const theta = Math.acos(dot);
+    wa = Math.sin((1 - t) * theta) / Math.sin(theta);
+    wb = Math.sin(t * theta) / Math.sin(theta);
+  }
+
+  const q = {
+    w: wa * a.w + wb * end.w,
+    x: wa * a.x + wb * end.x,
+    y: wa * a.y + wb * end.y,
+    z: wa * a.z + wb * end.z,
+  };
+  const n = Math.hypot(q.w, q.x, q.y, q.z);
+  return { w: q.w / n, x: q.x / n, y: q.y / n, z: q.z / n };
+};
@@ -0,0 +1,75 @@
+import { JointState, Pose, RobotDescription, Vector3 } from "../types";
+import { calculateForwardKinematics } from "./kinematics";
+import { invertTransform, matrixToPose, multiplyMatrices, poseToMatrix } from "./transform";
+
+export interface UserFrameTeachResult {
+  frame: Pose;         // User frame relative to the base (mm / deg)
+  points: Vector3[];   // Taught TCP positions: origin, +X point, XY-plane point
+  skew: number;        // Angle between the taught X direction and the XY-plane point (deg)
+}
+
+export const USER_FRAME_POINTS = 3;
+
+// Below this angle the three points are treated as collinear
+const MIN_SKEW_DEG = 5.0;
+
+type Vec3 = [number, number, number];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (v: Vec3): Vec3 => {
+  const len = Math.hypot(v[0], v[1], v[2]);
+  return [v[0] / len, v[1] / len, v[2] / len];
+};
+
+/**
+ * 3-Point User Frame (Teach Pendant Method)
+ * - P1: origin, P2: a point on +X, P3: any point on the +Y side of the XY plane
+ * - X = P2 - P1, Z = X x (P3 - P1), Y = Z x X
+ * - Returns null when a point is missing, coincides with the origin or the points are (nearly) collinear
+ */
+export const teachUserFrameThreePoint = (
+  samples: JointState[],
+  tcp?: Pose,
+  robot?: RobotDescription,
+): UserFrameTeachResult | null => {
+  if (samples.length < USER_FRAME_POINTS) return null;
+
+  const [o, px, pxy] = samples.map((joints): Vec3 => {
+    const p = calculateForwardKinematics(joints, { tcp, robot });
+    return [p.x, p.y, p.z];
+  });
+
+  const xRaw = sub(px, o);
+  const xyRaw = sub(pxy, o);
+  if (Math.hypot(...xRaw) < 1 || Math.hypot(...xyRaw) < 1) return null;
+
+  // 1. Points must span a plane
+  const xAxis = normalize(xRaw);
+  const xyDir = normalize(xyRaw);
+  const cosSkew = Math.min(Math.max(xAxis[0] * xyDir[0] + xAxis[1] * xyDir[1] + xAxis[2] * xyDir[2], -1), 1);
+  const skew = (Math.acos(cosSkew) * 180) / Math.PI;
+  if (skew < MIN_SKEW_DEG || skew > 180 - MIN_SKEW_DEG) return null;
+
+  // 2. Orthonormal axes -> frame matrix
+  const zAxis = normalize(cross(xAxis, xyRaw));
+  const yAxis = cross(zAxis, xAxis);
+  const frame = matrixToPose([
+    [xAxis[0], yAxis[0], zAxis[0], o[0]],
+    [xAxis[1], yAxis[1], zAxis[1], o[1]],
+    [xAxis[2], yAxis[2], zAxis[2], o[2]],
+    [0, 0, 0, 1],
+  ]);
+
+  return {
+    frame,
+    points: [o, px, pxy].map(([x, y, z]) => ({ x, y, z })),
+    skew,
+  };
+};
+
+/**
+ * Base-frame pose expressed in a user frame (Cartesian readout)
+ */
+export const poseInFrame = (pose: Pose, frame: Pose): Pose =>
+  matrixToPose(multiplyMatrices(invertTransform(poseToMatrix(frame)), poseToMatrix(pose)));
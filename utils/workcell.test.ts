@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CellMesh, DEFAULT_ROBOT, INITIAL_JOINTS, Workcell } from '../types';
+import { createStep } from './program';
+import { createCellObject, createMeshObject, createRobotInstance, parseWorkcellJson, workcellToJson } from './workcell';
+
+const MESH: CellMesh = {
+  fileName: 'fixture.stl',
+  format: 'stl',
+  positions: [0, 0, 0, 100, 0, 0, 0, 100, 50],
+  bounds: { min: { x: 0, y: 0, z: 0 }, max: { x: 100, y: 100, z: 50 } },
+  scale: 1,
+};
+
+const robot = createRobotInstance([]);
+const CELL: Workcell = {
+  name: 'Press Line',
+  robots: [
+    {
+      ...robot,
+      payload: { mass: 12, cog: { x: 0, y: 0, z: 150 } },
+      program: {
+        name: '0002',
+        lines: [
+          createStep(INITIAL_JOINTS, 'linear'),
+          { kind: 'delay', seconds: 0.5, id: 'line-1' },
+          { kind: 'output', port: 1, value: 1, id: 'line-2' },
+          { kind: 'end', id: 'line-3' },
+        ],
+      },
+    },
+    createRobotInstance([robot]),
+  ],
+  objects: [createCellObject('box', 1), createCellObject('cylinder', 2), createMeshObject(MESH)],
+};
+
+// Cell file with one field replaced
+const withField = (path: (cell: any) => void) => {
+  const cell = JSON.parse(workcellToJson(CELL));
+  path(cell);
+  return JSON.stringify(cell);
+};
+
+describe('parseWorkcellJson', () => {
+  it('round-trips a cell file', () => {
+    expect(parseWorkcellJson(workcellToJson(CELL))).toEqual({ workcell: CELL, error: null });
+  });
+
+  it('reads single-robot cells of version 1', () => {
+    const base = { x: 100, y: 0, z: 0, rx: 0, ry: 0, rz: 90 };
+    const { workcell, error } = parseWorkcellJson(JSON.stringify({ format: 'h220sim-cell', version: 1, robotBase: base, objects: [] }));
+    expect(error).toBeNull();
+    expect(workcell!.robots).toEqual([{ ...DEFAULT_ROBOT, base, payload: undefined }]);
+  });
+
+  it.each([
+    ['not JSON', '{', /Not a valid JSON file/],
+    ['another format', '{"format":"other"}', /Not an H220 cell file/],
+    ['a newer version', withField(cell => (cell.version = 99)), /newer than this simulator/],
+    ['no robots', withField(cell => (cell.robots = [])), /missing the robots or objects/],
+    ['a robot without base', withField(cell => delete cell.robots[1].base), /Robot 2 is malformed/],
+    ['two robots with the same id', withField(cell => (cell.robots[1].id = cell.robots[0].id)), /Robot 2 reuses the id/],
+    ['a job that is not a list', withField(cell => (cell.robots[0].program = { lines: 5 })), /Robot 1 has a malformed job/],
+    ['an unknown line kind', withField(cell => (cell.robots[0].program.lines[1].kind = 'jump')), /Robot 1 has a malformed job/],
+    ['a move without target', withField(cell => delete cell.robots[0].program.lines[0].target), /Robot 1 has a malformed job/],
+    ['an unknown shape', withField(cell => (cell.objects[0].shape = 'sphere')), /Object 1 is malformed/],
+    ['a mesh with text coordinates', withField(cell => (cell.objects[2].mesh.positions = ['x'])), /Object 3 is malformed/],
+    ['a mesh without triangles', withField(cell => cell.objects[2].mesh.positions.pop()), /Object 3 is malformed/],
+  ])('rejects %s', (_, text, message) => {
+    const { workcell, error } = parseWorkcellJson(text);
+    expect(workcell).toBeNull();
+    expect(error).toMatch(message);
+  });
+});
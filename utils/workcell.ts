@@ -0,0 +1,301 @@
+import {
+  CellMesh,
+  CellObject,
+  CellObjectShape,
+  JobProgram,
+  JointState,
+  MeshFormat,
+  MoveType,
+  Payload,
+  Pose,
+  ProgramLine,
+  ProgramStep,
+  RobotInstance,
+  SpeedUnit,
+  Vector3,
+  Workcell,
+  DEFAULT_ROBOT,
+  EMPTY_PROGRAM,
+  EMPTY_WORKCELL,
+} from "../types";
+import { createId } from "./id";
+import { normalizeProgram } from "./program";
+import { Matrix4, invertTransform, matrixToPose, multiplyMatrices, poseToMatrix, rotationX, translationMatrix } from "./transform";
+
+// Cell objects are placed in the world (cell) frame: Z up, mm, origin on the floor.
+// Primitive origins sit at the bottom face center, so Z = 0 stands the object on the floor.
+
+const CELL_FILE_FORMAT = 'h220sim-cell';
+const CELL_FILE_VERSION = 2; // 2: several robots (version 1 stored a single robotBase)
+
+const ZERO_POSE: Pose = { x: 0, y: 0, z: 0, rx: 0, ry: 0, rz: 0 };
+
+const DEFAULT_OBJECTS: Record<Exclude<CellObjectShape, 'mesh'>, { name: string; size: Vector3; color: string }> = {
+  box: { name: 'Table', size: { x: 1000, y: 1000, z: 800 }, color: '#38BDF8' },
+  cylinder: { name: 'Pillar', size: { x: 400, y: 400, z: 1200 }, color: '#A78BFA' },
+};
+
+// Spacing between robots added to the cell (along world Y)
+const ROBOT_SPACING_MM = 3000;
+
+// --- [1] Robots & Objects ---
+
+/**
+ * New robot placed beside the last one (same model), with the flange tool and an empty job
+ */
+export const createRobotInstance = (robots: RobotInstance[]): RobotInstance => {
+  const last = robots[robots.length - 1];
+  return {
+    id: createId('robot'),
+    name: `Robot ${robots.length + 1}`,
+    base: last ? { ...last.base, y: last.base.y + ROBOT_SPACING_MM } : { ...ZERO_POSE },
+    modelId: last?.modelId ?? DEFAULT_ROBOT.modelId,
+    toolId: DEFAULT_ROBOT.toolId,
+    program: { ...EMPTY_PROGRAM },
+  };
+};
+
+// Bounding box edge lengths of a mesh after unit scaling (mm)
+export const meshSize = (mesh: CellMesh): Vector3 => ({
+  x: (mesh.bounds.max.x - mesh.bounds.min.x) * mesh.scale,
+  y: (mesh.bounds.max.y - mesh.bounds.min.y) * mesh.scale,
+  z: (mesh.bounds.max.z - mesh.bounds.min.z) * mesh.scale,
+});
+
+/**
+ * New primitive in front of the robot (Default: 1 m table)
+ */
+export const createCellObject = (shape: Exclude<CellObjectShape, 'mesh'>, index: number): CellObject => {
+  const defaults = DEFAULT_OBJECTS[shape];
+  return {
+    id: createId('cell'),
+    name: `${defaults.name} ${index}`,
+    shape,
+    pose: { ...ZERO_POSE, x: 1800 },
+    size: { ...defaults.size },
+    color: defaults.color,
+    obstacle: true,
+  };
+};
+
+export const createMeshObject = (mesh: CellMesh): CellObject => ({
+  id: createId('cell'),
+  name: mesh.fileName.replace(/\.[^.]+$/, ''),
+  shape: 'mesh',
+  pose: { ...ZERO_POSE, x: 1800 },
+  size: meshSize(mesh),
+  mesh,
+  color: '#94A3B8',
+  obstacle: true,
+});
+
+/**
+ * Object-local bounding box (center + half extents, mm)
+ * Cylinders and meshes are bounded conservatively by their box.
+ */
+export const cellObjectBounds = (object: CellObject): { center: [number, number, number]; half: [number, number, number] } => {
+  if (object.shape === 'mesh' && object.mesh) {
+    const { min, max } = object.mesh.bounds;
+    const s = object.mesh.scale;
+    return {
+      center: [((min.x + max.x) / 2) * s, ((min.y + max.y) / 2) * s, ((min.z + max.z) / 2) * s],
+      half: [((max.x - min.x) / 2) * s, ((max.y - min.y) / 2) * s, ((max.z - min.z) / 2) * s],
+    };
+  }
+  const { x, y, z } = object.size;
+  const diameterY = object.shape === 'cylinder' ? x : y;
+  return { center: [0, 0, z / 2], half: [x / 2, diameterY / 2, z / 2] };
+};
+
+// --- [2] Targets ---
+
+/**
+ * TCP pose over the center of the object's top face (raised by `clearance` mm), tool Z pointing down into it.
+ * Returned in the robot base frame so it can be passed straight to IK / moves.
+ */
+export const cellObjectTarget = (object: CellObject, robotBase: Pose, clearance = 0): Pose => {
+  const { center, half } = cellObjectBounds(object);
+  const top: Matrix4 = multiplyMatrices(
+    poseToMatrix(object.pose),
+    translationMatrix(center[0], center[1], center[2] + half[2] + clearance),
+    rotationX(Math.PI),
+  );
+  return matrixToPose(multiplyMatrices(invertTransform(poseToMatrix(robotBase)), top));
+};
+
+// --- [3] Cell Files ---
+
+export interface WorkcellParseResult {
+  workcell: Workcell | null;
+  error: string | null;
+}
+
+export const workcellToJson = (workcell: Workcell): string =>
+  JSON.stringify({ format: CELL_FILE_FORMAT, version: CELL_FILE_VERSION, ...workcell }, null, 2);
+
+type JsonObject = Record<string, unknown>;
+
+const CELL_SHAPES: CellObjectShape[] = ['box', 'cylinder', 'mesh'];
+const MESH_FORMATS: MeshFormat[] = ['stl', 'obj', 'gltf'];
+const MOVE_TYPES: MoveType[] = ['joint', 'linear', 'circular'];
+const SPEED_UNITS: SpeedUnit[] = ['%', 'mm/s'];
+const AXES: Array<keyof JointState> = ['j1', 'j2', 'j3', 'j4', 'j5', 'j6'];
+
+const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const hasNumbers = (v: unknown, keys: string[]): v is JsonObject => isObject(v) && keys.every(key => isNumber(v[key]));
+const isOneOf = <T extends string>(v: unknown, values: T[]): v is T => values.includes(v as T);
+const optional = <T>(v: unknown, guard: (v: unknown) => v is T) => v === undefined || guard(v);
+
+const isVector = (v: unknown): v is Vector3 => hasNumbers(v, ['x', 'y', 'z']);
+const isPose = (v: unknown): v is Pose => hasNumbers(v, ['x', 'y', 'z', 'rx', 'ry', 'rz']);
+const isPayload = (v: unknown): v is Payload => hasNumbers(v, ['mass']) && isVector(v.cog);
+
+// Triangle list of finite coordinates (3 vertices x 3 values per triangle)
+const isMesh = (v: unknown): v is CellMesh =>
+  isObject(v) &&
+  isString(v.fileName) &&
+  isOneOf(v.format, MESH_FORMATS) &&
+  Array.isArray(v.positions) && v.positions.length % 9 === 0 && v.positions.every(isNumber) &&
+  isObject(v.bounds) && isVector(v.bounds.min) && isVector(v.bounds.max) &&
+  isNumber(v.scale) && v.scale > 0;
+
+const isCellObject = (v: unknown): v is JsonObject & Pick<CellObject, 'id' | 'shape' | 'pose' | 'size'> =>
+  isObject(v) &&
+  isString(v.id) &&
+  isOneOf(v.shape, CELL_SHAPES) &&
+  isPose(v.pose) &&
+  isVector(v.size) &&
+  (v.shape !== 'mesh' || isMesh(v.mesh)) &&
+  optional(v.name, isString) && optional(v.color, isString) && optional(v.obstacle, (o): o is boolean => typeof o === 'boolean');
+
+const isMoveStep = (v: JsonObject): v is JsonObject & ProgramStep =>
+  isString(v.id) &&
+  isOneOf(v.moveType, MOVE_TYPES) &&
+  hasNumbers(v.target, AXES) &&
+  isNumber(v.speed) && isOneOf(v.speedUnit, SPEED_UNITS) && isNumber(v.accuracy) && isNumber(v.wait) &&
+  optional(v.tool, isNumber) && optional(v.poseVariable, isString);
+
+const isProgramLine = (v: unknown): v is ProgramLine => {
+  if (!isObject(v) || !isString(v.id)) return false;
+  switch (v.kind) {
+    case 'move': return isMoveStep(v);
+    case 'delay': return isNumber(v.seconds);
+    case 'output':
+    case 'waitInput': return isNumber(v.port) && isNumber(v.value);
+    case 'label':
+    case 'goto': return isString(v.label);
+    case 'end': return true;
+    default: return false;
+  }
+};
+
+/**
+ * Stored job -> Program model; null when the job or one of its lines is malformed
+ * (jobs stored before control statements existed list their moves as "steps")
+ */
+const parseStoredProgram = (v: unknown): JobProgram | null => {
+  if (v === undefined) return { ...EMPTY_PROGRAM };
+  if (!isObject(v) || !optional(v.name, isString)) return null;
+  const lines = v.lines ?? (Array.isArray(v.steps) ? v.steps.map(step => (isObject(step) ? { ...step, kind: 'move' } : step)) : []);
+  if (!Array.isArray(lines) || !lines.every(isProgramLine)) return null;
+  return normalizeProgram({ name: isString(v.name) ? v.name : undefined, lines });
+};
+
+const isRobot = (v: unknown): v is JsonObject & Pick<RobotInstance, 'id' | 'base'> =>
+  isObject(v) &&
+  isString(v.id) &&
+  isPose(v.base) &&
+  optional(v.name, isString) && optional(v.modelId, isString) && optional(v.toolId, isString);
+
+export const parseWorkcellJson = (text: string): WorkcellParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { workcell: null, error: 'Not a valid JSON file.' };
+  }
+  if (!isObject(data) || data.format !== CELL_FILE_FORMAT) return { workcell: null, error: 'Not an H220 cell file.' };
+  if (isNumber(data.version) && data.version > CELL_FILE_VERSION) {
+    return { workcell: null, error: `Cell file version ${data.version} is newer than this simulator.` };
+  }
+  const storedRobots: unknown[] | null = Array.isArray(data.robots)
+    ? data.robots
+    : isPose(data.robotBase) ? [{ ...DEFAULT_ROBOT, base: data.robotBase }] : null;
+  if (!storedRobots || storedRobots.length === 0 || !Array.isArray(data.objects)) {
+    return { workcell: null, error: 'Cell file is missing the robots or objects.' };
+  }
+
+  const robots: RobotInstance[] = [];
+  for (const [index, r] of storedRobots.entries()) {
+    if (!isRobot(r)) return { workcell: null, error: `Robot ${index + 1} is malformed.` };
+    // Robot state (joints, history, planner) is keyed by id
+    if (robots.some(other => other.id === r.id)) return { workcell: null, error: `Robot ${index + 1} reuses the id "${r.id}".` };
+    const program = parseStoredProgram(r.program);
+    if (!program) return { workcell: null, error: `Robot ${index + 1} has a malformed job.` };
+    robots.push({
+      id: r.id,
+      name: isString(r.name) ? r.name : r.id,
+      base: r.base,
+      modelId: isString(r.modelId) ? r.modelId : DEFAULT_ROBOT.modelId,
+      toolId: isString(r.toolId) ? r.toolId : DEFAULT_ROBOT.toolId,
+      program,
+      payload: isPayload(r.payload) ? { mass: r.payload.mass, cog: r.payload.cog } : undefined,
+    });
+  }
+
+  const objects: CellObject[] = [];
+  for (const [index, o] of data.objects.entries()) {
+    if (!isCellObject(o)) return { workcell: null, error: `Object ${index + 1} is malformed.` };
+    objects.push({
+      id: o.id,
+      name: isString(o.name) ? o.name : o.id,
+      shape: o.shape,
+      pose: o.pose,
+      size: o.size,
+      mesh: o.shape === 'mesh' && isMesh(o.mesh) ? o.mesh : undefined,
+      color: isString(o.color) ? o.color : o.shape === 'mesh' ? '#94A3B8' : DEFAULT_OBJECTS[o.shape].color,
+      obstacle: o.obstacle !== false,
+    });
+  }
+
+  return {
+    workcell: { name: isString(data.name) ? data.name : EMPTY_WORKCELL.name, robots, objects },
+    error: null,
+  };
+};
+
+export interface LegacyCellState {
+  obstacles?: Array<{ id: string; name: string; center: Vector3; size: Vector3 }>; // Before the cell editor
+  program?: JobProgram; // Before programs belonged to a robot
+  toolId?: string;
+}
+
+/**
+ * Upgrades stored cells from older releases:
+ * - No cell yet: obstacles (axis-aligned boxes given by their center) become box objects
+ * - Single-robot cells (robotBase): the robot takes over the stored job and active tool
+ * - Robots stored before robot models existed are HS220S
+ */
+export const normalizeWorkcell = (
+  stored: (Partial<Workcell> & { robotBase?: Pose }) | null,
+  legacy: LegacyCellState = {},
+): Workcell => {
+  const robots = stored?.robots?.map(r => ({ ...r, modelId: r.modelId ?? DEFAULT_ROBOT.modelId })) ?? [{
+    ...DEFAULT_ROBOT,
+    base: stored?.robotBase ?? DEFAULT_ROBOT.base,
+    toolId: legacy.toolId ?? DEFAULT_ROBOT.toolId,
+    program: normalizeProgram(legacy.program ?? EMPTY_PROGRAM),
+  }];
+  const objects = stored?.objects ?? (legacy.obstacles ?? []).map(o => ({
+    id: o.id,
+    name: o.name,
+    shape: 'box' as const,
+    pose: { ...ZERO_POSE, x: o.center.x, y: o.center.y, z: o.center.z - o.size.z / 2 },
+    size: { ...o.size },
+    color: DEFAULT_OBJECTS.box.color,
+    obstacle: true,
+  }));
+  return { name: stored?.name ?? EMPTY_WORKCELL.name, robots, objects };
+};
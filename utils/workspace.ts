@@ -0,0 +1,189 @@
+import { Pose, RobotDescription } from "../types";
+import { calculateArmTransform, calculateWristTransform } from "./kinematics";
+import { Matrix4, multiplyMatrices, poseToMatrix, transformPoint } from "./transform";
+import { HS220S } from "./robotDescription";
+
+// --- [1] Sampling Resolution ---
+
+const ARM_STEP_DEG = 2.0;    // H / V grid
+const WRIST_STEP_DEG = 20.0; // B grid (and R2 when the tool is offset from the R1 axis)
+const CELL_MM = 40.0;        // Side-view occupancy grid cell
+const CLOUD_S_STEP_DEG = 15.0;
+
+export interface ProfilePoint {
+  r: number; // Horizontal distance from the S axis (mm)
+  z: number; // Height above the base (mm)
+}
+
+export interface ReachEnvelope {
+  profile: ProfilePoint[];       // Closed side-view outline (outer edge bottom -> top, inner edge top -> bottom)
+  boundary: ProfilePoint[];      // Side-view cells on the edge of the reachable area
+  sRange: { min: number; max: number }; // Revolution range (deg)
+  maxReach: number;              // mm
+  minZ: number;
+  maxZ: number;
+  sampleCount: number;
+}
+
+const range = (min: number, max: number, step: number) => {
+  const values: number[] = [];
+  for (let v = min; v <= max + 1e-9; v += step) values.push(v);
+  return values;
+};
+
+/**
+ * TCP positions in the upper arm frame for every sampled wrist pose
+ * (Deduplicated: without a tool offset every wrist pose lands on the wrist center)
+ */
+const wristSamples = (robot: RobotDescription, tcp?: Pose): Array<[number, number, number]> => {
+  const tcpMatrix: Matrix4 | null = tcp ? poseToMatrix(tcp) : null;
+  const offAxis = !!tcp && Math.hypot(tcp.x, tcp.y, tcp.z) > 1;
+  const r2Values = offAxis ? range(0, 360 - WRIST_STEP_DEG * 2, WRIST_STEP_DEG * 2) : [0];
+  const bValues = range(robot.limits.j5.min, robot.limits.j5.max, WRIST_STEP_DEG);
+
+  const points = new Map<string, [number, number, number]>();
+  r2Values.forEach(j4 => bValues.forEach(j5 => {
+    const wrist = calculateWristTransform({ j1: 0, j2: 0, j3: 0, j4, j5, j6: 0 }, robot);
+    const m = tcpMatrix ? multiplyMatrices(wrist, tcpMatrix) : wrist;
+    const p: [number, number, number] = [m[0][3], m[1][3], m[2][3]];
+    points.set(p.map(v => Math.round(v)).join(','), p);
+  }));
+  return Array.from(points.values());
+};
+
+// --- [2] Envelope ---
+
+/**
+ * Samples H / V / wrist within the robot's joint limits at S = 0 and builds the side-view reach profile.
+ * Rotating the profile through the S range gives the 3D envelope.
+ * Rows of the side view are treated as solid between their innermost and outermost sample.
+ */
+export const computeReachEnvelope = (tcp?: Pose, robot: RobotDescription = HS220S): ReachEnvelope => {
+  const local = wristSamples(robot, tcp);
+  const hValues = range(robot.limits.j2.min, robot.limits.j2.max, ARM_STEP_DEG);
+  const vValues = range(robot.limits.j3.min, robot.limits.j3.max, ARM_STEP_DEG);
+
+  // 1. Occupancy grid in (r, z)
+  const cells = new Set<string>();
+  let sampleCount = 0;
+  hValues.forEach(j2 => vValues.forEach(j3 => {
+    const arm = calculateArmTransform({ j1: 0, j2, j3, j4: 0, j5: 0, j6: 0 }, robot);
+    local.forEach(p => {
+      const [x, y, z] = transformPoint(arm, p);
+      const r = Math.hypot(x, y);
+      cells.add(`${Math.floor(r / CELL_MM)},${Math.floor(z / CELL_MM)}`);
+      sampleCount++;
+    });
+  }));
+
+  // 2. Row extents (z row -> innermost / outermost cell)
+  const rows = new Map<number, { min: number; max: number }>();
+  cells.forEach(key => {
+    const [ri, zi] = key.split(',').map(Number);
+    const row = rows.get(zi);
+    rows.set(zi, row ? { min: Math.min(row.min, ri), max: Math.max(row.max, ri) } : { min: ri, max: ri });
+  });
+  const zIndices = Array.from(rows.keys()).sort((a, b) => a - b);
+
+  // 3. Closed outline: outer edge upwards, inner edge back down
+  const outer: ProfilePoint[] = [];
+  const inner: ProfilePoint[] = [];
+  zIndices.forEach(zi => {
+    const row = rows.get(zi)!;
+    const z = (zi + 0.5) * CELL_MM;
+    outer.push({ r: (row.max + 1) * CELL_MM, z });
+    inner.push({ r: row.min * CELL_MM, z });
+  });
+  const profile = [...outer, ...inner.reverse()];
+
+  // 4. Edge cells (for the point cloud view)
+  const boundary: ProfilePoint[] = [];
+  cells.forEach(key => {
+    const [ri, zi] = key.split(',').map(Number);
+    const isEdge = [[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dr, dz]) => !cells.has(`${ri + dr},${zi + dz}`));
+    if (isEdge) boundary.push({ r: (ri + 0.5) * CELL_MM, z: (zi + 0.5) * CELL_MM });
+  });
+
+  return {
+    profile,
+    boundary,
+    sRange: { min: robot.limits.j1.min, max: robot.limits.j1.max },
+    maxReach: Math.max(...outer.map(p => p.r)),
+    minZ: zIndices[0] * CELL_MM,
+    maxZ: (zIndices[zIndices.length - 1] + 1) * CELL_MM,
+    sampleCount,
+  };
+};
+
+/**
+ * Edge cells revolved through the S range (Base frame, mm)
+ */
+export const envelopePointCloud = (envelope: ReachEnvelope): Array<[number, number, number]> => {
+  const points: Array<[number, number, number]> = [];
+  const { min, max } = envelope.sRange;
+  range(min, max - (max - min >= 360 ? CLOUD_S_STEP_DEG : 0), CLOUD_S_STEP_DEG).forEach(s => {
+    const rad = (s * Math.PI) / 180;
+    envelope.boundary.forEach(p => points.push([p.r * Math.cos(rad), p.r * Math.sin(rad), p.z]));
+  });
+  return points;
+};
+
+// --- [3] Export ---
+
+export const envelopeToCsv = (envelope: ReachEnvelope): string => {
+  const header = [
+    '# H220 reach envelope side-view profile (revolve about the S axis)',
+    `# S range: ${envelope.sRange.min} ~ ${envelope.sRange.max} deg`,
+    'r_mm,z_mm',
+  ];
+  return [...header, ...envelope.profile.map(p => `${p.r.toFixed(1)},${p.z.toFixed(1)}`)].join('\n') + '\n';
+};
+
+type Triangle = [number[], number[], number[]];
+
+/**
+ * Profile revolved through the S range as a triangle list (Base frame, mm, outward winding)
+ */
+export const revolveEnvelope = (envelope: ReachEnvelope, segments = 48): Triangle[] => {
+  const { min, max } = envelope.sRange;
+  const angles = range(0, segments, 1).map(i => ((min + ((max - min) * i) / segments) * Math.PI) / 180);
+  const vertex = (p: ProfilePoint, a: number) => [p.r * Math.cos(a), p.r * Math.sin(a), p.z];
+  const triangles: Triangle[] = [];
+
+  const profile = envelope.profile;
+  for (let i = 0; i < segments; i++) {
+    for (let k = 0; k < profile.length; k++) {
+      const p0 = profile[k];
+      const p1 = profile[(k + 1) % profile.length];
+      const a = vertex(p0, angles[i]);
+      const b = vertex(p0, angles[i + 1]);
+      const c = vertex(p1, angles[i + 1]);
+      const d = vertex(p1, angles[i]);
+      triangles.push([a, b, c], [a, c, d]);
+    }
+  }
+  return triangles;
+};
+
+/**
+ * ASCII STL of the revolved envelope (Base frame, mm)
+ */
+export const envelopeToStl = (envelope: ReachEnvelope): string => {
+  const lines: string[] = ['solid h220_envelope'];
+
+  revolveEnvelope(envelope).forEach(([a, b, c]) => {
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const len = Math.hypot(n[0], n[1], n[2]);
+    if (len < 1e-9) return; // Degenerate (on the S axis)
+    lines.push(`  facet normal ${n.map(x => (x / len).toExponential(4)).join(' ')}`);
+    lines.push('    outer loop');
+    [a, b, c].forEach(p => lines.push(`      vertex ${p.map(x => x.toFixed(2)).join(' ')}`));
+    lines.push('    endloop');
+    lines.push('  endfacet');
+  });
+
+  lines.push('endsolid h220_envelope');
+  return lines.join('\n') + '\n';
+};